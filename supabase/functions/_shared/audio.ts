@@ -0,0 +1,917 @@
+// Audio preprocessing for the recognition providers.
+// Uploads are whole voice notes, recordings or video soundtracks (m4a/AAC, wav, caf), while
+// fingerprinting services match best on a short stretch where the music is loud. preprocessAudio
+// parses the container, trims leading and trailing silence and cuts the loudest windows into
+// standalone segments that are submitted one after another.
+//
+// Linear PCM (wav, caf) is measured by RMS level, and so is AAC once FAAD2 (WASM) has decoded it.
+// AAC that cannot be decoded (or runs past AAC_DECODE_MAX_SECONDS) falls back to each frame's
+// encoded size as its level: silent AAC frames encode to a few bytes. AAC segments are re-wrapped
+// as ADTS without re-encoding, with their decoded samples attached. Anything that cannot be parsed
+// is passed through whole, exactly as it was uploaded.
+
+import { decoder as aacDecoder } from "npm:@audio/decode-aac@1.6.0";
+import { errorMessage } from "./errors.ts";
+
+export type AudioContainer = "m4a" | "wav" | "caf" | "unknown";
+
+export type AudioSegmentFormat = "m4a" | "wav" | "aac" | "caf";
+
+export interface AudioSegment {
+  data: ArrayBuffer;
+  format: AudioSegmentFormat; // Passed to providers as the sample format
+  mimeType: string;
+  startSeconds: number; // Offset into the upload
+  durationSeconds: number | null; // null when the upload is passed through undecoded
+  pcm?: MonoSamples; // When cut from linear PCM or decoded AAC
+}
+
+export interface MonoSamples {
+  samples: Float32Array; // Channels averaged, scaled to [-1, 1]
+  sampleRate: number;
+}
+
+export interface PreprocessedAudio {
+  container: AudioContainer;
+  codec: "pcm" | "aac" | null; // null when the upload could not be parsed
+  durationSeconds: number | null;
+  audibleStartSeconds: number | null; // Span left after trimming silence
+  audibleEndSeconds: number | null;
+  segments: AudioSegment[]; // Loudest first; never empty
+  // Whole recording for Whisper, which wants speech and lyrics rather than the loudest bars
+  transcriptionFile: { data: ArrayBuffer; filename: string; mimeType: string; durationSeconds: number | null };
+}
+
+export interface PreprocessOptions {
+  maxSegments?: number;
+}
+
+// Windows cut from longer recordings (the providers work best on 10-15 s samples)
+const WINDOW_SECONDS = 12;
+// Audible audio up to this long is submitted as a single segment
+const SINGLE_SEGMENT_MAX_SECONDS = 15;
+const MAX_SEGMENTS = 3;
+
+const PCM_BLOCK_SECONDS = 0.1;
+// RMS below this (about -46 dBFS) is silence however quiet the recording is overall
+const PCM_SILENCE_FLOOR = 0.005;
+// Blocks below this fraction of the 95th-percentile level count as silence
+const PCM_SILENCE_RATIO = 0.03;
+const AAC_SILENCE_RATIO = 0.1;
+
+const AAC_FRAME_SAMPLES = 1024;
+// Longer AAC is not decoded, to bound memory (about 50 MB of samples at 44.1 kHz)
+const AAC_DECODE_MAX_SECONDS = 300;
+// Access units handed to the decoder per call
+const AAC_DECODE_BATCH_FRAMES = 256;
+const AAC_SAMPLING_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// Shazam's detect endpoint takes raw 44.1 kHz mono signed 16-bit little-endian PCM, under 500 KB
+// per request; a few seconds is enough for a match
+const SHAZAM_SAMPLE_RATE = 44100;
+const SHAZAM_CHUNK_SECONDS = 5;
+
+const MIME_TYPES: Record<AudioSegmentFormat, string> = {
+  m4a: "audio/m4a",
+  wav: "audio/wav",
+  aac: "audio/aac",
+  caf: "audio/x-caf",
+};
+
+interface LinearPcm {
+  codec: "pcm";
+  data: Uint8Array; // Interleaved frames
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  float: boolean;
+  littleEndian: boolean;
+  unsignedBytes: boolean; // 8-bit WAV is unsigned
+}
+
+interface AacStream {
+  codec: "aac";
+  frames: Uint8Array[]; // Raw access units
+  sampleRate: number;
+  channels: number;
+  objectType: number;
+  pcm?: MonoSamples; // Decoded samples, the same number per frame
+}
+
+type DecodedAudio = LinearPcm | AacStream;
+
+// Where the audible audio is and which windows to submit, in level blocks (end exclusive)
+interface SegmentPlan {
+  audibleStart: number;
+  audibleEnd: number;
+  windows: Array<[number, number]>;
+}
+
+export async function preprocessAudio(buffer: ArrayBuffer, options: PreprocessOptions = {}): Promise<PreprocessedAudio> {
+  const bytes = new Uint8Array(buffer);
+  const container = detectContainer(bytes);
+
+  let audio: DecodedAudio;
+  try {
+    audio = decodeContainer(bytes, container);
+  } catch (error) {
+    console.warn(`Audio preprocessing skipped for ${container} upload: ${errorMessage(error)}`);
+    return passThrough(buffer, container);
+  }
+  if (audio.codec === "aac") {
+    audio = await withDecodedSamples(audio);
+  }
+
+  const blockSeconds = audio.codec === "pcm" ? PCM_BLOCK_SECONDS : AAC_FRAME_SAMPLES / audio.sampleRate;
+  const levels = audio.codec === "pcm" ? pcmLevels(audio) : aacLevels(audio);
+  const durationSeconds = audio.codec === "pcm"
+    ? pcmFrameCount(audio) / audio.sampleRate
+    : audio.frames.length * blockSeconds;
+
+  const plan = planSegments(levels, silenceThreshold(audio, levels), blockSeconds, options.maxSegments ?? MAX_SEGMENTS);
+  if (!plan) {
+    console.warn(`Audio preprocessing found nothing audible in ${durationSeconds.toFixed(1)}s of ${container} audio`);
+    return { ...passThrough(buffer, container, durationSeconds), codec: audio.codec };
+  }
+
+  const segments = plan.windows.map(([start, end]) => cutSegment(audio, start, end, blockSeconds));
+  const transcriptionFile = audio.codec === "pcm" && container !== "wav"
+    ? {
+      data: cutSegment(audio, plan.audibleStart, plan.audibleEnd, blockSeconds).data,
+      filename: "audio.wav",
+      mimeType: MIME_TYPES.wav,
+      durationSeconds: (plan.audibleEnd - plan.audibleStart) * blockSeconds,
+    }
+    : originalFile(buffer, container, durationSeconds);
+
+  return {
+    container,
+    codec: audio.codec,
+    durationSeconds,
+    audibleStartSeconds: plan.audibleStart * blockSeconds,
+    audibleEndSeconds: Math.min(plan.audibleEnd * blockSeconds, durationSeconds),
+    segments,
+    transcriptionFile,
+  };
+}
+
+// Runs `identify` on each segment, loudest first, and returns the first successful result
+// (or the last failure). Stops early once `signal` is aborted.
+export async function identifyFirstMatchingSegment<T extends { success: boolean }>(
+  segments: AudioSegment[],
+  identify: (segment: AudioSegment) => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ result: T; segment: AudioSegment }> {
+  let attempt: { result: T; segment: AudioSegment } | null = null;
+  for (const segment of segments) {
+    attempt = { result: await identify(segment), segment };
+    if (attempt.result.success || signal?.aborted) {
+      break;
+    }
+  }
+  if (!attempt) {
+    throw new Error("No audio segments to identify");
+  }
+  return attempt;
+}
+
+// The segment as Shazam detect payloads: resampled PCM cut into 5-second chunks, tried in order.
+// Segments without samples (AAC that did not decode, unparsed uploads) go as they are, in one
+// piece: Shazam may still recognize the upload, and the other providers run either way.
+export function toShazamChunks(segment: AudioSegment): ArrayBuffer[] {
+  if (!segment.pcm) {
+    return [segment.data];
+  }
+
+  const samples = resample(segment.pcm.samples, segment.pcm.sampleRate, SHAZAM_SAMPLE_RATE);
+  const chunkSamples = SHAZAM_SAMPLE_RATE * SHAZAM_CHUNK_SECONDS;
+  const chunks: ArrayBuffer[] = [];
+  for (let start = 0; start < samples.length; start += chunkSamples) {
+    // A short tail is not worth a request of its own unless it is all there is
+    if (start > 0 && samples.length - start < SHAZAM_SAMPLE_RATE) break;
+    chunks.push(encodePcm16(samples.subarray(start, start + chunkSamples)));
+  }
+  return chunks;
+}
+
+// The whole upload as mono samples, for analysis that needs every sample (fingerprinting).
+// AAC is decoded up to its first AAC_DECODE_MAX_SECONDS; uploads that cannot be decoded give null.
+export async function decodePcmAudio(buffer: ArrayBuffer): Promise<MonoSamples | null> {
+  const bytes = new Uint8Array(buffer);
+  let audio: DecodedAudio;
+  try {
+    audio = decodeContainer(bytes, detectContainer(bytes));
+  } catch {
+    return null;
+  }
+  if (audio.codec === "pcm") {
+    return { samples: readMono(audio, 0, pcmFrameCount(audio)), sampleRate: audio.sampleRate };
+  }
+  try {
+    return await decodeAac(audio, Math.floor(AAC_DECODE_MAX_SECONDS * audio.sampleRate / AAC_FRAME_SAMPLES));
+  } catch (error) {
+    console.warn(`AAC decoding failed: ${errorMessage(error)}`);
+    return null;
+  }
+}
+
+function detectContainer(bytes: Uint8Array): AudioContainer {
+  if (fourCC(bytes, 0) === "RIFF" && fourCC(bytes, 8) === "WAVE") return "wav";
+  if (fourCC(bytes, 0) === "caff") return "caf";
+  // ISO base media (m4a, mp4, mov): most files open with ftyp, older QuickTime files with moov/wide/mdat
+  if (["ftyp", "moov", "wide", "mdat", "free"].includes(fourCC(bytes, 4))) return "m4a";
+  return "unknown";
+}
+
+function decodeContainer(bytes: Uint8Array, container: AudioContainer): DecodedAudio {
+  switch (container) {
+    case "wav":
+      return checkPcm(parseWav(bytes));
+    case "caf": {
+      const audio = parseCaf(bytes);
+      return audio.codec === "pcm" ? checkPcm(audio) : checkAac(audio);
+    }
+    case "m4a":
+      return checkAac(parseMp4(bytes));
+    default:
+      throw new Error("Unrecognized audio container");
+  }
+}
+
+function passThrough(buffer: ArrayBuffer, container: AudioContainer, durationSeconds: number | null = null): PreprocessedAudio {
+  const file = originalFile(buffer, container, durationSeconds);
+  const format: AudioSegmentFormat = container === "unknown" ? "m4a" : container;
+  return {
+    container,
+    codec: null,
+    durationSeconds,
+    audibleStartSeconds: null,
+    audibleEndSeconds: null,
+    segments: [{ data: buffer, format, mimeType: MIME_TYPES[format], startSeconds: 0, durationSeconds: null }],
+    transcriptionFile: file,
+  };
+}
+
+// Unknown uploads keep the m4a label the app has always used for recordings
+function originalFile(buffer: ArrayBuffer, container: AudioContainer, durationSeconds: number | null) {
+  const format: AudioSegmentFormat = container === "unknown" ? "m4a" : container;
+  return { data: buffer, filename: `audio.${format}`, mimeType: MIME_TYPES[format], durationSeconds };
+}
+
+// ---------- Level analysis ----------
+
+function silenceThreshold(audio: DecodedAudio, levels: number[]): number {
+  const sorted = [...levels].sort((a, b) => a - b);
+  const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] ?? 0;
+  return audio.codec === "pcm" || audio.pcm
+    ? Math.max(PCM_SILENCE_FLOOR, p95 * PCM_SILENCE_RATIO)
+    : p95 * AAC_SILENCE_RATIO;
+}
+
+// Trims silent blocks from both ends and picks up to `maxSegments` non-overlapping windows with the
+// highest mean level. Returns null when no block is above the silence threshold.
+function planSegments(
+  levels: number[],
+  threshold: number,
+  blockSeconds: number,
+  maxSegments: number
+): SegmentPlan | null {
+  const audibleStart = levels.findIndex((level) => level >= threshold && level > 0);
+  if (audibleStart < 0) {
+    return null;
+  }
+  let last = levels.length - 1;
+  while (last > audibleStart && levels[last] < threshold) last--;
+  const audibleEnd = last + 1;
+
+  if ((audibleEnd - audibleStart) * blockSeconds <= SINGLE_SEGMENT_MAX_SECONDS) {
+    return { audibleStart, audibleEnd, windows: [[audibleStart, audibleEnd]] };
+  }
+
+  const windowBlocks = Math.max(1, Math.round(WINDOW_SECONDS / blockSeconds));
+  const prefix = [0];
+  for (const level of levels) prefix.push(prefix[prefix.length - 1] + level);
+
+  const windows: Array<[number, number]> = [];
+  while (windows.length < maxSegments) {
+    // The loudest window is always taken; later ones must be louder than silence on average
+    let best = -1;
+    let bestMean = windows.length === 0 ? -Infinity : threshold;
+    for (let start = audibleStart; start + windowBlocks <= audibleEnd; start++) {
+      const end = start + windowBlocks;
+      if (windows.some(([s, e]) => start < e && end > s)) continue;
+      const mean = (prefix[end] - prefix[start]) / windowBlocks;
+      if (mean > bestMean) {
+        best = start;
+        bestMean = mean;
+      }
+    }
+    if (best < 0) break;
+    windows.push([best, best + windowBlocks]);
+  }
+
+  return { audibleStart, audibleEnd, windows };
+}
+
+function cutSegment(audio: DecodedAudio, startBlock: number, endBlock: number, blockSeconds: number): AudioSegment {
+  if (audio.codec === "aac") {
+    const frames = audio.frames.slice(startBlock, endBlock);
+    const segment: AudioSegment = {
+      data: encodeAdts(audio, frames),
+      format: "aac",
+      mimeType: MIME_TYPES.aac,
+      startSeconds: startBlock * blockSeconds,
+      durationSeconds: frames.length * blockSeconds,
+    };
+    if (audio.pcm) {
+      const frameSamples = audio.pcm.samples.length / audio.frames.length;
+      segment.pcm = {
+        samples: audio.pcm.samples.slice(startBlock * frameSamples, endBlock * frameSamples),
+        sampleRate: audio.pcm.sampleRate,
+      };
+    }
+    return segment;
+  }
+
+  const blockFrames = Math.round(audio.sampleRate * PCM_BLOCK_SECONDS);
+  const startFrame = startBlock * blockFrames;
+  const endFrame = Math.min(endBlock * blockFrames, pcmFrameCount(audio));
+  const samples = readMono(audio, startFrame, endFrame);
+  return {
+    data: encodeWav(samples, audio.sampleRate),
+    format: "wav",
+    mimeType: MIME_TYPES.wav,
+    startSeconds: startFrame / audio.sampleRate,
+    durationSeconds: (endFrame - startFrame) / audio.sampleRate,
+    pcm: { samples, sampleRate: audio.sampleRate },
+  };
+}
+
+// ---------- Linear PCM ----------
+
+function checkPcm(audio: LinearPcm): LinearPcm {
+  const supported = audio.float ? [32, 64] : [8, 16, 24, 32];
+  if (!supported.includes(audio.bitsPerSample)) {
+    throw new Error(`Unsupported ${audio.float ? "float" : "integer"} PCM sample size ${audio.bitsPerSample}`);
+  }
+  if (audio.channels < 1 || audio.sampleRate <= 0) {
+    throw new Error("Invalid PCM format description");
+  }
+  return audio;
+}
+
+function pcmFrameCount(audio: LinearPcm): number {
+  return Math.floor(audio.data.length / (audio.channels * audio.bitsPerSample / 8));
+}
+
+function pcmLevels(audio: LinearPcm): number[] {
+  const blockFrames = Math.round(audio.sampleRate * PCM_BLOCK_SECONDS);
+  const frameCount = pcmFrameCount(audio);
+  const levels: number[] = [];
+  for (let start = 0; start < frameCount; start += blockFrames) {
+    const samples = readMono(audio, start, Math.min(start + blockFrames, frameCount));
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    levels.push(Math.sqrt(sum / samples.length));
+  }
+  return levels;
+}
+
+// Channels averaged to mono, scaled to [-1, 1]
+function readMono(audio: LinearPcm, startFrame: number, endFrame: number): Float32Array {
+  const view = new DataView(audio.data.buffer, audio.data.byteOffset, audio.data.byteLength);
+  const bytesPerSample = audio.bitsPerSample / 8;
+  const frameBytes = bytesPerSample * audio.channels;
+  const out = new Float32Array(Math.max(0, endFrame - startFrame));
+  for (let i = 0; i < out.length; i++) {
+    const base = (startFrame + i) * frameBytes;
+    let sum = 0;
+    for (let channel = 0; channel < audio.channels; channel++) {
+      sum += readSample(view, base + channel * bytesPerSample, audio);
+    }
+    out[i] = sum / audio.channels;
+  }
+  return out;
+}
+
+function readSample(view: DataView, offset: number, audio: LinearPcm): number {
+  const le = audio.littleEndian;
+  if (audio.float) {
+    return audio.bitsPerSample === 64 ? view.getFloat64(offset, le) : view.getFloat32(offset, le);
+  }
+  switch (audio.bitsPerSample) {
+    case 8:
+      return audio.unsignedBytes ? (view.getUint8(offset) - 128) / 128 : view.getInt8(offset) / 128;
+    case 16:
+      return view.getInt16(offset, le) / 32768;
+    case 24: {
+      const b0 = view.getUint8(offset);
+      const b1 = view.getUint8(offset + 1);
+      const b2 = view.getUint8(offset + 2);
+      const value = le ? (b2 << 16) | (b1 << 8) | b0 : (b0 << 16) | (b1 << 8) | b2;
+      return ((value << 8) >> 8) / 8388608;
+    }
+    default:
+      return view.getInt32(offset, le) / 2147483648;
+  }
+}
+
+// Linear interpolation; when downsampling, each output sample first averages the input samples it
+// spans so content above the new Nyquist frequency is damped rather than folded back in
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const position = i * ratio;
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(samples.length, Math.max(start + 1, Math.floor(position + ratio)));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += samples[j];
+      out[i] = sum / (end - start);
+    } else {
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, samples.length - 1);
+      const fraction = position - index;
+      out[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+    }
+  }
+  return out;
+}
+
+// Signed 16-bit little-endian samples with no header
+function encodePcm16(samples: Float32Array): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 32768 : sample * 32767, true);
+  }
+  return view.buffer;
+}
+
+// 16-bit mono WAV
+function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const out = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(out.buffer);
+  writeAscii(out, 0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(out, 8, "WAVE");
+  writeAscii(out, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(out, 36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  out.set(new Uint8Array(encodePcm16(samples)), 44);
+  return out.buffer;
+}
+
+function parseWav(bytes: Uint8Array): LinearPcm {
+  const view = dataView(bytes);
+  let format: { encoding: number; channels: number; sampleRate: number; bits: number } | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = fourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      let encoding = view.getUint16(body, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real format code opens the SubFormat GUID
+      if (encoding === 0xfffe && size >= 26) {
+        encoding = view.getUint16(body + 24, true);
+      }
+      format = {
+        encoding,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bits: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      if (!format) throw new Error("WAV data chunk precedes fmt chunk");
+      if (format.encoding !== 1 && format.encoding !== 3) {
+        throw new Error(`Unsupported WAV encoding ${format.encoding}`);
+      }
+      // Streaming writers leave the size at 0 or 0xFFFFFFFF
+      const end = size === 0 || size === 0xffffffff ? bytes.length : Math.min(body + size, bytes.length);
+      return {
+        codec: "pcm",
+        data: bytes.subarray(body, end),
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+        bitsPerSample: format.bits,
+        float: format.encoding === 3,
+        littleEndian: true,
+        unsignedBytes: format.bits === 8,
+      };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error("WAV file has no data chunk");
+}
+
+// ---------- Core Audio Format ----------
+
+function parseCaf(bytes: Uint8Array): DecodedAudio {
+  const view = dataView(bytes);
+  let desc: {
+    sampleRate: number;
+    formatId: string;
+    flags: number;
+    bytesPerPacket: number;
+    channels: number;
+    bits: number;
+  } | null = null;
+  let data: Uint8Array | null = null;
+  let packetSizes: number[] | null = null;
+
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const type = fourCC(bytes, offset);
+    const size = Number(view.getBigInt64(offset + 4));
+    const body = offset + 12;
+    // A size of -1 means the chunk (always data) runs to the end of the file
+    const end = size < 0 ? bytes.length : Math.min(body + size, bytes.length);
+
+    if (type === "desc") {
+      desc = {
+        sampleRate: view.getFloat64(body),
+        formatId: fourCC(bytes, body + 8),
+        flags: view.getUint32(body + 12),
+        bytesPerPacket: view.getUint32(body + 16),
+        channels: view.getUint32(body + 24),
+        bits: view.getUint32(body + 28),
+      };
+    } else if (type === "data") {
+      data = bytes.subarray(body + 4, end); // after mEditCount
+    } else if (type === "pakt") {
+      packetSizes = readPacketTable(bytes, body + 24, end);
+    }
+
+    if (size < 0) break;
+    offset = end;
+  }
+
+  if (!desc || !data) {
+    throw new Error("CAF file is missing its desc or data chunk");
+  }
+
+  if (desc.formatId === "lpcm") {
+    return {
+      codec: "pcm",
+      data,
+      sampleRate: desc.sampleRate,
+      channels: desc.channels,
+      bitsPerSample: desc.bits,
+      float: (desc.flags & 1) !== 0,
+      littleEndian: (desc.flags & 2) !== 0,
+      unsignedBytes: false,
+    };
+  }
+
+  if (desc.formatId === "aac ") {
+    const frames: Uint8Array[] = [];
+    if (desc.bytesPerPacket > 0) {
+      for (let start = 0; start + desc.bytesPerPacket <= data.length; start += desc.bytesPerPacket) {
+        frames.push(data.subarray(start, start + desc.bytesPerPacket));
+      }
+    } else {
+      if (!packetSizes) throw new Error("Variable-size CAF audio has no packet table");
+      let start = 0;
+      for (const size of packetSizes) {
+        if (start + size > data.length) break;
+        frames.push(data.subarray(start, start + size));
+        start += size;
+      }
+    }
+    // For AAC the format flags hold the MPEG-4 audio object type. HE-AAC describes the output
+    // rate, twice the rate of the AAC-LC core that ADTS headers and frame durations refer to.
+    const objectType = desc.flags || 2;
+    const heAac = objectType === 5 || objectType === 29;
+    return {
+      codec: "aac",
+      frames,
+      sampleRate: heAac ? desc.sampleRate / 2 : desc.sampleRate,
+      channels: desc.channels,
+      objectType,
+    };
+  }
+
+  throw new Error(`Unsupported CAF format '${desc.formatId}'`);
+}
+
+// pakt entries are variable-length integers, 7 bits per byte, high bit set on all but the last
+function readPacketTable(bytes: Uint8Array, start: number, end: number): number[] {
+  const sizes: number[] = [];
+  let value = 0;
+  for (let i = start; i < end; i++) {
+    value = (value << 7) | (bytes[i] & 0x7f);
+    if ((bytes[i] & 0x80) === 0) {
+      sizes.push(value);
+      value = 0;
+    }
+  }
+  return sizes;
+}
+
+// ---------- MP4 / M4A ----------
+
+interface Box {
+  type: string;
+  start: number; // Payload start
+  end: number;
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const view = dataView(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+}
+
+function childBox(bytes: Uint8Array, parent: Box | undefined, type: string): Box | undefined {
+  return parent && readBoxes(bytes, parent.start, parent.end).find((box) => box.type === type);
+}
+
+// First sound track of an m4a/mp4/mov file, as raw AAC frames
+function parseMp4(bytes: Uint8Array): AacStream {
+  const moov = readBoxes(bytes, 0, bytes.length).find((box) => box.type === "moov");
+  if (!moov) throw new Error("MP4 file has no moov box");
+
+  for (const trak of readBoxes(bytes, moov.start, moov.end).filter((box) => box.type === "trak")) {
+    const mdia = childBox(bytes, trak, "mdia");
+    const hdlr = childBox(bytes, mdia, "hdlr");
+    if (!hdlr || fourCC(bytes, hdlr.start + 8) !== "soun") continue;
+    const stbl = childBox(bytes, childBox(bytes, mdia, "minf"), "stbl");
+    if (stbl) return parseAudioTrack(bytes, stbl);
+  }
+  throw new Error("MP4 file has no audio track");
+}
+
+function parseAudioTrack(bytes: Uint8Array, stbl: Box): AacStream {
+  const view = dataView(bytes);
+  const tables = readBoxes(bytes, stbl.start, stbl.end);
+  const find = (type: string) => tables.find((box) => box.type === type);
+  const stsd = find("stsd");
+  const stsz = find("stsz");
+  const stsc = find("stsc");
+  const stco = find("stco") || find("co64");
+  if (!stsd || !stsz || !stsc || !stco) {
+    throw new Error("MP4 audio track is missing sample tables");
+  }
+
+  const entry = readBoxes(bytes, stsd.start + 8, stsd.end)[0];
+  if (!entry || entry.type !== "mp4a") {
+    throw new Error(`Unsupported MP4 audio codec '${entry?.type ?? "none"}'`);
+  }
+  // QuickTime sound description v1/v2 entries carry extra fields before their child boxes
+  const entryVersion = view.getUint16(entry.start + 8);
+  const childrenStart = entry.start + 28 + (entryVersion === 1 ? 16 : entryVersion === 2 ? 36 : 0);
+  const config = findAudioSpecificConfig(bytes, childrenStart, entry.end);
+
+  const fixedSize = view.getUint32(stsz.start + 4);
+  const sampleCount = view.getUint32(stsz.start + 8);
+  const sampleSize = (index: number) => fixedSize || view.getUint32(stsz.start + 12 + index * 4);
+
+  const chunkCount = view.getUint32(stco.start + 4);
+  const chunkOffset = (index: number) => stco.type === "co64"
+    ? Number(view.getBigUint64(stco.start + 8 + index * 8))
+    : view.getUint32(stco.start + 8 + index * 4);
+
+  const runCount = view.getUint32(stsc.start + 4);
+  const run = (index: number) => ({
+    firstChunk: view.getUint32(stsc.start + 8 + index * 12) - 1,
+    samplesPerChunk: view.getUint32(stsc.start + 12 + index * 12),
+  });
+
+  const frames: Uint8Array[] = [];
+  let sample = 0;
+  for (let r = 0; r < runCount; r++) {
+    const { firstChunk, samplesPerChunk } = run(r);
+    const nextChunk = r + 1 < runCount ? run(r + 1).firstChunk : chunkCount;
+    for (let chunk = firstChunk; chunk < nextChunk && sample < sampleCount; chunk++) {
+      let offset = chunkOffset(chunk);
+      for (let i = 0; i < samplesPerChunk && sample < sampleCount; i++, sample++) {
+        const size = sampleSize(sample);
+        if (offset + size > bytes.length) {
+          throw new Error("MP4 sample table points past the end of the file");
+        }
+        frames.push(bytes.subarray(offset, offset + size));
+        offset += size;
+      }
+    }
+  }
+
+  return { codec: "aac", frames, ...config };
+}
+
+function findAudioSpecificConfig(bytes: Uint8Array, start: number, end: number) {
+  for (const box of readBoxes(bytes, start, end)) {
+    if (box.type === "esds") {
+      return parseEsds(bytes, box.start + 4); // after version/flags
+    }
+    if (box.type === "wave") {
+      return findAudioSpecificConfig(bytes, box.start, box.end);
+    }
+  }
+  throw new Error("MP4 audio track has no esds box");
+}
+
+function readDescriptor(bytes: Uint8Array, offset: number): { tag: number; start: number; end: number } {
+  const tag = bytes[offset];
+  let length = 0;
+  let i = offset + 1;
+  for (let n = 0; n < 4; n++) {
+    const byte = bytes[i++];
+    length = (length << 7) | (byte & 0x7f);
+    if ((byte & 0x80) === 0) break;
+  }
+  return { tag, start: i, end: i + length };
+}
+
+function parseEsds(bytes: Uint8Array, offset: number) {
+  const es = readDescriptor(bytes, offset);
+  if (es.tag !== 0x03) throw new Error("Malformed esds box");
+
+  const flags = bytes[es.start + 2];
+  let next = es.start + 3;
+  if (flags & 0x80) next += 2; // dependsOn_ES_ID
+  if (flags & 0x40) next += 1 + bytes[next]; // URL
+  if (flags & 0x20) next += 2; // OCR_ES_ID
+
+  const decoderConfig = readDescriptor(bytes, next);
+  if (decoderConfig.tag !== 0x04) throw new Error("Malformed esds box");
+  const objectTypeIndication = bytes[decoderConfig.start];
+  if (objectTypeIndication !== 0x40 && (objectTypeIndication < 0x66 || objectTypeIndication > 0x68)) {
+    throw new Error(`Unsupported MP4 audio object type 0x${objectTypeIndication.toString(16)}`);
+  }
+
+  const specificInfo = readDescriptor(bytes, decoderConfig.start + 13);
+  if (specificInfo.tag !== 0x05) throw new Error("esds box has no AudioSpecificConfig");
+  return parseAudioSpecificConfig(bytes.subarray(specificInfo.start, specificInfo.end));
+}
+
+function parseAudioSpecificConfig(config: Uint8Array) {
+  let bit = 0;
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, bit++) {
+      value = (value << 1) | ((config[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    return value;
+  };
+
+  let objectType = read(5);
+  if (objectType === 31) objectType = 32 + read(6);
+  const frequencyIndex = read(4);
+  const sampleRate = frequencyIndex === 15 ? read(24) : AAC_SAMPLING_RATES[frequencyIndex];
+  const channels = read(4);
+  return { objectType, sampleRate, channels };
+}
+
+// ---------- AAC / ADTS ----------
+
+function checkAac(audio: AacStream): AacStream {
+  const heAac = audio.objectType === 5 || audio.objectType === 29;
+  if (!heAac && (audio.objectType < 1 || audio.objectType > 4)) {
+    throw new Error(`AAC object type ${audio.objectType} cannot be carried in ADTS`);
+  }
+  if (!AAC_SAMPLING_RATES.includes(audio.sampleRate)) {
+    throw new Error(`Unsupported AAC sample rate ${audio.sampleRate}`);
+  }
+  if (audio.channels < 1 || audio.channels > 7) {
+    throw new Error(`Unsupported AAC channel configuration ${audio.channels}`);
+  }
+  if (audio.frames.length === 0) {
+    throw new Error("AAC stream has no frames");
+  }
+  return audio;
+}
+
+// RMS of each frame's decoded samples, or its encoded size when the stream was not decoded
+function aacLevels(audio: AacStream): number[] {
+  if (!audio.pcm) {
+    return audio.frames.map((frame) => frame.length);
+  }
+  const frameSamples = audio.pcm.samples.length / audio.frames.length;
+  return audio.frames.map((_, i) => {
+    let sum = 0;
+    for (let j = i * frameSamples; j < (i + 1) * frameSamples; j++) sum += audio.pcm!.samples[j] ** 2;
+    return Math.sqrt(sum / frameSamples);
+  });
+}
+
+async function withDecodedSamples(audio: AacStream): Promise<AacStream> {
+  if (audio.frames.length * AAC_FRAME_SAMPLES / audio.sampleRate > AAC_DECODE_MAX_SECONDS) {
+    return audio;
+  }
+  try {
+    return { ...audio, pcm: await decodeAac(audio, audio.frames.length) };
+  } catch (error) {
+    console.warn(`AAC decoding failed, measuring frame sizes instead: ${errorMessage(error)}`);
+    return audio;
+  }
+}
+
+// Mono samples of the first `frameCount` frames, fed to FAAD2 as ADTS. Every frame gets the same
+// number of samples: 1024, or 2048 where the decoder upsamples (implicit HE-AAC). Output runs one
+// frame behind the input, so the last frame's slot is left silent.
+async function decodeAac(audio: AacStream, frameCount: number): Promise<MonoSamples> {
+  const frames = audio.frames.slice(0, frameCount);
+  let out: MonoSamples | null = null;
+  let written = 0;
+  const append = ({ channelData, sampleRate }: { channelData: Float32Array[]; sampleRate: number }) => {
+    if (channelData.length === 0 || channelData[0].length === 0) return;
+    out ??= {
+      samples: new Float32Array(frames.length * Math.round(AAC_FRAME_SAMPLES * sampleRate / audio.sampleRate)),
+      sampleRate,
+    };
+    const count = Math.min(channelData[0].length, out.samples.length - written);
+    for (let i = 0; i < count; i++) {
+      let sum = 0;
+      for (const channel of channelData) sum += channel[i];
+      out.samples[written + i] = sum / channelData.length;
+    }
+    written += count;
+  };
+
+  const decoder = await aacDecoder();
+  try {
+    for (let start = 0; start < frames.length; start += AAC_DECODE_BATCH_FRAMES) {
+      append(decoder.decode(new Uint8Array(encodeAdts(audio, frames.slice(start, start + AAC_DECODE_BATCH_FRAMES)))));
+    }
+    append(decoder.flush());
+  } finally {
+    decoder.free();
+  }
+
+  // Corrupt frames decode to nothing rather than failing
+  if (!out) {
+    throw new Error("AAC stream decoded to no samples");
+  }
+  return out;
+}
+
+// Prefixes every frame with a 7-byte ADTS header so the segment is a playable .aac stream
+function encodeAdts(audio: AacStream, frames: Uint8Array[]): ArrayBuffer {
+  // HE-AAC is signalled implicitly: ADTS carries the AAC-LC core
+  const profile = audio.objectType === 5 || audio.objectType === 29 ? 1 : audio.objectType - 1;
+  const frequencyIndex = AAC_SAMPLING_RATES.indexOf(audio.sampleRate);
+
+  const out = new Uint8Array(frames.reduce((total, frame) => total + frame.length + 7, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    const length = frame.length + 7;
+    out.set([
+      0xff,
+      0xf1, // MPEG-4, layer 0, no CRC
+      (profile << 6) | (frequencyIndex << 2) | (audio.channels >> 2),
+      ((audio.channels & 3) << 6) | (length >> 11),
+      (length >> 3) & 0xff,
+      ((length & 7) << 5) | 0x1f,
+      0xfc,
+    ], offset);
+    out.set(frame, offset + 7);
+    offset += length;
+  }
+  return out.buffer;
+}
+
+// ---------- Helpers ----------
+
+function dataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  if (offset + 4 > bytes.length) return "";
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function writeAscii(out: Uint8Array, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    out[offset + i] = text.charCodeAt(i);
+  }
+}
@@ -0,0 +1,290 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type AudioSegment, decodePcmAudio, preprocessAudio, toShazamChunks } from "./audio.ts";
+
+// testdata/tone-between-silence.{m4a,caf}: 2 s of silence, a 3 s 440 Hz tone peaking at 1/16 scale, 2 s
+// of silence; 22.05 kHz mono AAC-LC at 32 kb/s from ffmpeg (the CAF repackages the same frames
+// with a packet table, as iOS writes them)
+const fixture = async (name: string) => (await Deno.readFile(new URL(`./testdata/${name}`, import.meta.url))).buffer;
+
+// Runs of [seconds, amplitude] as a 440 Hz tone (silence at amplitude 0), in 16-bit samples
+function toneSamples(runs: Array<[number, number]>, sampleRate: number): Int16Array {
+  const samples = new Int16Array(runs.reduce((total, [seconds]) => total + Math.round(seconds * sampleRate), 0));
+  let offset = 0;
+  for (const [seconds, amplitude] of runs) {
+    const count = Math.round(seconds * sampleRate);
+    for (let i = 0; i < count; i++) {
+      samples[offset + i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * amplitude * 32767);
+    }
+    offset += count;
+  }
+  return samples;
+}
+
+const ascii = (view: DataView, offset: number, text: string) =>
+  [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+// 16-bit mono WAV
+function wav(runs: Array<[number, number]>, sampleRate = 16000): ArrayBuffer {
+  const samples = toneSamples(runs, sampleRate);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  ascii(view, 0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(view, 8, "WAVE");
+  ascii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(view, 36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+  return view.buffer;
+}
+
+// 16-bit big-endian mono CAF, as AVAudioRecorder writes linear PCM
+function caf(runs: Array<[number, number]>, sampleRate = 16000): ArrayBuffer {
+  const samples = toneSamples(runs, sampleRate);
+  const view = new DataView(new ArrayBuffer(8 + 12 + 32 + 12 + 4 + samples.length * 2));
+  ascii(view, 0, "caff");
+  view.setUint16(4, 1);
+  ascii(view, 8, "desc");
+  view.setBigInt64(12, 32n);
+  view.setFloat64(20, sampleRate);
+  ascii(view, 28, "lpcm");
+  view.setUint32(32, 0); // integer, big-endian
+  view.setUint32(36, 2); // bytes per packet
+  view.setUint32(40, 1); // frames per packet
+  view.setUint32(44, 1); // channels
+  view.setUint32(48, 16);
+  ascii(view, 52, "data");
+  view.setBigInt64(56, BigInt(4 + samples.length * 2));
+  samples.forEach((sample, i) => view.setInt16(68 + i * 2, sample));
+  return view.buffer;
+}
+
+function indexOf(buffer: ArrayBuffer, text: string): number {
+  const bytes = new Uint8Array(buffer);
+  const codes = [...text].map((c) => c.charCodeAt(0));
+  return bytes.findIndex((_, i) => codes.every((code, j) => bytes[i + j] === code));
+}
+
+Deno.test("preprocessAudio trims silence from WAV by RMS level", async () => {
+  const audio = await preprocessAudio(wav([[2, 0], [3, 0.5], [2, 0]]));
+
+  assertEquals(audio.container, "wav");
+  assertEquals(audio.codec, "pcm");
+  assertEquals(audio.durationSeconds, 7);
+  assertEquals(audio.audibleStartSeconds, 2);
+  assertEquals(audio.audibleEndSeconds, 5);
+  assertEquals(audio.segments.length, 1);
+  assertEquals(audio.segments[0].format, "wav");
+  assertEquals(audio.segments[0].pcm?.samples.length, 3 * 16000);
+  // Whisper gets the WAV as uploaded
+  assertEquals(audio.transcriptionFile.filename, "audio.wav");
+  assertEquals(audio.transcriptionFile.durationSeconds, 7);
+});
+
+Deno.test("preprocessAudio cuts long recordings into the loudest non-overlapping windows", async () => {
+  const audio = await preprocessAudio(wav([[1, 0], [14, 0.1], [13, 0.6], [14, 0.3], [2, 0]], 8000));
+
+  assertEquals(audio.audibleStartSeconds, 1);
+  assertEquals(audio.audibleEndSeconds, 42);
+  assertEquals(audio.segments.length, 3);
+  // Loudest first: inside the 0.6 run, then the 0.3 run, then the 0.1 run
+  const [loudest, second, third] = audio.segments.map((s) => s.startSeconds);
+  assert(loudest >= 15 && loudest + 12 <= 28, `loudest window at ${loudest}`);
+  assert(second >= 27, `second window at ${second}`);
+  assert(third < 15, `third window at ${third}`);
+  assertEquals(audio.segments.map((s) => s.durationSeconds), [12, 12, 12]);
+});
+
+Deno.test("preprocessAudio honors maxSegments", async () => {
+  const audio = await preprocessAudio(wav([[20, 0.5], [20, 0.2]], 8000), { maxSegments: 1 });
+  assertEquals(audio.segments.length, 1);
+});
+
+Deno.test("preprocessAudio passes silent audio through whole", async () => {
+  const buffer = wav([[3, 0]]);
+  const audio = await preprocessAudio(buffer);
+
+  assertEquals(audio.codec, "pcm");
+  assertEquals(audio.durationSeconds, 3);
+  assertEquals(audio.audibleStartSeconds, null);
+  assertEquals(audio.segments[0].data, buffer);
+});
+
+Deno.test("preprocessAudio reads a WAV whose data chunk claims more than was written", async () => {
+  const buffer = wav([[1, 0], [2, 0.5]]);
+  const truncated = buffer.slice(0, 44 + 16000 * 2 * 2); // cut half-way through the tone
+
+  const audio = await preprocessAudio(truncated);
+
+  assertEquals(audio.codec, "pcm");
+  assertEquals(audio.durationSeconds, 2);
+  assertEquals(audio.audibleStartSeconds, 1);
+});
+
+Deno.test("preprocessAudio passes a WAV without a data chunk through undecoded", async () => {
+  const buffer = wav([[1, 0.5]]).slice(0, 36);
+  const audio = await preprocessAudio(buffer);
+
+  assertEquals(audio.container, "wav");
+  assertEquals(audio.codec, null);
+  assertEquals(audio.segments[0].data, buffer);
+});
+
+Deno.test("preprocessAudio trims silence from linear PCM CAF and transcribes it as WAV", async () => {
+  const audio = await preprocessAudio(caf([[1, 0], [2, 0.5], [1, 0]]));
+
+  assertEquals(audio.container, "caf");
+  assertEquals(audio.codec, "pcm");
+  assertEquals(audio.audibleStartSeconds, 1);
+  assertEquals(audio.audibleEndSeconds, 3);
+  // Whisper does not take CAF: it gets the audible span as WAV
+  assertEquals(audio.transcriptionFile.filename, "audio.wav");
+  assertEquals(audio.transcriptionFile.durationSeconds, 2);
+});
+
+Deno.test("preprocessAudio passes a CAF without a desc chunk through undecoded", async () => {
+  const buffer = caf([[1, 0.5]]);
+  new DataView(buffer).setUint32(8, 0x66726565); // desc -> free
+  const audio = await preprocessAudio(buffer);
+
+  assertEquals(audio.container, "caf");
+  assertEquals(audio.codec, null);
+});
+
+Deno.test("preprocessAudio decodes m4a AAC and trims its silence by RMS level", async () => {
+  const buffer = await fixture("tone-between-silence.m4a");
+  const audio = await preprocessAudio(buffer);
+
+  assertEquals(audio.container, "m4a");
+  assertEquals(audio.codec, "aac");
+  assert(Math.abs(audio.durationSeconds! - 7) < 0.1, `duration ${audio.durationSeconds}`);
+  assert(Math.abs(audio.audibleStartSeconds! - 2) < 0.1, `audible from ${audio.audibleStartSeconds}`);
+  assert(Math.abs(audio.audibleEndSeconds! - 5) < 0.1, `audible to ${audio.audibleEndSeconds}`);
+
+  const [segment] = audio.segments;
+  assertEquals(audio.segments.length, 1);
+  assertEquals(segment.format, "aac");
+  assertEquals(new Uint8Array(segment.data).subarray(0, 2), new Uint8Array([0xff, 0xf1])); // ADTS
+  assert(segment.pcm, "decoded samples attached");
+  assertEquals(segment.pcm.samples.length / segment.pcm.sampleRate, segment.durationSeconds);
+  // Whisper gets the m4a as uploaded
+  assertEquals(audio.transcriptionFile.data, buffer);
+});
+
+Deno.test("preprocessAudio decodes AAC in CAF from its packet table", async () => {
+  const audio = await preprocessAudio(await fixture("tone-between-silence.caf"));
+
+  assertEquals(audio.container, "caf");
+  assertEquals(audio.codec, "aac");
+  assert(Math.abs(audio.audibleStartSeconds! - 2) < 0.1, `audible from ${audio.audibleStartSeconds}`);
+  assert(Math.abs(audio.audibleEndSeconds! - 5) < 0.1, `audible to ${audio.audibleEndSeconds}`);
+  assert(audio.segments[0].pcm, "decoded samples attached");
+});
+
+Deno.test("preprocessAudio keeps the frames that fit in a truncated AAC CAF", async () => {
+  const buffer = await fixture("tone-between-silence.caf");
+  const audio = await preprocessAudio(buffer.slice(0, Math.floor(buffer.byteLength * 0.6)));
+
+  assertEquals(audio.codec, "aac");
+  assert(audio.durationSeconds! > 2 && audio.durationSeconds! < 6, `duration ${audio.durationSeconds}`);
+  assert(Math.abs(audio.audibleStartSeconds! - 2) < 0.1, `audible from ${audio.audibleStartSeconds}`);
+});
+
+Deno.test("preprocessAudio falls back to frame sizes when AAC frames do not decode", async () => {
+  const buffer = (await fixture("tone-between-silence.m4a")).slice(0);
+  const mdat = indexOf(buffer, "mdat");
+  const bytes = new Uint8Array(buffer);
+  // Same frame sizes, garbage payloads
+  for (let i = mdat + 4; i < bytes.length; i++) bytes[i] = (i * 131) & 0xff;
+
+  const audio = await preprocessAudio(buffer);
+
+  assertEquals(audio.codec, "aac");
+  assertEquals(audio.segments[0].pcm, undefined);
+  // Silent frames still encode smaller than the tone's
+  assert(Math.abs(audio.audibleStartSeconds! - 2) < 0.3, `audible from ${audio.audibleStartSeconds}`);
+});
+
+Deno.test("preprocessAudio passes a truncated m4a through undecoded", async () => {
+  const buffer = await fixture("tone-between-silence.m4a");
+  const truncated = buffer.slice(0, Math.floor(buffer.byteLength / 2));
+
+  const audio = await preprocessAudio(truncated);
+
+  assertEquals(audio.container, "m4a");
+  assertEquals(audio.codec, null);
+  assertEquals(audio.segments[0].data, truncated);
+  assertEquals(audio.segments[0].durationSeconds, null);
+});
+
+Deno.test("preprocessAudio passes an m4a with an unsupported codec through undecoded", async () => {
+  const buffer = (await fixture("tone-between-silence.m4a")).slice(0);
+  const entry = indexOf(buffer, "mp4a");
+  new Uint8Array(buffer).set([0x61, 0x6c, 0x61, 0x63], entry); // alac
+
+  const audio = await preprocessAudio(buffer);
+
+  assertEquals(audio.codec, null);
+});
+
+Deno.test("decodePcmAudio decodes whole WAV and AAC files to mono samples", async () => {
+  const pcm = await decodePcmAudio(wav([[1, 0], [2, 0.5]]));
+  assertEquals(pcm?.sampleRate, 16000);
+  assertEquals(pcm?.samples.length, 3 * 16000);
+
+  const aac = await decodePcmAudio(await fixture("tone-between-silence.m4a"));
+  assert(aac, "m4a decoded");
+  assert(Math.abs(aac.samples.length / aac.sampleRate - 7) < 0.1, `${aac.samples.length / aac.sampleRate} s`);
+  assert(aac.samples.slice(3 * aac.sampleRate, 4 * aac.sampleRate).some((sample) => Math.abs(sample) > 0.05), "tone decoded");
+});
+
+Deno.test("decodePcmAudio gives null for audio it cannot decode", async () => {
+  assertEquals(await decodePcmAudio(new Uint8Array(64).fill(7).buffer), null);
+  const buffer = await fixture("tone-between-silence.m4a");
+  assertEquals(await decodePcmAudio(buffer.slice(0, buffer.byteLength / 2)), null);
+});
+
+Deno.test("toShazamChunks cuts PCM segments into 5-second 44.1 kHz chunks", async () => {
+  const audio = await preprocessAudio(wav([[12, 0.5]]));
+  assertEquals(audio.codec, "pcm");
+
+  const chunks = toShazamChunks(audio.segments[0]);
+
+  // 5 s + 5 s + a 2 s tail, as 16-bit samples
+  assertEquals(chunks.map((c) => c.byteLength), [441000, 441000, 176400]);
+});
+
+Deno.test("toShazamChunks cuts decoded AAC segments", async () => {
+  const audio = await preprocessAudio(await fixture("tone-between-silence.m4a"));
+
+  const chunks = toShazamChunks(audio.segments[0]);
+
+  // About 3 s of audible tone, resampled to 44.1 kHz 16-bit
+  assertEquals(chunks.length, 1);
+  assert(Math.abs(chunks[0].byteLength - 3 * 44100 * 2) < 44100 * 2 * 0.1, `${chunks[0].byteLength} bytes`);
+});
+
+Deno.test("toShazamChunks sends AAC segments that were not decoded whole", () => {
+  const segment: AudioSegment = {
+    data: new Uint8Array([0xff, 0xf1, 0x50, 0x80, 0x02, 0x1f, 0xfc]).buffer,
+    format: "aac",
+    mimeType: "audio/aac",
+    startSeconds: 0,
+    durationSeconds: 12,
+  };
+
+  assertEquals(toShazamChunks(segment), [segment.data]);
+});
+
+Deno.test("toShazamChunks sends uploads that could not be parsed whole", async () => {
+  const audio = await preprocessAudio(new Uint8Array(64).fill(7).buffer);
+  assertEquals(audio.codec, null);
+
+  assertEquals(toShazamChunks(audio.segments[0]), [audio.segments[0].data]);
+});
@@ -0,0 +1,41 @@
+// Bearer-token authentication shared by all edge functions
+
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError } from "./errors.ts";
+import { bearerToken, serviceClient } from "./supabase.ts";
+
+// Resolves the calling user from the Authorization header or throws an `unauthorized` HttpError
+export async function requireUser(req: Request, client: SupabaseClient = serviceClient()): Promise<User> {
+  const token = bearerToken(req);
+  if (!token) {
+    throw new HttpError("unauthorized", "Missing authorization header");
+  }
+
+  const { data: { user }, error } = await client.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError("unauthorized", "Unauthorized", { details: error?.message });
+  }
+
+  return user;
+}
+
+// True when the request carries the service role key (cron jobs, worker-to-engine calls)
+export function isServiceRoleRequest(req: Request): boolean {
+  const token = bearerToken(req);
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!token && !!serviceKey && token === serviceKey;
+}
+
+// Admin-only routes: the service role key, or a user whose app_metadata.role is "admin"
+// (app_metadata can only be set server-side). Returns who is acting, for audit columns.
+export async function requireAdmin(req: Request, client: SupabaseClient = serviceClient()): Promise<string> {
+  if (isServiceRoleRequest(req)) {
+    return "service_role";
+  }
+
+  const user = await requireUser(req, client);
+  if (user.app_metadata?.role !== "admin") {
+    throw new HttpError("forbidden", "Admin access required");
+  }
+  return user.id;
+}
@@ -0,0 +1,64 @@
+// Base64 encoding for binary payloads of any size.
+// `btoa(String.fromCharCode(...bytes))` spreads the whole buffer into call arguments and throws a
+// RangeError once it is more than a short clip. These helpers encode in 3-byte-aligned blocks, so
+// each block's output concatenates into valid base64, and never hold more than a block as a string.
+
+// Bytes per btoa call; a multiple of 3 so blocks need no padding
+const BLOCK_BYTES = 0x6000;
+// Bytes per String.fromCharCode call, well under engine argument limits
+const CHAR_CODE_BATCH = 0x1000;
+
+// Incremental encoder for data that arrives in pieces (e.g. a response body stream).
+// push() returns the base64 for every complete 3-byte group seen so far; flush() the rest.
+export class Base64Encoder {
+  private pending = new Uint8Array(0);
+
+  push(chunk: Uint8Array): string {
+    let data = chunk;
+    if (this.pending.length > 0) {
+      data = new Uint8Array(this.pending.length + chunk.length);
+      data.set(this.pending);
+      data.set(chunk, this.pending.length);
+    }
+    const complete = data.length - (data.length % 3);
+    this.pending = data.slice(complete);
+    return encodeBlocks(data.subarray(0, complete));
+  }
+
+  flush(): string {
+    const rest = encodeBlocks(this.pending);
+    this.pending = new Uint8Array(0);
+    return rest;
+  }
+}
+
+export function encodeBase64(data: ArrayBuffer | Uint8Array): string {
+  return encodeBlocks(data instanceof Uint8Array ? data : new Uint8Array(data));
+}
+
+// Encodes a byte stream without first collecting it into one buffer
+export async function encodeBase64Stream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const encoder = new Base64Encoder();
+  const parts: string[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(encoder.push(value));
+  }
+  parts.push(encoder.flush());
+  return parts.join("");
+}
+
+function encodeBlocks(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += BLOCK_BYTES) {
+    const block = bytes.subarray(offset, offset + BLOCK_BYTES);
+    let binary = "";
+    for (let i = 0; i < block.length; i += CHAR_CODE_BATCH) {
+      binary += String.fromCharCode(...block.subarray(i, i + CHAR_CODE_BATCH));
+    }
+    parts.push(btoa(binary));
+  }
+  return parts.join("");
+}
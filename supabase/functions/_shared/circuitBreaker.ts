@@ -0,0 +1,123 @@
+// Circuit breakers persisted in Postgres (circuit_breakers table), shared by every isolate.
+// An outage seen by one instance opens the breaker for all of them; once the cooldown passes,
+// a limited number of half-open trial calls decide whether it closes again.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorMessage } from "./errors.ts";
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface BreakerPermit {
+  allowed: boolean;
+  state: BreakerState;
+  retryAfterSeconds: number;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  state: BreakerState;
+  failure_count: number;
+  failure_threshold: number;
+  cooldown_seconds: number;
+  half_open_max_calls: number;
+  trials_in_flight: number;
+  opened_at: string | null;
+  last_failure_at: string | null;
+  last_success_at: string | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
+export class CircuitOpenError extends Error {
+  readonly provider: string;
+  readonly retryAfterSeconds: number;
+
+  constructor(provider: string, retryAfterSeconds: number) {
+    super("Circuit breaker is open");
+    this.name = "CircuitOpenError";
+    this.provider = provider;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class CircuitBreaker {
+  readonly provider: string;
+  private readonly supabase: SupabaseClient;
+
+  constructor(provider: string, supabase: SupabaseClient) {
+    this.provider = provider;
+    this.supabase = supabase;
+  }
+
+  // Runs the operation if the breaker lets it through and records the outcome
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const permit = await this.acquire();
+    if (!permit.allowed) {
+      throw new CircuitOpenError(this.provider, permit.retryAfterSeconds);
+    }
+
+    try {
+      const result = await operation();
+      await this.recordSuccess();
+      return result;
+    } catch (error) {
+      await this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  // Fails open: if the breaker table cannot be reached the call goes ahead
+  async acquire(): Promise<BreakerPermit> {
+    const { data, error } = await this.supabase.rpc("circuit_breaker_acquire", { p_provider: this.provider });
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      console.error(`Circuit breaker ${this.provider} unavailable, allowing call:`, error?.message);
+      return { allowed: true, state: "closed", retryAfterSeconds: 0 };
+    }
+    return { allowed: row.allowed, state: row.state, retryAfterSeconds: row.retry_after_seconds };
+  }
+
+  async recordSuccess(): Promise<void> {
+    await this.record(true, null);
+  }
+
+  async recordFailure(error: unknown): Promise<void> {
+    await this.record(false, errorMessage(error).substring(0, 500));
+  }
+
+  private async record(success: boolean, lastError: string | null): Promise<void> {
+    const { data: state, error } = await this.supabase.rpc("circuit_breaker_record", {
+      p_provider: this.provider,
+      p_success: success,
+      p_error: lastError,
+    });
+    if (error) {
+      console.error(`Failed to record circuit breaker outcome for ${this.provider}:`, error.message);
+    } else if (!success && state === "open") {
+      console.log(`Circuit breaker opened for ${this.provider}`);
+    }
+  }
+}
+
+export async function listProviderHealth(supabase: SupabaseClient): Promise<ProviderHealth[]> {
+  const { data, error } = await supabase
+    .from("circuit_breakers")
+    .select("provider, state, failure_count, failure_threshold, cooldown_seconds, half_open_max_calls, trials_in_flight, opened_at, last_failure_at, last_success_at, last_error, updated_at")
+    .order("provider");
+
+  if (error) throw error;
+  return (data || []) as ProviderHealth[];
+}
+
+// Rows named after the provider of "<provider>:<model>" route rows (e.g. "openai" next to
+// "openai:gpt-4o") only hold the settings circuit_breaker_acquire copies into new route
+// breakers; no call acquires them, so their state says nothing about the provider
+export function routeTemplates(health: Pick<ProviderHealth, "provider">[]): Set<string> {
+  const names = new Set(health.map((h) => h.provider));
+  return new Set(
+    health
+      .filter((h) => h.provider.includes(":"))
+      .map((h) => h.provider.split(":")[0])
+      .filter((provider) => names.has(provider))
+  );
+}
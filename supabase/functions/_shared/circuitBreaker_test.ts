@@ -0,0 +1,12 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { routeTemplates } from "./circuitBreaker.ts";
+
+function rows(...providers: string[]) {
+  return providers.map((provider) => ({ provider }));
+}
+
+Deno.test("routeTemplates names provider rows that route breakers copy their settings from", () => {
+  assertEquals(routeTemplates(rows("acrcloud", "openai", "openai:gpt-4o", "openai:whisper-1", "whisper")), new Set(["openai"]));
+  // A route without a provider row, and a provider without routes, are both real breakers
+  assertEquals(routeTemplates(rows("llm.example.test:gpt-4o-mini", "shazam")), new Set());
+});
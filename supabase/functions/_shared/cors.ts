@@ -0,0 +1,71 @@
+// CORS handling shared by all edge functions
+
+import { errorMessage, HttpError, jsonError } from "./errors.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type Handler = (req: Request) => Response | Promise<Response>;
+
+// Wraps a handler so that:
+// - OPTIONS preflight requests are answered directly
+// - every response carries the CORS headers
+// - a thrown HttpError becomes its JSON error envelope, anything else an internal_error
+export function withCors(handler: Handler): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    if (req.method === "OPTIONS") {
+      return new Response("ok", { headers: corsHeaders });
+    }
+
+    let response: Response;
+    try {
+      response = await handler(req);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        response = error.toResponse();
+      } else {
+        console.error("Unhandled error:", error);
+        response = jsonError("internal_error", "Internal server error", { details: errorMessage(error) });
+      }
+    }
+
+    return applyCorsHeaders(response);
+  };
+}
+
+function applyCorsHeaders(response: Response): Response {
+  const missing = Object.entries(corsHeaders).filter(([name]) => !response.headers.has(name));
+  if (missing.length === 0) return response;
+
+  try {
+    for (const [name, value] of missing) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    // Immutable headers (e.g. a proxied fetch response) - copy into a new Response
+    const headers = new Headers(response.headers);
+    for (const [name, value] of missing) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json", ...headers } }
+  );
+}
+
+// Parses the request's JSON body; a malformed body is the client's bad_request rather than an internal_error
+export async function readJsonBody<T>(req: Request): Promise<T> {
+  try {
+    return await req.json();
+  } catch {
+    throw new HttpError("bad_request", "Invalid JSON body");
+  }
+}
@@ -0,0 +1,22 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { readJsonBody, withCors } from "./cors.ts";
+
+function post(body: string): Request {
+  return new Request("https://example.test/functions/v1/recall-resolve", { method: "POST", body });
+}
+
+Deno.test("readJsonBody parses the request's JSON", async () => {
+  assertEquals(await readJsonBody<{ thread_id: string }>(post('{"thread_id":"t-1"}')), { thread_id: "t-1" });
+});
+
+Deno.test("readJsonBody turns a malformed body into a 400 bad_request", async () => {
+  const handler = withCors(async (req) => {
+    await readJsonBody(req);
+    return new Response("unreachable");
+  });
+
+  const response = await handler(post("{not json"));
+
+  assertEquals(response.status, 400);
+  assertEquals(await response.json(), { error: "Invalid JSON body", code: "bad_request" });
+});
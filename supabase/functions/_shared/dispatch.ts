@@ -0,0 +1,52 @@
+// Fire-and-forget hand-off of queued recall jobs to recall-v2-worker.
+// The router kicks the worker for the job it just created instead of waiting for the
+// once-a-minute cron run; cron stays on as a sweeper for retries and anything a kick missed.
+
+// Long enough for the worker to claim the job and acknowledge, not to run it
+const DISPATCH_TIMEOUT_MS = 5000;
+
+interface EdgeRuntimeGlobal {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+// Keeps the isolate alive for `task` after the response is sent (Supabase EdgeRuntime.waitUntil).
+// Outside the edge runtime the task simply runs unawaited. Never throws.
+export function runInBackground(task: Promise<unknown>, label: string): void {
+  const guarded = task.catch((error) => {
+    console.error(`Background task ${label} failed:`, error);
+  });
+
+  const runtime = (globalThis as { EdgeRuntime?: EdgeRuntimeGlobal }).EdgeRuntime;
+  if (runtime?.waitUntil) {
+    runtime.waitUntil(guarded);
+  }
+}
+
+// Asks the worker to claim and start `jobId` right away. The worker answers 202 once it has
+// claimed the job and processes it in the background; a failed or skipped kick just leaves
+// the job queued for the next sweep.
+export function dispatchRecallJob(jobId: string): void {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceKey) {
+    console.warn(`Cannot dispatch job ${jobId}: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing`);
+    return;
+  }
+
+  runInBackground((async () => {
+    const response = await fetch(`${supabaseUrl}/functions/v1/recall-v2-worker`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({ job_id: jobId, dispatch: true }),
+      signal: AbortSignal.timeout(DISPATCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.warn(`Worker dispatch for job ${jobId} returned ${response.status}, leaving it to the sweeper`);
+    }
+    await response.body?.cancel();
+  })(), `dispatch ${jobId}`);
+}
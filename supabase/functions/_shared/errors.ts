@@ -0,0 +1,101 @@
+// Shared error envelope for all edge functions.
+// Every error response has the shape { error, code, details?, request_id? } where `code` is stable
+// and machine-readable (clients branch on it) and `error` stays a human-readable message.
+// CORS headers are added by withCors (cors.ts), which wraps every handler.
+
+export type ErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "method_not_allowed"
+  | "conflict"
+  | "rate_limited"
+  | "budget_exceeded"
+  | "upstream_error"
+  | "service_unavailable"
+  | "misconfigured"
+  | "internal_error";
+
+const DEFAULT_STATUS: Record<ErrorCode, number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  method_not_allowed: 405,
+  conflict: 409,
+  rate_limited: 429,
+  budget_exceeded: 402,
+  upstream_error: 502,
+  service_unavailable: 503,
+  misconfigured: 500,
+  internal_error: 500,
+};
+
+export interface ErrorOptions {
+  status?: number;
+  details?: unknown;
+  requestId?: string;
+  headers?: Record<string, string>;
+  // Extra top-level fields kept for older clients (e.g. retryAfter, status: "failed")
+  extra?: Record<string, unknown>;
+}
+
+export interface ErrorEnvelope {
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+  request_id?: string;
+  [key: string]: unknown;
+}
+
+export function errorEnvelope(code: ErrorCode, message: string, options: ErrorOptions = {}): ErrorEnvelope {
+  const envelope: ErrorEnvelope = { ...options.extra, error: message, code };
+  if (options.details !== undefined) envelope.details = options.details;
+  if (options.requestId) envelope.request_id = options.requestId;
+  return envelope;
+}
+
+export function jsonError(code: ErrorCode, message: string, options: ErrorOptions = {}): Response {
+  return new Response(
+    JSON.stringify(errorEnvelope(code, message, options)),
+    {
+      status: options.status ?? DEFAULT_STATUS[code],
+      headers: { "Content-Type": "application/json", ...options.headers },
+    }
+  );
+}
+
+// Thrown from helpers (requireUser, serviceClient...) and turned into a jsonError by withCors
+export class HttpError extends Error {
+  readonly code: ErrorCode;
+  readonly options: ErrorOptions;
+
+  constructor(code: ErrorCode, message: string, options: ErrorOptions = {}) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code;
+    this.options = options;
+  }
+
+  toResponse(): Response {
+    return jsonError(this.code, this.message, this.options);
+  }
+}
+
+// Also covers Postgrest errors, which are plain objects with a `message`
+export function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && typeof (error as { message?: unknown }).message === "string") {
+    return (error as { message: string }).message;
+  }
+  return String(error);
+}
+
+// For catch-all blocks: an HttpError keeps its own code, anything else becomes internal_error
+export function errorResponse(error: unknown, message = "Internal server error", options: ErrorOptions = {}): Response {
+  if (error instanceof HttpError) {
+    return error.toResponse();
+  }
+  return jsonError("internal_error", message, { ...options, details: errorMessage(error) });
+}
@@ -0,0 +1,189 @@
+// Chromaprint-style audio fingerprints for matching recordings against our own track catalog.
+// Audio is resampled to 11025 Hz and cut into 4096-sample frames with 2/3 overlap. Each frame's
+// spectrum is folded into 12 pitch classes (chroma), smoothed over neighbouring frames and turned
+// into one 32-bit sub-fingerprint of comparisons between pitch classes and against the previous
+// frame. Two recordings of the same audio agree on most bits at the right alignment; unrelated
+// audio agrees on about half of them.
+//
+// Bits 31-12 compare pitch classes within a frame and survive noise and re-encoding best, so they
+// double as the lookup hash (track_fingerprint_hashes). Bits 11-0 compare against the previous frame.
+
+import { resample } from "./audio.ts";
+
+// Bump when the algorithm changes; tracks fingerprinted with an older version are re-indexed
+export const FINGERPRINT_ALGORITHM = 1;
+
+const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 1365;
+const MIN_FREQ = 28;
+const MAX_FREQ = 3520;
+const CHROMA_FILTER = [0.25, 0.75, 1, 0.75, 0.25];
+// Chroma vectors quieter than this (before normalizing) are silence and fingerprint as 0
+const SILENCE_NORM = 0.01;
+const HASH_SHIFT = 12;
+
+// Time covered by each sub-fingerprint step
+export const FINGERPRINT_FRAME_SECONDS = HOP_SIZE / SAMPLE_RATE;
+
+export function computeFingerprint(samples: Float32Array, sampleRate: number): Uint32Array {
+  const audio = resample(samples, sampleRate, SAMPLE_RATE);
+  if (audio.length < FRAME_SIZE) {
+    return new Uint32Array(0);
+  }
+
+  const frameCount = Math.floor((audio.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  const chroma: Float64Array[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    chroma.push(frameChroma(audio.subarray(frame * HOP_SIZE, frame * HOP_SIZE + FRAME_SIZE)));
+  }
+
+  const smoothed = smoothChroma(chroma);
+  const codes = new Uint32Array(Math.max(smoothed.length - 1, 0));
+  for (let t = 1; t < smoothed.length; t++) {
+    codes[t - 1] = subFingerprint(smoothed[t], smoothed[t - 1]);
+  }
+  return codes;
+}
+
+// Lookup key for a sub-fingerprint; 0 (silence) is never looked up
+export function fingerprintHash(code: number): number {
+  return code >>> HASH_SHIFT;
+}
+
+// Agreement between two fingerprints with `reference` shifted by `offset` frames (reference frame
+// i + offset lines up with query frame i): 1 when every bit matches, 0 for unrelated audio.
+// Returns null when they overlap by fewer than `minOverlap` frames.
+export function compareFingerprints(
+  query: ArrayLike<number>,
+  reference: ArrayLike<number>,
+  offset: number,
+  minOverlap = 16
+): { score: number; bitErrorRate: number; overlap: number } | null {
+  const start = Math.max(0, -offset);
+  const end = Math.min(query.length, reference.length - offset);
+  const overlap = end - start;
+  if (overlap < minOverlap) {
+    return null;
+  }
+
+  let errors = 0;
+  for (let i = start; i < end; i++) {
+    errors += popcount((query[i] ^ reference[i + offset]) >>> 0);
+  }
+  const bitErrorRate = errors / (overlap * 32);
+  return { score: Math.max(0, 1 - 2 * bitErrorRate), bitErrorRate, overlap };
+}
+
+// ---------- Spectrum ----------
+
+const HANN = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+
+// Pitch class (0 = A) of each FFT bin inside the chroma range, -1 outside it
+const BIN_CHROMA = Int8Array.from({ length: FRAME_SIZE / 2 }, (_, bin) => {
+  const freq = (bin * SAMPLE_RATE) / FRAME_SIZE;
+  if (freq < MIN_FREQ || freq > MAX_FREQ) return -1;
+  const octave = Math.log2(freq / (440 / 16));
+  return Math.floor(12 * (octave - Math.floor(octave))) % 12;
+});
+
+function frameChroma(frame: Float32Array): Float64Array {
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    re[i] = frame[i] * HANN[i];
+  }
+  fft(re, im);
+
+  const chroma = new Float64Array(12);
+  for (let bin = 0; bin < FRAME_SIZE / 2; bin++) {
+    const pitchClass = BIN_CHROMA[bin];
+    if (pitchClass >= 0) {
+      chroma[pitchClass] += re[bin] * re[bin] + im[bin] * im[bin];
+    }
+  }
+  return chroma;
+}
+
+// In-place iterative radix-2 FFT
+const BIT_REVERSED = Uint16Array.from({ length: FRAME_SIZE }, (_, i) => {
+  let reversed = 0;
+  for (let bit = 1, rev = FRAME_SIZE >> 1; bit < FRAME_SIZE; bit <<= 1, rev >>= 1) {
+    if (i & bit) reversed |= rev;
+  }
+  return reversed;
+});
+const TWIDDLE_RE = Float64Array.from({ length: FRAME_SIZE / 2 }, (_, i) => Math.cos((-2 * Math.PI * i) / FRAME_SIZE));
+const TWIDDLE_IM = Float64Array.from({ length: FRAME_SIZE / 2 }, (_, i) => Math.sin((-2 * Math.PI * i) / FRAME_SIZE));
+
+function fft(re: Float64Array, im: Float64Array): void {
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const j = BIT_REVERSED[i];
+    if (j > i) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= FRAME_SIZE; size <<= 1) {
+    const half = size >> 1;
+    const step = FRAME_SIZE / size;
+    for (let start = 0; start < FRAME_SIZE; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = TWIDDLE_RE[k * step];
+        const wi = TWIDDLE_IM[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+// ---------- Chroma features ----------
+
+// Weighted average over neighbouring frames, then unit length (silent frames become zeros)
+function smoothChroma(chroma: Float64Array[]): Float64Array[] {
+  const out: Float64Array[] = [];
+  for (let t = 0; t + CHROMA_FILTER.length <= chroma.length; t++) {
+    const vector = new Float64Array(12);
+    CHROMA_FILTER.forEach((weight, k) => {
+      for (let c = 0; c < 12; c++) vector[c] += weight * chroma[t + k][c];
+    });
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    if (norm >= SILENCE_NORM) {
+      for (let c = 0; c < 12; c++) vector[c] /= norm;
+    } else {
+      vector.fill(0);
+    }
+    out.push(vector);
+  }
+  return out;
+}
+
+function subFingerprint(current: Float64Array, previous: Float64Array): number {
+  let code = 0;
+  // Bits 31-20: each pitch class against the next one up
+  for (let c = 0; c < 12; c++) {
+    code = (code << 1) | (current[c] > current[(c + 1) % 12] ? 1 : 0);
+  }
+  // Bits 19-12: neighbouring pairs against the pairs a minor third higher
+  for (let c = 0; c < 8; c++) {
+    code = (code << 1) | (current[c] + current[c + 1] > current[c + 3] + current[c + 4] ? 1 : 0);
+  }
+  // Bits 11-0: each pitch class rising since the previous frame
+  for (let c = 0; c < 12; c++) {
+    code = (code << 1) | (current[c] > previous[c] ? 1 : 0);
+  }
+  return code >>> 0;
+}
+
+function popcount(value: number): number {
+  value -= (value >>> 1) & 0x55555555;
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return Math.imul((value + (value >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
@@ -0,0 +1,387 @@
+// Provider-agnostic LLM client for chat completions, transcriptions and embeddings against any OpenAI-compatible API.
+// Callers name a task (intent, ocr, resolve, ...) instead of a model; the task's model comes from
+// LLM_MODEL_<TASK> (default in TASK_DEFAULTS), so models are switched with a secret, not a deploy.
+// Every route (provider + model) has its own circuit breaker, created with the settings of the
+// provider's row (e.g. "openai") in circuit_breakers. While the primary route's breaker is open,
+// calls go to the task's fallback route: LLM_FALLBACK_MODEL_<TASK>, on LLM_FALLBACK_BASE_URL
+// when that is set, else on the primary provider. With deps.usage set, every call is recorded
+// to usage_events with its tokens or audio seconds.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CircuitBreaker, CircuitOpenError } from "./circuitBreaker.ts";
+import {
+  type ChatMessage,
+  completeStructured,
+  type ResponseFormat,
+  type StructuredOutput,
+  type StructuredResult,
+} from "./structured.ts";
+import type { UsageRecorder } from "./usage.ts";
+
+export type LlmTask =
+  | "intent" // Intent and language classification
+  | "extract" // Song details (slots) from the user's messages
+  | "ocr" // Image description and text extraction
+  | "resolve" // Song identification from descriptions and transcripts
+  | "summarize" // Lyrics summaries
+  | "translate"
+  | "mood" // Mood parsing for recommendations
+  | "recommend"
+  | "answer" // Music questions and their web sources
+  | "transcribe" // Speech to text
+  | "embed"; // Query embeddings for the response cache
+
+interface TaskDefaults {
+  model: string;
+  fallbackModel?: string; // On the primary provider, when no fallback provider is configured
+  timeoutMs: number;
+}
+
+const TASK_DEFAULTS: Record<LlmTask, TaskDefaults> = {
+  intent: { model: "gpt-4o-mini", timeoutMs: 10000 },
+  extract: { model: "gpt-4o-mini", timeoutMs: 10000 },
+  ocr: { model: "gpt-4o", fallbackModel: "gpt-4o-mini", timeoutMs: 30000 },
+  resolve: { model: "gpt-4o", fallbackModel: "gpt-4o-mini", timeoutMs: 90000 },
+  summarize: { model: "gpt-4o", fallbackModel: "gpt-4o-mini", timeoutMs: 30000 },
+  translate: { model: "gpt-4o-mini", timeoutMs: 20000 },
+  mood: { model: "gpt-4o-mini", timeoutMs: 30000 },
+  recommend: { model: "gpt-4o", fallbackModel: "gpt-4o-mini", timeoutMs: 60000 },
+  answer: { model: "gpt-4o", fallbackModel: "gpt-4o-mini", timeoutMs: 60000 },
+  transcribe: { model: "whisper-1", timeoutMs: 60000 },
+  embed: { model: "text-embedding-3-small", timeoutMs: 10000 },
+};
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+export interface LlmRoute {
+  provider: string; // LLM_PROVIDER, else "openai" for the default base URL and the URL's host otherwise
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+// Breaker name of a route, e.g. "openai:gpt-4o"
+export function routeName(route: LlmRoute): string {
+  return `${route.provider}:${route.model}`;
+}
+
+export interface LlmDeps {
+  fetch: typeof fetch;
+  env: (name: string) => string | undefined;
+  usage?: UsageRecorder;
+}
+
+// The part of CircuitBreaker the client uses; lets callers pass pass-through breakers
+export type LlmBreaker = Pick<CircuitBreaker, "execute">;
+
+export function defaultLlmDeps(): LlmDeps {
+  return {
+    fetch: (input, init) => fetch(input, init),
+    env: (name) => Deno.env.get(name),
+  };
+}
+
+// An upstream error response. 429 and 5xx count against the route's breaker, other statuses
+// (bad request, unknown model) are the caller's problem and do not.
+export class LlmError extends Error {
+  readonly status: number;
+  readonly route: string;
+  readonly body: string;
+
+  constructor(route: string, status: number, body: string) {
+    super(`LLM API error (${status}) from ${route}: ${body.substring(0, 500)}`);
+    this.name = "LlmError";
+    this.status = status;
+    this.route = route;
+    this.body = body;
+  }
+}
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface CallOptions {
+  model?: string; // Replaces the task's primary model
+  timeoutMs?: number; // Replaces the task's timeout
+  signal?: AbortSignal;
+}
+
+export interface ChatOptions extends CallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: ResponseFormat;
+  onContent?: (content: string) => void; // Streams the completion; called with the content so far
+}
+
+export interface ChatResult {
+  content: string | undefined;
+  route: string;
+  fallback: boolean; // Answered by the fallback route
+  usage?: LlmUsage;
+}
+
+export interface AudioFile {
+  data: BlobPart;
+  filename: string;
+  mimeType: string;
+  durationSeconds?: number | null; // Recorded as the call's audio seconds when known
+}
+
+export class LlmClient {
+  private readonly deps: LlmDeps;
+  private readonly breaker: (name: string) => LlmBreaker;
+
+  constructor(
+    supabase: SupabaseClient,
+    deps: LlmDeps = defaultLlmDeps(),
+    breaker: (name: string) => LlmBreaker = (name) => new CircuitBreaker(name, supabase)
+  ) {
+    this.deps = deps;
+    this.breaker = breaker;
+  }
+
+  // False when there is neither an API key nor a custom base URL (a local server may need no key)
+  isConfigured(): boolean {
+    const { env } = this.deps;
+    return !!(env("LLM_API_KEY") || env("OPENAI_API_KEY") || env("LLM_BASE_URL"));
+  }
+
+  // Primary route for the task, then its fallback route if it has one
+  routes(task: LlmTask, model?: string): LlmRoute[] {
+    const { env } = this.deps;
+    const key = task.toUpperCase();
+    const primaryEndpoint = endpoint(env("LLM_BASE_URL"), env("LLM_API_KEY") || env("OPENAI_API_KEY"), env("LLM_PROVIDER"));
+    const primary: LlmRoute = { ...primaryEndpoint, model: model || env(`LLM_MODEL_${key}`) || TASK_DEFAULTS[task].model };
+
+    const fallbackBaseUrl = env("LLM_FALLBACK_BASE_URL");
+    const fallbackEndpoint = fallbackBaseUrl
+      ? endpoint(fallbackBaseUrl, env("LLM_FALLBACK_API_KEY"), env("LLM_FALLBACK_PROVIDER"))
+      : primaryEndpoint;
+    const fallbackModel = env(`LLM_FALLBACK_MODEL_${key}`) || (fallbackBaseUrl ? primary.model : TASK_DEFAULTS[task].fallbackModel);
+    if (!fallbackModel) {
+      return [primary];
+    }
+    const fallback: LlmRoute = { ...fallbackEndpoint, model: fallbackModel };
+    return routeName(fallback) === routeName(primary) ? [primary] : [primary, fallback];
+  }
+
+  async chat(task: LlmTask, messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> {
+    const streaming = !!options.onContent;
+    const { response, route, fallback, started } = await this.send(task, "/chat/completions", options, (route) => ({
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: route.model,
+        messages,
+        ...(options.responseFormat ? { response_format: options.responseFormat } : {}),
+        ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+        ...(options.maxTokens !== undefined ? { max_tokens: options.maxTokens } : {}),
+        ...(streaming ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    }));
+
+    const data = streaming
+      ? await readChatCompletionStream(response, options.onContent!)
+      : await response.json();
+    if (data.usage) {
+      console.log(`📊 [LLM] ${task} on ${routeName(route)}: prompt=${data.usage.prompt_tokens}, completion=${data.usage.completion_tokens}, total=${data.usage.total_tokens}`);
+    }
+    this.deps.usage?.record({
+      provider: route.provider,
+      model: route.model,
+      operation: task,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+      durationMs: Date.now() - started,
+      metadata: fallback ? { fallback: true } : undefined,
+    });
+    return {
+      content: data.choices?.[0]?.message?.content ?? undefined,
+      route: routeName(route),
+      fallback,
+      usage: data.usage ?? undefined,
+    };
+  }
+
+  // A chat completion validated against `output` (see completeStructured). Only the first
+  // attempt is streamed to options.onContent.
+  async structured<T>(
+    task: LlmTask,
+    output: StructuredOutput<T>,
+    messages: ChatMessage[],
+    options: ChatOptions & { label?: string } = {}
+  ): Promise<StructuredResult<T>> {
+    const { label, ...chatOptions } = options;
+    return await completeStructured(output, messages, async (attemptMessages, format, attempt) => {
+      const result = await this.chat(task, attemptMessages, {
+        ...chatOptions,
+        responseFormat: format,
+        onContent: attempt === 0 ? chatOptions.onContent : undefined,
+      });
+      return result.content;
+    }, label ?? task.toUpperCase());
+  }
+
+  // Speech to text through the task "transcribe"; returns the transcript ("" when there is none)
+  async transcribe(file: AudioFile, options: CallOptions = {}): Promise<string> {
+    const { response, route, started } = await this.send("transcribe", "/audio/transcriptions", options, (route) => {
+      const formData = new FormData();
+      formData.append("file", new Blob([file.data], { type: file.mimeType }), file.filename);
+      formData.append("model", route.model);
+      return { body: formData };
+    });
+    const data = await response.json();
+    this.deps.usage?.record({
+      provider: route.provider,
+      model: route.model,
+      operation: "transcribe",
+      audioSeconds: file.durationSeconds,
+      durationMs: Date.now() - started,
+    });
+    return typeof data.text === "string" ? data.text : "";
+  }
+
+  // Embedding of `input` through the task "embed". `model` is the route name, so vectors from
+  // different providers or models are never compared with each other.
+  async embed(input: string, options: CallOptions & { dimensions?: number } = {}): Promise<{ embedding: number[]; model: string }> {
+    const { response, route, started } = await this.send("embed", "/embeddings", options, (route) => ({
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: route.model,
+        input,
+        ...(options.dimensions !== undefined ? { dimensions: options.dimensions } : {}),
+      }),
+    }));
+    const data = await response.json();
+    this.deps.usage?.record({
+      provider: route.provider,
+      model: route.model,
+      operation: "embed",
+      promptTokens: data.usage?.prompt_tokens,
+      durationMs: Date.now() - started,
+    });
+    const embedding = data.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new Error(`No embedding in the reply from ${routeName(route)}`);
+    }
+    return { embedding, model: routeName(route) };
+  }
+
+  // Sends the request on the first route whose breaker lets it through. Throws LlmError for an
+  // error response, CircuitOpenError when every route's breaker is open. Failed calls are
+  // recorded here, successful ones by the caller once it has read the usage.
+  private async send(
+    task: LlmTask,
+    path: string,
+    options: CallOptions,
+    request: (route: LlmRoute) => { headers?: Record<string, string>; body: BodyInit }
+  ): Promise<{ response: Response; route: LlmRoute; fallback: boolean; started: number }> {
+    const routes = this.routes(task, options.model);
+    const timeoutMs = options.timeoutMs ?? TASK_DEFAULTS[task].timeoutMs;
+    let openError: CircuitOpenError | null = null;
+
+    for (const [index, route] of routes.entries()) {
+      const name = routeName(route);
+      const started = Date.now();
+      try {
+        const response = await this.breaker(name).execute(async () => {
+          const { headers, body } = request(route);
+          const timeout = AbortSignal.timeout(timeoutMs);
+          const response = await this.deps.fetch(`${route.baseUrl}${path}`, {
+            method: "POST",
+            headers: {
+              ...(route.apiKey ? { "Authorization": `Bearer ${route.apiKey}` } : {}),
+              ...headers,
+            },
+            body,
+            signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+          });
+          if (response.status === 429 || response.status >= 500) {
+            throw new LlmError(name, response.status, await response.text());
+          }
+          return response;
+        });
+
+        if (!response.ok) {
+          throw new LlmError(name, response.status, await response.text());
+        }
+        if (index > 0) {
+          console.log(`↪️ [LLM] ${task} served by fallback route ${name}`);
+        }
+        return { response, route, fallback: index > 0, started };
+      } catch (error) {
+        if (!(error instanceof CircuitOpenError)) {
+          this.deps.usage?.record({
+            provider: route.provider,
+            model: route.model,
+            operation: task,
+            status: "error",
+            durationMs: Date.now() - started,
+            metadata: { error: error instanceof LlmError ? error.status : error instanceof Error ? error.name : "unknown" },
+          });
+          throw error;
+        }
+        console.warn(`⚠️ [LLM] Breaker open for ${name} (${task}), ${index + 1 < routes.length ? "trying the fallback route" : "no route left"}`);
+        openError ??= error;
+      }
+    }
+    throw openError!;
+  }
+}
+
+function endpoint(baseUrl: string | undefined, apiKey: string | undefined, provider: string | undefined): Omit<LlmRoute, "model"> {
+  const url = (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  return {
+    provider: provider || (url === DEFAULT_BASE_URL ? "openai" : new URL(url).host),
+    baseUrl: url,
+    apiKey: apiKey || undefined,
+  };
+}
+
+// Reads a `stream: true` chat completion and rebuilds the non-streamed response shape,
+// calling onContent with the accumulated message content after every delta.
+async function readChatCompletionStream(
+  response: Response,
+  onContent: (content: string) => void
+): Promise<any> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+  let usage: any = undefined;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (!line.startsWith("data:")) continue;
+
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") continue;
+
+      try {
+        const chunk = JSON.parse(data);
+        if (chunk.usage) usage = chunk.usage;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onContent(content);
+        }
+      } catch (error) {
+        console.warn(`⚠️ [LLM] Skipping malformed completion chunk:`, error);
+      }
+    }
+  }
+
+  return {
+    choices: [{ message: { role: "assistant", content } }],
+    usage,
+  };
+}
@@ -0,0 +1,103 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CircuitOpenError } from "./circuitBreaker.ts";
+import { LlmClient, LlmError } from "./llm.ts";
+import type { UsageEntry, UsageRecorder } from "./usage.ts";
+
+interface SentRequest {
+  url: string;
+  model: string;
+  authorization: string | null;
+}
+
+// An LLM client over `env` whose breakers named in `open` refuse every call and whose endpoint
+// answers with `status`, recording the requests, the breakers asked and the usage entries
+function client(env: Record<string, string>, options: { open?: string[]; status?: number } = {}) {
+  const requests: SentRequest[] = [];
+  const breakers: string[] = [];
+  const usage: UsageEntry[] = [];
+  const llm = new LlmClient(
+    {} as SupabaseClient,
+    {
+      fetch: (url, init) => {
+        requests.push({
+          url: String(url),
+          model: JSON.parse(init!.body as string).model,
+          authorization: new Headers(init!.headers).get("Authorization"),
+        });
+        const status = options.status ?? 200;
+        const body = status === 200 ? { choices: [{ message: { content: "hello" } }] } : { error: "upstream down" };
+        return Promise.resolve(new Response(JSON.stringify(body), { status }));
+      },
+      env: (name) => env[name],
+      usage: { record: (entry: UsageEntry) => usage.push(entry) } as unknown as UsageRecorder,
+    },
+    (name) => ({
+      execute: (operation) => {
+        breakers.push(name);
+        return options.open?.includes(name) ? Promise.reject(new CircuitOpenError(name, 30)) : operation();
+      },
+    })
+  );
+  return { llm, requests, breakers, usage };
+}
+
+const openai = { LLM_API_KEY: "primary-key" };
+
+Deno.test("chat uses the primary route while its breaker is closed", async () => {
+  const { llm, requests, breakers } = client(openai);
+
+  const result = await llm.chat("resolve", [{ role: "user", content: "hi" }]);
+
+  assertEquals(result.content, "hello");
+  assertEquals(result.route, "openai:gpt-4o");
+  assertEquals(result.fallback, false);
+  assertEquals(breakers, ["openai:gpt-4o"]);
+  assertEquals(requests, [{ url: "https://api.openai.com/v1/chat/completions", model: "gpt-4o", authorization: "Bearer primary-key" }]);
+});
+
+Deno.test("chat fails over to the task's fallback model while the primary breaker is open", async () => {
+  const { llm, requests, breakers, usage } = client(openai, { open: ["openai:gpt-4o"] });
+
+  const result = await llm.chat("resolve", [{ role: "user", content: "hi" }]);
+
+  assertEquals(breakers, ["openai:gpt-4o", "openai:gpt-4o-mini"]);
+  assertEquals(requests.map((r) => r.model), ["gpt-4o-mini"]);
+  assertEquals(result.route, "openai:gpt-4o-mini");
+  assertEquals(result.fallback, true);
+  assertEquals(usage.map((u) => [u.model, u.metadata]), [["gpt-4o-mini", { fallback: true }]]);
+});
+
+Deno.test("chat fails over to the fallback provider with its own key", async () => {
+  const { llm, requests } = client(
+    { ...openai, LLM_FALLBACK_BASE_URL: "https://llm.example.test/v1/", LLM_FALLBACK_API_KEY: "fallback-key" },
+    { open: ["openai:gpt-4o-mini"] }
+  );
+
+  const result = await llm.chat("intent", [{ role: "user", content: "hi" }]);
+
+  // Without LLM_FALLBACK_MODEL_INTENT the fallback provider serves the primary model
+  assertEquals(result.route, "llm.example.test:gpt-4o-mini");
+  assertEquals(requests, [{ url: "https://llm.example.test/v1/chat/completions", model: "gpt-4o-mini", authorization: "Bearer fallback-key" }]);
+});
+
+Deno.test("chat throws the circuit error when no route is left", async () => {
+  const bothOpen = client(openai, { open: ["openai:gpt-4o", "openai:gpt-4o-mini"] });
+  await assertRejects(() => bothOpen.llm.chat("resolve", [{ role: "user", content: "hi" }]), CircuitOpenError);
+  assertEquals(bothOpen.requests, []);
+
+  // intent has no fallback model on the primary provider
+  const single = client(openai, { open: ["openai:gpt-4o-mini"] });
+  assertEquals(single.llm.routes("intent").length, 1);
+  await assertRejects(() => single.llm.chat("intent", [{ role: "user", content: "hi" }]), CircuitOpenError);
+});
+
+Deno.test("chat does not fail over on an error response, it records and throws it", async () => {
+  const { llm, requests, usage } = client(openai, { status: 503 });
+
+  const error = await llm.chat("resolve", [{ role: "user", content: "hi" }]).catch((error) => error);
+
+  assertEquals(error instanceof LlmError && error.status, 503);
+  assertEquals(requests.map((r) => r.model), ["gpt-4o"]);
+  assertEquals(usage.map((u) => [u.model, u.status, u.metadata]), [["gpt-4o", "error", { error: 503 }]]);
+});
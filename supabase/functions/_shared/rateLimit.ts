@@ -0,0 +1,170 @@
+// Token-bucket rate limiting backed by Postgres (consume_rate_limit RPC).
+// Buckets live in rate_limit_buckets so limits hold across isolates and cold starts;
+// capacities and refill rates per user plan and per IP come from rate_limit_tiers.
+// Requests in flight per user are capped separately (acquire/release_concurrency_slot RPCs,
+// max_concurrent per plan).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { jsonError } from "./errors.ts";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Whole tokens left in the most constrained bucket
+  remaining: number;
+  // Seconds until every bucket is full again
+  resetSeconds: number;
+  // Seconds until the request would be allowed (0 when allowed)
+  retryAfter: number;
+  limitedBy: "user" | "ip" | "concurrency" | null;
+}
+
+export interface RateLimitRequest {
+  // Bucket namespace, usually the function name, so each function has its own budget
+  bucket: string;
+  userId: string;
+  ip?: string | null;
+  cost?: number;
+}
+
+// Proxies in front of the function that append to x-forwarded-for (Supabase's edge: 1)
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+// A slot outlives its request by at most this long when the isolate dies before releasing it
+const CONCURRENCY_SLOT_TTL_SECONDS = 300;
+// Retry-After for a request turned away by the concurrency limit
+const CONCURRENCY_RETRY_AFTER_SECONDS = 5;
+
+// The caller's address as the platform saw it: cf-connecting-ip or x-real-ip, which the edge sets
+// and overwrites, else the x-forwarded-for entry added by the outermost trusted proxy
+// (TRUSTED_PROXY_HOPS from the end). Entries before it come from the client and are never used.
+export function clientIp(req: Request, trustedHops = trustedProxyHops()): string | null {
+  for (const header of ["cf-connecting-ip", "x-real-ip"]) {
+    const value = req.headers.get(header)?.trim();
+    if (value) return value;
+  }
+
+  const hops = (req.headers.get("x-forwarded-for") || "").split(",").map((hop) => hop.trim()).filter(Boolean);
+  return hops.length >= trustedHops ? hops[hops.length - trustedHops] : null;
+}
+
+function trustedProxyHops(): number {
+  const hops = Number(Deno.env.get("TRUSTED_PROXY_HOPS"));
+  return Number.isInteger(hops) && hops > 0 ? hops : DEFAULT_TRUSTED_PROXY_HOPS;
+}
+
+// Consumes `cost` tokens from the user bucket and, when an IP is known, the IP bucket.
+// Fails open if the RPC errors: a limiter outage should not take the API down with it.
+export async function consumeRateLimit(
+  supabase: SupabaseClient,
+  { bucket, userId, ip = null, cost = 1 }: RateLimitRequest
+): Promise<RateLimitResult> {
+  const { data, error } = await supabase.rpc("consume_rate_limit", {
+    p_bucket: bucket,
+    p_user_id: userId,
+    p_ip: ip,
+    p_cost: cost,
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error(`Rate limiter unavailable for ${bucket}, allowing request:`, error?.message);
+    return { allowed: true, remaining: 0, resetSeconds: 0, retryAfter: 0, limitedBy: null };
+  }
+
+  return {
+    allowed: row.allowed,
+    remaining: row.remaining,
+    resetSeconds: row.reset_seconds,
+    retryAfter: row.retry_after,
+    limitedBy: row.limited_by,
+  };
+}
+
+export interface ConcurrencySlot {
+  allowed: boolean;
+  active: number; // The user's requests in flight, this one included when allowed
+  limit: number | null; // null when the plan has no concurrency limit
+  release: () => Promise<void>; // Gives the slot back; safe to call more than once
+}
+
+// Takes one of the user's concurrency slots for a request. Release it when the request is done
+// (for a streamed response, when the stream ends). Fails open like consumeRateLimit.
+export async function acquireConcurrencySlot(
+  supabase: SupabaseClient,
+  { bucket, userId }: { bucket: string; userId: string }
+): Promise<ConcurrencySlot> {
+  const requestId = crypto.randomUUID();
+  const { data, error } = await supabase.rpc("acquire_concurrency_slot", {
+    p_bucket: bucket,
+    p_user_id: userId,
+    p_request_id: requestId,
+    p_ttl_seconds: CONCURRENCY_SLOT_TTL_SECONDS,
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error(`Concurrency limiter unavailable for ${bucket}, allowing request:`, error?.message);
+    return { allowed: true, active: 0, limit: null, release: () => Promise.resolve() };
+  }
+
+  let released = !row.allowed;
+  return {
+    allowed: row.allowed,
+    active: row.active,
+    limit: row.max_concurrent,
+    release: async () => {
+      if (released) return;
+      released = true;
+      const { error } = await supabase.rpc("release_concurrency_slot", { p_request_id: requestId });
+      if (error) {
+        console.error(`Failed to release concurrency slot for ${bucket} (expires on its own):`, error.message);
+      }
+    },
+  };
+}
+
+// What to pass rateLimitedResponse when the slot was refused; keeps the token bucket's headers
+export function concurrencyLimitedResult(rateLimit: RateLimitResult): RateLimitResult {
+  return { ...rateLimit, allowed: false, retryAfter: CONCURRENCY_RETRY_AFTER_SECONDS, limitedBy: "concurrency" };
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(result.resetSeconds),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+// Adds the X-RateLimit-* headers to a response built elsewhere (pipeline result, SSE stream)
+export function withRateLimitHeaders(response: Response, result: RateLimitResult): Response {
+  const headers = rateLimitHeaders(result);
+  try {
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    const copy = new Headers(response.headers);
+    for (const [name, value] of Object.entries(headers)) {
+      copy.set(name, value);
+    }
+    return new Response(response.body, { status: response.status, statusText: response.statusText, headers: copy });
+  }
+}
+
+// 429 envelope; `extra` carries each function's legacy retry field
+export function rateLimitedResponse(
+  result: RateLimitResult,
+  options: { requestId?: string; extra?: Record<string, unknown> } = {}
+): Response {
+  return jsonError("rate_limited", "Rate limit exceeded", {
+    requestId: options.requestId,
+    details: { limited_by: result.limitedBy },
+    extra: options.extra,
+    headers: rateLimitHeaders(result),
+  });
+}
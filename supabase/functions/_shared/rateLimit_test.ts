@@ -0,0 +1,19 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { clientIp } from "./rateLimit.ts";
+
+function request(headers: Record<string, string>): Request {
+  return new Request("https://example.test/functions/v1/recall-resolve", { headers });
+}
+
+Deno.test("clientIp prefers the addresses the edge sets", () => {
+  assertEquals(clientIp(request({ "cf-connecting-ip": "203.0.113.7", "x-forwarded-for": "1.1.1.1, 203.0.113.7" })), "203.0.113.7");
+  assertEquals(clientIp(request({ "x-real-ip": "203.0.113.8", "x-forwarded-for": "1.1.1.1" })), "203.0.113.8");
+});
+
+Deno.test("clientIp ignores x-forwarded-for entries the client sent", () => {
+  const spoofed = request({ "x-forwarded-for": "10.0.0.1, 10.0.0.2, 198.51.100.4" });
+  assertEquals(clientIp(spoofed, 1), "198.51.100.4");
+  assertEquals(clientIp(spoofed, 2), "10.0.0.2");
+  assertEquals(clientIp(request({ "x-forwarded-for": "198.51.100.4" }), 2), null);
+  assertEquals(clientIp(request({})), null);
+});
@@ -0,0 +1,77 @@
+// Recall progress over Supabase Realtime broadcast.
+// Every event goes to the private channel `recall:<recall_id>` (the owner is authorized by the
+// realtime.messages policy in migration 20261018000700_recall_realtime.sql), so clients can
+// subscribe instead of polling `recalls`. Publishing is best-effort: a Realtime outage never
+// fails the job that was reporting progress.
+
+import { errorMessage } from "./errors.ts";
+
+const PUBLISH_TIMEOUT_MS = 2000;
+
+export type RecallEventType =
+  | "processing"
+  | "provider_attempt_started"
+  | "provider_attempt_failed"
+  | "candidate_found"
+  | "retry_scheduled"
+  | "done"
+  | "failed";
+
+// Fields stamped on every event from one publisher (which job is reporting)
+export interface RecallEventSource {
+  job_id?: string;
+  job_type?: string;
+  request_id?: string;
+}
+
+export interface RecallPublisher {
+  publish(type: RecallEventType, data?: Record<string, unknown>): Promise<void>;
+}
+
+export function recallChannel(recallId: string): string {
+  return `recall:${recallId}`;
+}
+
+// Sends one broadcast through the Realtime REST endpoint; never throws
+export async function publishRecallEvent(
+  recallId: string,
+  type: RecallEventType,
+  payload: Record<string, unknown> = {}
+): Promise<void> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceKey) return;
+
+  try {
+    const response = await fetch(`${supabaseUrl}/realtime/v1/api/broadcast`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "apikey": serviceKey,
+        "Authorization": `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({
+        messages: [{
+          topic: recallChannel(recallId),
+          event: type,
+          private: true,
+          payload: { ...payload, type, recall_id: recallId, at: new Date().toISOString() },
+        }],
+      }),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.warn(`Realtime broadcast ${type} for recall ${recallId} returned ${response.status}`);
+    }
+    await response.body?.cancel();
+  } catch (error) {
+    console.warn(`Realtime broadcast ${type} for recall ${recallId} failed:`, errorMessage(error));
+  }
+}
+
+export function recallPublisher(recallId: string, source: RecallEventSource = {}): RecallPublisher {
+  return {
+    publish: (type, data = {}) => publishRecallEvent(recallId, type, { ...source, ...data }),
+  };
+}
@@ -0,0 +1,137 @@
+// ACRCloud: audio fingerprinting (recorded music) and query-by-humming.
+// Humming needs its own project, bound to ACRCloud's cover/humming bucket, hence separate credentials.
+
+import { type AudioSegment, identifyFirstMatchingSegment } from "../audio.ts";
+import type { AudioRecognitionProvider, AudioRecognitionResult, RecognitionDeps } from "./types.ts";
+
+const DEFAULT_HOST = "identify-us-west-2.acrcloud.com";
+
+export function acrcloudProvider(deps: RecognitionDeps): AudioRecognitionProvider {
+  const credentials = () => ({
+    accessKey: deps.env("ACRCLOUD_ACCESS_KEY"),
+    accessSecret: deps.env("ACRCLOUD_ACCESS_SECRET"),
+    host: deps.env("ACRCLOUD_HOST") || DEFAULT_HOST,
+  });
+
+  return {
+    id: "acrcloud",
+    kind: "fingerprint",
+    isConfigured: () => !!credentials().accessKey && !!credentials().accessSecret,
+    async identify(audio, hints) {
+      const { accessKey, accessSecret, host } = credentials();
+      const { result, segment } = await identifyFirstMatchingSegment(audio.segments, async (segment) => {
+        const data = await identifyWithACRCloud(deps, { host, accessKey: accessKey!, accessSecret: accessSecret! }, segment, "audio", hints.signal);
+        const track = data.status?.code === 0 ? data.metadata?.music?.[0] : undefined;
+        if (!track) {
+          return { success: false, confidence: 0, service: "acrcloud" };
+        }
+
+        // Fingerprint scores are 0-100
+        const score = typeof track.score === "number" ? track.score : undefined;
+        return {
+          ...trackDetails(track),
+          success: true,
+          confidence: score !== undefined ? score / 100 : 0.8,
+          rawScore: score,
+          service: "acrcloud",
+          reason: "Identified via ACRCloud audio fingerprinting",
+        };
+      }, hints.signal);
+      return result.success ? { ...result, segmentStartSeconds: segment.startSeconds } : result;
+    },
+  };
+}
+
+// Returns the closest melody as the result and the other similar tracks as alternatives.
+// The registry drops matches under the configured minimum and caps the confidence.
+export function acrcloudHummingProvider(deps: RecognitionDeps): AudioRecognitionProvider {
+  const credentials = () => ({
+    accessKey: deps.env("ACRCLOUD_HUMMING_ACCESS_KEY"),
+    accessSecret: deps.env("ACRCLOUD_HUMMING_ACCESS_SECRET"),
+    host: deps.env("ACRCLOUD_HUMMING_HOST") || deps.env("ACRCLOUD_HOST") || DEFAULT_HOST,
+  });
+
+  return {
+    id: "acrcloud_humming",
+    kind: "melody",
+    isConfigured: () => !!credentials().accessKey && !!credentials().accessSecret,
+    async identify(audio, hints) {
+      const { accessKey, accessSecret, host } = credentials();
+      const maxResults = typeof hints.settings.max_results === "number" ? hints.settings.max_results : 5;
+
+      const { result, segment } = await identifyFirstMatchingSegment(audio.segments, async (segment) => {
+        const data = await identifyWithACRCloud(deps, { host, accessKey: accessKey!, accessSecret: accessSecret! }, segment, "humming", hints.signal);
+        const tracks: any[] = data.status?.code === 0 ? data.metadata?.humming || [] : [];
+
+        const matches: AudioRecognitionResult[] = tracks
+          .map((track) => {
+            // Humming scores are 0-1; tolerate the 0-100 scale fingerprint results use
+            const score = typeof track.score === "number" ? (track.score > 1 ? track.score / 100 : track.score) : 0;
+            return {
+              ...trackDetails(track),
+              success: true,
+              confidence: score,
+              rawScore: track.score,
+              service: "acrcloud_humming",
+              reason: `Melody matched via ACRCloud humming recognition (similarity ${score.toFixed(2)})`,
+            };
+          })
+          .filter((match) => match.title && match.artist)
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, maxResults);
+
+        if (matches.length === 0) {
+          return { success: false, confidence: 0, service: "acrcloud_humming" };
+        }
+        return { ...matches[0], alternatives: matches.slice(1) };
+      }, hints.signal);
+      return result.success ? { ...result, segmentStartSeconds: segment.startSeconds } : result;
+    },
+  };
+}
+
+async function identifyWithACRCloud(
+  deps: RecognitionDeps,
+  project: { host: string; accessKey: string; accessSecret: string },
+  segment: AudioSegment,
+  dataType: "audio" | "humming",
+  signal: AbortSignal
+): Promise<any> {
+  const formData = new FormData();
+  formData.append("sample", new Blob([segment.data], { type: segment.mimeType }));
+  formData.append("sample_bytes", segment.data.byteLength.toString());
+  formData.append("access_key", project.accessKey);
+  formData.append("data_type", dataType);
+  formData.append("format", segment.format);
+
+  const response = await deps.fetch(`https://${project.host}/v1/identify`, {
+    method: "POST",
+    headers: {
+      "access-key": project.accessKey,
+      "access-secret": project.accessSecret,
+    },
+    body: formData,
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`ACRCloud API error (${response.status}): ${(await response.text()).substring(0, 200)}`);
+  }
+  return await response.json();
+}
+
+// Song details and streaming links from an ACRCloud track
+function trackDetails(track: any): Pick<AudioRecognitionResult, "title" | "artist" | "album" | "releaseDate" | "spotifyUrl" | "appleMusicUrl"> {
+  return {
+    title: track.title,
+    artist: track.artists?.[0]?.name || track.artists?.[0],
+    album: track.album?.name,
+    releaseDate: track.release_date,
+    spotifyUrl: track.external_metadata?.spotify?.track?.id
+      ? `https://open.spotify.com/track/${track.external_metadata.spotify.track.id}`
+      : undefined,
+    appleMusicUrl: track.external_metadata?.apple_music?.track?.id
+      ? `https://music.apple.com/track/${track.external_metadata.apple_music.track.id}`
+      : undefined,
+  };
+}
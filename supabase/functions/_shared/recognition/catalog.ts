@@ -0,0 +1,86 @@
+// Our own catalog: fingerprints the upload and looks it up in track_fingerprints.
+// No third-party call and no secrets, so it runs first and a confident match saves the paid APIs.
+// Segments carry samples for linear PCM and decoded AAC; uploads without any come back as no match.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { compareFingerprints, computeFingerprint, FINGERPRINT_ALGORITHM, FINGERPRINT_FRAME_SECONDS } from "../fingerprint.ts";
+import type { AudioRecognitionProvider, AudioRecognitionResult, RecognitionDeps } from "./types.ts";
+
+// Alignments around the voted one that are also scored, in frames
+const ALIGNMENT_SLACK = 2;
+
+export function catalogFingerprintProvider(_deps: RecognitionDeps, supabase: SupabaseClient): AudioRecognitionProvider {
+  return {
+    id: "catalog_fingerprint",
+    kind: "fingerprint",
+    isConfigured: () => true,
+    async identify(audio, hints) {
+      const maxResults = typeof hints.settings.max_results === "number" ? hints.settings.max_results : 3;
+      const segments = audio.segments.filter((segment) => segment.pcm);
+      if (segments.length === 0) {
+        return { success: false, confidence: 0, service: "catalog_fingerprint", reason: "Audio could not be decoded for fingerprinting" };
+      }
+
+      for (const segment of segments) {
+        if (hints.signal.aborted) break;
+
+        const query = computeFingerprint(segment.pcm!.samples, segment.pcm!.sampleRate);
+        if (query.length === 0) continue;
+
+        const { data, error } = await supabase
+          .rpc("match_track_fingerprint", {
+            p_fingerprint: Array.from(query, (code) => code | 0),
+            p_algorithm: FINGERPRINT_ALGORITHM,
+            p_limit: maxResults,
+          })
+          .abortSignal(hints.signal);
+        if (error) {
+          throw new Error(`Fingerprint lookup failed: ${error.message}`);
+        }
+
+        const matches = ((data || []) as any[])
+          .map((candidate) => scoreCandidate(query, candidate, segment.startSeconds))
+          .filter((match): match is AudioRecognitionResult => match !== null)
+          .sort((a, b) => b.confidence - a.confidence);
+
+        if (matches.length > 0) {
+          return { ...matches[0], segmentStartSeconds: segment.startSeconds, alternatives: matches.slice(1) };
+        }
+      }
+
+      return { success: false, confidence: 0, service: "catalog_fingerprint" };
+    },
+  };
+}
+
+// Scores a candidate bit by bit at its voted alignment and the ones next to it
+function scoreCandidate(query: Uint32Array, candidate: any, segmentStartSeconds: number): AudioRecognitionResult | null {
+  const reference: number[] = candidate.fingerprint || [];
+  let best: { score: number; bitErrorRate: number; offset: number } | null = null;
+  for (let offset = candidate.offset_frames - ALIGNMENT_SLACK; offset <= candidate.offset_frames + ALIGNMENT_SLACK; offset++) {
+    const comparison = compareFingerprints(query, reference, offset);
+    if (comparison && (!best || comparison.score > best.score)) {
+      best = { ...comparison, offset };
+    }
+  }
+  if (!best || best.score === 0) {
+    return null;
+  }
+
+  const position = Math.max(0, best.offset * FINGERPRINT_FRAME_SECONDS);
+  return {
+    success: true,
+    title: candidate.title,
+    artist: candidate.artist,
+    confidence: best.score,
+    rawScore: best.bitErrorRate,
+    service: "catalog_fingerprint",
+    reason: `Matched our catalog recording at ${formatTime(position)} (segment from ${formatTime(segmentStartSeconds)})`,
+    trackId: candidate.track_id,
+  };
+}
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
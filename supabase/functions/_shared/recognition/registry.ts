@@ -0,0 +1,333 @@
+// Registry of audio recognition providers, configured from the recognition_providers table.
+// Which providers run, in what order, with what timeout and confidence thresholds is data, not
+// code: a new provider is a module registered in PROVIDER_MODULES plus a row in the table.
+// Every call goes through the provider's shared circuit breaker and is logged to recall_logs, and
+// with deps.usage set it is recorded to usage_events (priced per call in usage_prices).
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PreprocessedAudio } from "../audio.ts";
+import { CircuitBreaker, listProviderHealth, type ProviderHealth } from "../circuitBreaker.ts";
+import { errorMessage } from "../errors.ts";
+import { acrcloudHummingProvider, acrcloudProvider } from "./acrcloud.ts";
+import { catalogFingerprintProvider } from "./catalog.ts";
+import { shazamProvider } from "./shazam.ts";
+import type {
+  AudioRecognitionProvider,
+  AudioRecognitionResult,
+  RecognitionDeps,
+  RecognitionHints,
+  RecognitionInputType,
+  RecognitionProviderKind,
+} from "./types.ts";
+import { whisperProvider } from "./whisper.ts";
+
+const PROVIDER_MODULES: Array<(deps: RecognitionDeps, supabase: SupabaseClient) => AudioRecognitionProvider> = [
+  catalogFingerprintProvider,
+  acrcloudProvider,
+  acrcloudHummingProvider,
+  shazamProvider,
+  whisperProvider,
+];
+
+// A row of recognition_providers
+export interface RecognitionProviderConfig {
+  provider: string;
+  enabled: boolean;
+  priority: number; // Lower runs (and is preferred) first
+  timeout_ms: number; // Budget for the provider's whole identify() call
+  min_confidence: number; // Matches below this are dropped
+  max_confidence: number; // Confidence is capped here
+  accept_confidence: number | null; // Runs first; a match at or above this skips the other providers
+  input_types: RecognitionInputType[];
+  settings: Record<string, unknown>;
+}
+
+export interface SelectedProvider {
+  provider: AudioRecognitionProvider;
+  config: RecognitionProviderConfig;
+}
+
+// Used when the table cannot be read; mirrors the rows seeded by the migrations
+const DEFAULT_CONFIG: RecognitionProviderConfig[] = [
+  { provider: "catalog_fingerprint", enabled: true, priority: 0, timeout_ms: 10000, min_confidence: 0.35, max_confidence: 0.95, accept_confidence: 0.6, input_types: ["voice", "background"], settings: { max_results: 3 } },
+  { provider: "acrcloud", enabled: true, priority: 10, timeout_ms: 40000, min_confidence: 0, max_confidence: 1, accept_confidence: null, input_types: ["voice", "background"], settings: {} },
+  { provider: "acrcloud_humming", enabled: true, priority: 10, timeout_ms: 40000, min_confidence: 0.3, max_confidence: 0.85, accept_confidence: null, input_types: ["hum"], settings: { max_results: 5 } },
+  { provider: "shazam", enabled: true, priority: 20, timeout_ms: 40000, min_confidence: 0, max_confidence: 1, accept_confidence: null, input_types: ["voice", "background"], settings: {} },
+  { provider: "whisper", enabled: true, priority: 30, timeout_ms: 60000, min_confidence: 0, max_confidence: 1, accept_confidence: null, input_types: ["voice", "background", "hum"], settings: { model: "gpt-4o" } },
+];
+
+// Config is re-read at most this often per isolate
+const CONFIG_TTL_MS = 60000;
+
+let cachedConfig: { rows: RecognitionProviderConfig[]; loadedAt: number } | null = null;
+
+export function defaultRecognitionDeps(): RecognitionDeps {
+  return {
+    fetch: (input, init) => fetch(input, init),
+    env: (name) => Deno.env.get(name),
+  };
+}
+
+// The part of CircuitBreaker the registry uses; lets callers pass pass-through breakers
+export type RecognitionBreaker = Pick<CircuitBreaker, "acquire" | "recordSuccess" | "recordFailure">;
+
+export class RecognitionRegistry {
+  private readonly supabase: SupabaseClient;
+  private readonly providers: Map<string, AudioRecognitionProvider>;
+  private readonly breaker: (provider: string) => RecognitionBreaker;
+  private readonly usage?: RecognitionDeps["usage"];
+
+  constructor(
+    supabase: SupabaseClient,
+    deps: RecognitionDeps = defaultRecognitionDeps(),
+    breaker: (provider: string) => RecognitionBreaker = (provider) => new CircuitBreaker(provider, supabase)
+  ) {
+    this.supabase = supabase;
+    this.providers = createProviders(deps, supabase);
+    this.breaker = breaker;
+    this.usage = deps.usage;
+  }
+
+  // The enabled, configured providers for this kind of input, in priority order.
+  // Hummed input falls back to the background providers when no melody provider is available.
+  async select(
+    inputType: RecognitionInputType,
+    options: { kinds?: RecognitionProviderKind[] } = {}
+  ): Promise<SelectedProvider[]> {
+    const config = await loadProviderConfig(this.supabase);
+    const selected: SelectedProvider[] = [];
+    for (const row of config) {
+      const provider = this.providers.get(row.provider);
+      if (!provider) {
+        console.log(`Recognition provider ${row.provider} has no module, skipping`);
+        continue;
+      }
+      if (!row.enabled || !row.input_types.includes(inputType)) continue;
+      if (options.kinds && !options.kinds.includes(provider.kind)) continue;
+      if (!provider.isConfigured()) {
+        console.log(`Recognition provider ${row.provider} not configured, skipping`);
+        continue;
+      }
+      selected.push({ provider, config: row });
+    }
+
+    if (inputType === "hum" && !selected.some((s) => s.provider.kind === "melody")) {
+      console.log("No melody provider available, using background providers for hum input");
+      return this.select("background", options);
+    }
+    return selected;
+  }
+
+  // Runs one provider under its timeout and breaker. Never throws: failures come back as
+  // unsuccessful results with `error` set, and confidences are clamped to the configured range.
+  async run(
+    selected: SelectedProvider,
+    audio: PreprocessedAudio,
+    hints: Omit<RecognitionHints, "settings">
+  ): Promise<AudioRecognitionResult> {
+    const { provider, config } = selected;
+    const started = Date.now();
+    const failed = (error: string): AudioRecognitionResult =>
+      ({ success: false, confidence: 0, service: provider.id, error, latencyMs: Date.now() - started });
+
+    const breaker = this.breaker(provider.id);
+    const permit = await breaker.acquire();
+    if (!permit.allowed) {
+      return failed(`Circuit breaker open, retry after ${permit.retryAfterSeconds}s`);
+    }
+
+    try {
+      const result = await provider.identify(audio, {
+        ...hints,
+        signal: AbortSignal.any([hints.signal, AbortSignal.timeout(config.timeout_ms)]),
+        settings: config.settings,
+      });
+      await breaker.recordSuccess();
+      this.meter(provider, hints, "success", started);
+      return { ...applyThresholds(result, config), latencyMs: Date.now() - started };
+    } catch (error) {
+      this.meter(provider, hints, "error", started);
+      // Abandoned because the caller stopped waiting: not the provider's fault
+      if (!hints.signal.aborted) {
+        await breaker.recordFailure(error);
+      }
+      const timedOut = error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+      console.error(`Recognition provider ${provider.id} failed:`, timedOut ? "timeout" : error);
+      return failed(timedOut ? "Timed out" : errorMessage(error));
+    }
+  }
+
+  // Transcription providers make their calls through LlmClient, which records them itself
+  private meter(
+    provider: AudioRecognitionProvider,
+    hints: Omit<RecognitionHints, "settings">,
+    status: "success" | "error",
+    started: number
+  ): void {
+    if (provider.kind === "transcription") return;
+    this.usage?.record({
+      provider: provider.id,
+      operation: "recognition",
+      status,
+      durationMs: Date.now() - started,
+      metadata: { input_type: hints.inputType },
+    });
+  }
+
+  // Runs the first-pass providers (those with accept_confidence), then, unless one of them matched
+  // at or above its accept_confidence, every other provider in parallel. `attempt` wraps each call,
+  // e.g. to broadcast progress. Results come back in the order the providers ran.
+  async runAll(
+    selected: SelectedProvider[],
+    audio: PreprocessedAudio,
+    hints: Omit<RecognitionHints, "settings">,
+    attempt: (selected: SelectedProvider, run: () => Promise<AudioRecognitionResult>) => Promise<AudioRecognitionResult> =
+      (_, run) => run()
+  ): Promise<{ results: AudioRecognitionResult[]; acceptedBy: string | null }> {
+    const runOne = (s: SelectedProvider) => attempt(s, () => this.run(s, audio, hints));
+    const firstPass = selected.filter((s) => s.config.accept_confidence !== null);
+    const rest = selected.filter((s) => s.config.accept_confidence === null);
+
+    const firstResults = await Promise.all(firstPass.map(runOne));
+    const accepted = firstResults.find((result, i) =>
+      result.success && result.confidence >= firstPass[i].config.accept_confidence!
+    );
+    if (accepted) {
+      console.log(`Recognition accepted ${accepted.service} match (${accepted.confidence.toFixed(2)}), skipping ${rest.length} provider(s)`);
+      return { results: firstResults, acceptedBy: accepted.service };
+    }
+
+    return { results: [...firstResults, ...await Promise.all(rest.map(runOne))], acceptedBy: null };
+  }
+}
+
+function createProviders(deps: RecognitionDeps, supabase: SupabaseClient): Map<string, AudioRecognitionProvider> {
+  return new Map(PROVIDER_MODULES.map((create) => {
+    const provider = create(deps, supabase);
+    return [provider.id, provider];
+  }));
+}
+
+// Keeps the matches within the provider's configured confidence range, promoting the best
+// remaining alternative when the primary match falls below the minimum
+function applyThresholds(result: AudioRecognitionResult, config: RecognitionProviderConfig): AudioRecognitionResult {
+  if (!result.success) return result;
+
+  const [best, ...alternatives] = [result, ...(result.alternatives || [])]
+    .map((match) => ({ ...match, confidence: Math.min(Math.max(match.confidence, 0), config.max_confidence) }))
+    .filter((match) => match.confidence >= config.min_confidence)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  if (!best) {
+    return {
+      success: false,
+      confidence: 0,
+      service: result.service,
+      rawScore: result.rawScore,
+      reason: `No match above ${config.min_confidence}`,
+    };
+  }
+  return {
+    ...best,
+    segmentStartSeconds: result.segmentStartSeconds,
+    alternatives: alternatives.length > 0 ? alternatives.map(({ alternatives: _, ...match }) => match) : undefined,
+  };
+}
+
+async function loadProviderConfig(supabase: SupabaseClient): Promise<RecognitionProviderConfig[]> {
+  if (cachedConfig && Date.now() - cachedConfig.loadedAt < CONFIG_TTL_MS) {
+    return cachedConfig.rows;
+  }
+
+  const { data, error } = await supabase
+    .from("recognition_providers")
+    .select("provider, enabled, priority, timeout_ms, min_confidence, max_confidence, accept_confidence, input_types, settings")
+    .order("priority")
+    .order("provider");
+
+  if (error || !data) {
+    console.error("Failed to load recognition provider config, using defaults:", error?.message);
+    return DEFAULT_CONFIG;
+  }
+
+  const rows = (data as any[]).map((row) => ({
+    ...row,
+    min_confidence: Number(row.min_confidence),
+    max_confidence: Number(row.max_confidence),
+    accept_confidence: row.accept_confidence === null ? null : Number(row.accept_confidence),
+    settings: row.settings || {},
+  })) as RecognitionProviderConfig[];
+  cachedConfig = { rows, loadedAt: Date.now() };
+  return rows;
+}
+
+// One recall_logs row per provider attempt: normalized confidence, raw score and latency
+export async function logRecognitionResults(
+  supabase: SupabaseClient,
+  log: { requestId: string; recallId?: string | null; userId?: string | null; inputType: RecognitionInputType },
+  results: AudioRecognitionResult[]
+): Promise<void> {
+  if (results.length === 0) return;
+
+  const { error } = await supabase
+    .from("recall_logs")
+    .insert(results.map((result) => ({
+      request_id: log.requestId,
+      recall_id: log.recallId ?? null,
+      user_id: log.userId ?? null,
+      operation: "recognition_provider",
+      duration_ms: result.latencyMs ?? null,
+      status: result.error ? "error" : result.success ? "success" : "no_results",
+      error_message: result.error ?? null,
+      metadata: {
+        provider: result.service,
+        input_type: log.inputType,
+        confidence: result.confidence,
+        raw_score: result.rawScore ?? null,
+        title: result.title ?? null,
+        artist: result.artist ?? null,
+        track_id: result.trackId ?? null,
+        segment_start_seconds: result.segmentStartSeconds ?? null,
+        alternatives: result.alternatives?.length ?? 0,
+        reason: result.reason ?? null,
+      },
+    })));
+
+  if (error) {
+    console.error("Failed to log recognition results:", error.message);
+  }
+}
+
+export interface RecognitionProviderStatus extends RecognitionProviderConfig {
+  kind: RecognitionProviderKind | null; // null when the row names a provider with no module
+  configured: boolean; // Its secrets are set
+  breaker: Pick<ProviderHealth, "state" | "failure_count" | "last_failure_at" | "last_success_at" | "last_error"> | null;
+}
+
+// Config, secrets and breaker state for every provider in the table, for the health endpoint
+export async function listRecognitionProviders(
+  supabase: SupabaseClient,
+  deps: RecognitionDeps = defaultRecognitionDeps()
+): Promise<RecognitionProviderStatus[]> {
+  const [config, health] = await Promise.all([loadProviderConfig(supabase), listProviderHealth(supabase)]);
+  const providers = createProviders(deps, supabase);
+
+  return config.map((row) => {
+    const provider = providers.get(row.provider);
+    const breaker = health.find((h) => h.provider === row.provider);
+    return {
+      ...row,
+      kind: provider?.kind ?? null,
+      configured: provider?.isConfigured() ?? false,
+      breaker: breaker
+        ? {
+          state: breaker.state,
+          failure_count: breaker.failure_count,
+          last_failure_at: breaker.last_failure_at,
+          last_success_at: breaker.last_success_at,
+          last_error: breaker.last_error,
+        }
+        : null,
+    };
+  });
+}
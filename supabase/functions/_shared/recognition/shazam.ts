@@ -0,0 +1,60 @@
+// Shazam (via RapidAPI): audio fingerprinting, best for full songs and background audio
+
+import { identifyFirstMatchingSegment, toShazamChunks } from "../audio.ts";
+import { encodeBase64 } from "../base64.ts";
+import type { AudioRecognitionProvider, AudioRecognitionResult, RecognitionDeps } from "./types.ts";
+
+export function shazamProvider(deps: RecognitionDeps): AudioRecognitionProvider {
+  return {
+    id: "shazam",
+    kind: "fingerprint",
+    isConfigured: () => !!deps.env("SHAZAM_API_KEY"),
+    async identify(audio, hints) {
+      const apiKey = deps.env("SHAZAM_API_KEY")!;
+
+      const { result, segment } = await identifyFirstMatchingSegment(audio.segments, async (segment) => {
+        // Raw PCM in a few short chunks, one request each until Shazam recognizes one (undecoded segments in one request)
+        for (const chunk of toShazamChunks(segment)) {
+          const response = await deps.fetch("https://shazam-api7.p.rapidapi.com/songs/detect", {
+            method: "POST",
+            headers: {
+              "X-RapidAPI-Key": apiKey,
+              "X-RapidAPI-Host": "shazam-api7.p.rapidapi.com",
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              audio_base64: encodeBase64(chunk),
+            }),
+            signal: hints.signal,
+          });
+
+          if (!response.ok) {
+            throw new Error(`Shazam API error (${response.status}): ${(await response.text()).substring(0, 200)}`);
+          }
+
+          const data = await response.json();
+          if (data.track) {
+            return trackResult(data.track, !!data.match);
+          }
+        }
+        return { success: false, confidence: 0, service: "shazam" };
+      }, hints.signal);
+      return result.success ? { ...result, segmentStartSeconds: segment.startSeconds } : result;
+    },
+  };
+}
+
+// Shazam gives no score, only whether the track was an exact match
+function trackResult(track: any, matched: boolean): AudioRecognitionResult {
+  return {
+    success: true,
+    title: track.title,
+    artist: track.subtitle || track.artists?.[0]?.name,
+    confidence: matched ? 0.9 : 0.7,
+    service: "shazam",
+    reason: "Identified via Shazam audio fingerprinting",
+    album: track.sections?.[0]?.metadata?.find((m: any) => m.title === "Album")?.text,
+    spotifyUrl: track.hub?.actions?.[0]?.uri,
+    appleMusicUrl: track.hub?.options?.[0]?.actions?.[0]?.uri,
+  };
+}
@@ -0,0 +1,52 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { PreprocessedAudio } from "../audio.ts";
+import { shazamProvider } from "./shazam.ts";
+
+// A provider whose detect endpoint answers every request with `reply`, recording the decoded payloads
+function provider(reply: unknown = {}) {
+  const payloads: Uint8Array[] = [];
+  const shazam = shazamProvider({
+    fetch: (_url, init) => {
+      payloads.push(Uint8Array.from(atob(JSON.parse(init!.body as string).audio_base64), (c) => c.charCodeAt(0)));
+      return Promise.resolve(new Response(JSON.stringify(reply)));
+    },
+    env: () => "test-key",
+  });
+  return { shazam, payloads };
+}
+
+function aacUpload(pcm?: { samples: Float32Array; sampleRate: number }): PreprocessedAudio {
+  const data = new Uint8Array([0xff, 0xf1, 0x50, 0x80, 0x02, 0x1f, 0xfc]).buffer;
+  return {
+    container: "m4a",
+    codec: "aac",
+    durationSeconds: 12,
+    audibleStartSeconds: 0,
+    audibleEndSeconds: 12,
+    segments: [{ data, format: "aac", mimeType: "audio/aac", startSeconds: 4, durationSeconds: 8, pcm }],
+    transcriptionFile: { data, filename: "audio.m4a", mimeType: "audio/m4a", durationSeconds: 12 },
+  };
+}
+
+const hints = { signal: new AbortController().signal, inputType: "background" as const, settings: {} };
+
+Deno.test("shazamProvider sends decoded AAC as 44.1 kHz PCM chunks", async () => {
+  const { shazam, payloads } = provider({});
+  // 8 s at 22.05 kHz: a 5 s chunk and a 3 s tail
+  const result = await shazam.identify(aacUpload({ samples: new Float32Array(8 * 22050).fill(0.25), sampleRate: 22050 }), hints);
+
+  assertEquals(result.success, false);
+  assertEquals(payloads.map((p) => p.length), [5 * 44100 * 2, 3 * 44100 * 2]);
+});
+
+Deno.test("shazamProvider falls back to the raw upload when AAC did not decode", async () => {
+  const { shazam, payloads } = provider({ track: { title: "Song", subtitle: "Artist" }, match: true });
+  const audio = aacUpload();
+
+  const result = await shazam.identify(audio, hints);
+
+  assertEquals(payloads, [new Uint8Array(audio.segments[0].data)]);
+  assertEquals(result.success, true);
+  assertEquals(result.title, "Song");
+  assertEquals(result.segmentStartSeconds, 4);
+});
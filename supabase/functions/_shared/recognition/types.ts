@@ -0,0 +1,54 @@
+// Contract between the recognition registry and the provider modules.
+// A provider turns preprocessed audio into at most one match (plus alternatives) with a
+// confidence normalized to 0-1; the registry adds timeouts, thresholds, breakers and logging.
+
+import type { PreprocessedAudio } from "../audio.ts";
+import type { UsageRecorder } from "../usage.ts";
+
+export type RecognitionInputType = "voice" | "background" | "hum";
+
+// fingerprint: recorded music; melody: hummed or sung tunes; transcription: the words in the audio
+export type RecognitionProviderKind = "fingerprint" | "melody" | "transcription";
+
+export interface AudioRecognitionResult {
+  success: boolean;
+  title?: string;
+  artist?: string;
+  confidence: number; // 0-1, after the registry's thresholds
+  service: string; // Provider id
+  reason?: string;
+  album?: string;
+  releaseDate?: string;
+  spotifyUrl?: string;
+  appleMusicUrl?: string;
+  trackId?: string; // tracks.id when the match is a recording in our own catalog
+  rawScore?: number; // The provider's own score, before normalization
+  latencyMs?: number; // Set by the registry
+  segmentStartSeconds?: number; // Where in the upload the matching segment starts
+  alternatives?: AudioRecognitionResult[]; // Further matches from the same provider, best first
+  error?: string; // Set by the registry when the provider failed rather than found nothing
+}
+
+export interface RecognitionHints {
+  signal: AbortSignal; // Aborts on the caller's deadline or the provider's configured timeout
+  inputType: RecognitionInputType;
+  queryText?: string; // What the user typed alongside the audio
+  userPreferences?: Record<string, unknown>;
+  settings: Record<string, unknown>; // recognition_providers.settings for this provider
+}
+
+// Outside world for the provider modules, injectable so callers can stub it
+export interface RecognitionDeps {
+  fetch: typeof fetch;
+  env: (name: string) => string | undefined;
+  usage?: UsageRecorder; // Records each upstream call to usage_events
+}
+
+// Providers throw when the upstream fails (bad status, timeout) and return success: false when
+// it answered but found nothing, so only real failures count against their circuit breaker.
+export interface AudioRecognitionProvider {
+  id: string; // Matches recognition_providers.provider and the circuit breaker name
+  kind: RecognitionProviderKind;
+  isConfigured(): boolean;
+  identify(audio: PreprocessedAudio, hints: RecognitionHints): Promise<AudioRecognitionResult>;
+}
@@ -0,0 +1,77 @@
+// Whisper + GPT: transcribes the words in the audio and asks the model which song they come from.
+// A fallback for sung or spoken lyrics that no fingerprint or melody index can match.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LlmClient } from "../llm.ts";
+import { numberSchema, objectSchema, stringSchema, type StructuredOutput } from "../structured.ts";
+import type { AudioRecognitionProvider, RecognitionDeps } from "./types.ts";
+
+interface WhisperMatch {
+  title: string;
+  artist: string;
+  confidence: number;
+  reason: string;
+}
+
+// An invalid reply counts as no match
+const WHISPER_MATCH_OUTPUT: StructuredOutput<WhisperMatch> = {
+  name: "song_match",
+  schema: objectSchema({
+    title: stringSchema("Empty when unknown"),
+    artist: stringSchema("Empty when unknown"),
+    confidence: numberSchema("0.0-1.0"),
+    reason: stringSchema(),
+  }),
+  fallback: () => ({ title: "", artist: "", confidence: 0, reason: "" }),
+};
+
+// Both calls go through the shared LLM client (tasks "transcribe" and "resolve"); the provider's
+// `model` setting replaces the resolve model.
+export function whisperProvider(deps: RecognitionDeps, supabase: SupabaseClient): AudioRecognitionProvider {
+  const llm = new LlmClient(supabase, deps);
+  return {
+    id: "whisper",
+    kind: "transcription",
+    isConfigured: () => llm.isConfigured(),
+    async identify(audio, hints) {
+      const transcription = await llm.transcribe(audio.transcriptionFile, { signal: hints.signal });
+      if (transcription.trim().length === 0) {
+        return { success: false, confidence: 0, service: "whisper", reason: "Nothing to transcribe" };
+      }
+
+      const userContext = hints.userPreferences
+        ? `User preferences: ${JSON.stringify(hints.userPreferences)}. `
+        : "";
+
+      const { value: result } = await llm.structured("resolve", WHISPER_MATCH_OUTPUT, [
+        {
+          role: "system",
+          content: `You are a music identification expert. Based on the audio transcription, identify the song. ${userContext}Return JSON: {title: string, artist: string, confidence: 0.0-1.0, reason: string}; use empty title and artist when the words are not from a song you know.`
+        },
+        {
+          role: "user",
+          content: `Transcribed audio: "${transcription}". Identify this song.`
+        }
+      ], {
+        model: typeof hints.settings.model === "string" ? hints.settings.model : undefined,
+        signal: hints.signal,
+        temperature: 0.3,
+        maxTokens: 200,
+        label: "whisper",
+      });
+
+      if (!result.title || !result.artist) {
+        return { success: false, confidence: 0, service: "whisper", reason: "Transcription did not name a song" };
+      }
+      return {
+        success: true,
+        title: result.title,
+        artist: result.artist,
+        confidence: result.confidence,
+        rawScore: result.confidence,
+        service: "whisper",
+        reason: result.reason || `Identified via Whisper transcription: "${transcription}"`,
+      };
+    },
+  };
+}
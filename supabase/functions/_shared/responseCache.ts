@@ -0,0 +1,187 @@
+// Semantic response cache shared by every isolate (response_cache, migration 20261018001200_response_cache.sql).
+// A lookup tries the normalized query text first and, on a miss, the closest earlier query by embedding.
+// Only validated results should be stored; each entry carries the caller's source version (prompts,
+// schema, model), so a new version never serves an old answer. Every lookup, and every request the
+// caller keeps away from the cache (personalized or thread-contextual), is logged to recall_logs as
+// operation `response_cache` with status `hit`, `miss` or `bypass`.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { LlmClient } from "./llm.ts";
+
+export type CacheScope = "resolve" | "knowledge";
+
+// Cosine similarity at which an earlier, differently worded query answers this one
+export const DEFAULT_MIN_SIMILARITY = 0.95;
+
+// Matches the embedding column; a slow embedding only costs the semantic match
+const EMBEDDING_DIMENSIONS = 1536;
+const EMBED_TIMEOUT_MS = 3000;
+
+export interface ResponseCacheOptions {
+  scope: CacheScope;
+  sourceVersion: string;
+  ttlSeconds: number;
+  minSimilarity?: number;
+}
+
+// The request a lookup is logged against
+export interface CacheLogScope {
+  requestId: string;
+  userId?: string | null;
+  recallId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  matchType: "exact" | "semantic";
+  similarity: number;
+  queryText: string; // The stored query that matched
+  createdAt: string;
+}
+
+// Outcome of a lookup; pass it back to store() so a miss is stored without a second embedding call
+export interface CacheLookup<T> {
+  hit: CacheHit<T> | null;
+  key: string;
+  queryText: string;
+  embedding: { vector: number[]; model: string } | null;
+}
+
+// "Who sang 'Yesterday'?" and "who sang yesterday" share a key
+export function normalizeCacheQuery(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export class ResponseCache {
+  private readonly supabase: SupabaseClient;
+  private readonly llm: LlmClient;
+  private readonly options: ResponseCacheOptions;
+
+  constructor(supabase: SupabaseClient, llm: LlmClient, options: ResponseCacheOptions) {
+    this.supabase = supabase;
+    this.llm = llm;
+    this.options = options;
+  }
+
+  // Never throws: a cache outage is a miss
+  async lookup<T>(query: string, log: CacheLogScope): Promise<CacheLookup<T>> {
+    const started = Date.now();
+    const lookup: CacheLookup<T> = { hit: null, key: normalizeCacheQuery(query), queryText: query, embedding: null };
+
+    lookup.hit = await this.find<T>(lookup);
+    if (!lookup.hit) {
+      lookup.embedding = await this.embed(query);
+      if (lookup.embedding) {
+        lookup.hit = await this.find<T>(lookup);
+      }
+    }
+
+    const { hit } = lookup;
+    console.log(`🗃️ [CACHE] ${this.options.scope} ${hit ? `${hit.matchType} hit (similarity ${hit.similarity.toFixed(3)})` : "miss"} for "${lookup.key.substring(0, 80)}"`);
+    await this.log(hit ? "hit" : "miss", log, Date.now() - started, {
+      query_key: lookup.key,
+      embedded: !!lookup.embedding,
+      ...(hit ? { match_type: hit.matchType, similarity: hit.similarity, cached_query: hit.queryText, cached_at: hit.createdAt } : {}),
+    });
+    return lookup;
+  }
+
+  // Stores the result of a missed lookup; failures are logged, never thrown
+  async store<T>(lookup: CacheLookup<T>, value: T): Promise<void> {
+    if (lookup.hit || !lookup.key) {
+      return;
+    }
+
+    const { error } = await this.supabase.rpc("store_response_cache", {
+      p_scope: this.options.scope,
+      p_source_version: this.options.sourceVersion,
+      p_query_key: lookup.key,
+      p_query_text: lookup.queryText,
+      p_response: value,
+      p_ttl_seconds: this.options.ttlSeconds,
+      p_embedding: lookup.embedding?.vector ?? null,
+      p_embedding_model: lookup.embedding?.model ?? null,
+    });
+
+    if (error) {
+      console.error(`❌ [CACHE] Failed to store ${this.options.scope} response:`, error.message);
+    }
+  }
+
+  // Records a request that was kept away from the cache and why
+  async bypass(reason: string, log: CacheLogScope): Promise<void> {
+    console.log(`🗃️ [CACHE] ${this.options.scope} bypassed: ${reason}`);
+    await this.log("bypass", log, 0, { reason });
+  }
+
+  private async find<T>(lookup: CacheLookup<T>): Promise<CacheHit<T> | null> {
+    if (!lookup.key) {
+      return null;
+    }
+
+    const { data, error } = await this.supabase.rpc("lookup_response_cache", {
+      p_scope: this.options.scope,
+      p_source_version: this.options.sourceVersion,
+      p_query_key: lookup.key,
+      p_embedding: lookup.embedding?.vector ?? null,
+      p_embedding_model: lookup.embedding?.model ?? null,
+      p_min_similarity: this.options.minSimilarity ?? DEFAULT_MIN_SIMILARITY,
+    });
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      if (error) console.error(`❌ [CACHE] ${this.options.scope} lookup failed:`, error.message);
+      return null;
+    }
+
+    return {
+      value: row.response as T,
+      matchType: row.match_type,
+      similarity: Number(row.similarity),
+      queryText: row.query_text,
+      createdAt: row.created_at,
+    };
+  }
+
+  private async embed(query: string): Promise<CacheLookup<unknown>["embedding"]> {
+    if (!this.llm.isConfigured()) {
+      return null;
+    }
+
+    try {
+      const { embedding, model } = await this.llm.embed(query, { dimensions: EMBEDDING_DIMENSIONS, timeoutMs: EMBED_TIMEOUT_MS });
+      return { vector: embedding, model };
+    } catch (error) {
+      console.warn(`⚠️ [CACHE] Embedding failed, exact lookup only:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private async log(status: "hit" | "miss" | "bypass", scope: CacheLogScope, durationMs: number, metadata: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from("recall_logs")
+      .insert({
+        request_id: scope.requestId,
+        user_id: scope.userId ?? null,
+        recall_id: scope.recallId ?? null,
+        operation: "response_cache",
+        duration_ms: durationMs,
+        status,
+        metadata: {
+          scope: this.options.scope,
+          source_version: this.options.sourceVersion,
+          ...scope.metadata,
+          ...metadata,
+        },
+      });
+
+    if (error) {
+      console.error(`❌ [CACHE] Failed to log ${status}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+// Structured outputs for OpenAI chat completions: every JSON reply has a schema.
+// The schema is sent as a strict `json_schema` response format, so the model can only produce
+// that shape, and the reply is also checked here, because older or OpenAI-compatible models
+// and fenced or truncated replies still get through. An invalid reply is sent back to the model
+// once with the errors. If it is still invalid, the caller's typed fallback is used.
+
+// The subset of JSON Schema that strict mode accepts and validateJson checks
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  enum?: Array<string | null>;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: false;
+  items?: JsonSchema;
+  description?: string;
+}
+
+type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+// Strict mode requires every property to be listed in `required`; optional fields are nullable instead
+export function objectSchema(properties: Record<string, JsonSchema>, description?: string): JsonSchema {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties),
+    additionalProperties: false,
+    ...(description ? { description } : {}),
+  };
+}
+
+export function arraySchema(items: JsonSchema, description?: string): JsonSchema {
+  return { type: "array", items, ...(description ? { description } : {}) };
+}
+
+export function stringSchema(description?: string): JsonSchema {
+  return { type: "string", ...(description ? { description } : {}) };
+}
+
+export function enumSchema(values: readonly string[], description?: string): JsonSchema {
+  return { type: "string", enum: [...values], ...(description ? { description } : {}) };
+}
+
+export function numberSchema(description?: string): JsonSchema {
+  return { type: "number", ...(description ? { description } : {}) };
+}
+
+export function booleanSchema(description?: string): JsonSchema {
+  return { type: "boolean", ...(description ? { description } : {}) };
+}
+
+export function nullable(schema: JsonSchema): JsonSchema {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return {
+    ...schema,
+    type: [...types, "null"],
+    ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+  };
+}
+
+// One kind of structured reply. `fallback` builds the value used when the model never produced a
+// valid reply; it gets the validation errors of the last attempt.
+export interface StructuredOutput<T> {
+  name: string;
+  schema: JsonSchema;
+  fallback: (errors: string[]) => T;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | Array<Record<string, unknown>>;
+}
+
+export interface ResponseFormat {
+  type: "json_schema";
+  json_schema: { name: string; strict: true; schema: JsonSchema };
+}
+
+export function responseFormat(output: StructuredOutput<unknown>): ResponseFormat {
+  return {
+    type: "json_schema",
+    json_schema: { name: output.name, strict: true, schema: output.schema },
+  };
+}
+
+// Errors in `value` against `schema`, empty when it matches. Extra object keys are not errors.
+export function validateJson(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length > 0 && !types.some((type) => hasType(value, type))) {
+    return [`${path}: expected ${types.join(" or ")}, got ${describe(value)}`];
+  }
+  if (value === null) {
+    return [];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path}: expected one of ${schema.enum.filter((option) => option !== null).map((option) => JSON.stringify(option)).join(", ")}, got ${JSON.stringify(value)}`];
+  }
+
+  const errors: string[] = [];
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateJson(schema.items!, item, `${path}[${index}]`)));
+  } else if (typeof value === "object" && !Array.isArray(value) && schema.properties) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}.${key}: missing`);
+    }
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (key in object) errors.push(...validateJson(property, object[key], `${path}.${key}`));
+    }
+  }
+  return errors;
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// Parses a reply (tolerating a ```json fence) and validates it. Null fields are removed, so the
+// nullable fields strict mode requires come out as absent optional fields.
+export function parseStructured<T>(content: string | null | undefined, output: StructuredOutput<T>): ParseResult<T> {
+  if (!content || content.trim().length === 0) {
+    return { ok: false, errors: ["empty response"] };
+  }
+
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  let value: unknown;
+  try {
+    value = JSON.parse(fenced?.[1] ? fenced[1].trim() : content);
+  } catch (error) {
+    return { ok: false, errors: [`invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const errors = validateJson(output.schema, value);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: stripNulls(value) as T };
+}
+
+function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripNulls);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, field]) => field !== null)
+        .map(([key, field]) => [key, stripNulls(field)])
+    );
+  }
+  return value;
+}
+
+// Sends the messages with the response format and returns the reply's message content.
+// Throws when the upstream call fails; `attempt` is 0 for the first call and 1 for the repair.
+export type CompleteFn = (messages: ChatMessage[], format: ResponseFormat, attempt: number) => Promise<string | null | undefined>;
+
+export interface StructuredResult<T> {
+  value: T;
+  status: "valid" | "repaired" | "fallback";
+  errors?: string[]; // Validation errors that led to the repair or the fallback
+}
+
+// Runs a structured completion: validates the reply, asks the model once to fix an invalid one,
+// and falls back to output.fallback when the repair is invalid too or fails. A failure of the
+// first call is thrown, so callers keep their own upstream error handling.
+export async function completeStructured<T>(
+  output: StructuredOutput<T>,
+  messages: ChatMessage[],
+  complete: CompleteFn,
+  label = output.name
+): Promise<StructuredResult<T>> {
+  const format = responseFormat(output);
+  const content = await complete(messages, format, 0);
+  const first = parseStructured(content, output);
+  if (first.ok) {
+    return { value: first.value, status: "valid" };
+  }
+
+  console.warn(`⚠️ [${label}] Reply does not match the ${output.name} schema, asking for a repair: ${first.errors.slice(0, 5).join("; ")}`);
+  let errors = first.errors;
+  try {
+    const repaired = parseStructured(await complete([
+      ...messages,
+      { role: "assistant", content: content || "" },
+      {
+        role: "user",
+        content: `Your reply did not match the required JSON schema:\n${first.errors.slice(0, 20).map((error) => `- ${error}`).join("\n")}\nReply again with only the corrected JSON object.`,
+      },
+    ], format, 1), output);
+    if (repaired.ok) {
+      console.log(`✅ [${label}] Repaired reply matches the ${output.name} schema`);
+      return { value: repaired.value, status: "repaired", errors: first.errors };
+    }
+    errors = repaired.errors;
+  } catch (error) {
+    errors = [...errors, `repair failed: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  console.error(`❌ [${label}] No valid ${output.name} reply, using the fallback: ${errors.slice(0, 5).join("; ")}`);
+  return { value: output.fallback(errors), status: "fallback", errors };
+}
@@ -0,0 +1,130 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LlmClient } from "./llm.ts";
+import {
+  arraySchema,
+  enumSchema,
+  nullable,
+  numberSchema,
+  objectSchema,
+  parseStructured,
+  stringSchema,
+  type StructuredOutput,
+  validateJson,
+} from "./structured.ts";
+
+interface Song {
+  title: string;
+  artist?: string;
+  mood: "happy" | "sad";
+  scores: number[];
+}
+
+const song: StructuredOutput<Song> = {
+  name: "song",
+  schema: objectSchema({
+    title: stringSchema(),
+    artist: nullable(stringSchema()),
+    mood: enumSchema(["happy", "sad"]),
+    scores: arraySchema(numberSchema()),
+  }),
+  fallback: (errors) => ({ title: `fallback after ${errors.length} errors`, mood: "sad", scores: [] }),
+};
+
+const valid = { title: "Yesterday", artist: null, mood: "sad", scores: [0.9] };
+
+// An LLM client whose chat completions endpoint answers with `bodies` in order (a string body is
+// sent as is), recording the messages of every request
+function client(bodies: Array<unknown>) {
+  const requests: Array<Array<{ role: string; content: string }>> = [];
+  const llm = new LlmClient(
+    {} as SupabaseClient,
+    {
+      fetch: (_url, init) => {
+        requests.push(JSON.parse(init!.body as string).messages);
+        const body = bodies[requests.length - 1];
+        return Promise.resolve(new Response(typeof body === "string" ? body : JSON.stringify(body)));
+      },
+      env: (name) => name === "LLM_API_KEY" ? "test-key" : undefined,
+    },
+    () => ({ execute: (operation) => operation() })
+  );
+  return { llm, requests };
+}
+
+function reply(content: string) {
+  return { choices: [{ message: { role: "assistant", content } }] };
+}
+
+const messages = [{ role: "user" as const, content: "which song is this?" }];
+
+Deno.test("validateJson reports type, enum, missing and nested errors with their paths", () => {
+  assertEquals(validateJson(song.schema, valid), []);
+  assertEquals(validateJson(song.schema, { ...valid, extra: true }), []);
+  assertEquals(validateJson(song.schema, { title: 3, mood: "angry", scores: [1, "2"] }), [
+    "$.artist: missing",
+    "$.title: expected string, got number",
+    "$.mood: expected one of \"happy\", \"sad\", got \"angry\"",
+    "$.scores[1]: expected number, got string",
+  ]);
+  assertEquals(validateJson(song.schema, []), ["$: expected object, got array"]);
+});
+
+Deno.test("parseStructured accepts fenced replies and drops null fields", () => {
+  const parsed = parseStructured("```json\n" + JSON.stringify(valid) + "\n```", song);
+  assertEquals(parsed, { ok: true, value: { title: "Yesterday", mood: "sad", scores: [0.9] } });
+  assertEquals(parseStructured("", song), { ok: false, errors: ["empty response"] });
+  assertEquals(parseStructured("Sure! Here it is", song).ok, false);
+});
+
+Deno.test("structured returns a valid reply without a repair", async () => {
+  const { llm, requests } = client([reply(JSON.stringify(valid))]);
+
+  const result = await llm.structured("resolve", song, messages);
+
+  assertEquals(result, { value: { title: "Yesterday", mood: "sad", scores: [0.9] }, status: "valid" });
+  assertEquals(requests.length, 1);
+});
+
+Deno.test("structured sends an invalid reply back with its errors and uses the repair", async () => {
+  const invalid = JSON.stringify({ title: "Yesterday", mood: "melancholic", scores: [] });
+  const { llm, requests } = client([reply(invalid), reply(JSON.stringify(valid))]);
+
+  const result = await llm.structured("resolve", song, messages);
+
+  assertEquals(result.status, "repaired");
+  assertEquals(result.value.title, "Yesterday");
+  assertEquals(result.errors, ["$.artist: missing", "$.mood: expected one of \"happy\", \"sad\", got \"melancholic\""]);
+  assertEquals(requests[1].slice(0, 2), [...messages, { role: "assistant", content: invalid }]);
+  assertEquals(requests[1][2].content.includes("- $.artist: missing"), true);
+});
+
+Deno.test("structured falls back when the repair is invalid too", async () => {
+  const { llm, requests } = client([reply(JSON.stringify({ title: "Yesterday" })), reply(JSON.stringify({ mood: "sad" }))]);
+
+  const result = await llm.structured("resolve", song, messages);
+
+  assertEquals(requests.length, 2);
+  assertEquals(result.status, "fallback");
+  // The fallback gets the errors of the repair, not of the first reply
+  assertEquals(result.errors, ["$.title: missing", "$.artist: missing", "$.scores: missing"]);
+  assertEquals(result.value, { title: "fallback after 3 errors", mood: "sad", scores: [] });
+});
+
+Deno.test("structured repairs a reply that is not JSON", async () => {
+  const { llm } = client([reply("I think it's Yesterday by the Beatles"), reply(JSON.stringify(valid))]);
+
+  const result = await llm.structured("resolve", song, messages);
+
+  assertEquals(result.status, "repaired");
+  assertEquals(result.errors!.length, 1);
+  assertEquals(result.errors![0].startsWith("invalid JSON"), true);
+});
+
+Deno.test("structured throws when the first response body is not JSON, and falls back when the repair's is not", async () => {
+  await assertRejects(() => client(["<html>Bad gateway</html>"]).llm.structured("resolve", song, messages));
+
+  const result = await client([reply("{}"), "<html>Bad gateway</html>"]).llm.structured("resolve", song, messages);
+  assertEquals(result.status, "fallback");
+  assertEquals(result.errors!.at(-1)!.startsWith("repair failed: "), true);
+});
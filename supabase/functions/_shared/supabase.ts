@@ -0,0 +1,46 @@
+// Supabase client factories shared by all edge functions
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { HttpError } from "./errors.ts";
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new HttpError("misconfigured", `${name} is not configured`);
+  }
+  return value;
+}
+
+let cachedServiceClient: SupabaseClient | null = null;
+
+// Service-role client: bypasses RLS, never persists a session. Reused across requests in an isolate.
+export function serviceClient(): SupabaseClient {
+  if (!cachedServiceClient) {
+    cachedServiceClient = createClient(requireEnv("SUPABASE_URL"), requireEnv("SUPABASE_SERVICE_ROLE_KEY"), {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+  }
+  return cachedServiceClient;
+}
+
+// Anon-key client acting as the caller: RLS applies with the request's Authorization header
+export function userClient(req: Request): SupabaseClient {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    throw new HttpError("unauthorized", "Missing authorization header");
+  }
+
+  return createClient(requireEnv("SUPABASE_URL"), requireEnv("SUPABASE_ANON_KEY"), {
+    global: { headers: { Authorization: authHeader } },
+    auth: { persistSession: false },
+  });
+}
+
+export function bearerToken(req: Request): string | null {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  return authHeader.replace("Bearer ", "");
+}
@@ -0,0 +1,45 @@
+// iTunes Search API: Apple Music track id, album, duration and artwork. Needs no credentials,
+// but has no ISRC, so the resolver pairs its match with the Spotify one by title and artist.
+
+import { primaryArtist, searchTitle } from "./normalize.ts";
+import type { TrackMetadata, TrackMetadataDeps, TrackMetadataProvider } from "./types.ts";
+
+const SEARCH_LIMIT = 5;
+const ARTWORK_SIZE = 600;
+
+export function itunesMetadataProvider(deps: TrackMetadataDeps): TrackMetadataProvider {
+  return {
+    id: "itunes",
+    isConfigured: () => true,
+    async search(query, signal) {
+      const params = new URLSearchParams({
+        term: `${searchTitle(query.title)} ${primaryArtist(query.artist)}`,
+        media: "music",
+        entity: "song",
+        limit: String(SEARCH_LIMIT),
+        country: deps.env("TRACK_METADATA_MARKET") || "US",
+      });
+
+      const response = await deps.fetch(`https://itunes.apple.com/search?${params}`, { signal });
+      if (!response.ok) {
+        throw new Error(`iTunes search failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      return ((data.results || []) as any[])
+        .filter((item) => item.kind === "song" && item.trackId)
+        .map((item): TrackMetadata => ({
+          provider: "itunes",
+          title: item.trackName,
+          artist: item.artistName,
+          album: item.collectionName || undefined,
+          appleMusicId: String(item.trackId),
+          durationMs: item.trackTimeMillis || undefined,
+          // Artwork URLs encode their size; the search API only returns up to 100x100
+          artworkUrl: item.artworkUrl100?.replace(/\/\d+x\d+bb\./, `/${ARTWORK_SIZE}x${ARTWORK_SIZE}bb.`) || undefined,
+          releaseDate: item.releaseDate?.substring(0, 10) || undefined,
+          appleMusicUrl: item.trackViewUrl?.replace(/[?&]uo=\d+/, "") || undefined,
+        }));
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// Spelling-insensitive song identity: the same recording written as "Song (Remastered 2011)",
+// "song - Live" or "Song feat. X" by "Artist & Y" gets the same key.
+
+export function normalizeTitle(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\s*[([].*?[)\]]/g, "")
+    .replace(/\s+-\s+.*$/, "")
+    .replace(/\s+(feat\.?|ft\.?|featuring)\s+.*$/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim() || value.toLowerCase().trim();
+}
+
+export function primaryArtist(artist: string): string {
+  return artist.split(/\s*(?:,|&|\band\b|\bx\b|\bfeat\.?|\bft\.?|\bfeaturing\b)\s*/i)[0] || artist;
+}
+
+// "The Beatles" and "Beatles" are the same artist
+function normalizeArtist(name: string): string {
+  return normalizeTitle(name).replace(/^the (?=.)/, "");
+}
+
+export function songKey(title: string, artist: string): string {
+  return `${normalizeTitle(title)}|${normalizeArtist(primaryArtist(artist))}`;
+}
+
+// Whether a catalog entry is the song that was asked for: same title and at least one artist in common
+export function isSameSong(a: { title: string; artist: string }, b: { title: string; artist: string }): boolean {
+  if (normalizeTitle(a.title) !== normalizeTitle(b.title)) {
+    return false;
+  }
+  const artists = (value: string) => value
+    .split(/\s*(?:,|&|\band\b|\bx\b|\bfeat\.?|\bft\.?|\bfeaturing\b|\bwith\b)\s*/i)
+    .map(normalizeArtist)
+    .filter(Boolean);
+  const wanted = new Set(artists(a.artist));
+  return artists(b.artist).some((name) => wanted.has(name));
+}
+
+// Catalog titles carry edition suffixes ("- Remastered 2011", "(2009 Mono Version)") that are not
+// part of the song's name; other qualifiers (live, acoustic, remix) are kept.
+const EDITION_SUFFIX = /\s*(?:-\s+[^-]*\b(?:remaster(?:ed)?|mono|stereo|single version|album version|radio edit)\b.*|[([][^)\]]*\b(?:remaster(?:ed)?|mono|stereo|single version|album version|radio edit)\b[^)\]]*[)\]])$/i;
+
+export function displayTitle(title: string): string {
+  let cleaned = title.trim();
+  for (let previous = ""; previous !== cleaned;) {
+    previous = cleaned;
+    cleaned = cleaned.replace(EDITION_SUFFIX, "").trim();
+  }
+  return cleaned || title.trim();
+}
+
+// What to send a catalog search: the title without edition suffixes or featured artists
+export function searchTitle(title: string): string {
+  return displayTitle(title).replace(/\s*[([]?\b(?:feat\.?|ft\.?|featuring)\s+[^)\]]*[)\]]?$/i, "").trim() || title.trim();
+}
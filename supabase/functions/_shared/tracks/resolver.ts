@@ -0,0 +1,236 @@
+// Resolves free-text candidates ("title by artist" from the model) to canonical tracks with
+// ISRC, streaming ids, album, duration and artwork. Results are cached in canonical_tracks,
+// keyed by the spelling-insensitive songKey, so each song is looked up once and every spelling
+// of it ends up on the same row. Which catalogs are searched is set by TRACK_METADATA_PROVIDERS.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorMessage } from "../errors.ts";
+import { itunesMetadataProvider } from "./itunes.ts";
+import { displayTitle, isSameSong, songKey } from "./normalize.ts";
+import { spotifyMetadataProvider } from "./spotify.ts";
+import { stubMetadataProvider } from "./stub.ts";
+import type {
+  CanonicalTrack,
+  TrackLookupStatus,
+  TrackMetadata,
+  TrackMetadataDeps,
+  TrackMetadataProvider,
+  TrackQuery,
+  TrackResolution,
+} from "./types.ts";
+
+const PROVIDER_MODULES: Record<string, (deps: TrackMetadataDeps) => TrackMetadataProvider> = {
+  spotify: spotifyMetadataProvider,
+  itunes: itunesMetadataProvider,
+  stub: () => stubMetadataProvider(),
+};
+
+// Earlier providers win when their matches disagree on a field
+const DEFAULT_PROVIDERS = "spotify,itunes";
+
+// Budget per provider search
+const LOOKUP_TIMEOUT_MS = 5000;
+
+// Resolved tracks are re-fetched after a month (artwork and links change); songs that no
+// catalog knew are retried after a day
+const RESOLVED_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const UNRESOLVED_TTL_MS = 24 * 60 * 60 * 1000;
+
+const TRACK_COLUMNS = "id, title, artist, album, isrc, spotify_id, apple_music_id, duration_ms, artwork_url, release_date, spotify_url, apple_music_url";
+
+export function defaultTrackMetadataDeps(): TrackMetadataDeps {
+  return {
+    fetch: (input, init) => fetch(input, init),
+    env: (name) => Deno.env.get(name),
+  };
+}
+
+// The configured providers named in TRACK_METADATA_PROVIDERS, in that order
+export function trackMetadataProviders(deps: TrackMetadataDeps): TrackMetadataProvider[] {
+  return (deps.env("TRACK_METADATA_PROVIDERS") || DEFAULT_PROVIDERS)
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .flatMap((id) => {
+      const create = PROVIDER_MODULES[id];
+      if (!create) {
+        console.log(`Track metadata provider ${id} has no module, skipping`);
+        return [];
+      }
+      const provider = create(deps);
+      if (!provider.isConfigured()) {
+        console.log(`Track metadata provider ${id} not configured, skipping`);
+        return [];
+      }
+      return [provider];
+    });
+}
+
+export class TrackResolver {
+  private readonly supabase: SupabaseClient;
+  private readonly providers: TrackMetadataProvider[];
+
+  constructor(
+    supabase: SupabaseClient,
+    deps: TrackMetadataDeps = defaultTrackMetadataDeps(),
+    providers: TrackMetadataProvider[] = trackMetadataProviders(deps)
+  ) {
+    this.supabase = supabase;
+    this.providers = providers;
+  }
+
+  // Canonical track for each query, in order, and whether a missing track means no catalog
+  // has the song. Never throws: failed lookups come back unavailable and are not cached.
+  async resolveAll(queries: TrackQuery[], signal?: AbortSignal): Promise<TrackResolution[]> {
+    const keys = queries.map((query) => songKey(query.title, query.artist));
+    const resolved = new Map<string, TrackResolution>();
+
+    const uniqueKeys = [...new Set(keys)];
+    try {
+      for (const [key, track] of await this.cached(uniqueKeys)) {
+        resolved.set(key, { track, status: track ? "resolved" : "not_found" });
+      }
+    } catch (error) {
+      console.error("Failed to read canonical track cache:", errorMessage(error));
+    }
+
+    await Promise.all(uniqueKeys
+      .filter((key) => !resolved.has(key))
+      .map(async (key) => {
+        resolved.set(key, await this.lookup(key, queries[keys.indexOf(key)], signal));
+      }));
+
+    return keys.map((key) => resolved.get(key) ?? { track: null, status: "unavailable" });
+  }
+
+  async resolve(query: TrackQuery, signal?: AbortSignal): Promise<TrackResolution> {
+    return (await this.resolveAll([query], signal))[0];
+  }
+
+  // Fresh cache entries by lookup key; a null track is a cached "no catalog has it"
+  private async cached(keys: string[]): Promise<Map<string, CanonicalTrack | null>> {
+    const { data, error } = await this.supabase
+      .from("canonical_track_lookups")
+      .select(`lookup_key, resolved_at, track:canonical_tracks(${TRACK_COLUMNS})`)
+      .in("lookup_key", keys);
+    if (error) throw error;
+
+    const cached = new Map<string, CanonicalTrack | null>();
+    for (const row of (data || []) as any[]) {
+      const age = Date.now() - new Date(row.resolved_at).getTime();
+      if (age < (row.track ? RESOLVED_TTL_MS : UNRESOLVED_TTL_MS)) {
+        cached.set(row.lookup_key, row.track ?? null);
+      }
+    }
+    return cached;
+  }
+
+  private async lookup(key: string, query: TrackQuery, signal?: AbortSignal): Promise<TrackResolution> {
+    if (this.providers.length === 0) {
+      return { track: null, status: "unavailable" };
+    }
+
+    let failed = false;
+    const matches = await Promise.all(this.providers.map(async (provider) => {
+      try {
+        const results = await provider.search(
+          query,
+          signal ? AbortSignal.any([signal, AbortSignal.timeout(LOOKUP_TIMEOUT_MS)]) : AbortSignal.timeout(LOOKUP_TIMEOUT_MS)
+        );
+        return results.find((result) => isSameSong(query, result)) ?? null;
+      } catch (error) {
+        failed = true;
+        console.error(`Track metadata provider ${provider.id} failed for "${query.title}" by ${query.artist}:`, errorMessage(error));
+        return null;
+      }
+    }));
+
+    const metadata = mergeMetadata(matches.filter((match): match is TrackMetadata => match !== null));
+    if (!metadata) {
+      // Only cache a miss every catalog answered; a failed lookup is retried next time
+      if (!failed) {
+        const { error } = await this.supabase
+          .from("canonical_track_lookups")
+          .upsert({ lookup_key: key, track_id: null, resolved_at: new Date().toISOString() });
+        if (error) console.error("Failed to cache unresolved track:", error.message);
+      }
+      return { track: null, status: failed ? "unavailable" : "not_found" };
+    }
+
+    const { data, error } = await this.supabase
+      .rpc("upsert_canonical_track", { p_lookup_key: key, p_track: metadata })
+      .single();
+    if (error) {
+      console.error("Failed to store canonical track:", error.message);
+      return { track: null, status: "unavailable" };
+    }
+    return { track: data as CanonicalTrack, status: "resolved" };
+  }
+}
+
+// Combines the providers' matches, best provider first. Matches that are not the same song as the
+// first one (by ISRC when both have it, else title and artist) are ignored.
+function mergeMetadata(matches: TrackMetadata[]): Record<string, unknown> | null {
+  const [primary, ...others] = matches;
+  if (!primary) return null;
+
+  const agreeing = [primary, ...others.filter((match) =>
+    match.isrc && primary.isrc ? match.isrc === primary.isrc : isSameSong(primary, match)
+  )];
+  const first = <K extends keyof TrackMetadata>(field: K) => agreeing.find((match) => match[field])?.[field] ?? null;
+
+  return {
+    title: displayTitle(primary.title),
+    artist: primary.artist,
+    album: first("album"),
+    isrc: first("isrc"),
+    spotify_id: first("spotifyId"),
+    apple_music_id: first("appleMusicId"),
+    duration_ms: first("durationMs"),
+    artwork_url: first("artworkUrl"),
+    release_date: first("releaseDate"),
+    spotify_url: first("spotifyUrl"),
+    apple_music_url: first("appleMusicUrl"),
+    providers: agreeing.map((match) => match.provider),
+  };
+}
+
+// Link for opening the track outside the app (recall_stash.top_song_url)
+export function trackUrl(track: CanonicalTrack | null | undefined): string | null {
+  return track?.spotify_url || track?.apple_music_url || null;
+}
+
+export interface ResolvableCandidate extends TrackQuery {
+  confidence?: number; // Decides which of two duplicates is kept; the earlier one on a tie
+  track?: CanonicalTrack | null;
+  catalog_status?: TrackLookupStatus;
+}
+
+// Resolves candidates to canonical tracks, renames them to the canonical title and artist and
+// merges the ones that turn out to be the same track (or the same songKey when unresolved).
+// `merge` combines a kept candidate with a less confident duplicate. Order is preserved.
+export async function resolveCandidates<T extends ResolvableCandidate>(
+  resolver: TrackResolver,
+  candidates: T[],
+  options: { signal?: AbortSignal; merge?: (kept: T, duplicate: T) => T } = {}
+): Promise<T[]> {
+  const resolutions = await resolver.resolveAll(candidates, options.signal);
+  const merged = new Map<string, T>();
+
+  candidates.forEach((candidate, index) => {
+    const { track, status } = resolutions[index];
+    const resolved: T = track
+      ? { ...candidate, title: track.title, artist: track.artist, track, catalog_status: status }
+      : { ...candidate, track: null, catalog_status: status };
+    const key = track ? track.id : songKey(candidate.title, candidate.artist);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, resolved);
+    } else {
+      const [kept, duplicate] = (existing.confidence ?? 0) >= (resolved.confidence ?? 0) ? [existing, resolved] : [resolved, existing];
+      merged.set(key, options.merge ? options.merge(kept, duplicate) : kept);
+    }
+  });
+
+  return [...merged.values()];
+}
@@ -0,0 +1,81 @@
+// Spotify Web API search with client-credentials auth: ISRC, Spotify id, album, duration, artwork.
+
+import { primaryArtist, searchTitle } from "./normalize.ts";
+import type { TrackMetadata, TrackMetadataDeps, TrackMetadataProvider } from "./types.ts";
+
+const SEARCH_LIMIT = 5;
+
+// App tokens last an hour; refreshed a minute early
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+export function spotifyMetadataProvider(deps: TrackMetadataDeps): TrackMetadataProvider {
+  const credentials = () => ({
+    clientId: deps.env("SPOTIFY_CLIENT_ID"),
+    clientSecret: deps.env("SPOTIFY_CLIENT_SECRET"),
+    market: deps.env("TRACK_METADATA_MARKET") || "US",
+  });
+
+  const accessToken = async (signal: AbortSignal): Promise<string> => {
+    if (cachedToken && Date.now() < cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return cachedToken.token;
+    }
+
+    const { clientId, clientSecret } = credentials();
+    const response = await deps.fetch("https://accounts.spotify.com/api/token", {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: "grant_type=client_credentials",
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Spotify token request failed (${response.status})`);
+    }
+
+    const data = await response.json();
+    cachedToken = { token: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+    return cachedToken.token;
+  };
+
+  return {
+    id: "spotify",
+    isConfigured: () => !!credentials().clientId && !!credentials().clientSecret,
+    async search(query, signal) {
+      const token = await accessToken(signal);
+      const params = new URLSearchParams({
+        q: `track:${searchTitle(query.title)} artist:${primaryArtist(query.artist)}`,
+        type: "track",
+        limit: String(SEARCH_LIMIT),
+        market: credentials().market,
+      });
+
+      const response = await deps.fetch(`https://api.spotify.com/v1/search?${params}`, {
+        headers: { "Authorization": `Bearer ${token}` },
+        signal,
+      });
+      if (response.status === 401) {
+        cachedToken = null;
+      }
+      if (!response.ok) {
+        throw new Error(`Spotify search failed (${response.status})`);
+      }
+
+      const data = await response.json();
+      return ((data.tracks?.items || []) as any[]).map((item): TrackMetadata => ({
+        provider: "spotify",
+        title: item.name,
+        artist: (item.artists || []).map((a: any) => a.name).join(", "),
+        album: item.album?.name || undefined,
+        isrc: item.external_ids?.isrc?.toUpperCase() || undefined,
+        spotifyId: item.id,
+        durationMs: item.duration_ms || undefined,
+        artworkUrl: item.album?.images?.[0]?.url || undefined,
+        releaseDate: item.album?.release_date || undefined,
+        spotifyUrl: item.external_urls?.spotify || `https://open.spotify.com/track/${item.id}`,
+      }));
+    },
+  };
+}
@@ -0,0 +1,63 @@
+// Contract between the track resolver and the metadata provider modules.
+// A provider looks a free-text title and artist up in one catalog (Spotify, Apple Music, ...);
+// the resolver checks the match, merges what the providers found and caches it in canonical_tracks.
+
+export interface TrackQuery {
+  title: string;
+  artist: string;
+}
+
+// One provider's match. Only the ids that catalog knows are set.
+export interface TrackMetadata {
+  provider: string;
+  title: string;
+  artist: string;
+  album?: string;
+  isrc?: string;
+  spotifyId?: string;
+  appleMusicId?: string;
+  durationMs?: number;
+  artworkUrl?: string;
+  releaseDate?: string;
+  spotifyUrl?: string;
+  appleMusicUrl?: string;
+}
+
+// A row of canonical_tracks
+export interface CanonicalTrack {
+  id: string;
+  title: string;
+  artist: string;
+  album: string | null;
+  isrc: string | null;
+  spotify_id: string | null;
+  apple_music_id: string | null;
+  duration_ms: number | null;
+  artwork_url: string | null;
+  release_date: string | null;
+  spotify_url: string | null;
+  apple_music_url: string | null;
+}
+
+// resolved: a catalog has the song; not_found: every catalog answered and none has it;
+// unavailable: no catalog could be asked (none configured, or the lookup failed or timed out)
+export type TrackLookupStatus = "resolved" | "not_found" | "unavailable";
+
+export interface TrackResolution {
+  track: CanonicalTrack | null;
+  status: TrackLookupStatus;
+}
+
+// Outside world for the provider modules, injectable so callers can stub it
+export interface TrackMetadataDeps {
+  fetch: typeof fetch;
+  env: (name: string) => string | undefined;
+}
+
+// Providers throw when the upstream fails and return their closest matches (best first, possibly
+// none) otherwise; the resolver decides whether any of them is really the song that was asked for.
+export interface TrackMetadataProvider {
+  id: string; // As listed in TRACK_METADATA_PROVIDERS
+  isConfigured(): boolean;
+  search(query: TrackQuery, signal: AbortSignal): Promise<TrackMetadata[]>;
+}
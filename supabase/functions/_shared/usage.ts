@@ -0,0 +1,116 @@
+// Usage and cost accounting for upstream calls (usage_events, migration 20261018001100_usage_accounting.sql).
+// LlmClient and the recognition registry record every call they make through the UsageRecorder in
+// their deps; the cost is priced in Postgres from usage_prices. checkBudget reads the caller's
+// month-to-date spend so functions can refuse expensive work once the budget is used up.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runInBackground } from "./dispatch.ts";
+import { jsonError } from "./errors.ts";
+
+// Who a call is billed to. recall_id is enough for the v2 engines: the user is taken from the recall.
+export interface UsageScope {
+  functionName: string;
+  requestId?: string | null;
+  recallId?: string | null;
+  userId?: string | null;
+  metadata?: Record<string, unknown>; // Merged into every event, e.g. thread_id
+}
+
+export interface UsageEntry {
+  provider: string; // LLM provider ("openai", or the base URL host) or recognition provider id
+  model?: string | null;
+  operation: string; // LLM task ("resolve", "transcribe", ...) or "recognition"
+  status?: "success" | "error";
+  promptTokens?: number;
+  completionTokens?: number;
+  audioSeconds?: number | null;
+  durationMs?: number;
+  metadata?: Record<string, unknown>;
+}
+
+export class UsageRecorder {
+  private readonly supabase: SupabaseClient;
+  readonly scope: UsageScope;
+
+  constructor(supabase: SupabaseClient, scope: UsageScope) {
+    this.supabase = supabase;
+    this.scope = scope;
+  }
+
+  // Writes the event in the background; accounting never fails or slows down the call it meters
+  record(entry: UsageEntry): void {
+    runInBackground(this.insert(entry), `usage ${entry.provider}`);
+  }
+
+  private async insert(entry: UsageEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from("usage_events")
+      .insert({
+        function_name: this.scope.functionName,
+        provider: entry.provider,
+        model: entry.model ?? null,
+        operation: entry.operation,
+        status: entry.status ?? "success",
+        prompt_tokens: entry.promptTokens ?? 0,
+        completion_tokens: entry.completionTokens ?? 0,
+        audio_seconds: entry.audioSeconds ?? 0,
+        duration_ms: entry.durationMs ?? null,
+        request_id: this.scope.requestId ?? null,
+        recall_id: this.scope.recallId ?? null,
+        user_id: this.scope.userId ?? null,
+        metadata: { ...this.scope.metadata, ...entry.metadata },
+      });
+
+    if (error) {
+      console.error(`Failed to record usage for ${entry.provider}:`, error.message);
+    }
+  }
+}
+
+export interface BudgetStatus {
+  allowed: boolean;
+  plan: string;
+  budgetUsd: number | null; // null when the plan is unlimited
+  spentUsd: number;
+  remainingUsd: number | null;
+  resetsAt: string | null;
+}
+
+// Month-to-date spend against the user's monthly budget (usage_budget_status RPC).
+// Fails open like the rate limiter: an accounting outage should not take the API down.
+export async function checkBudget(supabase: SupabaseClient, userId: string): Promise<BudgetStatus> {
+  const { data, error } = await supabase.rpc("usage_budget_status", { p_user_id: userId });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    console.error(`Usage budget unavailable for ${userId}, allowing request:`, error?.message);
+    return { allowed: true, plan: "unknown", budgetUsd: null, spentUsd: 0, remainingUsd: null, resetsAt: null };
+  }
+
+  return {
+    allowed: row.allowed,
+    plan: row.plan,
+    budgetUsd: row.budget_usd === null ? null : Number(row.budget_usd),
+    spentUsd: Number(row.spent_usd),
+    remainingUsd: row.remaining_usd === null ? null : Number(row.remaining_usd),
+    resetsAt: row.resets_at,
+  };
+}
+
+// 402 envelope; `extra` carries each function's legacy status fields
+export function budgetExceededResponse(
+  status: BudgetStatus,
+  options: { requestId?: string; extra?: Record<string, unknown>; headers?: Record<string, string> } = {}
+): Response {
+  return jsonError("budget_exceeded", "Monthly usage budget exceeded", {
+    requestId: options.requestId,
+    details: {
+      plan: status.plan,
+      budget_usd: status.budgetUsd,
+      spent_usd: status.spentUsd,
+      resets_at: status.resetsAt,
+    },
+    extra: options.extra,
+    headers: options.headers,
+  });
+}
@@ -0,0 +1,102 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { UsageRecorder } from "./usage.ts";
+
+// A client whose usage_events inserts answer with `outcome` (an error result, or a thrown error
+// for "reject"), recording the inserted rows
+function client(outcome: "ok" | "error" | "reject" = "ok") {
+  const rows: Array<Record<string, unknown>> = [];
+  const supabase = {
+    from: (table: string) => ({
+      insert: (row: Record<string, unknown>) => {
+        assertEquals(table, "usage_events");
+        rows.push(row);
+        if (outcome === "reject") return Promise.reject(new Error("connection reset"));
+        return Promise.resolve({ error: outcome === "error" ? { message: "permission denied" } : null });
+      },
+    }),
+  } as unknown as SupabaseClient;
+  return { supabase, rows };
+}
+
+// Runs `record` with EdgeRuntime.waitUntil collecting the background writes, then waits for them
+async function recorded(record: () => void): Promise<void> {
+  const tasks: Promise<unknown>[] = [];
+  const global = globalThis as { EdgeRuntime?: unknown };
+  global.EdgeRuntime = { waitUntil: (task: Promise<unknown>) => tasks.push(task) };
+  try {
+    record();
+    await Promise.all(tasks);
+  } finally {
+    delete global.EdgeRuntime;
+  }
+}
+
+Deno.test("UsageRecorder writes one usage_events row per call with the scope merged in", async () => {
+  const { supabase, rows } = client();
+  const usage = new UsageRecorder(supabase, {
+    functionName: "recall-resolve",
+    requestId: "req-1",
+    userId: "user-1",
+    metadata: { thread_id: "thread-1" },
+  });
+
+  await recorded(() => {
+    usage.record({
+      provider: "openai",
+      model: "gpt-4o",
+      operation: "resolve",
+      promptTokens: 120,
+      completionTokens: 30,
+      durationMs: 850,
+      metadata: { fallback: true },
+    });
+    usage.record({ provider: "acrcloud", operation: "recognition", status: "error", audioSeconds: 12.5 });
+  });
+
+  assertEquals(rows, [
+    {
+      function_name: "recall-resolve",
+      provider: "openai",
+      model: "gpt-4o",
+      operation: "resolve",
+      status: "success",
+      prompt_tokens: 120,
+      completion_tokens: 30,
+      audio_seconds: 0,
+      duration_ms: 850,
+      request_id: "req-1",
+      recall_id: null,
+      user_id: "user-1",
+      metadata: { thread_id: "thread-1", fallback: true },
+    },
+    {
+      function_name: "recall-resolve",
+      provider: "acrcloud",
+      model: null,
+      operation: "recognition",
+      status: "error",
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      audio_seconds: 12.5,
+      duration_ms: null,
+      request_id: "req-1",
+      recall_id: null,
+      user_id: "user-1",
+      metadata: { thread_id: "thread-1" },
+    },
+  ]);
+});
+
+Deno.test("UsageRecorder swallows failed writes", async () => {
+  for (const outcome of ["error", "reject"] as const) {
+    const { supabase, rows } = client(outcome);
+    const usage = new UsageRecorder(supabase, { functionName: "recall-v2-identify", recallId: "recall-1" });
+
+    // Neither record nor the background write it starts throws
+    await recorded(() => usage.record({ provider: "shazam", operation: "recognition" }));
+
+    assertEquals(rows.length, 1);
+    assertEquals(rows[0].recall_id, "recall-1");
+  }
+});
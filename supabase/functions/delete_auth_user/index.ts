@@ -3,61 +3,18 @@
 // Deploy with: supabase functions deploy delete_auth_user
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
+import { requireUser } from "../_shared/auth.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
 
+serve(withCors(async (req) => {
   try {
-    // Initialize Supabase Admin client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false,
-      },
-    });
-
-    // Get the authenticated user from the Authorization header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 401,
-        }
-      );
-    }
+    // Supabase Admin client
+    const supabaseAdmin = serviceClient();
 
-    // Extract token from "Bearer <token>"
-    const token = authHeader.replace("Bearer ", "");
-    
-    // Verify the token and get user info
-    const {
-      data: { user },
-      error: userError,
-    } = await supabaseAdmin.auth.getUser(token);
-
-    if (userError || !user) {
-      console.error("❌ Error getting user:", userError);
-      return new Response(
-        JSON.stringify({ error: "Invalid or expired token" }),
-        {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 401,
-        }
-      );
-    }
+    // Verify the token from the Authorization header and get user info
+    const user = await requireUser(req, supabaseAdmin);
 
     const userId = user.id;
     console.log(`🗑️ Deleting auth user: ${userId}`);
@@ -69,45 +26,21 @@ serve(async (req) => {
 
     if (deleteError) {
       console.error("❌ Error deleting auth user:", deleteError);
-      return new Response(
-        JSON.stringify({ 
-          error: "Failed to delete auth user",
-          details: deleteError.message 
-        }),
-        {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 500,
-        }
-      );
+      return jsonError("internal_error", "Failed to delete auth user", { details: deleteError.message });
     }
 
     console.log(`✅ Successfully deleted auth user: ${userId}`);
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: "Auth user deleted successfully",
-        user_id: userId,
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
-      }
-    );
+    return jsonResponse({
+      success: true,
+      message: "Auth user deleted successfully",
+      user_id: userId,
+    });
   } catch (error) {
     console.error("❌ Error in delete_auth_user:", error);
-    return new Response(
-      JSON.stringify({ 
-        error: "Internal server error",
-        details: error.message 
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 500,
-      }
-    );
+    return errorResponse(error);
   }
-});
+}));
 
 /*
 DEPLOYMENT INSTRUCTIONS:
@@ -0,0 +1,79 @@
+// Supabase Edge Function: health
+// Reports upstream provider health from the shared circuit breakers
+// Deploy with: supabase functions deploy health
+// Endpoints: GET /functions/v1/health/providers, GET /functions/v1/health/recognition
+// Public; ?details=true adds each breaker's last_error and requires an admin or the service role
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { requireAdmin } from "../_shared/auth.ts";
+import { listProviderHealth, type ProviderHealth, routeTemplates } from "../_shared/circuitBreaker.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { listRecognitionProviders } from "../_shared/recognition/registry.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+
+serve(withCors(async (req) => {
+  const { pathname, searchParams } = new URL(req.url);
+  const route = pathname.replace(/\/+$/, "").split("/").pop();
+
+  if (route !== "providers" && route !== "recognition") {
+    return jsonError("not_found", `Unknown health route: ${pathname}`);
+  }
+
+  if (req.method !== "GET") {
+    return jsonError("method_not_allowed", "Use GET", { headers: { "Allow": "GET, OPTIONS" } });
+  }
+
+  try {
+    // last_error holds upstream error bodies and internal URLs, so only admins see it
+    const detailed = searchParams.get("details") === "true";
+    if (detailed) {
+      await requireAdmin(req);
+    }
+
+    if (route === "recognition") {
+      return await recognitionHealth(detailed);
+    }
+
+    // Route templates such as "openai" are settings rows, not breakers any call goes through
+    const breakers = await listProviderHealth(serviceClient());
+    const templates = routeTemplates(breakers);
+    const providers = breakers
+      .filter((p) => !templates.has(p.provider))
+      .map((p) => detailed ? p : withoutLastError(p));
+    const unhealthy = providers.filter((p) => p.state !== "closed").map((p) => p.provider);
+
+    return jsonResponse({
+      status: unhealthy.length === 0 ? "ok" : "degraded",
+      unhealthy,
+      providers,
+      templates: [...templates],
+      checked_at: new Date().toISOString(),
+    }, 200, { "Cache-Control": "no-store" });
+  } catch (error) {
+    console.error("Error in health:", error);
+    return errorResponse(error, "Failed to read provider health");
+  }
+}));
+
+// Recognition providers as the registry sees them: config, whether their secrets are set, and
+// their breaker. Degraded when an enabled provider cannot run.
+async function recognitionHealth(detailed: boolean): Promise<Response> {
+  const providers = (await listRecognitionProviders(serviceClient()))
+    .map((p) => detailed || !p.breaker ? p : { ...p, breaker: withoutLastError(p.breaker) });
+  const unavailable = providers
+    .filter((p) => p.enabled && (!p.kind || !p.configured || (p.breaker && p.breaker.state !== "closed")))
+    .map((p) => p.provider);
+
+  return jsonResponse({
+    status: unavailable.length === 0 ? "ok" : "degraded",
+    unavailable,
+    providers,
+    checked_at: new Date().toISOString(),
+  }, 200, { "Cache-Control": "no-store" });
+}
+
+function withoutLastError<T extends Pick<ProviderHealth, "last_error">>(health: T): Omit<T, "last_error"> {
+  const { last_error: _, ...rest } = health;
+  return rest;
+}
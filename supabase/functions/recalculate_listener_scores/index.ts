@@ -3,31 +3,14 @@
 // Runs every 15 minutes via Supabase cron
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
+import { jsonResponse, withCors } from '../_shared/cors.ts'
+import { errorMessage, jsonError } from '../_shared/errors.ts'
+import { serviceClient } from '../_shared/supabase.ts'
 
+serve(withCors(async (req) => {
   try {
     // Create Supabase client with service role
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    )
+    const supabaseClient = serviceClient()
 
     // Get list of artists with active listeners (artists with stats in last 30 days)
     const thirtyDaysAgo = new Date()
@@ -106,32 +89,17 @@ serve(async (req) => {
       }
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        processed,
-        errors,
-        error_details: errorDetails,
-        total_pairs: pairs.length
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    )
+    return jsonResponse({
+      success: true,
+      processed,
+      errors,
+      error_details: errorDetails,
+      total_pairs: pairs.length
+    })
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      },
-    )
+    return jsonError('internal_error', errorMessage(error), { extra: { success: false } })
   }
-})
+}))
 
 
 
@@ -0,0 +1,175 @@
+// ResolveContext: the state threaded through every recall-resolve stage.
+// External dependencies (Supabase, fetch, env, LLM client, recognition providers, track resolver) live on
+// the context so stages can be exercised with stubs instead of real services.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PreprocessedAudio } from "../_shared/audio.ts";
+import { jsonResponse } from "../_shared/cors.ts";
+import { LlmClient } from "../_shared/llm.ts";
+import type { CacheLookup } from "../_shared/responseCache.ts";
+import type { StructuredResult } from "../_shared/structured.ts";
+import { RecognitionRegistry } from "../_shared/recognition/registry.ts";
+import { TrackResolver } from "../_shared/tracks/resolver.ts";
+import type { UsageRecorder } from "../_shared/usage.ts";
+import { emptyConversationState } from "./conversationState.ts";
+import type {
+  AudioRecognitionResult,
+  CachedResolve,
+  Candidate,
+  ConversationContext,
+  EmitFn,
+  OpenAIResponse,
+  QueryIntent,
+  RecallResolveRequest,
+  VoiceIntent,
+} from "./types.ts";
+
+export interface ResolveDeps {
+  supabase: SupabaseClient;
+  fetch: typeof fetch;
+  env: (name: string) => string | undefined;
+  llm: LlmClient;
+  recognition: RecognitionRegistry;
+  tracks: TrackResolver;
+  emit: EmitFn;
+}
+
+// The subset of dependencies the service helpers need
+export type ServiceDeps = Pick<ResolveDeps, "fetch" | "env" | "llm">;
+
+export interface ResolveContext extends ResolveDeps {
+  requestId: string;
+  requestStartTime: number;
+  request: RecallResolveRequest;
+  streaming: boolean;
+
+  // Input normalization
+  userMessage: any;
+  statusMessageId: string | null;
+  queryText: string;
+  mediaPath?: string;
+
+  // Transcription / intent / recognition
+  audioBlob: Blob | null;
+  audioBuffer: ArrayBuffer | null;
+  preprocessedAudio: PreprocessedAudio | null; // Trimmed segments of audioBuffer for the providers
+  audioTranscription: string;
+  detectedIntent: VoiceIntent | null;
+  shouldUseAudioRecognition: boolean;
+  audioRecognitionResult: AudioRecognitionResult | null;
+
+  // Context building
+  conversation: ConversationContext;
+  queryIntent: QueryIntent;
+
+  // Response cache: the lookup to store the result against (null when bypassed), and whether it hit
+  cacheLookup: CacheLookup<CachedResolve> | null;
+  cacheHit: boolean;
+
+  // LLM resolution / post-validation / track resolution
+  aiResult: OpenAIResponse | null;
+  resolutionStatus: StructuredResult<OpenAIResponse>["status"] | null;
+  finalCandidates: Candidate[];
+  answerText: string | null;
+  answerSources: string[];
+  streamedAnswerText: string;
+
+  // Set by any stage to stop the pipeline with this response
+  response: Response | null;
+}
+
+// `usage` records the LLM and recognition calls made for the request
+export function defaultResolveDeps(supabase: SupabaseClient, emit: EmitFn, usage?: UsageRecorder): ResolveDeps {
+  const fetchFn: typeof fetch = (input, init) => fetch(input, init);
+  const env = (name: string) => Deno.env.get(name);
+  return {
+    supabase,
+    fetch: fetchFn,
+    env,
+    llm: new LlmClient(supabase, { fetch: fetchFn, env, usage }),
+    recognition: new RecognitionRegistry(supabase, { fetch: fetchFn, env, usage }),
+    tracks: new TrackResolver(supabase, { fetch: fetchFn, env }),
+    emit,
+  };
+}
+
+export function createResolveContext(
+  deps: ResolveDeps,
+  request: RecallResolveRequest,
+  requestId: string,
+  options: { requestStartTime?: number; streaming?: boolean } = {}
+): ResolveContext {
+  return {
+    ...deps,
+    requestId,
+    requestStartTime: options.requestStartTime ?? Date.now(),
+    request,
+    streaming: options.streaming ?? false,
+    userMessage: null,
+    statusMessageId: null,
+    queryText: "",
+    mediaPath: undefined,
+    audioBlob: null,
+    audioBuffer: null,
+    preprocessedAudio: null,
+    audioTranscription: "",
+    detectedIntent: null,
+    shouldUseAudioRecognition: false,
+    audioRecognitionResult: null,
+    conversation: {
+      state: emptyConversationState(request.thread_id, ""),
+      previousMessages: [],
+      contextText: "",
+      rejectedCandidates: [],
+      previousQueries: [],
+      previousQuestions: [],
+      userClarifications: [],
+      userAnswers: [],
+      extractedInfo: {},
+      successfulIdentifications: [],
+      conversationFlow: "initial",
+    },
+    queryIntent: "search",
+    cacheLookup: null,
+    cacheHit: false,
+    aiResult: null,
+    resolutionStatus: null,
+    finalCandidates: [],
+    answerText: null,
+    answerSources: [],
+    streamedAnswerText: "",
+    response: null,
+  };
+}
+
+// Stops the pipeline with a JSON response
+export function finish(ctx: ResolveContext, body: unknown, status = 200): void {
+  ctx.response = jsonResponse(body, status);
+}
+
+export async function updateStatusMessage(ctx: ResolveContext, text: string): Promise<void> {
+  if (!ctx.statusMessageId) return;
+  await ctx.supabase
+    .from("recall_messages")
+    .update({ text })
+    .eq("id", ctx.statusMessageId);
+}
+
+// Leaves the status message showing the failure and stops the pipeline
+export async function failWithStatus(
+  ctx: ResolveContext,
+  statusText: string,
+  body: unknown,
+  status: number
+): Promise<void> {
+  if (ctx.statusMessageId) {
+    await ctx.supabase
+      .from("recall_messages")
+      .update({
+        message_type: "status",
+        text: statusText,
+      })
+      .eq("id", ctx.statusMessageId);
+  }
+  finish(ctx, body, status);
+}
@@ -0,0 +1,362 @@
+// Per-thread conversation memory (recall_thread_states, migration 20261018001300_conversation_state.sql).
+// Every turn folds the thread's messages newer than the state's watermark into it, so each message is
+// read once and what the user said early on is kept however long the thread gets. Only the newest
+// MODEL_EXTRACTED user messages of a turn get a model call (task "extract"); a longer backlog is read
+// by the offline extractor. Once more than SUMMARY_TRIGGER messages are past the summary, the older
+// ones are condensed into the rolling summary in the background (task "summarize"), oldest first and
+// SUMMARY_PAGE at a time; the newest KEEP_RECENT stay as they are.
+
+import { runInBackground } from "../_shared/dispatch.ts";
+import { songKey } from "../_shared/tracks/normalize.ts";
+import type { ResolveContext } from "./context.ts";
+import { summarizeConversation } from "./services/openai.ts";
+import { extractSlotsOffline, mergeSlots } from "./slots.ts";
+import type { ConversationState, ExtractedInfo } from "./types.ts";
+
+const SUMMARY_TRIGGER = 20;
+const KEEP_RECENT = 10;
+// Messages condensed per summarize call, and calls per turn; a longer backlog carries over
+const SUMMARY_PAGE = 40;
+const MAX_SUMMARY_PAGES = 5;
+// Messages read per turn; only reached when summaries keep failing
+const MAX_LOADED = 60;
+// User messages per turn whose slots are extracted by the model, newest first
+const MODEL_EXTRACTED = 3;
+
+// Oldest entries are dropped past these
+const MAX_REJECTED = 50;
+const MAX_IDENTIFIED = 20;
+const MAX_QUESTIONS = 20;
+const MAX_ANSWERS = 10;
+const MAX_QUERIES = 10;
+const MAX_CLARIFICATIONS = 5;
+
+const MESSAGE_COLUMNS = "text, role, message_type, song_title, song_artist, confidence, created_at";
+
+// The recall_messages columns the state is folded from
+export interface ThreadMessage {
+  text: string | null;
+  role: "user" | "assistant" | "system";
+  message_type: string;
+  song_title: string | null;
+  song_artist: string | null;
+  confidence: number | null;
+  created_at: string;
+}
+
+interface ThreadStateRow {
+  thread_id: string;
+  user_id: string;
+  facts: ConversationState["facts"] | null;
+  rejected_candidates: ConversationState["rejectedCandidates"] | null;
+  identified_songs: ConversationState["identifiedSongs"] | null;
+  questions_asked: string[] | null;
+  user_answers: ConversationState["userAnswers"] | null;
+  recent_queries: string[] | null;
+  clarifications: string[] | null;
+  pending_question: string | null;
+  flow: ConversationState["flow"];
+  message_count: number;
+  processed_through: string | null;
+  summary: string | null;
+  summarized_through: string | null;
+  summarized_count: number;
+  version: number;
+}
+
+// Reads the song details (slots) from a user message; `question` is the follow-up it answers, if any
+export type FactExtractor = (text: string, question: string | null) => Promise<ExtractedInfo>;
+
+export function emptyConversationState(threadId: string, userId: string): ConversationState {
+  return {
+    threadId,
+    userId,
+    facts: {},
+    rejectedCandidates: [],
+    identifiedSongs: [],
+    questionsAsked: [],
+    userAnswers: [],
+    recentQueries: [],
+    clarifications: [],
+    pendingQuestion: null,
+    flow: "initial",
+    messageCount: 0,
+    processedThrough: null,
+    summary: null,
+    summarizedThrough: null,
+    summarizedCount: 0,
+    version: 0,
+  };
+}
+
+// Loads the thread's state, folds in the messages since the last turn and saves it. Returns the
+// state and the messages the summary does not cover yet, newest first.
+export async function syncConversationState(
+  ctx: ResolveContext,
+  extractFacts: FactExtractor
+): Promise<{ state: ConversationState; messages: ThreadMessage[] }> {
+  const { requestId, supabase } = ctx;
+  const { thread_id } = ctx.request;
+
+  const { data: row, error: stateError } = await supabase
+    .from("recall_thread_states")
+    .select("*")
+    .eq("thread_id", thread_id)
+    .maybeSingle();
+  if (stateError) {
+    console.error(`❌ [RECALL-RESOLVE] [${requestId}] Failed to load thread state, starting from the recent messages:`, stateError.message);
+  }
+  const state = row ? fromRow(row) : emptyConversationState(thread_id, ctx.userMessage.user_id);
+
+  let query = supabase
+    .from("recall_messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("thread_id", thread_id)
+    .order("created_at", { ascending: false })
+    .limit(MAX_LOADED);
+  if (state.summarizedThrough) {
+    query = query.gt("created_at", state.summarizedThrough);
+  }
+  const { data } = await query;
+  const messages: ThreadMessage[] = data || [];
+
+  const unprocessed = messages.filter((m) => isAfter(m.created_at, state.processedThrough)).reverse();
+  const modelExtracted = new Set(unprocessed.filter((m) => m.role === "user" && m.text).slice(-MODEL_EXTRACTED));
+  for (const message of unprocessed) {
+    await foldMessage(state, message, modelExtracted.has(message) ? extractFacts : extractOffline);
+  }
+  if (unprocessed.length > 0) {
+    state.processedThrough = unprocessed[unprocessed.length - 1].created_at;
+    await saveConversationState(ctx, state);
+  }
+
+  // Everything older than the KEEP_RECENT newest messages is summarized, including what lies beyond
+  // the MAX_LOADED read here
+  const unsummarized = messages.filter((m) => m.message_type !== "status");
+  if (unsummarized.length > SUMMARY_TRIGGER && state.version > 0) {
+    const keptFrom = unsummarized[KEEP_RECENT - 1].created_at;
+    runInBackground(summarizeOlderTurns(ctx, state, keptFrom), `conversation summary ${thread_id}`);
+  }
+
+  console.log(`🧠 [RECALL-RESOLVE] [${requestId}] Thread state: ${state.messageCount} messages (${unprocessed.length} new, ${state.summarizedCount} summarized), flow=${state.flow}, facts=${Object.keys(state.facts).length}`);
+  return { state, messages };
+}
+
+// Whether the thread already asked this follow-up question (ignoring case and punctuation)
+export function wasAsked(state: ConversationState, question: string): boolean {
+  const key = questionKey(question);
+  return state.questionsAsked.some((asked) => questionKey(asked) === key);
+}
+
+async function foldMessage(state: ConversationState, message: ThreadMessage, extractFacts: FactExtractor): Promise<void> {
+  if (message.message_type === "status") {
+    return;
+  }
+  state.messageCount++;
+
+  if (message.role === "user" && message.text) {
+    append(state.recentQueries, message.text, MAX_QUERIES);
+
+    // A user message right after a follow-up question answers it
+    const question = state.pendingQuestion;
+    if (question) {
+      append(state.userAnswers, { question, answer: message.text }, MAX_ANSWERS);
+      state.pendingQuestion = null;
+    }
+    mergeSlots(state.facts, await extractFacts(message.text, question));
+
+    if (state.flow === "initial" && state.recentQueries.length > 1) {
+      state.flow = "refining";
+    }
+  } else if (message.message_type === "candidate" && message.song_title && message.song_artist) {
+    // The query that led to suggestions is a clarification of what the user is after
+    const lastQuery = state.recentQueries[state.recentQueries.length - 1];
+    if (lastQuery && state.clarifications[state.clarifications.length - 1] !== lastQuery) {
+      append(state.clarifications, lastQuery, MAX_CLARIFICATIONS);
+    }
+
+    const song = { title: message.song_title, artist: message.song_artist };
+    if (message.confidence && message.confidence < 0.6) {
+      appendSong(state.rejectedCandidates, song, MAX_REJECTED);
+    } else if (message.confidence && message.confidence >= 0.8) {
+      appendSong(state.identifiedSongs, song, MAX_IDENTIFIED);
+      state.flow = "found";
+    }
+  } else if (message.message_type === "follow_up" && message.text) {
+    if (!wasAsked(state, message.text)) {
+      append(state.questionsAsked, message.text, MAX_QUESTIONS);
+    }
+    state.pendingQuestion = message.text;
+    state.flow = "refining";
+  }
+}
+
+// Writes the folded fields (the summary has its own writer). version makes the save conditional, so of
+// two turns saving at once only one wins; the loser's messages are past the winner's watermark or
+// were folded by it too.
+async function saveConversationState(ctx: ResolveContext, state: ConversationState): Promise<void> {
+  const { requestId, supabase } = ctx;
+  const row = {
+    thread_id: state.threadId,
+    user_id: state.userId,
+    facts: state.facts,
+    rejected_candidates: state.rejectedCandidates,
+    identified_songs: state.identifiedSongs,
+    questions_asked: state.questionsAsked,
+    user_answers: state.userAnswers,
+    recent_queries: state.recentQueries,
+    clarifications: state.clarifications,
+    pending_question: state.pendingQuestion,
+    flow: state.flow,
+    message_count: state.messageCount,
+    processed_through: state.processedThrough,
+    version: state.version + 1,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = state.version === 0
+    ? await supabase.from("recall_thread_states").insert(row).select("version")
+    : await supabase
+      .from("recall_thread_states")
+      .update(row)
+      .eq("thread_id", state.threadId)
+      .eq("version", state.version)
+      .select("version");
+
+  if (error && error.code !== "23505") {
+    console.error(`❌ [RECALL-RESOLVE] [${requestId}] Failed to save thread state:`, error.message);
+  } else if (error || !data?.length) {
+    console.warn(`⚠️ [RECALL-RESOLVE] [${requestId}] Thread state was saved by another request, keeping that one`);
+  } else {
+    state.version++;
+  }
+}
+
+const extractOffline: FactExtractor = (text) => Promise.resolve(extractSlotsOffline(text));
+
+// Condenses the messages past the summary and before `keptFrom` into it, a page at a time, oldest
+// first. Each page only applies if no other request moved the summary on in the meantime.
+async function summarizeOlderTurns(ctx: ResolveContext, state: ConversationState, keptFrom: string): Promise<void> {
+  let { summary, summarizedThrough, summarizedCount } = state;
+
+  for (let page = 0; page < MAX_SUMMARY_PAGES; page++) {
+    let query = ctx.supabase
+      .from("recall_messages")
+      .select(MESSAGE_COLUMNS)
+      .eq("thread_id", state.threadId)
+      .neq("message_type", "status")
+      .lt("created_at", keptFrom)
+      .order("created_at", { ascending: true })
+      .limit(SUMMARY_PAGE);
+    if (summarizedThrough) {
+      query = query.gt("created_at", summarizedThrough);
+    }
+    const { data, error: loadError } = await query;
+    if (loadError) {
+      console.error(`❌ [RECALL-RESOLVE] [${ctx.requestId}] Failed to load messages to summarize:`, loadError.message);
+      return;
+    }
+    const older: ThreadMessage[] = data || [];
+    if (older.length === 0) {
+      return;
+    }
+
+    const transcript = older.map(describeMessage).filter(Boolean).join("\n");
+    const next = await summarizeConversation(ctx, summary, transcript);
+    if (!next) {
+      return;
+    }
+
+    const through = older[older.length - 1].created_at;
+    let update = ctx.supabase
+      .from("recall_thread_states")
+      .update({
+        summary: next,
+        summarized_through: through,
+        summarized_count: summarizedCount + older.length,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("thread_id", state.threadId);
+    update = summarizedThrough
+      ? update.eq("summarized_through", summarizedThrough)
+      : update.is("summarized_through", null);
+
+    const { data: saved, error } = await update.select("summarized_through");
+    if (error) {
+      console.error(`❌ [RECALL-RESOLVE] [${ctx.requestId}] Failed to save thread summary:`, error.message);
+      return;
+    }
+    if (!saved?.length) {
+      console.warn(`⚠️ [RECALL-RESOLVE] [${ctx.requestId}] Thread summary was moved on by another request, stopping`);
+      return;
+    }
+    console.log(`🧠 [RECALL-RESOLVE] [${ctx.requestId}] Summarized ${older.length} older messages (${next.length} chars)`);
+    summary = next;
+    summarizedThrough = through;
+    summarizedCount += older.length;
+  }
+}
+
+function describeMessage(message: ThreadMessage): string | null {
+  if (message.role === "user" && message.text) {
+    return `User: ${message.text}`;
+  }
+  if (message.message_type === "candidate" && message.song_title) {
+    const confidence = message.confidence ? ` (confidence ${Math.round(message.confidence * 100)}%)` : "";
+    return `Recall suggested "${message.song_title}" by ${message.song_artist}${confidence}`;
+  }
+  if (message.message_type === "follow_up" && message.text) {
+    return `Recall asked: ${message.text}`;
+  }
+  if (message.role === "assistant" && message.text && message.message_type !== "status") {
+    return `Recall: ${message.text.substring(0, 300)}`;
+  }
+  return null;
+}
+
+function fromRow(row: ThreadStateRow): ConversationState {
+  return {
+    threadId: row.thread_id,
+    userId: row.user_id,
+    facts: row.facts ?? {},
+    rejectedCandidates: row.rejected_candidates ?? [],
+    identifiedSongs: row.identified_songs ?? [],
+    questionsAsked: row.questions_asked ?? [],
+    userAnswers: row.user_answers ?? [],
+    recentQueries: row.recent_queries ?? [],
+    clarifications: row.clarifications ?? [],
+    pendingQuestion: row.pending_question,
+    flow: row.flow,
+    messageCount: row.message_count,
+    processedThrough: row.processed_through,
+    summary: row.summary,
+    summarizedThrough: row.summarized_through,
+    summarizedCount: row.summarized_count,
+    version: row.version,
+  };
+}
+
+// created_at keeps microseconds, which Date drops; same-millisecond values compare as strings
+function isAfter(timestamp: string, watermark: string | null): boolean {
+  if (!watermark) return true;
+  const diff = Date.parse(timestamp) - Date.parse(watermark);
+  return diff !== 0 ? diff > 0 : timestamp > watermark;
+}
+
+function append<T>(list: T[], item: T, limit: number): void {
+  list.push(item);
+  if (list.length > limit) {
+    list.splice(0, list.length - limit);
+  }
+}
+
+function appendSong(list: Array<{title: string, artist: string}>, song: {title: string, artist: string}, limit: number): void {
+  const key = songKey(song.title, song.artist);
+  if (!list.some((known) => songKey(known.title, known.artist) === key)) {
+    append(list, song, limit);
+  }
+}
+
+function questionKey(question: string): string {
+  return question.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
@@ -0,0 +1,154 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { LlmClient } from "../_shared/llm.ts";
+import { syncConversationState, type ThreadMessage } from "./conversationState.ts";
+import { fakeLlm, fakeResolveContext, fakeResolveDeps, fakeSupabase, type RecordedQuery } from "./testing.ts";
+import type { ExtractedInfo } from "./types.ts";
+
+// Messages one second apart, the first at 10:00:00
+function thread(count: number, make: (i: number) => Partial<ThreadMessage> = () => ({})): ThreadMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    text: `message ${i}`,
+    role: "user",
+    message_type: "text",
+    song_title: null,
+    song_artist: null,
+    confidence: null,
+    created_at: new Date(Date.UTC(2026, 9, 18, 10, 0, i)).toISOString(),
+    ...make(i),
+  }));
+}
+
+function stateRow(overrides: Record<string, unknown> = {}) {
+  return {
+    thread_id: "thread-1",
+    user_id: "user-1",
+    facts: {},
+    rejected_candidates: [],
+    identified_songs: [],
+    questions_asked: [],
+    user_answers: [],
+    recent_queries: [],
+    clarifications: [],
+    pending_question: null,
+    flow: "initial",
+    message_count: 0,
+    processed_through: null,
+    summary: null,
+    summarized_through: null,
+    summarized_count: 0,
+    version: 1,
+    ...overrides,
+  };
+}
+
+function filter(query: RecordedQuery, name: string): unknown[] | undefined {
+  return query.filters.find(([f]) => f === name)?.slice(1);
+}
+
+// Answers recall_messages selects from `messages` by their created_at, status, order and limit filters
+function messagesResponse(messages: ThreadMessage[], query: RecordedQuery) {
+  const gt = filter(query, "gt")?.[1] as string | undefined;
+  const lt = filter(query, "lt")?.[1] as string | undefined;
+  const ascending = (filter(query, "order")?.[1] as { ascending: boolean }).ascending;
+  const limit = filter(query, "limit")?.[0] as number;
+  const rows = messages
+    .filter((m) => (!gt || m.created_at > gt) && (!lt || m.created_at < lt))
+    .filter((m) => !filter(query, "neq") || m.message_type !== "status")
+    .sort((a, b) => ascending ? a.created_at.localeCompare(b.created_at) : b.created_at.localeCompare(a.created_at));
+  return rows.slice(0, limit);
+}
+
+// Collects the tasks runInBackground hands to EdgeRuntime.waitUntil
+function captureBackground(): { settled: () => Promise<unknown>; restore: () => void } {
+  const tasks: Promise<unknown>[] = [];
+  const global = globalThis as { EdgeRuntime?: unknown };
+  global.EdgeRuntime = { waitUntil: (task: Promise<unknown>) => tasks.push(task) };
+  return { settled: () => Promise.all(tasks), restore: () => delete global.EdgeRuntime };
+}
+
+Deno.test("syncConversationState asks the model about the newest user messages only", async () => {
+  const messages = thread(8, (i) => ({ text: i === 0 ? "it's a rock song from the 80s" : `detail ${i}` }));
+  const { client } = fakeSupabase((query) => {
+    if (query.table === "recall_messages") return { data: messagesResponse(messages, query), error: null };
+    return { data: query.operation === "select" ? null : [{ version: 1 }], error: null };
+  });
+  const ctx = fakeResolveContext(fakeResolveDeps({ supabase: client }));
+  const modelCalls: string[] = [];
+
+  const { state } = await syncConversationState(ctx, (text) => {
+    modelCalls.push(text);
+    return Promise.resolve({} as ExtractedInfo);
+  });
+
+  assertEquals(modelCalls, ["detail 5", "detail 6", "detail 7"]);
+  // The backlog went through the offline extractor
+  assertEquals(state.facts.genre?.value, "rock");
+  assertEquals(state.facts.decade?.value, "1980s");
+  assertEquals(state.messageCount, 8);
+  assertEquals(state.processedThrough, messages[7].created_at);
+});
+
+Deno.test("syncConversationState summarizes the whole backlog in pages, oldest first", async () => {
+  const messages = thread(110);
+  const summaries: Array<{ through: string; count: number }> = [];
+  const { client } = fakeSupabase((query) => {
+    if (query.table === "recall_messages") return { data: messagesResponse(messages, query), error: null };
+    if (query.operation === "select") {
+      return { data: stateRow({ message_count: 110, processed_through: messages[109].created_at }), error: null };
+    }
+    const values = query.values as { summarized_through: string; summarized_count: number };
+    summaries.push({ through: values.summarized_through, count: values.summarized_count });
+    return { data: [{ summarized_through: values.summarized_through }], error: null };
+  });
+  const transcripts: string[] = [];
+  const llm = fakeLlm().llm;
+  (llm as { chat: LlmClient["chat"] }).chat = (_task, chat) => {
+    transcripts.push(chat[1].content as string);
+    return Promise.resolve({ content: `summary ${transcripts.length}` } as Awaited<ReturnType<LlmClient["chat"]>>);
+  };
+  const ctx = fakeResolveContext(fakeResolveDeps({ supabase: client, llm }));
+  const background = captureBackground();
+
+  try {
+    const { messages: recent } = await syncConversationState(ctx, () => Promise.resolve({}));
+    await background.settled();
+
+    // Only the newest 60 are read for the turn, but the 50 before them are summarized too
+    assertEquals(recent.length, 60);
+    assertEquals(summaries, [
+      { through: messages[39].created_at, count: 40 },
+      { through: messages[79].created_at, count: 80 },
+      { through: messages[99].created_at, count: 100 },
+    ]);
+    assertEquals(transcripts[0].startsWith("New turns:\nUser: message 0\n"), true);
+    assertEquals(transcripts[1].startsWith("Summary so far:\nsummary 1"), true);
+  } finally {
+    background.restore();
+  }
+});
+
+Deno.test("syncConversationState stops summarizing when another request moved the summary on", async () => {
+  const messages = thread(110);
+  let updates = 0;
+  const { client } = fakeSupabase((query) => {
+    if (query.table === "recall_messages") return { data: messagesResponse(messages, query), error: null };
+    if (query.operation === "select") {
+      return { data: stateRow({ message_count: 110, processed_through: messages[109].created_at }), error: null };
+    }
+    updates++;
+    return { data: [], error: null };
+  });
+  const llm = fakeLlm().llm;
+  (llm as { chat: LlmClient["chat"] }).chat = () =>
+    Promise.resolve({ content: "summary" } as Awaited<ReturnType<LlmClient["chat"]>>);
+  const background = captureBackground();
+
+  try {
+    await syncConversationState(fakeResolveContext(fakeResolveDeps({ supabase: client, llm })), () => Promise.resolve({}));
+    await background.settled();
+
+    assertEquals(updates, 1);
+  } finally {
+    background.restore();
+  }
+});
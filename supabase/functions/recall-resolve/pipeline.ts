@@ -0,0 +1,58 @@
+// recall-resolve pipeline: an ordered list of named stages sharing one ResolveContext.
+// A stage stops the pipeline by setting ctx.response (see finish/failWithStatus in context.ts).
+// Stages marked skipOnCacheHit produce what a response cache hit already restored, and are skipped then.
+
+import type { ResolveContext } from "./context.ts";
+import { inputNormalizationStage } from "./stages/inputNormalization.ts";
+import { transcriptionStage } from "./stages/transcription.ts";
+import { intentStage } from "./stages/intent.ts";
+import { recognitionStage } from "./stages/recognition.ts";
+import { contextBuildingStage } from "./stages/contextBuilding.ts";
+import { responseCacheLookupStage, responseCacheStoreStage } from "./stages/responseCache.ts";
+import { llmResolutionStage } from "./stages/llmResolution.ts";
+import { postValidationStage } from "./stages/postValidation.ts";
+import { trackResolutionStage } from "./stages/trackResolution.ts";
+import { verificationStage } from "./stages/verification.ts";
+import { persistenceStage } from "./stages/persistence.ts";
+
+export interface ResolveStage {
+  name: string;
+  skipOnCacheHit?: boolean;
+  run(ctx: ResolveContext): Promise<void>;
+}
+
+export const DEFAULT_STAGES: ResolveStage[] = [
+  inputNormalizationStage,
+  transcriptionStage,
+  intentStage,
+  recognitionStage,
+  contextBuildingStage,
+  responseCacheLookupStage,
+  llmResolutionStage,
+  postValidationStage,
+  trackResolutionStage,
+  verificationStage,
+  responseCacheStoreStage,
+  persistenceStage,
+];
+
+export async function runResolvePipeline(
+  ctx: ResolveContext,
+  stages: ResolveStage[] = DEFAULT_STAGES
+): Promise<Response> {
+  for (const stage of stages) {
+    if (stage.skipOnCacheHit && ctx.cacheHit) {
+      continue;
+    }
+
+    const stageStartTime = Date.now();
+    await stage.run(ctx);
+    console.log(`⏱️ [RECALL-RESOLVE] [${ctx.requestId}] Stage ${stage.name} completed in ${Date.now() - stageStartTime}ms`);
+
+    if (ctx.response) {
+      return ctx.response;
+    }
+  }
+
+  throw new Error("Resolve pipeline finished without producing a response");
+}
@@ -0,0 +1,69 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { finish } from "./context.ts";
+import { runResolvePipeline, type ResolveStage } from "./pipeline.ts";
+import { fakeResolveContext } from "./testing.ts";
+
+function recordingStage(name: string, ran: string[], options: Partial<ResolveStage> = {}): ResolveStage {
+  return {
+    name,
+    run: () => {
+      ran.push(name);
+      return Promise.resolve();
+    },
+    ...options,
+  };
+}
+
+Deno.test("runResolvePipeline runs stages in order and stops at the first response", async () => {
+  const ran: string[] = [];
+  const ctx = fakeResolveContext();
+
+  const response = await runResolvePipeline(ctx, [
+    recordingStage("first", ran),
+    recordingStage("second", ran, {
+      run: (ctx) => {
+        ran.push("second");
+        finish(ctx, { status: "done" });
+        return Promise.resolve();
+      },
+    }),
+    recordingStage("third", ran),
+  ]);
+
+  assertEquals(ran, ["first", "second"]);
+  assertEquals(response.status, 200);
+  assertEquals(await response.json(), { status: "done" });
+});
+
+Deno.test("runResolvePipeline skips skipOnCacheHit stages after a cache hit", async () => {
+  const ran: string[] = [];
+  const ctx = fakeResolveContext();
+
+  await runResolvePipeline(ctx, [
+    recordingStage("lookup", ran, {
+      run: (ctx) => {
+        ran.push("lookup");
+        ctx.cacheHit = true;
+        return Promise.resolve();
+      },
+    }),
+    recordingStage("resolution", ran, { skipOnCacheHit: true }),
+    recordingStage("persistence", ran, {
+      run: (ctx) => {
+        ran.push("persistence");
+        finish(ctx, { cached: ctx.cacheHit });
+        return Promise.resolve();
+      },
+    }),
+  ]);
+
+  assertEquals(ran, ["lookup", "persistence"]);
+});
+
+Deno.test("runResolvePipeline throws when no stage responds", async () => {
+  await assertRejects(
+    () => runResolvePipeline(fakeResolveContext(), [recordingStage("only", [])]),
+    Error,
+    "without producing a response",
+  );
+});
@@ -0,0 +1,105 @@
+// Structured-output schemas for the recall-resolve model calls (see _shared/structured.ts).
+// Each schema mirrors its interface in types.ts; optional fields are nullable because strict mode
+// requires every key, and parseStructured drops the nulls again.
+
+import {
+  arraySchema,
+  booleanSchema,
+  enumSchema,
+  type JsonSchema,
+  nullable,
+  numberSchema,
+  objectSchema,
+  stringSchema,
+  type StructuredOutput,
+} from "../_shared/structured.ts";
+import type { ExtractedInfo, OpenAIResponse, VoiceIntent } from "./types.ts";
+
+const VOICE_INTENT_TYPES = ["conversation", "information", "find_song", "generate_song", "humming", "background_audio", "unclear"] as const;
+
+export const VOICE_INTENT_OUTPUT: StructuredOutput<VoiceIntent> = {
+  name: "voice_intent",
+  schema: objectSchema({
+    type: enumSchema(VOICE_INTENT_TYPES),
+    confidence: numberSchema("0.0-1.0"),
+    reasoning: stringSchema("Brief explanation"),
+  }),
+  fallback: () => ({ type: "unclear", confidence: 0.5, reasoning: "Invalid model reply" }),
+};
+
+const CONVERSATION_STATES = ["searching", "refining_search", "found", "needs_clarification", "answering", "general_question"] as const;
+
+const candidateSchema = objectSchema({
+  title: stringSchema("Exact song title"),
+  artist: stringSchema("Primary artist"),
+  confidence: numberSchema("0.0-1.0"),
+  reason: stringSchema("Why this matches"),
+  background: nullable(stringSchema("Release date, album, genre and notable facts")),
+  highlight_snippet: nullable(stringSchema("Exact lyric line or memorable phrase, max 50 chars")),
+  source_urls: arraySchema(stringSchema(), "Only URLs known to exist; empty when unsure"),
+});
+
+const songReferenceSchema = objectSchema({
+  title: stringSchema(),
+  artist: stringSchema(),
+});
+
+export const RECALL_RESPONSE_OUTPUT: StructuredOutput<OpenAIResponse> = {
+  name: "recall_response",
+  schema: objectSchema({
+    response_type: enumSchema(["search", "answer", "both"]),
+    overall_confidence: numberSchema("0.0-1.0"),
+    candidates: arraySchema(candidateSchema),
+    answer: nullable(objectSchema({
+      text: stringSchema(),
+      sources: arraySchema(stringSchema()),
+      related_songs: arraySchema(songReferenceSchema),
+    }, "Only when response_type is answer or both")),
+    should_ask_crowd: booleanSchema(),
+    crowd_prompt: nullable(stringSchema()),
+    follow_up_question: nullable(stringSchema()),
+    conversation_state: nullable(enumSchema(CONVERSATION_STATES)),
+  }),
+  // Nothing to show, so ask the user to try again rather than failing the message
+  fallback: () => ({
+    response_type: "answer",
+    overall_confidence: 0,
+    candidates: [],
+    answer: {
+      text: "Sorry, I couldn't put an answer together just now. Could you say that again, maybe with a bit more detail?",
+      sources: [],
+      related_songs: [],
+    },
+    should_ask_crowd: false,
+  }),
+};
+
+// A slot the message does not mention is null
+function slotSchema(value: JsonSchema): JsonSchema {
+  return nullable(objectSchema({
+    value,
+    confidence: numberSchema("0.0-1.0: how clearly the message states it"),
+  }));
+}
+
+export const SLOT_EXTRACTION_OUTPUT: StructuredOutput<ExtractedInfo> = {
+  name: "song_slots",
+  schema: objectSchema({
+    genre: slotSchema(stringSchema("Main genre, lowercase, e.g. rock, hip-hop, k-pop")),
+    subGenre: slotSchema(stringSchema("e.g. shoegaze, trap, bossa nova")),
+    decade: slotSchema(stringSchema("Four-digit decade, e.g. 1980s")),
+    yearRange: slotSchema(objectSchema({ from: numberSchema(), to: numberSchema() })),
+    language: slotSchema(stringSchema("Language of the lyrics, in English, e.g. Spanish")),
+    vocalistGender: slotSchema(enumSchema(["male", "female", "mixed"])),
+    artistType: slotSchema(enumSchema(["solo", "band"])),
+    tempo: slotSchema(enumSchema(["slow", "medium", "fast"])),
+    mood: slotSchema(stringSchema()),
+    instruments: slotSchema(arraySchema(stringSchema())),
+    lyrics: slotSchema(stringSchema("Words the user remembers, verbatim")),
+    whereHeard: slotSchema(stringSchema("e.g. radio, a film, an ad, TikTok, a club")),
+    artist: slotSchema(stringSchema("A named artist or band")),
+    exclusions: slotSchema(arraySchema(stringSchema(), "What the song is not, e.g. \"not rap\", \"not by Drake\"")),
+  }),
+  // Nothing extracted; extractSlots then runs the offline extractor
+  fallback: () => ({}),
+};
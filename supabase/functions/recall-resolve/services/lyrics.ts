@@ -0,0 +1,75 @@
+import type { ServiceDeps } from "../context.ts";
+
+// Lyrics fetching from lyrics.ovh API (free, no API key required)
+export interface LyricsResult {
+  success: boolean;
+  lyrics?: string;
+  language?: string;
+  sourceUrl?: string;
+  error?: string;
+}
+
+// In-memory cache for lyrics to avoid repeated API calls
+const lyricsCache = new Map<string, LyricsResult>();
+
+export async function fetchLyricsFromGenius(deps: ServiceDeps, songTitle: string, artistName: string): Promise<LyricsResult> {
+  // Check cache first
+  const cacheKey = `${songTitle.toLowerCase()}_${artistName.toLowerCase()}`;
+  if (lyricsCache.has(cacheKey)) {
+    console.log(`📦 [LYRICS] Using cached lyrics for "${songTitle}" by ${artistName}`);
+    return lyricsCache.get(cacheKey)!;
+  }
+
+  try {
+    console.log(`🎵 [LYRICS] Fetching lyrics from lyrics.ovh for "${songTitle}" by ${artistName}...`);
+
+    // lyrics.ovh API format: https://api.lyrics.ovh/v1/{artist}/{title}
+    // Note: Artist and title should be URL-encoded
+    const lyricsOvhUrl = `https://api.lyrics.ovh/v1/${encodeURIComponent(artistName)}/${encodeURIComponent(songTitle)}`;
+
+    const lyricsResponse = await deps.fetch(lyricsOvhUrl);
+
+    if (!lyricsResponse.ok) {
+      if (lyricsResponse.status === 404) {
+        console.log(`❌ [LYRICS] Song not found in lyrics.ovh database`);
+        const result = { success: false, error: "Song not found in lyrics database" };
+        lyricsCache.set(cacheKey, result);
+        return result;
+      }
+
+      const errorText = await lyricsResponse.text();
+      console.error(`❌ [LYRICS] lyrics.ovh API error (${lyricsResponse.status}):`, errorText);
+      const result = { success: false, error: `Lyrics API error: ${lyricsResponse.status}` };
+      lyricsCache.set(cacheKey, result);
+      return result;
+    }
+
+    const lyricsData = await lyricsResponse.json();
+
+    if (lyricsData.lyrics) {
+      const lyrics = lyricsData.lyrics.trim();
+      console.log(`✅ [LYRICS] Successfully fetched lyrics (${lyrics.length} chars)`);
+
+      const result: LyricsResult = {
+        success: true,
+        lyrics: lyrics,
+        sourceUrl: `https://lyrics.ovh/${encodeURIComponent(artistName)}/${encodeURIComponent(songTitle)}`,
+      };
+
+      // Cache the result
+      lyricsCache.set(cacheKey, result);
+      return result;
+    } else {
+      console.log(`❌ [LYRICS] No lyrics found in response`);
+      const result = { success: false, error: "No lyrics in response" };
+      lyricsCache.set(cacheKey, result);
+      return result;
+    }
+
+  } catch (error) {
+    console.error("❌ [LYRICS] Lyrics fetch error:", error);
+    const result = { success: false, error: `Error: ${error instanceof Error ? error.message : String(error)}` };
+    lyricsCache.set(cacheKey, result);
+    return result;
+  }
+}
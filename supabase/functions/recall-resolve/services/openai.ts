@@ -0,0 +1,267 @@
+// OpenAI helpers used by recall-resolve stages (intent, language detection, song summaries)
+
+import type { ServiceDeps } from "../context.ts";
+import { VOICE_INTENT_OUTPUT } from "../schemas.ts";
+import type { VoiceIntent } from "../types.ts";
+
+const VOICE_INTENT_PROMPT = `Analyze voice transcription to determine user intent. Return JSON with:
+{
+  "type": "conversation" | "information" | "find_song" | "generate_song" | "humming" | "background_audio" | "unclear",
+  "confidence": 0.0-1.0,
+  "reasoning": "brief explanation"
+}
+
+Intent Types:
+- "conversation": Casual chat, greetings, small talk, general conversation (e.g., "How are you?", "Tell me about your day", "What's up", "Thanks", "Hello")
+- "information": Information questions about music (e.g., "Who wrote this?", "When was this released?", "What genre is this?", "Tell me about The Beatles", "Explain jazz")
+- "find_song": Song identification/search requests (e.g., "What song is this?", "Find this song", "Name that song", "Identify this", "I'm looking for a song")
+- "generate_song": Song generation/creation requests (e.g., "Create a song", "Generate music", "Make a beat", "Compose a melody", "Write a song")
+- "humming": User is humming, singing, or vocalizing a melody without clear words. Characterized by repetitive sounds, vowel sounds, or musical vocalizations.
+- "background_audio": Transcription is unclear, garbled, or contains [inaudible]/[music] tags, suggesting background music playing rather than speech.
+- "unclear": Cannot determine with confidence (mixed signals, ambiguous content, or very short unclear input).
+
+Key Detection Rules (apply in order):
+
+1. CONVERSATION (casual chat):
+   - Greetings: "hi", "hello", "hey", "how are you", "what's up", "how's it going"
+   - Small talk: "thanks", "thank you", "cool", "nice", "awesome", "that's great"
+   - Casual responses: "okay", "sure", "yeah", "yep", "nope", "maybe"
+   - General conversation without specific music questions
+   - Pattern: Friendly, conversational tone without specific information requests
+
+2. INFORMATION QUESTIONS (→ information):
+   - Question words + music context: "who wrote", "when was", "what album", "what genre", "where is", "why did"
+   - Information requests: "tell me about", "explain", "describe", "what is", "how does"
+   - History/facts: "history", "biography", "facts", "story", "background"
+   - Comparison: "compare", "difference", "better", "best", "top", "favorite"
+   - Recommendation requests: "recommend", "suggest", "similar to", "like", "playlist"
+   - Pattern: Asking for factual information about music, artists, songs, genres
+
+3. SONG IDENTIFICATION REQUESTS (→ find_song):
+   - Search keywords: "find", "search", "identify", "what song", "name that song", "who sings"
+   - Looking for: "I'm looking for", "I need to find", "Can you find", "Help me find"
+   - Recognition: "recognize", "remember", "what's this song", "what song is this"
+   - Pattern: User wants to identify or find a specific song
+
+4. SONG GENERATION REQUESTS (→ generate_song):
+   - Creation keywords: "create", "generate", "make", "compose", "write a song", "produce", "build"
+   - Music creation: "make music", "create music", "generate music", "make a beat", "create a melody"
+   - Pattern: User wants to create or generate new music
+
+5. HUMMING PATTERNS (→ humming):
+   - Repetitive sounds: "hmm", "la", "da", "mm", "ah", "na", "oh", "doo", "dum", "bum", "ba", "pa"
+   - Vowel-only sounds: "aa", "ee", "oo", "ii", "uu"
+   - Musical syllables: "do re mi", "fa sol la", "ti do"
+   - Pattern: <5 words + repetitive sounds = likely humming
+   - Pattern: Same sound repeated 3+ times = likely humming
+   - Pattern: No recognizable words, only sounds = humming
+
+6. BACKGROUND AUDIO (→ background_audio):
+   - Transcription artifacts: [music], [inaudible], [background noise], [unintelligible], [garbled]
+   - Very short unclear text: <3 words that don't form sentences
+   - Mixed signals: Contains both speech and [music] tags
+
+7. CONFIDENCE THRESHOLDS:
+   - conversation: confidence >= 0.7 if clear casual chat
+   - information: confidence >= 0.8 if clear information question
+   - find_song: confidence >= 0.8 if clear search/identification request
+   - generate_song: confidence >= 0.8 if clear generation request
+   - humming: confidence >= 0.8 if repetitive sounds pattern is clear
+   - background_audio: confidence >= 0.7 if transcription artifacts present
+   - unclear: confidence < 0.6 for any type
+
+Examples:
+- "How are you?" → conversation (0.95) - casual chat
+- "Thanks for your help" → conversation (0.9) - casual response
+- "Tell me about The Beatles" → information (0.95) - information question
+- "Who wrote Bohemian Rhapsody?" → information (0.95) - information question
+- "What song is this?" → find_song (0.9) - song identification request
+- "I'm looking for a song" → find_song (0.85) - search request
+- "Create a song for me" → generate_song (0.9) - generation request
+- "Make a beat" → generate_song (0.85) - generation request
+- "hmm hmm hmm da da da" → humming (0.9) - repetitive sounds pattern
+- "la la la la la la" → humming (0.95) - clear humming pattern
+- "[inaudible] [music] [background noise]" → background_audio (0.9) - transcription artifacts
+- "um" or "uh" → unclear (0.5) - too short, ambiguous
+- "the" → unclear (0.3) - single word, no context`;
+
+// NEW: Analyze voice intent to determine if user is conversing or identifying music
+export async function analyzeVoiceIntent(deps: ServiceDeps, transcription: string): Promise<VoiceIntent> {
+  try {
+    console.log(`🧠 Analyzing intent for: "${transcription.substring(0, 100)}..."`);
+
+    const { value: result } = await deps.llm.structured("intent", VOICE_INTENT_OUTPUT, [
+      { role: "system", content: VOICE_INTENT_PROMPT },
+      { role: "user", content: `Transcription: "${transcription}"` },
+    ], { temperature: 0.1, maxTokens: 150, label: "INTENT" });
+
+    console.log(`🎯 Intent: ${result.type} (${result.confidence}) - ${result.reasoning}`);
+    return result;
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      console.error("⚠️ Intent analysis timeout");
+    } else {
+      console.error("❌ Intent analysis error:", error);
+    }
+    return { type: "unclear", confidence: 0.5, reasoning: "Error occurred" };
+  }
+}
+
+// Language detection for lyrics
+export async function detectLanguage(deps: ServiceDeps, text: string): Promise<string> {
+  try {
+    // Simple heuristic first - check for common non-English patterns
+    const nonEnglishPatterns = [
+      { pattern: /[àáâãäåæçèéêëìíîïñòóôõöùúûüýÿ]/i, lang: "Spanish/French/Italian" },
+      { pattern: /[äöüß]/i, lang: "German" },
+      { pattern: /[àáâãäåæçèéêëìíîïñòóôõöùúûüýÿ]/i, lang: "Romance" },
+      { pattern: /[一-龯]/i, lang: "Chinese" },
+      { pattern: /[ひらがなカタカナ]/i, lang: "Japanese" },
+      { pattern: /[가-힣]/i, lang: "Korean" },
+      { pattern: /[а-яё]/i, lang: "Russian" },
+      { pattern: /[α-ωάέήίόύώ]/i, lang: "Greek" },
+      { pattern: /[א-ת]/i, lang: "Hebrew" },
+      { pattern: /[ا-ي]/i, lang: "Arabic" },
+    ];
+
+    for (const { pattern, lang } of nonEnglishPatterns) {
+      if (pattern.test(text)) {
+        console.log(`🌍 [LANG] Detected language via pattern: ${lang}`);
+        return lang;
+      }
+    }
+
+    // If no pattern matches, use GPT-4o-mini for detection
+    console.log(`🌍 [LANG] Using GPT-4o-mini to detect language...`);
+
+    const { content } = await deps.llm.chat("intent", [
+      {
+        role: "system",
+        content: "You are a language detection assistant. Analyze the text and return ONLY the language name in English (e.g., 'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Chinese', 'Japanese', 'Korean', 'Russian', etc.). Return just the language name, nothing else."
+      },
+      {
+        role: "user",
+        content: `What language is this text in? Return only the language name.\n\nText:\n${text.substring(0, 500)}`
+      }
+    ], { temperature: 0.1, maxTokens: 10, timeoutMs: 5000 });
+
+    const detectedLang = content?.trim() || "English";
+    console.log(`🌍 [LANG] Detected language: ${detectedLang}`);
+    return detectedLang;
+
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      console.log("⚠️ [LANG] Language detection timeout, defaulting to English");
+    } else {
+      console.error("❌ [LANG] Language detection failed, defaulting to English:", error);
+    }
+    return "English";
+  }
+}
+
+// Summarize song message
+export interface SongSummary {
+  summary: string;
+  language: string;
+  englishTranslation?: string;
+}
+
+export async function summarizeSongMessage(
+  deps: ServiceDeps,
+  lyrics: string,
+  language: string
+): Promise<SongSummary> {
+  try {
+    console.log(`📝 [SUMMARY] Generating summary for ${language} lyrics...`);
+
+    const isEnglish = language.toLowerCase().includes("english");
+    const lyricsPreview = lyrics.substring(0, 2000); // Limit to avoid token limits
+
+    let systemPrompt: string;
+    let userPrompt: string;
+
+    if (isEnglish) {
+      systemPrompt = `You are a music analysis assistant. Analyze song lyrics and provide a concise summary (2-3 sentences) of the song's main message, themes, and meaning. Focus on what the song is trying to communicate to listeners. Be clear and insightful.`;
+      userPrompt = `Analyze these song lyrics and provide a concise summary (2-3 sentences) of the song's main message, themes, and meaning:\n\n${lyricsPreview}`;
+    } else {
+      // For foreign languages, generate summary in original language first
+      systemPrompt = `You are a music analysis assistant. Analyze song lyrics in ${language} and provide a concise summary (2-3 sentences) in ${language} of the song's main message, themes, and meaning. Focus on what the song is trying to communicate to listeners. Write the summary in ${language}, not English.`;
+      userPrompt = `Analyze these ${language} song lyrics and provide a concise summary (2-3 sentences) in ${language} of the song's main message, themes, and meaning:\n\n${lyricsPreview}`;
+    }
+
+    const { content } = await deps.llm.chat("summarize", [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ], { temperature: 0.3, maxTokens: 300 });
+    const summary = content?.trim() || "";
+
+    if (!summary) {
+      throw new Error("Empty summary received");
+    }
+
+    console.log(`✅ [SUMMARY] Generated summary in ${language} (${summary.length} chars)`);
+
+    const result: SongSummary = {
+      summary: summary,
+      language: language,
+    };
+
+    // If not English, translate the summary to English
+    if (!isEnglish) {
+      console.log(`🌐 [TRANSLATE] Translating summary to English...`);
+
+      try {
+        const { content: translation } = await deps.llm.chat("translate", [
+          {
+            role: "system",
+            content: `You are a translation assistant. Translate the following ${language} text to English. Preserve the meaning and tone. Return only the translation, nothing else.`
+          },
+          {
+            role: "user",
+            content: `Translate this ${language} text to English:\n\n${summary}`
+          }
+        ], { temperature: 0.2, maxTokens: 200 });
+
+        const englishTranslation = translation?.trim() || "";
+        if (englishTranslation) {
+          result.englishTranslation = englishTranslation;
+          console.log(`✅ [TRANSLATE] Translation complete (${englishTranslation.length} chars)`);
+        }
+      } catch (translateError) {
+        console.log(`⚠️ [TRANSLATE] Translation failed, summary available only in ${language}:`, translateError);
+      }
+    }
+
+    return result;
+
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      console.error("❌ [SUMMARY] Summary generation timeout");
+    } else {
+      console.error("❌ [SUMMARY] Summary generation error:", error);
+    }
+    throw error;
+  }
+}
+
+// Rolling summary of a recall thread: folds older turns into the previous summary
+// (conversationState.ts). Returns null when the model gives nothing back.
+export async function summarizeConversation(
+  deps: ServiceDeps,
+  previousSummary: string | null,
+  transcript: string
+): Promise<string | null> {
+  const { content } = await deps.llm.chat("summarize", [
+    {
+      role: "system",
+      content: `You keep the memory of a conversation between a user and Recall, an assistant that identifies songs and answers music questions. Update the summary with the new turns. Keep every detail the user gave about the song they are looking for (lyrics, genre, era, voice, instruments, where they heard it, what it is NOT), the songs suggested and whether the user rejected or confirmed them, and the questions already asked. Drop greetings and filler. Write at most 150 words of plain text, no lists.`
+    },
+    {
+      role: "user",
+      content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ""}New turns:\n${transcript}`
+    }
+  ], { temperature: 0.2, maxTokens: 300 });
+
+  const summary = content?.trim() || "";
+  return summary || null;
+}
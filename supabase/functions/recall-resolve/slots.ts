@@ -0,0 +1,230 @@
+// Slot extraction: what a user message says about the song they are looking for (genre, decade, voice,
+// lyrics, where they heard it, what it is not, ...), each slot with a confidence. The model fills
+// SLOT_EXTRACTION_OUTPUT (task "extract"); when it cannot be asked or its reply stays invalid, the
+// offline regex extractor runs instead at a flat, lower confidence. mergeSlots folds one message's
+// slots into the thread's facts (conversationState.ts).
+
+import type { ServiceDeps } from "./context.ts";
+import { SLOT_EXTRACTION_OUTPUT } from "./schemas.ts";
+import type { ExtractedInfo, Slot } from "./types.ts";
+
+// Slots the extractor is less sure of are dropped
+const MIN_SLOT_CONFIDENCE = 0.3;
+// A newer value replaces the current one unless it is this much less certain
+const REPLACE_MARGIN = 0.2;
+// Confidence of the offline extractor's matches
+const OFFLINE_CONFIDENCE = 0.5;
+
+const SLOT_EXTRACTION_PROMPT = `You extract details about a song a user is trying to identify from their message to Recall, a song-finding assistant. When Recall's previous question is given, read the message as the answer to it (e.g. "the 80s" after "What decade?" is a decade).
+
+Fill only what the message itself says; leave every other slot null. Do not guess from general knowledge. For each slot give a confidence: 0.9+ when stated outright ("it's a rock song"), 0.6-0.8 when implied ("sounded like Nirvana" → genre grunge), 0.3-0.5 when the user is unsure ("maybe 70s?").
+
+- A number is a decade or year only when it refers to time ("80s music", "came out around 1995"), never an age, a count or a tempo ("I was 80 years old", "80 bpm").
+- Match whole words: "metallic sound" is not metal.
+- vocalistGender from the singer's voice, not from who the user is or who they mention in a story.
+- lyrics: the words the user remembers, exactly as given, without quotes.
+- exclusions: anything the user rules out ("not rap", "it's not Taylor Swift", "not the remix"), one short phrase each.`;
+
+export async function extractSlots(deps: ServiceDeps, text: string, question: string | null): Promise<ExtractedInfo> {
+  if (!deps.llm.isConfigured()) {
+    return extractSlotsOffline(text);
+  }
+
+  try {
+    const { value, status } = await deps.llm.structured("extract", SLOT_EXTRACTION_OUTPUT, [
+      { role: "system", content: SLOT_EXTRACTION_PROMPT },
+      { role: "user", content: question ? `Recall asked: "${question}"\nUser: "${text}"` : `User: "${text}"` },
+    ], { temperature: 0, maxTokens: 500, label: "SLOTS" });
+    if (status !== "fallback") {
+      console.log(`🧩 [SLOTS] Extracted: ${Object.keys(value).filter((key) => value[key as keyof ExtractedInfo]).join(", ") || "nothing"}`);
+      return value;
+    }
+  } catch (error) {
+    console.warn(`⚠️ [SLOTS] Slot extraction failed, using the offline extractor:`, error instanceof Error ? error.message : error);
+  }
+  return extractSlotsOffline(text);
+}
+
+// Merges one message's slots into the thread's facts. Later messages win (users correct themselves)
+// unless the new value is much less certain; instruments and exclusions accumulate, and a new
+// exclusion clears a fact it rules out.
+export function mergeSlots(facts: ExtractedInfo, extracted: ExtractedInfo): void {
+  const current = facts as Record<string, Slot<unknown> | undefined>;
+
+  for (const [key, slot] of Object.entries(extracted) as Array<[string, Slot<unknown> | undefined]>) {
+    if (!slot || isEmpty(slot.value)) continue;
+    const confidence = Math.min(1, Math.max(0, Number(slot.confidence) || 0));
+    if (confidence < MIN_SLOT_CONFIDENCE) continue;
+
+    const existing = current[key];
+    if (Array.isArray(slot.value)) {
+      const known = Array.isArray(existing?.value) ? existing!.value as string[] : [];
+      const values = [...known];
+      for (const value of slot.value as string[]) {
+        if (!values.some((v) => v.toLowerCase() === value.toLowerCase())) values.push(value);
+      }
+      current[key] = { value: values, confidence: Math.max(confidence, existing?.confidence ?? 0) };
+    } else if (!existing || confidence >= existing.confidence - REPLACE_MARGIN) {
+      current[key] = { value: slot.value, confidence };
+    }
+  }
+
+  for (const exclusion of extracted.exclusions?.value ?? []) {
+    const ruledOut = exclusion.toLowerCase().replace(/^not\s+(?:by\s+)?/, "").trim();
+    for (const key of ["genre", "subGenre", "artist", "decade"] as const) {
+      const value = facts[key]?.value;
+      if (value && value.toLowerCase() === ruledOut) {
+        delete facts[key];
+      }
+    }
+  }
+}
+
+// "not rap", "it isn't by Drake": the ruled-out phrase runs to punctuation or the next clause
+const NEGATION = /\b(?:not|isn['’]?t|wasn['’]?t|ain['’]?t)\s+((?:by\s+)?[^,.;!?"]+?)(?=\s*(?:[,.;!?"]|$)|\s+(?:but|and|or|please|though|because|it['’]?s|it is|it was)\b)/gi;
+// "not sure", "not really": hedges, not exclusions
+const HEDGE = /^(?:sure|certain|really|very|much|quite|exactly|too|so|even|only|just|remember|know|recall|think)\b/i;
+
+const GENRES = ['pop', 'rock', 'hip-hop', 'hip hop', 'rap', 'country', 'jazz', 'blues', 'classical', 'electronic', 'r&b', 'r and b', 'reggae', 'metal', 'folk', 'indie', 'alternative', 'punk', 'soul', 'funk', 'disco', 'edm', 'house', 'techno', 'dubstep', 'trap', 'latin', 'k-pop', 'bluegrass'];
+
+// Offline fallback: keyword and pattern matching, one flat confidence
+export function extractSlotsOffline(text: string): ExtractedInfo {
+  const slots: ExtractedInfo = {};
+  const slot = <T>(value: T): Slot<T> => ({ value, confidence: OFFLINE_CONFIDENCE });
+  const lower = text.toLowerCase();
+
+  // Exclusions. Negated phrases are blanked out of `affirmed`, which genre, decade and artist are
+  // matched against, so "not rap please, it's by Drake" is by Drake and not rap. Quoted lyrics
+  // are left alone.
+  const exclusions: string[] = [];
+  const unquoted = text.replace(/"[^"]*"/g, (quote) => " ".repeat(quote.length));
+  const affirmed = unquoted.replace(NEGATION, (negation, phrase: string) => {
+    if (HEDGE.test(phrase)) return negation;
+    const genre = GENRES.find((g) => containsWord(phrase.toLowerCase(), g));
+    exclusions.push(`not ${genre ? normalizeGenre(genre) : phrase.trim()}`);
+    return " ".repeat(negation.length);
+  });
+  if (exclusions.length > 0) {
+    slots.exclusions = slot(exclusions);
+  }
+
+  // Genre (whole words, so "metallic" is not metal)
+  const affirmedLower = affirmed.toLowerCase();
+  const genre = GENRES.find((g) => containsWord(affirmedLower, g));
+  if (genre) {
+    slots.genre = slot(normalizeGenre(genre));
+  }
+
+  // Decade: plural or written-out decades only, so ages and counts ("I was 80") are not eras
+  const decadePatterns = [
+    { pattern: /\b(19)?60s\b|\bsixties\b/i, decade: '1960s' },
+    { pattern: /\b(19)?70s\b|\bseventies\b/i, decade: '1970s' },
+    { pattern: /\b(19)?80s\b|\beighties\b/i, decade: '1980s' },
+    { pattern: /\b(19)?90s\b|\bnineties\b/i, decade: '1990s' },
+    { pattern: /\b2000s\b/i, decade: '2000s' },
+    { pattern: /\b2010s\b/i, decade: '2010s' },
+    { pattern: /\b2020s\b/i, decade: '2020s' },
+  ];
+  const decade = decadePatterns.find(({ pattern }) => pattern.test(affirmed));
+  if (decade) {
+    slots.decade = slot(decade.decade);
+  }
+
+  // Tempo
+  if (lower.match(/\b(fast|upbeat|quick|energetic|bouncy|dance|dancing|party)\b/)) {
+    slots.tempo = slot('fast');
+  } else if (lower.match(/\b(slow|ballad|calm|mellow|relaxing|chill|soft|gentle)\b/)) {
+    slots.tempo = slot('slow');
+  } else if (lower.match(/\b(medium|moderate|mid-tempo)\b/)) {
+    slots.tempo = slot('medium');
+  }
+
+  // Mood
+  if (lower.match(/\b(happy|joyful|cheerful|upbeat|positive)\b/)) {
+    slots.mood = slot('happy');
+  } else if (lower.match(/\b(sad|melancholic|emotional|depressing|somber)\b/)) {
+    slots.mood = slot('sad');
+  } else if (lower.match(/\b(romantic|love|intimate)\b/)) {
+    slots.mood = slot('romantic');
+  }
+
+  // Artist mentions ("band" is left out: "the band was loud" names no one)
+  const artistPatterns = [
+    /(?:artist|singer|by|performed by|sung by)\s+(?:is|was|named|called|the)?\s*([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*)/i,
+    /(?:it'?s|it is|it was)\s+(?:by|from)\s+([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*)/i,
+    /^([A-Z][a-zA-Z]+(?:\s+[A-Z][a-zA-Z]+)*)\s+(?:sings|sang|performed|did)/i
+  ];
+  for (const pattern of artistPatterns) {
+    const artistMatch = affirmed.match(pattern);
+    if (artistMatch && artistMatch[1] && artistMatch[1].length > 2) {
+      slots.artist = slot(artistMatch[1].trim());
+      break;
+    }
+  }
+
+  // Vocalist and line-up
+  if (lower.match(/\b(male|man|guy)\b/)) {
+    slots.vocalistGender = slot('male');
+  } else if (lower.match(/\b(female|woman|girl)\b/)) {
+    slots.vocalistGender = slot('female');
+  }
+  if (lower.match(/\b(solo|one person)\b/)) {
+    slots.artistType = slot('solo');
+  } else if (lower.match(/\b(band|group|duo|trio)\b/)) {
+    slots.artistType = slot('band');
+  }
+
+  // Lyrics
+  const lyricPatterns = [
+    /"([^"]{5,50})"/,  // Quoted text
+    /(?:lyrics?|says?|sings?|goes?|words?)\s+(?:are|is|was|were)?\s*["']([^"']{5,50})["']/i,  // After "lyrics are"
+    /(?:it|the song|chorus|verse)\s+(?:says?|sings?|goes?)\s*["']([^"']{5,50})["']/i,  // "it says"
+    /(?:remember|recall|think)\s+(?:the|it|that)\s+(?:lyrics?|words?|says?)\s*["']([^"']{5,50})["']/i  // "remember it says"
+  ];
+  for (const pattern of lyricPatterns) {
+    const lyricMatch = text.match(pattern);
+    if (lyricMatch && lyricMatch[1] && lyricMatch[1].length >= 5) {
+      slots.lyrics = slot(lyricMatch[1].trim());
+      break;
+    }
+  }
+
+  // Instruments
+  const instruments = ['guitar', 'piano', 'drums', 'bass', 'violin', 'viola', 'cello', 'trumpet', 'saxophone', 'sax', 'flute', 'organ', 'synthesizer', 'synth', 'strings', 'brass', 'percussion']
+    .filter((instrument) => containsWord(lower, instrument));
+  if (instruments.length > 0) {
+    slots.instruments = slot(instruments);
+  }
+
+  // Where it was heard
+  if (lower.match(/\b(radio|fm|station)\b/)) {
+    slots.whereHeard = slot('radio');
+  } else if (lower.match(/\b(movie|film|cinema|screen)\b/)) {
+    slots.whereHeard = slot('movie');
+  } else if (lower.match(/\b(commercial|advertisement)\b/)) {
+    slots.whereHeard = slot('commercial');
+  } else if (lower.match(/\b(party|club|bar|restaurant)\b/)) {
+    slots.whereHeard = slot('party');
+  } else if (lower.match(/\b(tiktok|instagram|youtube|social media)\b/)) {
+    slots.whereHeard = slot('social media');
+  }
+
+  return slots;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "") || (Array.isArray(value) && value.length === 0);
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, "u").test(text);
+}
+
+// "hip hop" and "hip-hop" are one genre
+function normalizeGenre(genre: string): string {
+  return genre.replace(/\s+/g, '-');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,49 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { extractSlotsOffline, mergeSlots } from "./slots.ts";
+import type { ExtractedInfo } from "./types.ts";
+
+function values(slots: ExtractedInfo): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(slots).map(([key, slot]) => [key, slot?.value]));
+}
+
+Deno.test("extractSlotsOffline does not read ages or partial words as decades and genres", () => {
+  assertEquals(extractSlotsOffline("I was 80 years old when I first heard it").decade, undefined);
+  assertEquals(extractSlotsOffline("it had a metallic sound").genre, undefined);
+  assertEquals(extractSlotsOffline("an eighties song with a metal riff").decade?.value, "1980s");
+  assertEquals(extractSlotsOffline("an eighties song with a metal riff").genre?.value, "metal");
+});
+
+Deno.test("extractSlotsOffline turns negations into exclusions instead of slots", () => {
+  assertEquals(values(extractSlotsOffline("not rap please, it's by Drake")), { exclusions: ["not rap"], artist: "Drake" });
+  assertEquals(values(extractSlotsOffline("it isn't hip hop, more like 80s rock")), {
+    exclusions: ["not hip-hop"],
+    genre: "rock",
+    decade: "1980s",
+  });
+  assertEquals(values(extractSlotsOffline("it's not by Taylor Swift")), { exclusions: ["not by Taylor Swift"] });
+  assertEquals(values(extractSlotsOffline("it wasn't the 90s but the 2000s")), { exclusions: ["not the 90s"], decade: "2000s" });
+});
+
+Deno.test("extractSlotsOffline leaves hedges and quoted lyrics alone", () => {
+  assertEquals(values(extractSlotsOffline("I'm not sure, maybe jazz")), { genre: "jazz" });
+  const quoted = extractSlotsOffline('the chorus goes "I am not in love"');
+  assertEquals(quoted.exclusions, undefined);
+  assertEquals(quoted.lyrics?.value, "I am not in love");
+});
+
+Deno.test("extractSlotsOffline does not take the word after band for an artist", () => {
+  assertEquals(values(extractSlotsOffline("the band was Loud and fast")), { tempo: "fast", artistType: "band" });
+  assertEquals(extractSlotsOffline("the singer was Adele").artist?.value, "Adele");
+});
+
+Deno.test("mergeSlots drops a fact a later offline exclusion rules out", () => {
+  const facts: ExtractedInfo = { genre: { value: "rap", confidence: 0.9 }, artist: { value: "Drake", confidence: 0.9 } };
+
+  mergeSlots(facts, extractSlotsOffline("not rap please"));
+  assertEquals(facts.genre, undefined);
+  assertEquals(facts.artist?.value, "Drake");
+
+  mergeSlots(facts, extractSlotsOffline("actually it's not by Drake"));
+  assertEquals(facts.artist, undefined);
+  assertEquals(facts.exclusions?.value, ["not rap", "not by Drake"]);
+});
@@ -0,0 +1,108 @@
+import type { Candidate } from "./types.ts";
+
+// Detect if user is asking about song meaning/message
+export interface SongMeaningQuery {
+  isSongMeaningQuery: boolean;
+  songTitle?: string;
+  artistName?: string;
+}
+
+export function detectSongMeaningQuery(
+  queryText: string,
+  candidates?: Candidate[],
+  previousMessages?: any[]
+): SongMeaningQuery {
+  const queryLower = queryText.toLowerCase();
+
+  // Keywords that indicate user wants to know about song meaning
+  const meaningKeywords = [
+    "what is this song about",
+    "what does this song mean",
+    "what is the message",
+    "what is it talking about",
+    "song meaning",
+    "lyrics meaning",
+    "what is the song about",
+    "what does the song mean",
+    "what's this song about",
+    "what's the song about",
+    "what does it mean",
+    "what is about",
+    "explain the song",
+    "explain this song",
+    "tell me about this song",
+    "what is the meaning",
+    "what message",
+    "what's the message",
+  ];
+
+  const hasMeaningKeyword = meaningKeywords.some(keyword => queryLower.includes(keyword));
+
+  if (!hasMeaningKeyword) {
+    return { isSongMeaningQuery: false };
+  }
+
+  // Try to extract song title and artist from query or context
+  let songTitle: string | undefined;
+  let artistName: string | undefined;
+
+  // Check if there are candidates from a previous search
+  if (candidates && candidates.length > 0) {
+    songTitle = candidates[0].title;
+    artistName = candidates[0].artist;
+    console.log(`🎵 [MEANING] Detected song meaning query, using candidate: "${songTitle}" by ${artistName}`);
+    return {
+      isSongMeaningQuery: true,
+      songTitle,
+      artistName,
+    };
+  }
+
+  // Try to extract from query text (look for "song X" or "X by Y" patterns)
+  const songPatterns = [
+    /(?:song|track)\s+["']?([^"']+)["']?/i,
+    /["']([^"']+)["']\s+(?:by|from)\s+([^,\.]+)/i,
+    /(?:about|meaning of|explain)\s+["']?([^"']+)["']?/i,
+  ];
+
+  for (const pattern of songPatterns) {
+    const match = queryText.match(pattern);
+    if (match) {
+      songTitle = match[1]?.trim();
+      if (match[2]) {
+        artistName = match[2]?.trim();
+      }
+      if (songTitle) {
+        console.log(`🎵 [MEANING] Extracted song from query: "${songTitle}"${artistName ? ` by ${artistName}` : ""}`);
+        return {
+          isSongMeaningQuery: true,
+          songTitle,
+          artistName,
+        };
+      }
+    }
+  }
+
+  // Check previous messages for song mentions
+  if (previousMessages) {
+    for (const msg of previousMessages.reverse()) {
+      if (msg.message_type === "candidate" && msg.song_title) {
+        songTitle = msg.song_title;
+        artistName = msg.song_artist;
+        console.log(`🎵 [MEANING] Found song in previous messages: "${songTitle}" by ${artistName}`);
+        return {
+          isSongMeaningQuery: true,
+          songTitle,
+          artistName,
+        };
+      }
+    }
+  }
+
+  // If we detected meaning query but couldn't extract song, still return true
+  // The integration logic will try to use context
+  console.log(`🎵 [MEANING] Detected song meaning query but couldn't extract song details`);
+  return {
+    isSongMeaningQuery: true,
+  };
+}
@@ -0,0 +1,256 @@
+// Stage: context building
+// Brings the thread's conversation state up to date (what the user has already told us, rejected
+// songs, questions asked, a summary of older turns; see conversationState.ts), turns it into prompt
+// context and classifies the query as a search, a question or both.
+
+import { errorEnvelope } from "../../_shared/errors.ts";
+import { failWithStatus, type ResolveContext } from "../context.ts";
+import { syncConversationState } from "../conversationState.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import { extractSlots } from "../slots.ts";
+import type { ConversationContext, ExtractedInfo, QueryIntent, Slot } from "../types.ts";
+
+export const contextBuildingStage: ResolveStage = {
+  name: "context_building",
+  async run(ctx: ResolveContext) {
+    if ((!ctx.queryText || ctx.queryText.trim().length === 0) && !ctx.audioTranscription) {
+      await failWithStatus(ctx, "No text available for search", errorEnvelope("bad_request", "No text available for search"), 400);
+      return;
+    }
+
+    // Use audio transcription if no query text
+    if (!ctx.queryText && ctx.audioTranscription) {
+      ctx.queryText = ctx.audioTranscription;
+    }
+
+    ctx.conversation = await loadConversationContext(ctx);
+    ctx.queryIntent = classifyQueryIntent(ctx.queryText, ctx.conversation);
+    ctx.emit("intent", { stage: "query", query_intent: ctx.queryIntent, conversation_flow: ctx.conversation.conversationFlow });
+  },
+};
+
+export async function loadConversationContext(ctx: ResolveContext): Promise<ConversationContext> {
+  const { requestId } = ctx;
+
+  // Get conversation context for better accuracy
+  const contextStartTime = Date.now();
+  console.log(`🔍 [RECALL-RESOLVE] [${requestId}] Building conversation context...`);
+  const { state, messages: previousMessages } = await syncConversationState(ctx, (text, question) => extractSlots(ctx, text, question));
+  const contextLoadDuration = Date.now() - contextStartTime;
+  console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Context loaded in ${contextLoadDuration}ms: ${previousMessages.length} recent messages`);
+
+  let contextText = "";
+  const {
+    rejectedCandidates,
+    recentQueries: previousQueries,
+    questionsAsked: previousQuestions,
+    clarifications: userClarifications,
+    userAnswers,
+    facts: extractedInfo,
+    identifiedSongs: successfulIdentifications,
+    flow: conversationFlow,
+  } = state;
+
+  if (state.messageCount > 0) {
+    const contextBuildStartTime = Date.now();
+
+    // Build context text
+    const contextParts: string[] = [];
+
+    if (state.summary) {
+      contextParts.push(`Earlier in this conversation: ${state.summary}`);
+    }
+
+    if (previousQueries.length > 0) {
+      contextParts.push(`Previous user queries: ${previousQueries.slice(-3).map(q => `"${q}"`).join(", ")}`);
+    }
+
+    if (rejectedCandidates.length > 0) {
+      contextParts.push(`Rejected candidates (don't suggest these again): ${rejectedCandidates.map(c => `"${c.title}" by ${c.artist}`).join(", ")}`);
+    }
+
+    if (previousQuestions.length > 0) {
+      contextParts.push(`Previously asked questions (avoid repeating): ${previousQuestions.slice(-5).map(q => `"${q}"`).join(", ")}`);
+    }
+
+    if (userAnswers.length > 0) {
+      contextParts.push(`User answers to previous questions: ${userAnswers.slice(-3).map(qa => `Q: "${qa.question}" A: "${qa.answer}"`).join("; ")}`);
+    }
+
+    if (Object.keys(extractedInfo).length > 0) {
+      const infoParts = describeSlots(extractedInfo);
+      if (infoParts.length > 0) {
+        contextParts.push(`Extracted information (confidence in brackets): ${infoParts.join(", ")}`);
+      }
+    }
+
+    if (userClarifications.length > 0) {
+      contextParts.push(`User clarifications: ${userClarifications.slice(-2).map(c => `"${c}"`).join(", ")}`);
+    }
+
+    if (successfulIdentifications.length > 0) {
+      contextParts.push(`Successfully identified songs (user preferences): ${successfulIdentifications.slice(-2).map(s => `"${s.title}" by ${s.artist}`).join(", ")}`);
+    }
+
+    contextParts.push(`Conversation flow: ${conversationFlow}`);
+
+    if (contextParts.length > 0) {
+      // Build intelligent follow-up question guidance based on extracted information
+      const missingInfo: string[] = [];
+      const knownInfo: string[] = [];
+
+      const { genre, decade, yearRange, tempo, artist, lyrics } = extractedInfo;
+
+      if (!genre) missingInfo.push("genre");
+      else knownInfo.push(`genre: ${genre.value}`);
+
+      if (!decade && !yearRange) missingInfo.push("era/decade");
+      else knownInfo.push(`era: ${decade ? decade.value : `${yearRange!.value.from}-${yearRange!.value.to}`}`);
+
+      if (!tempo) missingInfo.push("tempo/mood");
+      else knownInfo.push(`tempo: ${tempo.value}`);
+
+      if (!artist) missingInfo.push("artist hints");
+      else knownInfo.push(`artist hint: ${artist.value}`);
+
+      if (!lyrics) missingInfo.push("lyrics");
+      else knownInfo.push(`lyrics hint: "${lyrics.value}"`);
+
+      // Determine the most valuable missing piece to ask about (intelligent prioritization)
+      let priorityQuestion = "";
+      const hasGenre = genre;
+      const hasEra = decade || yearRange;
+      const hasLyrics = lyrics;
+      const hasTempo = tempo;
+      const hasArtist = artist || extractedInfo.vocalistGender;
+
+      // Intelligent priority: Lyrics > Genre > Era > Tempo > Artist > Instruments
+      if (!hasLyrics && hasGenre && hasEra) {
+        priorityQuestion = "Ask about lyrics or melody (most specific identifier - genre and era already known)";
+      } else if (!hasGenre && !hasLyrics) {
+        priorityQuestion = "Ask about genre first (most important filter), then lyrics";
+      } else if (!hasLyrics) {
+        priorityQuestion = "Ask about lyrics or melody (most specific identifier)";
+      } else if (!hasGenre) {
+        priorityQuestion = "Ask about genre (critical filter to narrow search)";
+      } else if (!hasEra && hasGenre) {
+        priorityQuestion = "Ask about era/decade (helps narrow time period - genre already known)";
+      } else if (!hasTempo && hasGenre && hasEra) {
+        priorityQuestion = "Ask about tempo or mood (helps distinguish similar songs - genre and era known)";
+      } else if (!hasArtist && hasGenre) {
+        priorityQuestion = "Ask about artist characteristics (voice gender, solo/band, style - genre known)";
+      } else if (hasGenre && hasEra && hasTempo && !hasLyrics) {
+        priorityQuestion = "Ask about lyrics or distinctive features (very specific - most other info known)";
+      } else {
+        priorityQuestion = "Ask for more specific details (exact lyrics, distinctive features, instruments, or unique characteristics)";
+      }
+
+      contextText = `\n\nConversation context:\n${contextParts.join("\n")}\n\nINTELLIGENT FOLLOW-UP QUESTION GENERATION RULES:
+${knownInfo.length > 0 ? `✅ KNOWN INFORMATION: ${knownInfo.join(", ")}` : "❌ NO INFORMATION EXTRACTED YET"}
+${missingInfo.length > 0 ? `❌ MISSING INFORMATION: ${missingInfo.join(", ")}` : "✅ ALL KEY INFORMATION COLLECTED"}
+
+🎯 PRIORITY STRATEGY: ${priorityQuestion}
+
+CRITICAL INSTRUCTIONS FOR FOLLOW-UP QUESTIONS:
+1. **DYNAMIC ADAPTATION**: Analyze what's known vs. missing and ask for the HIGHEST-VALUE missing piece
+2. **NO REPETITION**: Never repeat questions from "Previously asked questions" - check carefully
+3. **PROGRESSIVE BUILDING**:
+ - If genre known → ask lyrics or melody (most specific)
+ - If genre + era known → ask lyrics, tempo, or artist hints
+ - If genre + era + tempo known → ask lyrics or distinctive features
+ - If multiple details known → ask for the most distinguishing detail
+4. **CONTEXTUAL REFERENCING**: Naturally reference known info (e.g., "You mentioned it was ${extractedInfo.genre?.value || 'pop'} - do you remember any lyrics?")
+5. **CONFIDENCE-BASED DEPTH**:
+ - Low confidence (<0.3): Ask broad questions (genre, era, mood)
+ - Medium confidence (0.3-0.5): Ask medium-specific (lyrics snippets, tempo, artist hints)
+ - Higher confidence (0.5-0.7): Ask very specific (exact lyrics, melody, instruments)
+6. **INTELLIGENT PRIORITIZATION**: Ask for information in this order of impact:
+ - Lyrics (most specific identifier) > Genre (best filter) > Era (time filter) > Tempo (distinguisher) > Artist hints > Instruments
+7. **NATURAL LANGUAGE**: Make questions sound conversational and friendly, not robotic
+8. **SINGLE FOCUS**: One clear question, not multiple questions
+9. **VOICE-FRIENDLY**: Easy to answer via voice (avoid complex multi-part questions)
+10. **GAP-FILLING**: Focus on the most critical missing piece that will narrow search most effectively
+
+${rejectedCandidates.length > 0 ? `⚠️ DO NOT suggest these rejected candidates: ${rejectedCandidates.map(c => `"${c.title}" by ${c.artist}`).join(", ")}` : ""}
+${previousQuestions.length > 0 ? `⚠️ DO NOT repeat these questions: ${previousQuestions.slice(-5).map(q => `"${q}"`).join(", ")}` : ""}
+
+Generate a follow-up question that is:
+- Dynamic and adaptive to current context
+- Intelligent about what information is most valuable
+- Context-aware and references previous answers naturally
+- Non-repetitive and progressive
+- Optimized for the current confidence level and information gaps`;
+      const contextBuildDuration = Date.now() - contextBuildStartTime;
+      console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Context built in ${contextBuildDuration}ms: ${contextText.length} chars`);
+      console.log(`📊 [RECALL-RESOLVE] [${requestId}] Context summary: ${contextParts.length} parts, extractedInfo keys: ${Object.keys(extractedInfo).length}`);
+    }
+  }
+
+  return {
+    state,
+    previousMessages,
+    contextText,
+    rejectedCandidates,
+    previousQueries,
+    previousQuestions,
+    userClarifications,
+    userAnswers,
+    extractedInfo,
+    successfulIdentifications,
+    conversationFlow,
+  };
+}
+
+export function classifyQueryIntent(queryText: string, conversation: ConversationContext): QueryIntent {
+  const queryLower = queryText.toLowerCase();
+  const searchKeywords = ['find', 'search', 'identify', 'what song', 'name that song', 'who sings', 'what is this song', 'recognize'];
+  const questionKeywords = ['who wrote', 'when was', 'what album', 'tell me about', 'explain', 'how', 'why', 'what is', 'who is', 'where'];
+
+  const hasSearchIntent = searchKeywords.some(kw => queryLower.includes(kw));
+  const hasQuestionIntent = questionKeywords.some(kw => queryLower.includes(kw));
+
+  // Context-based intent: if previous messages were searches, likely continuation
+  const isSearchContinuation = conversation.conversationFlow !== 'initial' || conversation.previousQueries.length > 0;
+
+  let queryIntent: QueryIntent = 'search';
+  if (hasQuestionIntent && !hasSearchIntent) {
+    queryIntent = 'question';
+  } else if (hasSearchIntent && hasQuestionIntent) {
+    queryIntent = 'both';
+  } else if (hasQuestionIntent && isSearchContinuation) {
+    // If asking about something mentioned in search, it's a question
+    queryIntent = 'question';
+  } else if (!hasSearchIntent && !hasQuestionIntent && isSearchContinuation) {
+    // Ambiguous but in search context, assume search
+    queryIntent = 'search';
+  } else if (!hasSearchIntent && !hasQuestionIntent) {
+    // Completely ambiguous, try to infer from context
+    queryIntent = conversation.previousQueries.length > 0 ? 'search' : 'question';
+  }
+
+  return queryIntent;
+}
+
+// "genre: rock (0.9)" for each slot the thread has filled
+function describeSlots(facts: ExtractedInfo): string[] {
+  const parts: string[] = [];
+  const add = <T>(label: string, slot: Slot<T> | undefined, format: (value: T) => string = String) => {
+    if (slot) parts.push(`${label}: ${format(slot.value)} (${slot.confidence.toFixed(1)})`);
+  };
+
+  add("genre", facts.genre);
+  add("sub-genre", facts.subGenre);
+  add("decade", facts.decade);
+  add("years", facts.yearRange, (range) => `${range.from}-${range.to}`);
+  add("language", facts.language);
+  add("vocalist", facts.vocalistGender);
+  add("artist type", facts.artistType);
+  add("artist hint", facts.artist);
+  add("tempo", facts.tempo);
+  add("mood", facts.mood);
+  add("instruments", facts.instruments, (instruments) => instruments.join(", "));
+  add("lyrics hint", facts.lyrics, (lyrics) => `"${lyrics}"`);
+  add("heard on", facts.whereHeard);
+  add("NOT", facts.exclusions, (exclusions) => exclusions.join(", "));
+  return parts;
+}
@@ -0,0 +1,57 @@
+// Stage: input normalization
+// Loads the user message, posts the "Searching..." status message and seeds the query text.
+
+import { errorEnvelope } from "../../_shared/errors.ts";
+import { finish, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+
+export const inputNormalizationStage: ResolveStage = {
+  name: "input_normalization",
+  async run(ctx: ResolveContext) {
+    const { requestId, supabase } = ctx;
+    const { thread_id, message_id, text, media_path, video_path } = ctx.request;
+
+    // Load user message
+    const messageLoadStartTime = Date.now();
+    const { data: userMessage, error: messageError } = await supabase
+      .from("recall_messages")
+      .select("*")
+      .eq("id", message_id)
+      .eq("thread_id", thread_id)
+      .single();
+
+    if (messageError || !userMessage) {
+      console.log(`❌ [RECALL-RESOLVE] [${requestId}] Message not found: ${messageError?.message || "No data"}`);
+      finish(ctx, errorEnvelope("not_found", "Message not found", { details: messageError?.message }), 404);
+      return;
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Message loaded in ${Date.now() - messageLoadStartTime}ms`);
+    console.log(`📊 [RECALL-RESOLVE] [${requestId}] User message: type=${userMessage.message_type}, text="${userMessage.text?.substring(0, 100) || "nil"}..."`);
+    ctx.userMessage = userMessage;
+
+    // Insert "Searching..." status message
+    const statusInsertStartTime = Date.now();
+    const { data: statusMessage, error: statusError } = await supabase
+      .from("recall_messages")
+      .insert({
+        thread_id,
+        user_id: userMessage.user_id,
+        role: "assistant",
+        message_type: "status",
+        text: "Searching...",
+      })
+      .select()
+      .single();
+
+    if (statusError || !statusMessage) {
+      console.log(`❌ [RECALL-RESOLVE] [${requestId}] Failed to create status message: ${statusError?.message || "No data"}`);
+      finish(ctx, errorEnvelope("internal_error", "Failed to create status message", { details: statusError?.message }), 500);
+      return;
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Status message created in ${Date.now() - statusInsertStartTime}ms: ${statusMessage.id}`);
+
+    ctx.statusMessageId = statusMessage.id;
+    ctx.queryText = text || userMessage.text || "";
+    ctx.mediaPath = video_path || media_path;
+  },
+};
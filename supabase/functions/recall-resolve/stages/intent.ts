@@ -0,0 +1,85 @@
+// Stage: intent
+// For voice input, decides whether the user is talking to Recall or playing/humming music,
+// which controls whether the recognition stage runs and what the query text becomes.
+
+import { updateStatusMessage, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import { analyzeVoiceIntent } from "../services/openai.ts";
+
+export const intentStage: ResolveStage = {
+  name: "intent",
+  async run(ctx: ResolveContext) {
+    // Only voice notes that were downloaded successfully need an intent decision
+    if (ctx.request.input_type !== "voice" || !ctx.audioBuffer) {
+      return;
+    }
+
+    const { requestId } = ctx;
+    const audioTranscription = ctx.audioTranscription;
+
+    try {
+      if (audioTranscription && audioTranscription.trim().length > 0) {
+        const intentStartTime = Date.now();
+        console.log(`🧠 [RECALL-RESOLVE] [${requestId}] Analyzing intent...`);
+
+        const intent = await analyzeVoiceIntent(ctx, audioTranscription);
+        ctx.detectedIntent = intent; // Store for later use in audio recognition
+        const intentDuration = Date.now() - intentStartTime;
+        console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Intent analysis completed in ${intentDuration}ms`);
+        console.log(`🎯 [RECALL-RESOLVE] [${requestId}] Detected intent: ${intent.type} (confidence: ${intent.confidence})`);
+        console.log(`   Reasoning: ${intent.reasoning}`);
+        ctx.emit("intent", { stage: "voice", ...intent });
+
+        if (intent.type === "humming" || intent.type === "background_audio") {
+          ctx.shouldUseAudioRecognition = true;
+          console.log(`🎵 [RECALL-RESOLVE] [${requestId}] Intent: ${intent.type} → Using audio recognition`);
+          await updateStatusMessage(ctx, "Identifying song...");
+        } else if (intent.type === "conversation" || intent.type === "information" || intent.type === "generate_song") {
+          ctx.shouldUseAudioRecognition = false;
+          ctx.queryText = audioTranscription;
+          console.log(`💬 [RECALL-RESOLVE] [${requestId}] Intent: ${intent.type} → Using conversational/informational response`);
+          console.log(`📝 [RECALL-RESOLVE] [${requestId}] Query text set to transcription: "${ctx.queryText}"`);
+          await updateStatusMessage(ctx, "Thinking...");
+        } else if (intent.type === "find_song") {
+          // For find_song, try audio recognition first, but also use transcription for search
+          ctx.shouldUseAudioRecognition = true;
+          ctx.queryText = audioTranscription; // Also use transcription for search
+          console.log(`🔍 [RECALL-RESOLVE] [${requestId}] Intent: find_song → Using audio recognition + search`);
+          console.log(`📝 [RECALL-RESOLVE] [${requestId}] Query text set to transcription: "${ctx.queryText}"`);
+          await updateStatusMessage(ctx, "Searching for song...");
+        } else {
+          // Unclear - use heuristics
+          const wordCount = audioTranscription.split(/\s+/).length;
+          const hasRepetitiveSounds = /\b(hmm|la|da|mm|ah|na|oh)\b/gi.test(audioTranscription);
+          const repetitiveCount = (audioTranscription.match(/\b(hmm|la|da|mm|ah|na|oh)\b/gi) || []).length;
+
+          if (wordCount < 5 || (hasRepetitiveSounds && repetitiveCount > 3)) {
+            ctx.shouldUseAudioRecognition = true;
+            console.log(`🤔 [RECALL-RESOLVE] [${requestId}] Unclear intent, but heuristics suggest audio recognition (words:${wordCount}, repetitive:${repetitiveCount})`);
+            await updateStatusMessage(ctx, "Identifying song...");
+          } else {
+            ctx.queryText = audioTranscription;
+            console.log(`🤔 [RECALL-RESOLVE] [${requestId}] Unclear intent, treating as conversation (words:${wordCount})`);
+            console.log(`📝 [RECALL-RESOLVE] [${requestId}] Query text set to transcription: "${ctx.queryText}"`);
+            await updateStatusMessage(ctx, "Thinking...");
+          }
+        }
+      } else {
+        // No transcription - likely background music or humming
+        ctx.shouldUseAudioRecognition = true;
+        console.log(`⚠️ [RECALL-RESOLVE] [${requestId}] No transcription, defaulting to audio recognition`);
+        await updateStatusMessage(ctx, "Identifying song...");
+      }
+    } catch (error) {
+      console.error("❌ Voice intent error:", error);
+      ctx.queryText = audioTranscription
+        || "I had trouble processing the audio. Could you try again or describe what you're looking for?";
+    }
+
+    console.log(`📊 [RECALL-RESOLVE] [${requestId}] Voice processing summary:`);
+    console.log(`   transcription: "${audioTranscription || "none"}"`);
+    console.log(`   intent: ${ctx.detectedIntent?.type || "none"} (${ctx.detectedIntent?.confidence || 0})`);
+    console.log(`   shouldUseAudioRecognition: ${ctx.shouldUseAudioRecognition}`);
+    console.log(`   queryText: "${ctx.queryText || "none"}"`);
+  },
+};
@@ -0,0 +1,53 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { VoiceIntent } from "../types.ts";
+import { fakeLlm, fakeResolveContext, fakeResolveDeps } from "../testing.ts";
+import { intentStage } from "./intent.ts";
+
+function voiceContext(transcription: string, intent: VoiceIntent) {
+  const { llm, calls } = fakeLlm(() => ({ value: intent, status: "valid" }));
+  const deps = fakeResolveDeps({ llm });
+  const ctx = fakeResolveContext(deps, { input_type: "voice" });
+  ctx.audioBuffer = new ArrayBuffer(1000);
+  ctx.audioTranscription = transcription;
+  return { ctx, deps, calls };
+}
+
+Deno.test("intentStage sends humming to audio recognition", async () => {
+  const { ctx, deps } = voiceContext("hmm hmm la la", { type: "humming", confidence: 0.9, reasoning: "melody" });
+
+  await intentStage.run(ctx);
+
+  assertEquals(ctx.shouldUseAudioRecognition, true);
+  assertEquals(ctx.queryText, "");
+  assertEquals(deps.events.map((e) => e.event), ["intent"]);
+  assertEquals(deps.queries[0].values, { text: "Identifying song..." });
+});
+
+Deno.test("intentStage answers a conversational voice note from its transcription", async () => {
+  const { ctx } = voiceContext("who wrote bohemian rhapsody", { type: "information", confidence: 0.95, reasoning: "question" });
+
+  await intentStage.run(ctx);
+
+  assertEquals(ctx.shouldUseAudioRecognition, false);
+  assertEquals(ctx.queryText, "who wrote bohemian rhapsody");
+  assertEquals(ctx.detectedIntent?.type, "information");
+});
+
+Deno.test("intentStage defaults to audio recognition without a transcription", async () => {
+  const { ctx, calls } = voiceContext("", { type: "conversation", confidence: 1, reasoning: "" });
+
+  await intentStage.run(ctx);
+
+  assertEquals(ctx.shouldUseAudioRecognition, true);
+  assertEquals(calls, []);
+});
+
+Deno.test("intentStage leaves text input alone", async () => {
+  const { llm, calls } = fakeLlm();
+  const ctx = fakeResolveContext(fakeResolveDeps({ llm }), { input_type: "text", text: "find this song" });
+
+  await intentStage.run(ctx);
+
+  assertEquals(calls, []);
+  assertEquals(ctx.detectedIntent, null);
+});
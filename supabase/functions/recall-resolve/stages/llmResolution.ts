@@ -0,0 +1,94 @@
+// Stage: LLM resolution
+// Sends the query, conversation context and any recognition hints to the resolve model and validates its reply
+// against RECALL_RESPONSE_OUTPUT (one repair request, then a fallback answer asking to rephrase).
+// In streaming mode the completion is streamed and answer text is forwarded as `answer_delta` events.
+
+import { errorEnvelope } from "../../_shared/errors.ts";
+import { LlmError } from "../../_shared/llm.ts";
+import type { StructuredResult } from "../../_shared/structured.ts";
+import { failWithStatus, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import { buildUserPrompt, RECALL_SYSTEM_PROMPT } from "../prompts.ts";
+import { RECALL_RESPONSE_OUTPUT } from "../schemas.ts";
+import { extractPartialAnswerText } from "../stream.ts";
+import type { OpenAIResponse } from "../types.ts";
+
+export const llmResolutionStage: ResolveStage = {
+  name: "llm_resolution",
+  skipOnCacheHit: true,
+  async run(ctx: ResolveContext) {
+    const { requestId, queryIntent } = ctx;
+
+    if (!ctx.llm.isConfigured()) {
+      await failWithStatus(ctx, "LLM API key not configured", errorEnvelope("misconfigured", "LLM API key not configured"), 500);
+      return;
+    }
+
+    const userPrompt = buildUserPrompt(queryIntent, ctx.queryText, ctx.audioTranscription, ctx.conversation.contextText);
+
+    const openaiStepTime = Date.now();
+    console.log(`🔍 [RECALL-RESOLVE] Calling the resolve model...`);
+    console.log(`📝 [RECALL-RESOLVE] Detected query intent: ${queryIntent}`);
+    console.log(`📝 [RECALL-RESOLVE] User prompt length: ${userPrompt.length} chars`);
+    console.log(`📝 [RECALL-RESOLVE] System prompt length: ${RECALL_SYSTEM_PROMPT.length} chars`);
+
+    // In SSE mode the completion is streamed so answer text can be forwarded as it is generated
+    // (a repair request is not streamed; the client already has the first reply's text)
+    let structured: StructuredResult<OpenAIResponse>;
+    try {
+      structured = await ctx.llm.structured("resolve", RECALL_RESPONSE_OUTPUT, [
+        { role: "system", content: RECALL_SYSTEM_PROMPT },
+        { role: "user", content: userPrompt },
+      ], {
+        temperature: 0.3,
+        label: "RECALL-RESOLVE",
+        onContent: ctx.streaming
+          ? (partialContent) => {
+              const answerText = extractPartialAnswerText(partialContent);
+              if (answerText.length > ctx.streamedAnswerText.length) {
+                ctx.emit("answer_delta", { delta: answerText.slice(ctx.streamedAnswerText.length) });
+                ctx.streamedAnswerText = answerText;
+              }
+            }
+          : undefined,
+      });
+    } catch (error) {
+      if (!(error instanceof LlmError)) throw error;
+      console.error(`❌ [RECALL-RESOLVE] [${requestId}] Resolve model error (${error.status}):`, error.body);
+      await failWithStatus(ctx, `Error: ${error.body}`, errorEnvelope("upstream_error", "OpenAI API request failed", { details: error.body }), 500);
+      return;
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Resolution took: ${Date.now() - openaiStepTime}ms (${structured.status})`);
+
+    const aiResult = structured.value;
+    console.log(`📊 [RECALL-RESOLVE] [${requestId}] Parsed result: type=${aiResult.response_type}, confidence=${aiResult.overall_confidence}, candidates=${aiResult.candidates.length}, has_answer=${!!aiResult.answer}`);
+
+    // Ensure information intents always have answer object
+    if (ctx.detectedIntent?.type === "information" && aiResult.response_type === "answer") {
+      if (!aiResult.answer || aiResult.answer.text.trim().length === 0) {
+        console.warn(`⚠️ [RECALL-RESOLVE] Information intent but no answer provided, creating fallback answer`);
+        aiResult.answer = {
+          text: "I'm processing your question. Please wait a moment while I search for the information.",
+          sources: [],
+          related_songs: []
+        };
+      }
+    }
+
+    if (aiResult.candidates.length > 0) {
+      console.log(`🎵 [RECALL-RESOLVE] Top candidate: "${aiResult.candidates[0].title}" by ${aiResult.candidates[0].artist} (confidence: ${aiResult.candidates[0].confidence})`);
+    }
+
+    // Log answer info
+    if (aiResult.answer) {
+      console.log(`📝 [RECALL-RESOLVE] Answer length: ${aiResult.answer.text.length} chars, sources: ${aiResult.answer.sources.length}`);
+      if (aiResult.answer.text.trim().length === 0) {
+        console.warn(`⚠️ [RECALL-RESOLVE] Answer text is empty, removing answer`);
+        aiResult.answer = undefined;
+      }
+    }
+
+    ctx.aiResult = aiResult;
+    ctx.resolutionStatus = structured.status;
+  },
+};
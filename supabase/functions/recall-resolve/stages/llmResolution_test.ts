@@ -0,0 +1,69 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { LlmError } from "../../_shared/llm.ts";
+import type { OpenAIResponse } from "../types.ts";
+import { fakeLlm, fakeResolveContext, fakeResolveDeps } from "../testing.ts";
+import { llmResolutionStage } from "./llmResolution.ts";
+
+function reply(overrides: Partial<OpenAIResponse> = {}): OpenAIResponse {
+  return {
+    response_type: "search",
+    candidates: [{ title: "Creep", artist: "Radiohead", confidence: 0.8, reason: "matches the lyrics", source_urls: [] }],
+    overall_confidence: 0.8,
+    should_ask_crowd: false,
+    ...overrides,
+  };
+}
+
+Deno.test("llmResolutionStage stores the validated reply and its status", async () => {
+  const { llm, calls } = fakeLlm(() => ({ value: reply(), status: "repaired" }));
+  const ctx = fakeResolveContext(fakeResolveDeps({ llm }), { text: "song that goes I'm a creep" });
+  ctx.queryText = "song that goes I'm a creep";
+
+  await llmResolutionStage.run(ctx);
+
+  assertEquals(calls, ["resolve"]);
+  assertEquals(ctx.aiResult?.candidates[0].title, "Creep");
+  assertEquals(ctx.resolutionStatus, "repaired");
+  assertEquals(ctx.response, null);
+});
+
+Deno.test("llmResolutionStage drops an empty answer", async () => {
+  const { llm } = fakeLlm(() => ({
+    value: reply({ response_type: "both", answer: { text: "  ", sources: [], related_songs: [] } }),
+    status: "valid",
+  }));
+  const ctx = fakeResolveContext(fakeResolveDeps({ llm }));
+
+  await llmResolutionStage.run(ctx);
+
+  assertEquals(ctx.aiResult?.answer, undefined);
+});
+
+Deno.test("llmResolutionStage fails with misconfigured when no model is configured", async () => {
+  const { llm, calls } = fakeLlm(undefined, { configured: false });
+  const deps = fakeResolveDeps({ llm });
+  const ctx = fakeResolveContext(deps);
+
+  await llmResolutionStage.run(ctx);
+
+  assert(ctx.response);
+  assertEquals(ctx.response.status, 500);
+  assertEquals((await ctx.response.json()).code, "misconfigured");
+  assertEquals(calls, []);
+  assertEquals(deps.queries[0].values, { message_type: "status", text: "LLM API key not configured" });
+});
+
+Deno.test("llmResolutionStage turns an upstream error into an upstream_error response", async () => {
+  const { llm } = fakeLlm(() => {
+    throw new LlmError("openai:gpt-4o", 503, "overloaded");
+  });
+  const ctx = fakeResolveContext(fakeResolveDeps({ llm }));
+
+  await llmResolutionStage.run(ctx);
+
+  assert(ctx.response);
+  const body = await ctx.response.json();
+  assertEquals(body.code, "upstream_error");
+  assertEquals(body.details, "overloaded");
+  assertEquals(ctx.aiResult, null);
+});
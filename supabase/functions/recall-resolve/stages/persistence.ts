@@ -0,0 +1,224 @@
+// Stage: persistence
+// Writes the answer, candidate cards and follow-up question to the thread, updates the stash
+// and builds the final response body.
+
+import { songKey } from "../../_shared/tracks/normalize.ts";
+import { trackUrl } from "../../_shared/tracks/resolver.ts";
+import { finish, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+
+export const persistenceStage: ResolveStage = {
+  name: "persistence",
+  async run(ctx: ResolveContext) {
+    const { requestId, requestStartTime, supabase, userMessage, audioTranscription, audioRecognitionResult, finalCandidates } = ctx;
+    const { thread_id } = ctx.request;
+    const aiResult = ctx.aiResult!;
+
+    // 1. Insert ANSWER first so the user sees the response to their question before suggestions or follow-up
+    const insertAnswerTime = Date.now();
+    let answerMessageId: string | null = null;
+    if (aiResult.answer && (aiResult.response_type === "answer" || aiResult.response_type === "both")) {
+      console.log(`📝 [RECALL-RESOLVE] Inserting answer message (first)...`);
+
+      const enhancedAnswerText = ctx.answerText ?? aiResult.answer.text;
+      const enhancedSources = ctx.answerText !== null ? ctx.answerSources : [...aiResult.answer.sources];
+
+      // Bring streamed answer text in line with what gets persisted (lyrics summary, validation fixes)
+      if (enhancedAnswerText.startsWith(ctx.streamedAnswerText)) {
+        if (enhancedAnswerText.length > ctx.streamedAnswerText.length) {
+          ctx.emit("answer_delta", { delta: enhancedAnswerText.slice(ctx.streamedAnswerText.length) });
+        }
+      } else {
+        ctx.emit("answer_delta", { delta: enhancedAnswerText, replace: true });
+      }
+      ctx.streamedAnswerText = enhancedAnswerText;
+
+      const answerSources = enhancedSources.map((url, index) => ({
+        title: `Source ${index + 1}`,
+        url,
+        snippet: undefined,
+      }));
+
+      const { data: answerMessage, error: answerError } = await supabase
+        .from("recall_messages")
+        .insert({
+          thread_id,
+          user_id: userMessage.user_id,
+          role: "assistant",
+          message_type: "answer",
+          text: enhancedAnswerText,
+          sources_json: answerSources,
+        })
+        .select("id")
+        .single();
+
+      if (!answerError && answerMessage) {
+        answerMessageId = answerMessage.id;
+        console.log(`✅ [RECALL-RESOLVE] [${requestId}] Inserted answer message (${aiResult.answer.text.length} chars)`);
+      } else {
+        console.error(`❌ [RECALL-RESOLVE] [${requestId}] Failed to insert answer:`, answerError);
+      }
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Insert answer: ${Date.now() - insertAnswerTime}ms`);
+
+    // 2. Insert candidates (song suggestion cards) after the answer
+    const { data: existingCandidates } = await supabase
+      .from("recall_messages")
+      .select("song_title, song_artist")
+      .eq("thread_id", thread_id)
+      .eq("message_type", "candidate");
+
+    const existingKeys = new Set(
+      (existingCandidates || [])
+        .filter((c: any) => c.song_title && c.song_artist)
+        .map((c: any) => songKey(c.song_title, c.song_artist))
+    );
+
+    const insertCandidatesTime = Date.now();
+    let insertedCount = 0;
+    for (const candidate of finalCandidates) {
+      const candidateKey = songKey(candidate.title, candidate.artist);
+      if (!existingKeys.has(candidateKey)) {
+        const candidateSources = candidate.source_urls.map((url, index) => ({
+          title: `Source ${index + 1}`,
+          url,
+          snippet: undefined,
+        }));
+
+        await supabase
+          .from("recall_messages")
+          .insert({
+            thread_id,
+            user_id: userMessage.user_id,
+            role: "assistant",
+            message_type: "candidate",
+            text: `${candidate.title} by ${candidate.artist}`,
+            candidate_json: {
+              title: candidate.title,
+              artist: candidate.artist,
+              confidence: candidate.confidence,
+              reason: candidate.reason,
+              background: candidate.background,
+              lyric_snippet: candidate.highlight_snippet,
+              track: candidate.track ?? null,
+              verification: candidate.verification,
+            },
+            sources_json: candidateSources,
+            confidence: candidate.confidence,
+            song_title: candidate.title,
+            song_artist: candidate.artist,
+            song_url: trackUrl(candidate.track),
+          });
+        insertedCount++;
+        ctx.emit("candidate", { rank: insertedCount, ...candidate });
+      }
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] Insert candidates: ${Date.now() - insertCandidatesTime}ms (inserted: ${insertedCount})`);
+
+    // Handle follow-up question if confidence is low or conversation needs continuation
+    const insertFollowUpTime = Date.now();
+    let followUpQuestionId: string | null = null;
+    if (aiResult.follow_up_question && (aiResult.overall_confidence < 0.7 || aiResult.response_type === "answer")) {
+      console.log(`💬 [RECALL-RESOLVE] [${requestId}] Inserting follow-up question: "${aiResult.follow_up_question}"`);
+      // Insert follow-up question as assistant message
+      const { data: followUpMessage, error: followUpError } = await supabase
+        .from("recall_messages")
+        .insert({
+          thread_id,
+          user_id: userMessage.user_id,
+          role: "assistant",
+          message_type: "follow_up",
+          text: aiResult.follow_up_question,
+        })
+        .select("id")
+        .single();
+
+      if (!followUpError && followUpMessage) {
+        followUpQuestionId = followUpMessage.id;
+        console.log(`✅ [RECALL-RESOLVE] [${requestId}] Inserted follow-up question`);
+        ctx.emit("follow_up", { id: followUpQuestionId, text: aiResult.follow_up_question });
+      } else {
+        console.error(`❌ [RECALL-RESOLVE] [${requestId}] Failed to insert follow-up:`, followUpError);
+      }
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Insert follow-up: ${Date.now() - insertFollowUpTime}ms`);
+
+    // Delete status message (replaced by candidate messages, answer, or follow-up question)
+    await supabase
+      .from("recall_messages")
+      .delete()
+      .eq("id", ctx.statusMessageId);
+
+    // Update thread last_message_at
+    await supabase
+      .from("recall_threads")
+      .update({ last_message_at: new Date().toISOString() })
+      .eq("id", thread_id);
+
+    // Only upsert to stash if we have a verified candidate with high enough confidence
+    if (finalCandidates.length > 0 && finalCandidates[0].confidence >= 0.7 && finalCandidates[0].verification?.status === "verified") {
+      const topCandidate = finalCandidates[0];
+      await supabase
+        .from("recall_stash")
+        .upsert({
+          user_id: userMessage.user_id,
+          thread_id,
+          top_song_title: topCandidate.title,
+          top_song_artist: topCandidate.artist,
+          top_confidence: topCandidate.confidence,
+          top_song_url: trackUrl(topCandidate.track),
+        }, {
+          onConflict: "user_id,thread_id",
+        });
+    }
+
+    // Log service calls for verification
+    const totalDuration = Date.now() - requestStartTime;
+    console.log(`📊 [RECALL-RESOLVE] [${requestId}] Service calls summary:`);
+    console.log(`   - Audio recognition: ${audioRecognitionResult?.success ? `✅ Matched by ${audioRecognitionResult.service}` : "⏭️ Skipped or no match"}`);
+    console.log(`   - Whisper Transcription: ${audioTranscription ? "✅ Transcribed: \"" + audioTranscription.substring(0, 50) + "...\"" : "⏭️ Not used"}`);
+    console.log(`   - Resolve model: ${ctx.cacheHit ? "⏭️ Answered from the response cache" : `✅ Called for ${aiResult.response_type || "search"} response`}`);
+    console.log(`   - Final candidates: ${finalCandidates.length}`);
+    if (aiResult.answer) {
+      console.log(`   - Answer provided: ${aiResult.answer.text.length} chars`);
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Total processing time: ${totalDuration}ms`);
+
+    const responseBody = {
+      status: aiResult.follow_up_question ? "refining" : "done",
+      response_type: aiResult.response_type || "search",
+      transcription: audioTranscription || null, // Include transcription in response
+      overall_confidence: aiResult.overall_confidence,
+      candidates: finalCandidates.map(c => ({
+        title: c.title,
+        artist: c.artist,
+        confidence: c.confidence,
+        reason: c.reason,
+        background: c.background || "",
+        lyric_snippet: c.highlight_snippet,
+        source_urls: c.source_urls,
+        track: c.track ?? null,
+        verification: c.verification,
+      })),
+      answer: aiResult.answer ? {
+        text: aiResult.answer.text,
+        sources: aiResult.answer.sources,
+        related_songs: aiResult.answer.related_songs || [],
+      } : null,
+      follow_up_question: aiResult.follow_up_question || null,
+      conversation_state: aiResult.conversation_state || (aiResult.follow_up_question ? "refining_search" : (aiResult.response_type === "answer" ? "answering" : "searching")),
+      cached: ctx.cacheHit,
+      error: null,
+    };
+
+    const responseSize = JSON.stringify(responseBody).length;
+    console.log(`📤 [RECALL-RESOLVE] [${requestId}] Returning response: ${responseSize} bytes`);
+    console.log(`   status: ${responseBody.status}`);
+    console.log(`   response_type: ${responseBody.response_type}`);
+    console.log(`   candidates: ${responseBody.candidates.length}`);
+    console.log(`   has_answer: ${responseBody.answer != null}`);
+    console.log(`   has_follow_up: ${responseBody.follow_up_question != null}`);
+
+    finish(ctx, responseBody);
+  },
+};
@@ -0,0 +1,152 @@
+// Stage: post-validation
+// Dedupes and ranks the model's candidates, applies the no-result fallbacks, drops a follow-up
+// question the thread already asked and enriches song-meaning answers with a lyrics summary.
+
+import { errorEnvelope } from "../../_shared/errors.ts";
+import { failWithStatus, type ResolveContext } from "../context.ts";
+import { wasAsked } from "../conversationState.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import { detectLanguage, summarizeSongMessage } from "../services/openai.ts";
+import { fetchLyricsFromGenius } from "../services/lyrics.ts";
+import { detectSongMeaningQuery } from "../songMeaning.ts";
+import type { Candidate, OpenAIResponse } from "../types.ts";
+
+export const postValidationStage: ResolveStage = {
+  name: "post_validation",
+  skipOnCacheHit: true,
+  async run(ctx: ResolveContext) {
+    const aiResult = ctx.aiResult!;
+
+    // Validate and deduplicate candidates
+    const validateTime = Date.now();
+    const candidates = aiResult.candidates || [];
+    console.log(`🔍 [RECALL-RESOLVE] Validating ${candidates.length} candidates...`);
+
+    // Log raw candidates for debugging
+    if (candidates.length > 0) {
+      console.log(`📋 [RECALL-RESOLVE] Raw candidates from AI:`);
+      candidates.forEach((c: Candidate, i: number) => {
+        console.log(`   ${i + 1}. "${c.title}" by ${c.artist} (confidence: ${c.confidence})`);
+      });
+    }
+
+    const uniqueCandidates = new Map<string, Candidate>();
+
+    for (const candidate of candidates) {
+      // Validate candidate has required fields
+      if (!candidate.title || !candidate.artist) {
+        console.log(`⚠️ [RECALL-RESOLVE] Skipping invalid candidate: missing title or artist`);
+        continue;
+      }
+
+      const key = `${candidate.title.toLowerCase().trim()}|${candidate.artist.toLowerCase().trim()}`;
+      if (!uniqueCandidates.has(key) || uniqueCandidates.get(key)!.confidence < candidate.confidence) {
+        uniqueCandidates.set(key, candidate);
+      }
+    }
+
+    const finalCandidates = Array.from(uniqueCandidates.values())
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 5); // Top 5 candidates
+
+    console.log(`⏱️ [RECALL-RESOLVE] Validation: ${Date.now() - validateTime}ms`);
+    console.log(`📊 [RECALL-RESOLVE] Final candidates: ${finalCandidates.length} (from ${candidates.length} original)`);
+
+    if (finalCandidates.length > 0) {
+      console.log(`🎵 [RECALL-RESOLVE] Top candidate: "${finalCandidates[0].title}" by ${finalCandidates[0].artist} (confidence: ${finalCandidates[0].confidence})`);
+      if (finalCandidates[0].reason) {
+        console.log(`   Reason: ${finalCandidates[0].reason.substring(0, 100)}...`);
+      }
+    }
+
+    // Only fail if we have NO candidates AND NO answer
+    // Exception: For information intents, we should always have an answer
+    if (finalCandidates.length === 0 && (!aiResult.answer || !aiResult.answer.text)) {
+      // If this was an information intent, try to generate a basic answer
+      if (ctx.detectedIntent?.type === "information") {
+        console.log(`⚠️ [RECALL-RESOLVE] Information intent but no answer found, creating fallback`);
+        aiResult.answer = {
+          text: "I couldn't find specific information about that. Could you provide more details or rephrase your question?",
+          sources: [],
+          related_songs: []
+        };
+        aiResult.response_type = "answer";
+        aiResult.overall_confidence = 0.3;
+      } else {
+        console.log(`⚠️ [RECALL-RESOLVE] No valid candidates or answer found`);
+        await failWithStatus(ctx, "No matches found", errorEnvelope("not_found", "No candidates or answer found", { extra: { status: "failed" } }), 200);
+        return;
+      }
+    }
+
+    ctx.finalCandidates = finalCandidates;
+
+    // The prompt lists the questions already asked in this thread; drop one the model repeats anyway
+    if (aiResult.follow_up_question && wasAsked(ctx.conversation.state, aiResult.follow_up_question)) {
+      console.log(`⚠️ [RECALL-RESOLVE] Dropping repeated follow-up question: "${aiResult.follow_up_question}"`);
+      aiResult.follow_up_question = undefined;
+    }
+
+    await enrichAnswer(ctx, aiResult, finalCandidates);
+  },
+};
+
+// Song meaning questions get the real lyrics summarized (and translated) and appended to the answer
+async function enrichAnswer(ctx: ResolveContext, aiResult: OpenAIResponse, finalCandidates: Candidate[]): Promise<void> {
+  if (!aiResult.answer || (aiResult.response_type !== "answer" && aiResult.response_type !== "both")) {
+    return;
+  }
+
+  let enhancedAnswerText = aiResult.answer.text;
+  let enhancedSources = [...aiResult.answer.sources];
+
+  const meaningQuery = detectSongMeaningQuery(ctx.queryText, finalCandidates, [...ctx.conversation.previousMessages]);
+
+  if (meaningQuery.isSongMeaningQuery) {
+    const songTitle = meaningQuery.songTitle || (finalCandidates.length > 0 ? finalCandidates[0].title : undefined);
+    const artistName = meaningQuery.artistName || (finalCandidates.length > 0 ? finalCandidates[0].artist : undefined);
+
+    if (songTitle && artistName) {
+      console.log(`🎵 [LYRICS] Detected song meaning query for "${songTitle}" by ${artistName}, fetching lyrics from lyrics.ovh...`);
+
+      try {
+        const lyricsResult = await fetchLyricsFromGenius(ctx, songTitle, artistName);
+
+        if (lyricsResult.success && lyricsResult.lyrics) {
+          console.log(`✅ [LYRICS] Successfully fetched lyrics (${lyricsResult.lyrics.length} chars)`);
+
+          const detectedLanguage = await detectLanguage(ctx, lyricsResult.lyrics);
+          console.log(`🌍 [LANG] Detected language: ${detectedLanguage}`);
+
+          const summary = await summarizeSongMessage(ctx, lyricsResult.lyrics, detectedLanguage);
+
+          const isEnglish = detectedLanguage.toLowerCase().includes("english");
+
+          if (isEnglish) {
+            enhancedAnswerText = `${enhancedAnswerText}\n\n**Song Summary:** ${summary.summary}`;
+          } else {
+            enhancedAnswerText = `${enhancedAnswerText}\n\n**Song Summary (${detectedLanguage}):** ${summary.summary}`;
+            if (summary.englishTranslation) {
+              enhancedAnswerText = `${enhancedAnswerText}\n\n**In English:** ${summary.englishTranslation}`;
+            }
+          }
+
+          if (lyricsResult.sourceUrl) {
+            enhancedSources.push(lyricsResult.sourceUrl);
+          }
+
+          console.log(`✅ [LYRICS] Enhanced answer with lyrics summary`);
+        } else {
+          console.log(`⚠️ [LYRICS] Could not fetch lyrics: ${lyricsResult.error || "Unknown error"}`);
+        }
+      } catch (lyricsError) {
+        console.error(`❌ [LYRICS] Error fetching/processing lyrics:`, lyricsError);
+      }
+    } else {
+      console.log(`⚠️ [LYRICS] Song meaning query detected but couldn't determine song title/artist`);
+    }
+  }
+
+  ctx.answerText = enhancedAnswerText;
+  ctx.answerSources = enhancedSources;
+}
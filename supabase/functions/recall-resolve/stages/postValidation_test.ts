@@ -0,0 +1,77 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { Candidate, OpenAIResponse } from "../types.ts";
+import { fakeResolveContext } from "../testing.ts";
+import { postValidationStage } from "./postValidation.ts";
+
+function candidate(title: string, artist: string, confidence: number): Candidate {
+  return { title, artist, confidence, reason: "", source_urls: [] };
+}
+
+function validationContext(aiResult: OpenAIResponse) {
+  const ctx = fakeResolveContext();
+  ctx.queryText = "song with a whistle in the chorus";
+  ctx.aiResult = aiResult;
+  return ctx;
+}
+
+Deno.test("postValidationStage dedupes, ranks and keeps the top five candidates", async () => {
+  const ctx = validationContext({
+    response_type: "search",
+    candidates: [
+      candidate("Creep", "Radiohead", 0.4),
+      candidate("creep ", "RADIOHEAD", 0.7),
+      candidate("", "Nobody", 0.99),
+      ...[0.1, 0.2, 0.3, 0.5, 0.6].map((c, i) => candidate(`Song ${i}`, "Artist", c)),
+    ],
+    overall_confidence: 0.7,
+    should_ask_crowd: false,
+  });
+
+  await postValidationStage.run(ctx);
+
+  assertEquals(ctx.finalCandidates.map((c) => [c.title, c.confidence]), [
+    ["creep ", 0.7],
+    ["Song 4", 0.6],
+    ["Song 3", 0.5],
+    ["Song 2", 0.3],
+    ["Song 1", 0.2],
+  ]);
+  assertEquals(ctx.response, null);
+});
+
+Deno.test("postValidationStage answers not_found when there is nothing to show", async () => {
+  const ctx = validationContext({ response_type: "search", candidates: [], overall_confidence: 0, should_ask_crowd: false });
+
+  await postValidationStage.run(ctx);
+
+  assert(ctx.response);
+  const body = await ctx.response.json();
+  assertEquals(body.code, "not_found");
+  assertEquals(body.status, "failed");
+});
+
+Deno.test("postValidationStage gives information intents a fallback answer instead of failing", async () => {
+  const ctx = validationContext({ response_type: "search", candidates: [], overall_confidence: 0, should_ask_crowd: false });
+  ctx.detectedIntent = { type: "information", confidence: 0.9, reasoning: "" };
+
+  await postValidationStage.run(ctx);
+
+  assertEquals(ctx.response, null);
+  assertEquals(ctx.aiResult?.response_type, "answer");
+  assert(ctx.answerText?.startsWith("I couldn't find specific information"));
+});
+
+Deno.test("postValidationStage drops a follow-up question the thread already asked", async () => {
+  const ctx = validationContext({
+    response_type: "search",
+    candidates: [candidate("Creep", "Radiohead", 0.6)],
+    overall_confidence: 0.6,
+    should_ask_crowd: false,
+    follow_up_question: "Do you remember any lyrics?",
+  });
+  ctx.conversation.state.questionsAsked = ["do you remember any lyrics"];
+
+  await postValidationStage.run(ctx);
+
+  assertEquals(ctx.aiResult?.follow_up_question, undefined);
+});
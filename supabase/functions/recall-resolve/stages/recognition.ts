@@ -0,0 +1,187 @@
+// Stage: recognition
+// Runs the registry's fingerprint providers on the voice audio when the intent stage asked for it.
+// A high-confidence match finishes the request here; weaker matches are handed to the LLM as hints.
+
+import { preprocessAudio } from "../../_shared/audio.ts";
+import { logRecognitionResults } from "../../_shared/recognition/registry.ts";
+import { resolveCandidates, trackUrl } from "../../_shared/tracks/resolver.ts";
+import { finish, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import type { AudioRecognitionResult, Candidate } from "../types.ts";
+import { TRACK_RESOLUTION_DEADLINE_MS } from "./trackResolution.ts";
+
+// Providers still running after this are abandoned as misses
+const RECOGNITION_DEADLINE_MS = 45000;
+
+// Providers preferred for full songs regardless of their configured priority
+const FULL_SONG_PROVIDERS = ["shazam"];
+
+export const recognitionStage: ResolveStage = {
+  name: "recognition",
+  async run(ctx: ResolveContext) {
+    if (!ctx.shouldUseAudioRecognition || !ctx.audioBuffer) {
+      return;
+    }
+
+    const { requestId } = ctx;
+    const audioArrayBuffer = ctx.audioBuffer;
+    const audio = ctx.preprocessedAudio ?? await preprocessAudio(audioArrayBuffer);
+    const audioTranscription = ctx.audioTranscription;
+
+    try {
+      const audioRecognitionStartTime = Date.now();
+      // Determine if this is a full song identification (find_song intent or longer audio)
+      const isFullSong = ctx.detectedIntent?.type === "find_song" || audioArrayBuffer.byteLength > 50000; // >50KB suggests longer audio
+      const audioDurationHint = audioArrayBuffer.byteLength > 100000 ? "full song" : "audio clip";
+
+      // Whisper already ran in the transcription stage, so only the audio matchers are asked here
+      const providers = await ctx.recognition.select("voice", { kinds: ["fingerprint", "melody"] });
+
+      console.log(`🎵 [RECALL-RESOLVE] [${requestId}] Running audio recognition for ${audioDurationHint} (${audioArrayBuffer.byteLength} bytes)...`);
+      console.log(`   - Intent: ${ctx.detectedIntent?.type || "unknown"}, Full song: ${isFullSong}`);
+      console.log(`   - Providers: ${providers.map((p) => p.provider.id).join(", ") || "none available"}`);
+
+      // Each provider gets the loudest segments one at a time until it finds a match
+      console.log(`   - Segments: ${audio.segments.map((s) => `${s.startSeconds.toFixed(1)}s+${s.durationSeconds?.toFixed(1) ?? "all"}`).join(", ")}`);
+      const recognitionStartTime = Date.now();
+      const hints = { signal: AbortSignal.timeout(RECOGNITION_DEADLINE_MS), inputType: "voice" as const, queryText: ctx.request.text };
+      const { results } = await ctx.recognition.runAll(providers, audio, hints);
+      console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Audio recognition completed in ${Date.now() - recognitionStartTime}ms`);
+      await logRecognitionResults(ctx.supabase, { requestId, userId: ctx.userMessage?.user_id, inputType: "voice" }, results);
+
+      const bestResult = selectBestRecognition(results, isFullSong, requestId);
+
+      // Log final selection
+      if (bestResult) {
+        console.log(`🎯 [RECALL-RESOLVE] [${requestId}] Final selection: ${bestResult.service} - "${bestResult.title}" by ${bestResult.artist} (confidence: ${bestResult.confidence})`);
+        ctx.audioRecognitionResult = bestResult;
+      } else {
+        console.log(`❌ [RECALL-RESOLVE] [${requestId}] Audio recognition services failed or returned no results`);
+      }
+
+      const audioRecognitionDuration = Date.now() - audioRecognitionStartTime;
+      console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Audio recognition step completed in ${audioRecognitionDuration}ms`);
+      ctx.emit("audio_match", bestResult
+        ? { matched: bestResult.success, ...bestResult, duration_ms: audioRecognitionDuration }
+        : { matched: false, duration_ms: audioRecognitionDuration });
+
+      if (bestResult && bestResult.success && bestResult.confidence >= 0.7) {
+        await finishWithRecognizedSong(ctx, bestResult);
+      } else if (bestResult && bestResult.success) {
+        // Moderate confidence - enhance query for GPT
+        console.log(`⚠️ Moderate confidence (${bestResult.confidence}), enhancing query for GPT`);
+        ctx.queryText = audioTranscription
+          ? `I think you're asking about "${bestResult.title}" by ${bestResult.artist}. You said: "${audioTranscription}". Is this the song you're looking for?`
+          : `Audio recognition found "${bestResult.title}" by ${bestResult.artist} with ${Math.round(bestResult.confidence * 100)}% confidence. Can you verify if this is correct?`;
+      } else {
+        // Failed - use transcription or ask for clarification
+        console.log("❌ Audio recognition failed");
+        ctx.queryText = audioTranscription
+          ? audioTranscription
+          : "I couldn't identify the audio clearly. Could you try again, or describe what you're looking for?";
+      }
+    } catch (error) {
+      console.error("❌ Voice processing error:", error);
+      ctx.queryText = audioTranscription
+        || "I had trouble processing the audio. Could you try again or describe what you're looking for?";
+    }
+  },
+};
+
+// Picks between the providers' results, given in priority order. The first match wins (for full
+// songs, a FULL_SONG_PROVIDERS match goes first), and a later provider only takes over when it is
+// clearly more confident: any higher at 0.8+ for full songs, 0.1 higher for humming/partial audio.
+export function selectBestRecognition(
+  results: AudioRecognitionResult[],
+  isFullSong: boolean,
+  requestId: string
+): AudioRecognitionResult | null {
+  const ordered = isFullSong
+    ? [
+      ...results.filter((r) => FULL_SONG_PROVIDERS.includes(r.service)),
+      ...results.filter((r) => !FULL_SONG_PROVIDERS.includes(r.service)),
+    ]
+    : results;
+
+  let bestResult: AudioRecognitionResult | null = null;
+  for (const result of ordered) {
+    if (!result.success) {
+      console.log(`❌ [RECALL-RESOLVE] [${requestId}] ${result.service}: ${result.error ? `failed (${result.error})` : "no match"}`);
+      continue;
+    }
+
+    console.log(`✅ [RECALL-RESOLVE] [${requestId}] ${result.service}: ${result.title} by ${result.artist} (${result.confidence})`);
+    if (!bestResult) {
+      bestResult = result;
+    } else if (isFullSong
+      ? result.confidence > bestResult.confidence && result.confidence >= 0.8
+      : result.confidence > bestResult.confidence + 0.1) {
+      bestResult = result;
+      console.log(`   → [RECALL-RESOLVE] [${requestId}] Using ${result.service} result (higher confidence)`);
+    }
+  }
+
+  return bestResult;
+}
+
+// High confidence - answer immediately with the recognized song
+async function finishWithRecognizedSong(ctx: ResolveContext, bestResult: AudioRecognitionResult): Promise<void> {
+  console.log(`✅ High confidence: ${bestResult.title} by ${bestResult.artist} (${bestResult.confidence})`);
+
+  const conversationalReason = `Great! I identified that ${bestResult.service === "acrcloud" ? "from your humming" : "song"}. It's "${bestResult.title}" by ${bestResult.artist}. ${bestResult.album ? `It's from the album "${bestResult.album}".` : ""}`;
+
+  const [candidate] = await resolveCandidates<Candidate>(ctx.tracks, [{
+    title: bestResult.title!,
+    artist: bestResult.artist!,
+    confidence: bestResult.confidence,
+    reason: conversationalReason,
+    source_urls: [bestResult.spotifyUrl, bestResult.appleMusicUrl].filter(Boolean) as string[],
+  }], { signal: AbortSignal.timeout(TRACK_RESOLUTION_DEADLINE_MS) });
+  const songUrl = trackUrl(candidate.track) || candidate.source_urls[0];
+
+  await ctx.supabase
+    .from("recall_messages")
+    .insert({
+      thread_id: ctx.request.thread_id,
+      user_id: ctx.userMessage.user_id,
+      role: "assistant",
+      message_type: "candidate",
+      song_title: candidate.title,
+      song_artist: candidate.artist,
+      confidence: candidate.confidence,
+      text: conversationalReason,
+      candidate_json: {
+        title: candidate.title,
+        artist: candidate.artist,
+        confidence: candidate.confidence,
+        reason: conversationalReason,
+        track: candidate.track ?? null,
+      },
+      song_url: songUrl,
+    });
+  ctx.emit("candidate", { rank: 1, ...candidate });
+
+  await ctx.supabase
+    .from("recall_messages")
+    .delete()
+    .eq("id", ctx.statusMessageId);
+
+  finish(ctx, {
+    status: "done",
+    transcription: ctx.audioTranscription,
+    candidates: [candidate],
+    assistantMessage: {
+      message_type: "candidate",
+      song_title: candidate.title,
+      song_artist: candidate.artist,
+      confidence: candidate.confidence,
+      reason: conversationalReason,
+      sources: candidate.source_urls.map(url => ({
+        title: "Music Platform",
+        url,
+        snippet: undefined,
+      })),
+      song_url: songUrl,
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { AudioRecognitionResult } from "../types.ts";
+import { fakeAudio, fakeRecognition, fakeResolveContext, fakeResolveDeps, fakeTrack, fakeTracks } from "../testing.ts";
+import { recognitionStage, selectBestRecognition } from "./recognition.ts";
+
+function match(service: string, confidence: number, title = "Creep", artist = "Radiohead"): AudioRecognitionResult {
+  return { success: true, service, confidence, title, artist };
+}
+
+function recognitionContext(results: AudioRecognitionResult[], transcription = "") {
+  const deps = fakeResolveDeps({
+    recognition: fakeRecognition(results),
+    tracks: fakeTracks((query) => ({ track: fakeTrack("t1", query.title.toUpperCase(), query.artist), status: "resolved" })),
+  });
+  const ctx = fakeResolveContext(deps, { input_type: "voice" });
+  ctx.audioBuffer = new ArrayBuffer(1000);
+  ctx.preprocessedAudio = fakeAudio();
+  ctx.audioTranscription = transcription;
+  ctx.shouldUseAudioRecognition = true;
+  return { ctx, deps };
+}
+
+Deno.test("recognitionStage finishes with a confident match resolved to its canonical track", async () => {
+  const { ctx, deps } = recognitionContext([match("acrcloud", 0.92)]);
+
+  await recognitionStage.run(ctx);
+
+  assert(ctx.response);
+  const body = await ctx.response.json();
+  assertEquals(body.candidates[0].title, "CREEP");
+  assertEquals(body.assistantMessage.song_url, "https://open.spotify.com/track/t1");
+  assertEquals(deps.events.map((e) => e.event), ["audio_match", "candidate"]);
+
+  const saved = deps.queries.find((q) => q.table === "recall_messages" && q.operation === "insert");
+  assertEquals((saved?.values as { song_title: string }).song_title, "CREEP");
+  assert(deps.queries.some((q) => q.table === "recall_messages" && q.operation === "delete"));
+});
+
+Deno.test("recognitionStage hands a moderate match to the model as a hint", async () => {
+  const { ctx } = recognitionContext([match("acrcloud", 0.5)], "is this the song");
+
+  await recognitionStage.run(ctx);
+
+  assertEquals(ctx.response, null);
+  assertEquals(ctx.audioRecognitionResult?.title, "Creep");
+  assert(ctx.queryText.includes(`"Creep" by Radiohead`));
+  assert(ctx.queryText.includes("is this the song"));
+});
+
+Deno.test("recognitionStage falls back to the transcription when nothing matched", async () => {
+  const { ctx, deps } = recognitionContext([{ success: false, service: "acrcloud", confidence: 0 }], "some words");
+
+  await recognitionStage.run(ctx);
+
+  assertEquals(ctx.response, null);
+  assertEquals(ctx.queryText, "some words");
+  assertEquals(deps.events[0].data, { matched: false, duration_ms: (deps.events[0].data as { duration_ms: number }).duration_ms });
+});
+
+Deno.test("recognitionStage does nothing unless the intent stage asked for it", async () => {
+  const { ctx, deps } = recognitionContext([match("acrcloud", 0.99)]);
+  ctx.shouldUseAudioRecognition = false;
+
+  await recognitionStage.run(ctx);
+
+  assertEquals(ctx.audioRecognitionResult, null);
+  assertEquals(deps.events, []);
+});
+
+Deno.test("selectBestRecognition prefers Shazam for full songs unless another provider is clearly surer", () => {
+  const results = [match("acrcloud", 0.75, "A"), match("shazam", 0.7, "B")];
+  assertEquals(selectBestRecognition(results, true, "test")?.title, "B");
+  assertEquals(selectBestRecognition([match("acrcloud", 0.9, "A"), match("shazam", 0.7, "B")], true, "test")?.title, "A");
+});
+
+Deno.test("selectBestRecognition keeps the first match for partial audio unless another is 0.1 surer", () => {
+  assertEquals(selectBestRecognition([match("acrcloud", 0.6, "A"), match("shazam", 0.65, "B")], false, "test")?.title, "A");
+  assertEquals(selectBestRecognition([match("acrcloud", 0.6, "A"), match("shazam", 0.75, "B")], false, "test")?.title, "B");
+  assertEquals(selectBestRecognition([{ success: false, service: "shazam", confidence: 0 }], false, "test"), null);
+});
@@ -0,0 +1,94 @@
+// Stages: response cache lookup and store
+// A standalone text query asked before is answered from response_cache (_shared/responseCache.ts): the
+// lookup stage restores the verified candidates and answer, and the stages marked skipOnCacheHit
+// (resolution, validation, track resolution, verification) do not run. After verification, the store
+// stage keeps a result whose every candidate is verified. Voice and image input and threads with
+// earlier messages depend on more than the query text, so they bypass the cache.
+
+import { routeName } from "../../_shared/llm.ts";
+import { type CacheLogScope, ResponseCache } from "../../_shared/responseCache.ts";
+import type { ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import type { CachedResolve } from "../types.ts";
+
+// Bump when the resolve prompt, schema or post-processing changes what a query resolves to
+const CACHE_VERSION = "resolve-v1";
+const CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export const responseCacheLookupStage: ResolveStage = {
+  name: "response_cache_lookup",
+  async run(ctx: ResolveContext) {
+    const cache = responseCache(ctx);
+    const reason = bypassReason(ctx);
+    if (reason) {
+      await cache.bypass(reason, logScope(ctx));
+      return;
+    }
+
+    ctx.cacheLookup = await cache.lookup<CachedResolve>(ctx.queryText, logScope(ctx));
+    const hit = ctx.cacheLookup.hit;
+    if (!hit) {
+      return;
+    }
+
+    ctx.aiResult = hit.value.aiResult;
+    ctx.finalCandidates = hit.value.finalCandidates;
+    ctx.answerText = hit.value.answerText;
+    ctx.answerSources = hit.value.answerSources;
+    ctx.cacheHit = true;
+    console.log(`🗃️ [RECALL-RESOLVE] [${ctx.requestId}] Answered from the response cache (${hit.matchType}, cached ${hit.createdAt})`);
+  },
+};
+
+export const responseCacheStoreStage: ResolveStage = {
+  name: "response_cache_store",
+  skipOnCacheHit: true,
+  async run(ctx: ResolveContext) {
+    const { cacheLookup, aiResult, finalCandidates } = ctx;
+    if (!cacheLookup || !aiResult || ctx.resolutionStatus === "fallback") {
+      return;
+    }
+    if (finalCandidates.length === 0 && !aiResult.answer) {
+      return;
+    }
+    if (finalCandidates.some((candidate) => candidate.verification?.status !== "verified")) {
+      console.log(`🗃️ [RECALL-RESOLVE] [${ctx.requestId}] Not caching: some candidates are unverified`);
+      return;
+    }
+
+    await responseCache(ctx).store<CachedResolve>(cacheLookup, {
+      aiResult,
+      finalCandidates,
+      answerText: ctx.answerText,
+      answerSources: ctx.answerSources,
+    });
+  },
+};
+
+// Entries are per resolve model, so switching LLM_MODEL_RESOLVE starts a fresh cache
+function responseCache(ctx: ResolveContext): ResponseCache {
+  return new ResponseCache(ctx.supabase, ctx.llm, {
+    scope: "resolve",
+    sourceVersion: `${CACHE_VERSION}:${routeName(ctx.llm.routes("resolve")[0])}`,
+    ttlSeconds: CACHE_TTL_SECONDS,
+  });
+}
+
+function bypassReason(ctx: ResolveContext): string | null {
+  if (ctx.request.input_type !== "text") {
+    return `${ctx.request.input_type}_input`;
+  }
+  // The thread's history (rejected songs, clarifications, earlier finds) shapes the answer
+  if (ctx.conversation.state.messageCount > 1) {
+    return "thread_context";
+  }
+  return null;
+}
+
+function logScope(ctx: ResolveContext): CacheLogScope {
+  return {
+    requestId: ctx.requestId,
+    userId: ctx.userMessage?.user_id ?? null,
+    metadata: { thread_id: ctx.request.thread_id },
+  };
+}
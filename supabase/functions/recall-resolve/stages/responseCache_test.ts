@@ -0,0 +1,138 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { LlmClient } from "../../_shared/llm.ts";
+import type { CachedResolve, Candidate, RecallResolveRequest } from "../types.ts";
+import { fakeLlm, fakeResolveContext, fakeResolveDeps, fakeSupabase, type RecordedQuery } from "../testing.ts";
+import { responseCacheLookupStage, responseCacheStoreStage } from "./responseCache.ts";
+
+function candidate(title: string, status: "verified" | "unverified"): Candidate {
+  return {
+    title,
+    artist: "The Beatles",
+    confidence: 0.9,
+    reason: "",
+    source_urls: [],
+    verification: { status, catalog: "resolved", urls_checked: 0, urls_resolved: 0, original_confidence: 0.9, reasons: [] },
+  };
+}
+
+const cached: CachedResolve = {
+  aiResult: { response_type: "search", candidates: [candidate("Yesterday", "verified")], overall_confidence: 0.9, should_ask_crowd: false },
+  finalCandidates: [candidate("Yesterday", "verified")],
+  answerText: null,
+  answerSources: [],
+};
+
+function cacheRow(matchType: "exact" | "semantic") {
+  return { response: cached, match_type: matchType, similarity: matchType === "exact" ? 1 : 0.97, query_text: "who sang yesterday", created_at: "2026-10-01T00:00:00Z" };
+}
+
+// A context for `text` whose lookup_response_cache answers `exact` for the key alone and
+// `semantic` once an embedding is sent, and whose embedding calls are counted
+function cacheContext(
+  text: string,
+  rows: { exact?: boolean; semantic?: boolean } = {},
+  request: Partial<RecallResolveRequest> = {}
+) {
+  const { client, queries } = fakeSupabase((query) => {
+    if (query.table !== "lookup_response_cache") return { data: null, error: null };
+    const embedded = (query.values as { p_embedding: unknown }).p_embedding !== null;
+    const row = embedded ? rows.semantic && cacheRow("semantic") : rows.exact && cacheRow("exact");
+    return { data: row ? [row] : [], error: null };
+  });
+  const embeds: string[] = [];
+  const llm = fakeLlm().llm;
+  (llm as { embed: LlmClient["embed"] }).embed = (input) => {
+    embeds.push(input);
+    return Promise.resolve({ embedding: [0.1, 0.2], model: "openai:text-embedding-3-small" });
+  };
+  const ctx = fakeResolveContext(fakeResolveDeps({ supabase: client, llm }), { text, ...request });
+  ctx.queryText = text;
+  return { ctx, queries, embeds };
+}
+
+function rpcs(queries: RecordedQuery[], name: string): Array<Record<string, unknown>> {
+  return queries.filter((q) => q.table === name).map((q) => q.values as Record<string, unknown>);
+}
+
+function logged(queries: RecordedQuery[]): Array<Record<string, unknown>> {
+  return queries.filter((q) => q.table === "recall_logs").map((q) => q.values as Record<string, unknown>);
+}
+
+Deno.test("responseCacheLookupStage answers from an exact match without embedding the query", async () => {
+  const { ctx, queries, embeds } = cacheContext("Who sang 'Yesterday'?", { exact: true });
+
+  await responseCacheLookupStage.run(ctx);
+
+  assert(ctx.cacheHit);
+  assertEquals(ctx.finalCandidates, cached.finalCandidates);
+  assertEquals(ctx.aiResult, cached.aiResult);
+  assertEquals(embeds, []);
+  assertEquals(rpcs(queries, "lookup_response_cache").map((v) => [v.p_query_key, v.p_source_version]), [
+    ["who sang yesterday", "resolve-v1:openai:fake-model"],
+  ]);
+  assertEquals(logged(queries).map((l) => [l.status, (l.metadata as Record<string, unknown>).match_type]), [["hit", "exact"]]);
+});
+
+Deno.test("responseCacheLookupStage falls back to a semantic match on the query embedding", async () => {
+  const { ctx, queries, embeds } = cacheContext("the beatles song about yesterday", { semantic: true });
+
+  await responseCacheLookupStage.run(ctx);
+
+  assert(ctx.cacheHit);
+  assertEquals(ctx.cacheLookup?.hit?.matchType, "semantic");
+  assertEquals(embeds, ["the beatles song about yesterday"]);
+  assertEquals(rpcs(queries, "lookup_response_cache").map((v) => [v.p_embedding, v.p_embedding_model]), [
+    [null, null],
+    [[0.1, 0.2], "openai:text-embedding-3-small"],
+  ]);
+});
+
+Deno.test("responseCacheStoreStage stores a missed lookup only when every candidate is verified", async () => {
+  const verified = cacheContext("who sang yesterday");
+  await responseCacheLookupStage.run(verified.ctx);
+  assertEquals(verified.ctx.cacheHit, false);
+  verified.ctx.aiResult = cached.aiResult;
+  verified.ctx.finalCandidates = cached.finalCandidates;
+
+  await responseCacheStoreStage.run(verified.ctx);
+
+  const [stored] = rpcs(verified.queries, "store_response_cache");
+  assertEquals(stored.p_query_key, "who sang yesterday");
+  assertEquals(stored.p_embedding, [0.1, 0.2]);
+  assertEquals(stored.p_response, cached);
+
+  const unverified = cacheContext("who sang yesterday");
+  await responseCacheLookupStage.run(unverified.ctx);
+  unverified.ctx.aiResult = cached.aiResult;
+  unverified.ctx.finalCandidates = [candidate("Yesterday", "verified"), candidate("Yesterday Once More", "unverified")];
+
+  await responseCacheStoreStage.run(unverified.ctx);
+
+  assertEquals(rpcs(unverified.queries, "store_response_cache"), []);
+});
+
+Deno.test("responseCacheLookupStage bypasses the cache for voice and image input and for ongoing threads", async () => {
+  const voice = cacheContext("who sang yesterday", { exact: true }, { input_type: "voice" });
+  const image = cacheContext("who sang yesterday", { exact: true }, { input_type: "image" });
+  const thread = cacheContext("who sang yesterday", { exact: true });
+  thread.ctx.conversation.state.messageCount = 2;
+
+  for (const { ctx } of [voice, image, thread]) {
+    await responseCacheLookupStage.run(ctx);
+    assertEquals(ctx.cacheHit, false);
+    assertEquals(ctx.cacheLookup, null);
+  }
+
+  assertEquals([voice, image, thread].map(({ queries }) => rpcs(queries, "lookup_response_cache").length), [0, 0, 0]);
+  assertEquals([voice, image, thread].map(({ queries }) => logged(queries).map((l) => [l.status, (l.metadata as Record<string, unknown>).reason])), [
+    [["bypass", "voice_input"]],
+    [["bypass", "image_input"]],
+    [["bypass", "thread_context"]],
+  ]);
+
+  // Without a lookup there is nothing to store
+  thread.ctx.aiResult = cached.aiResult;
+  thread.ctx.finalCandidates = cached.finalCandidates;
+  await responseCacheStoreStage.run(thread.ctx);
+  assertEquals(rpcs(thread.queries, "store_response_cache"), []);
+});
@@ -0,0 +1,41 @@
+// Stage: track resolution
+// Resolves the validated candidates to canonical tracks (ISRC, streaming ids and links, artwork),
+// renames them to the catalog's spelling and merges candidates that are the same track.
+
+import { resolveCandidates } from "../../_shared/tracks/resolver.ts";
+import type { ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import type { Candidate } from "../types.ts";
+
+// Candidates go out without catalog metadata rather than hold up the response
+export const TRACK_RESOLUTION_DEADLINE_MS = 8000;
+
+export const trackResolutionStage: ResolveStage = {
+  name: "track_resolution",
+  skipOnCacheHit: true,
+  async run(ctx: ResolveContext) {
+    if (ctx.finalCandidates.length === 0) {
+      return;
+    }
+
+    const { requestId } = ctx;
+    const resolveTime = Date.now();
+    ctx.finalCandidates = (await resolveCandidates(ctx.tracks, ctx.finalCandidates, {
+      signal: AbortSignal.timeout(TRACK_RESOLUTION_DEADLINE_MS),
+      merge: mergeCandidates,
+    })).sort((a, b) => b.confidence - a.confidence);
+
+    const resolved = ctx.finalCandidates.filter((c) => c.track).length;
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Track resolution: ${Date.now() - resolveTime}ms (${resolved}/${ctx.finalCandidates.length} resolved)`);
+  },
+};
+
+// Two spellings of the same track: keep the more confident one and pool the evidence
+export function mergeCandidates(kept: Candidate, duplicate: Candidate): Candidate {
+  return {
+    ...kept,
+    background: kept.background || duplicate.background,
+    highlight_snippet: kept.highlight_snippet || duplicate.highlight_snippet,
+    source_urls: [...new Set([...kept.source_urls, ...duplicate.source_urls])],
+  };
+}
@@ -0,0 +1,42 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { Candidate } from "../types.ts";
+import { fakeResolveContext, fakeResolveDeps, fakeTrack, fakeTracks } from "../testing.ts";
+import { trackResolutionStage } from "./trackResolution.ts";
+
+Deno.test("trackResolutionStage renames candidates to the catalog's spelling and merges duplicates", async () => {
+  const tracks = fakeTracks((query) =>
+    query.title.toLowerCase().startsWith("smells")
+      ? { track: fakeTrack("nirvana-1", "Smells Like Teen Spirit", "Nirvana"), status: "resolved" }
+      : { track: null, status: "not_found" }
+  );
+  const ctx = fakeResolveContext(fakeResolveDeps({ tracks }));
+  ctx.finalCandidates = [
+    { title: "Unknown Demo", artist: "Someone", confidence: 0.9, reason: "", source_urls: [] },
+    { title: "Smells like teen spirit", artist: "nirvana", confidence: 0.8, reason: "", source_urls: ["https://a.example"] },
+    { title: "Smells Like Teen Spirit (Live)", artist: "Nirvana", confidence: 0.6, reason: "", source_urls: ["https://b.example"], background: "live take" },
+  ] as Candidate[];
+
+  await trackResolutionStage.run(ctx);
+
+  assertEquals(ctx.finalCandidates.map((c) => [c.title, c.artist, c.catalog_status]), [
+    ["Unknown Demo", "Someone", "not_found"],
+    ["Smells Like Teen Spirit", "Nirvana", "resolved"],
+  ]);
+  const merged = ctx.finalCandidates[1];
+  assertEquals(merged.confidence, 0.8);
+  assertEquals(merged.source_urls, ["https://a.example", "https://b.example"]);
+  assertEquals(merged.background, "live take");
+});
+
+Deno.test("trackResolutionStage skips the resolver without candidates", async () => {
+  let called = false;
+  const tracks = fakeTracks(() => {
+    called = true;
+    return { track: null, status: "unavailable" };
+  });
+  const ctx = fakeResolveContext(fakeResolveDeps({ tracks }));
+
+  await trackResolutionStage.run(ctx);
+
+  assertEquals(called, false);
+});
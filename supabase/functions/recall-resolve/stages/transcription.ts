@@ -0,0 +1,192 @@
+// Stage: transcription
+// Turns media into text: the transcribe model for voice notes and video audio, the OCR (vision) model for images.
+// Voice audio is kept on the context for the recognition stage.
+
+import { preprocessAudio } from "../../_shared/audio.ts";
+import { encodeBase64Stream } from "../../_shared/base64.ts";
+import { updateStatusMessage, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+
+const IMAGE_FALLBACK_QUERY = "Image uploaded - searching for matching songs";
+
+export const transcriptionStage: ResolveStage = {
+  name: "transcription",
+  async run(ctx: ResolveContext) {
+    const { input_type, audio_path } = ctx.request;
+
+    if (input_type === "voice" && ctx.mediaPath) {
+      await transcribeVoice(ctx);
+    }
+
+    // If video with separate audio path, transcribe that audio
+    if (audio_path && !ctx.audioTranscription && ctx.llm.isConfigured()) {
+      await transcribeVideoAudio(ctx, audio_path);
+    }
+
+    if (input_type === "image") {
+      await describeImage(ctx);
+    }
+  },
+};
+
+async function transcribeVoice(ctx: ResolveContext): Promise<void> {
+  const { requestId, supabase } = ctx;
+  const { message_id, video_path } = ctx.request;
+  const mediaPath = ctx.mediaPath!;
+
+  try {
+    console.log(`🎤 [RECALL-RESOLVE] [${requestId}] Starting intelligent voice processing...`);
+    console.log(`📊 [RECALL-RESOLVE] [${requestId}] Audio path: ${mediaPath}, video_path=${!!video_path}`);
+
+    // Get audio file
+    const bucket = video_path ? "recall-images" : "recall-audio";
+    const urlStartTime = Date.now();
+    const { data: signedUrlData, error: urlError } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(mediaPath, 3600);
+
+    if (urlError || !signedUrlData) {
+      console.log(`❌ [RECALL-RESOLVE] [${requestId}] Failed to create signed URL: ${urlError?.message || "No data"}`);
+      throw new Error("Failed to create signed URL for audio");
+    }
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Signed URL created in ${Date.now() - urlStartTime}ms`);
+
+    const downloadStartTime = Date.now();
+    const audioResponse = await ctx.fetch(signedUrlData.signedUrl);
+    const audioBlob = await audioResponse.blob();
+    const audioArrayBuffer = await audioBlob.arrayBuffer();
+    const downloadDuration = Date.now() - downloadStartTime;
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Audio downloaded in ${downloadDuration}ms: ${audioArrayBuffer.byteLength} bytes`);
+    ctx.audioBlob = audioBlob;
+    ctx.audioBuffer = audioArrayBuffer;
+    ctx.preprocessedAudio = await preprocessAudio(audioArrayBuffer);
+    console.log(`🎚️ [RECALL-RESOLVE] [${requestId}] Audio ${ctx.preprocessedAudio.container}/${ctx.preprocessedAudio.codec ?? "undecoded"}: ${ctx.preprocessedAudio.segments.length} segment(s) for recognition`);
+
+    // ALWAYS transcribe first to understand user intent
+    const transcriptionStartTime = Date.now();
+    console.log(`📝 [RECALL-RESOLVE] [${requestId}] Transcribing with Whisper...`);
+
+    if (ctx.llm.isConfigured()) {
+      try {
+        ctx.audioTranscription = await ctx.llm.transcribe(ctx.preprocessedAudio.transcriptionFile);
+        const transcriptionDuration = Date.now() - transcriptionStartTime;
+        console.log(`✅ [RECALL-RESOLVE] [${requestId}] Transcription completed in ${transcriptionDuration}ms`);
+        console.log(`📝 [RECALL-RESOLVE] [${requestId}] Transcription: "${ctx.audioTranscription}"`);
+        ctx.emit("transcription", { text: ctx.audioTranscription, source: "voice" });
+
+        await updateStatusMessage(ctx, "Understanding...");
+      } catch (transcriptionError) {
+        const transcriptionDuration = Date.now() - transcriptionStartTime;
+        console.error(`❌ [RECALL-RESOLVE] [${requestId}] Transcription error after ${transcriptionDuration}ms:`, transcriptionError);
+        // Continue without transcription - will use audio recognition
+      }
+    } else {
+      console.warn(`⚠️ [RECALL-RESOLVE] [${requestId}] LLM API key not configured, skipping transcription`);
+    }
+
+    // Update user message with transcription (always update, even if empty, to show status)
+    try {
+      await supabase
+        .from("recall_messages")
+        .update({ text: ctx.audioTranscription || "Processing audio..." })
+        .eq("id", message_id);
+      console.log(`✅ Updated user message with transcription: "${ctx.audioTranscription || 'Processing...'}"`);
+    } catch (updateError) {
+      console.error("❌ Failed to update user message with transcription:", updateError);
+      // Continue processing even if update fails
+    }
+  } catch (error) {
+    console.error("❌ Voice processing error:", error);
+    // Preserve transcription if we have it, even on error
+    ctx.queryText = ctx.audioTranscription
+      || "I had trouble processing the audio. Could you try again or describe what you're looking for?";
+  }
+}
+
+async function transcribeVideoAudio(ctx: ResolveContext, audioPath: string): Promise<void> {
+  try {
+    // Get signed URL for audio file
+    const { data: signedUrlData, error: urlError } = await ctx.supabase.storage
+      .from("recall-audio")
+      .createSignedUrl(audioPath, 3600);
+
+    if (!urlError && signedUrlData) {
+      // Download audio file
+      const audioResponse = await ctx.fetch(signedUrlData.signedUrl);
+      const audioBlob = await audioResponse.blob();
+
+      ctx.audioTranscription = await ctx.llm.transcribe({ data: audioBlob, filename: "audio.m4a", mimeType: "audio/m4a" });
+      console.log(`✅ Video audio transcription: "${ctx.audioTranscription}"`);
+      ctx.emit("transcription", { text: ctx.audioTranscription, source: "video" });
+    }
+  } catch (error) {
+    console.error("Error transcribing video audio:", error);
+    // Continue without transcription if it fails
+  }
+}
+
+// Uses GPT vision (OCR/description) when no query text was provided with the image
+async function describeImage(ctx: ResolveContext): Promise<void> {
+  const { requestId } = ctx;
+  const { media_path } = ctx.request;
+
+  if (ctx.queryText && ctx.queryText.trim().length > 0) {
+    // Client provided OCR or caption
+    console.log(`📷 [RECALL-RESOLVE] [${requestId}] Using provided text from image: "${ctx.queryText.substring(0, 100)}..."`);
+    return;
+  }
+
+  if (!media_path || !ctx.llm.isConfigured() || ctx.audioTranscription) {
+    if (!ctx.audioTranscription) {
+      ctx.queryText = IMAGE_FALLBACK_QUERY;
+    }
+    return;
+  }
+
+  try {
+    await updateStatusMessage(ctx, "Reading image...");
+
+    const imageBucket = "recall-images";
+    const { data: signedUrlData, error: urlError } = await ctx.supabase.storage
+      .from(imageBucket)
+      .createSignedUrl(media_path, 3600);
+
+    if (urlError || !signedUrlData?.signedUrl) {
+      console.log(`❌ [RECALL-RESOLVE] [${requestId}] Failed to get signed URL for image: ${urlError?.message || "No data"}`);
+      ctx.queryText = IMAGE_FALLBACK_QUERY;
+      return;
+    }
+
+    const imageResponse = await ctx.fetch(signedUrlData.signedUrl);
+    if (!imageResponse.ok || !imageResponse.body) {
+      throw new Error(`Image download failed with status ${imageResponse.status}`);
+    }
+    const base64Image = await encodeBase64Stream(imageResponse.body);
+
+    const visionPrompt = `Describe this image and extract all visible text (OCR). If it shows album art, lyrics, a playlist, song title, artist name, or anything music-related, include every word you can see. Output only the description and extracted text in one block, nothing else.`;
+
+    const { content } = await ctx.llm.chat("ocr", [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: visionPrompt },
+          {
+            type: "image_url",
+            image_url: { url: `data:image/jpeg;base64,${base64Image}` },
+          },
+        ],
+      },
+    ], { maxTokens: 1024 });
+
+    const visionText = (content || "").trim();
+    if (visionText.length > 0) {
+      ctx.queryText = visionText;
+      console.log(`📷 [RECALL-RESOLVE] [${requestId}] GPT vision OCR/description: "${ctx.queryText.substring(0, 120)}..."`);
+    } else {
+      ctx.queryText = IMAGE_FALLBACK_QUERY;
+    }
+  } catch (visionError) {
+    console.error(`❌ [RECALL-RESOLVE] [${requestId}] Image vision error:`, visionError);
+    ctx.queryText = IMAGE_FALLBACK_QUERY;
+  }
+}
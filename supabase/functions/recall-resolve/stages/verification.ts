@@ -0,0 +1,133 @@
+// Stage: verification
+// Guards against invented songs and links. The model has no browsing here, so a candidate is only
+// shown as found when a music catalog has it (track resolution stage) or a reputable page it cites
+// resolves. Cited URLs that do not resolve are removed; unverifiable candidates are down-ranked,
+// and songs no catalog has and no page backs up are dropped. Every decision is logged to recall_logs.
+
+import { errorEnvelope } from "../../_shared/errors.ts";
+import { validateSource } from "../../_shared/sources.ts";
+import { failWithStatus, type ResolveContext } from "../context.ts";
+import type { ResolveStage } from "../pipeline.ts";
+import type { Candidate, CandidateVerification } from "../types.ts";
+
+// Cited URLs checked per candidate; the rest are discarded unchecked
+const MAX_URLS_PER_CANDIDATE = 5;
+
+// Confidence multipliers for candidates that could not be verified
+const NOT_IN_CATALOG_PENALTY = 0.5; // Every catalog answered, none has it, but a cited page exists
+const UNVERIFIED_PENALTY = 0.6; // Catalogs could not be asked and no reputable page backs it up
+
+export const verificationStage: ResolveStage = {
+  name: "verification",
+  skipOnCacheHit: true,
+  async run(ctx: ResolveContext) {
+    if (ctx.finalCandidates.length === 0) {
+      return;
+    }
+
+    const { requestId } = ctx;
+    const aiResult = ctx.aiResult!;
+    const verifyTime = Date.now();
+    const checked = await Promise.all(ctx.finalCandidates.map((candidate) => verifyCandidate(ctx, candidate)));
+    const duration = Date.now() - verifyTime;
+
+    for (const candidate of checked) {
+      const { status, reasons } = candidate.verification!;
+      console.log(`🛡️ [RECALL-RESOLVE] [${requestId}] "${candidate.title}" by ${candidate.artist}: ${status}${reasons.length > 0 ? ` (${reasons.join("; ")})` : ""}`);
+    }
+    await logVerification(ctx, checked, duration);
+
+    const kept = checked
+      .filter((candidate) => candidate.verification!.status !== "rejected")
+      .sort((a, b) => b.confidence - a.confidence);
+    console.log(`⏱️ [RECALL-RESOLVE] [${requestId}] Verification: ${duration}ms (kept ${kept.length}/${checked.length})`);
+
+    // The overall confidence cannot exceed what survived verification
+    if (checked.some((candidate) => candidate.verification!.status !== "verified") && aiResult.response_type !== "answer") {
+      aiResult.overall_confidence = Math.min(aiResult.overall_confidence, kept[0]?.confidence ?? 0);
+    }
+
+    if (kept.length === 0 && !aiResult.answer?.text) {
+      console.log(`⚠️ [RECALL-RESOLVE] [${requestId}] No candidate survived verification`);
+      await failWithStatus(ctx, "No matches found", errorEnvelope("not_found", "No verifiable candidates found", { extra: { status: "failed" } }), 200);
+      return;
+    }
+
+    ctx.finalCandidates = kept;
+  },
+};
+
+async function verifyCandidate(ctx: ResolveContext, candidate: Candidate): Promise<Candidate> {
+  const urls = [...new Set(candidate.source_urls)].slice(0, MAX_URLS_PER_CANDIDATE);
+  const sources = await Promise.all(urls.map((url) => validateSource(url, ctx.fetch)));
+  const resolvedUrls = urls.filter((_, i) => sources[i] !== null);
+  const reputable = sources.some((source) => source?.verified);
+  const catalog = candidate.catalog_status ?? "unavailable";
+
+  const reasons: string[] = [];
+  if (resolvedUrls.length < candidate.source_urls.length) {
+    reasons.push(`${candidate.source_urls.length - resolvedUrls.length} of ${candidate.source_urls.length} source URLs removed (did not resolve or not checked)`);
+  }
+
+  let status: CandidateVerification["status"];
+  let confidence = candidate.confidence;
+  if (catalog === "resolved") {
+    status = "verified";
+  } else if (catalog === "not_found") {
+    if (resolvedUrls.length === 0) {
+      status = "rejected";
+      reasons.push("Not found in any music catalog and no cited source resolves");
+    } else {
+      status = "unverified";
+      confidence *= NOT_IN_CATALOG_PENALTY;
+      reasons.push("Not found in any music catalog");
+    }
+  } else if (reputable) {
+    status = "verified";
+    reasons.push("Catalog lookup unavailable; backed by a reputable source");
+  } else {
+    status = "unverified";
+    confidence *= UNVERIFIED_PENALTY;
+    reasons.push("Catalog lookup unavailable and no reputable source resolves");
+  }
+
+  return {
+    ...candidate,
+    confidence: Math.round(confidence * 100) / 100,
+    source_urls: resolvedUrls,
+    verification: {
+      status,
+      catalog,
+      urls_checked: urls.length,
+      urls_resolved: resolvedUrls.length,
+      original_confidence: candidate.confidence,
+      reasons,
+    },
+  };
+}
+
+async function logVerification(ctx: ResolveContext, candidates: Candidate[], durationMs: number): Promise<void> {
+  const { error } = await ctx.supabase
+    .from("recall_logs")
+    .insert({
+      request_id: ctx.requestId,
+      user_id: ctx.userMessage?.user_id ?? null,
+      operation: "candidate_verification",
+      duration_ms: durationMs,
+      status: "success",
+      metadata: {
+        thread_id: ctx.request.thread_id,
+        candidates: candidates.map((candidate) => ({
+          title: candidate.title,
+          artist: candidate.artist,
+          track_id: candidate.track?.id ?? null,
+          confidence: candidate.confidence,
+          ...candidate.verification,
+        })),
+      },
+    });
+
+  if (error) {
+    console.error(`❌ [RECALL-RESOLVE] [${ctx.requestId}] Failed to log candidate verification:`, error.message);
+  }
+}
@@ -0,0 +1,108 @@
+// Server-Sent Events support for recall-resolve
+
+import { corsHeaders } from "../_shared/cors.ts";
+import { errorEnvelope, errorMessage } from "../_shared/errors.ts";
+import type { EmitFn, RecallResolveRequest } from "./types.ts";
+
+// JSON clients get a no-op emitter so both modes run the exact same resolve flow
+export const noopEmit: EmitFn = () => {};
+
+export function wantsEventStream(req: Request, body: RecallResolveRequest): boolean {
+  if (body.stream === true) return true;
+  const accept = req.headers.get("Accept") || "";
+  return accept.includes("text/event-stream");
+}
+
+// Runs the resolve flow and forwards its events as SSE frames.
+// The final Response body is sent as the `done` event (with its HTTP status) before the stream closes.
+export function streamResolveResponse(run: (emit: EmitFn) => Promise<Response>): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const emit: EmitFn = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch (error) {
+          // Client went away - keep resolving so the thread still gets persisted
+          console.warn(`⚠️ [SSE] Failed to write ${event} event, client likely disconnected:`, error);
+          closed = true;
+        }
+      };
+
+      try {
+        const response = await run(emit);
+        const payload = await response.json().catch(() => ({}));
+        emit("done", { http_status: response.status, ...payload });
+      } catch (error) {
+        console.error("❌ [SSE] Error in streamed recall-resolve:", error);
+        emit("done", {
+          http_status: 500,
+          ...errorEnvelope("internal_error", "Internal server error", {
+            details: errorMessage(error),
+            extra: { status: "failed" },
+          }),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch (_) {
+            // Already closed by the runtime
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+// Extracts the (possibly still incomplete) value of answer.text from partial JSON output,
+// so answer text can be streamed to the client while the model is still generating.
+export function extractPartialAnswerText(content: string): string {
+  const match = /"answer"\s*:\s*\{[\s\S]*?"text"\s*:\s*"/.exec(content);
+  if (!match) return "";
+
+  let text = "";
+  let i = match.index + match[0].length;
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      text += char;
+      i++;
+      continue;
+    }
+
+    // Escape sequence - stop if it is cut off mid-stream
+    const next = content[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = content.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+    text += escapes[next] ?? next;
+    i += 2;
+  }
+  // Hold back the first half of a surrogate pair (an emoji) until its second \u escape arrives
+  return /[\uD800-\uDBFF]$/.test(text) ? text.slice(0, -1) : text;
+}
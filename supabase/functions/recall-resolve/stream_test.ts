@@ -0,0 +1,94 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { jsonResponse } from "../_shared/cors.ts";
+import { extractPartialAnswerText, streamResolveResponse } from "./stream.ts";
+
+// Splits an SSE body into its events, checking every frame is `event:` and `data:` lines ending in a blank line
+function frames(body: string): Array<{ event: string; data: Record<string, unknown> }> {
+  assertEquals(body.endsWith("\n\n"), true);
+  return body.slice(0, -2).split("\n\n").map((frame) => {
+    const [event, data, ...rest] = frame.split("\n");
+    assertEquals(rest, []);
+    assertEquals(event.startsWith("event: ") && data.startsWith("data: "), true, frame);
+    return { event: event.slice(7), data: JSON.parse(data.slice(6)) };
+  });
+}
+
+Deno.test("extractPartialAnswerText reads answer.text as it streams in", () => {
+  assertEquals(extractPartialAnswerText('{"response_type":"answer","candidates":[]'), "");
+  assertEquals(extractPartialAnswerText('{"answer": {"text": "It was released'), "It was released");
+  assertEquals(extractPartialAnswerText('{"answer":{"text":"It was released in 1965.","sources":[]}}'), "It was released in 1965.");
+});
+
+Deno.test("extractPartialAnswerText unescapes quotes and control escapes", () => {
+  const json = JSON.stringify({ answer: { text: 'They called it "Scrambled Eggs"\nat first \\ really' } });
+  assertEquals(extractPartialAnswerText(json), 'They called it "Scrambled Eggs"\nat first \\ really');
+  // A backslash at the end of a chunk waits for the character it escapes
+  assertEquals(extractPartialAnswerText('{"answer":{"text":"called it \\'), "called it ");
+  assertEquals(extractPartialAnswerText('{"answer":{"text":"called it \\"'), 'called it "');
+});
+
+Deno.test("extractPartialAnswerText waits for unicode escapes split across chunks", () => {
+  const full = '{"answer":{"text":"caf\\u00e9 \\ud83c\\udfb5 song"}}';
+  const cuts = [
+    ['{"answer":{"text":"caf\\u00', "caf"],
+    ['{"answer":{"text":"caf\\u00e9 ', "café "],
+    ['{"answer":{"text":"caf\\u00e9 \\ud83c', "café "],
+    ['{"answer":{"text":"caf\\u00e9 \\ud83c\\udf', "café "],
+    [full, "café 🎵 song"],
+  ];
+  for (const [partial, expected] of cuts) {
+    assertEquals(extractPartialAnswerText(partial), expected, partial);
+  }
+});
+
+Deno.test("streamResolveResponse frames every event and ends with the response as done", async () => {
+  const response = streamResolveResponse(async (emit) => {
+    emit("intent", { type: "search" });
+    emit("answer_delta", { text: "line one\nline two" });
+    await Promise.resolve();
+    return jsonResponse({ status: "completed", candidates: [] }, 201);
+  });
+
+  assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+  assertEquals(frames(await response.text()), [
+    { event: "intent", data: { type: "search" } },
+    { event: "answer_delta", data: { text: "line one\nline two" } },
+    { event: "done", data: { http_status: 201, status: "completed", candidates: [] } },
+  ]);
+});
+
+Deno.test("streamResolveResponse turns a thrown error into a 500 done event", async () => {
+  const response = streamResolveResponse((emit) => {
+    emit("intent", { type: "search" });
+    return Promise.reject(new Error("resolver exploded"));
+  });
+
+  const [intent, done] = frames(await response.text());
+  assertEquals(intent.event, "intent");
+  assertEquals(done.event, "done");
+  assertEquals(done.data.http_status, 500);
+  assertEquals(done.data.code, "internal_error");
+  assertEquals(done.data.status, "failed");
+});
+
+Deno.test("streamResolveResponse keeps resolving after the client disconnects", async () => {
+  let finished = false;
+  let resume!: () => void;
+  const resumed = new Promise<void>((resolve) => resume = resolve);
+  const response = streamResolveResponse(async (emit) => {
+    emit("intent", { type: "search" });
+    await resumed;
+    emit("candidate", { title: "Yesterday" });
+    finished = true;
+    return jsonResponse({ status: "completed" });
+  });
+
+  const reader = response.body!.getReader();
+  const first = new TextDecoder().decode((await reader.read()).value);
+  assertEquals(frames(first).map((f) => f.event), ["intent"]);
+  await reader.cancel();
+  resume();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  assertEquals(finished, true);
+});
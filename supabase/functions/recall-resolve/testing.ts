@@ -0,0 +1,174 @@
+// Test doubles for the recall-resolve stages (see the *_test.ts files). fakeResolveDeps fills every
+// ResolveDeps member with an in-memory stand-in; tests override the ones the stage under test calls.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { PreprocessedAudio } from "../_shared/audio.ts";
+import type { LlmClient } from "../_shared/llm.ts";
+import type { RecognitionRegistry, SelectedProvider } from "../_shared/recognition/registry.ts";
+import type { StructuredOutput, StructuredResult } from "../_shared/structured.ts";
+import type { CanonicalTrack, TrackQuery, TrackResolution } from "../_shared/tracks/types.ts";
+import type { TrackResolver } from "../_shared/tracks/resolver.ts";
+import { createResolveContext, type ResolveContext, type ResolveDeps } from "./context.ts";
+import type { AudioRecognitionResult, RecallResolveRequest, ResolveStreamEvent } from "./types.ts";
+
+// One query built against the fake client, as the stage left it when awaiting it
+export interface RecordedQuery {
+  table: string;
+  operation: "select" | "insert" | "update" | "upsert" | "delete" | "rpc";
+  values?: unknown;
+  filters: Array<[string, ...unknown[]]>;
+}
+
+export type QueryResult = { data: unknown; error: { message: string; code?: string } | null };
+
+// A Supabase client whose queries resolve to `respond(query)` (no rows by default) and are kept in `queries`
+export function fakeSupabase(respond: (query: RecordedQuery) => QueryResult = () => ({ data: null, error: null })) {
+  const queries: RecordedQuery[] = [];
+
+  const builder = (query: RecordedQuery) => {
+    const chain: Record<string, unknown> = {
+      then: (resolve: (result: QueryResult) => unknown, reject?: (error: unknown) => unknown) => {
+        queries.push(query);
+        return Promise.resolve(respond(query)).then(resolve, reject);
+      },
+    };
+    for (const operation of ["select", "insert", "update", "upsert", "delete"] as const) {
+      chain[operation] = (values?: unknown) => {
+        // select() after a write only shapes the returned rows
+        if (operation !== "select" || query.operation === "select") {
+          query.operation = operation;
+          if (operation !== "select" && operation !== "delete") query.values = values;
+        }
+        return chain;
+      };
+    }
+    for (const filter of ["eq", "neq", "gt", "gte", "lt", "lte", "in", "is", "match", "order", "limit", "range", "single", "maybeSingle"]) {
+      chain[filter] = (...args: unknown[]) => {
+        query.filters.push([filter, ...args]);
+        return chain;
+      };
+    }
+    return chain;
+  };
+
+  const client = {
+    from: (table: string) => builder({ table, operation: "select", filters: [] }),
+    rpc: (name: string, values?: unknown) => builder({ table: name, operation: "rpc", values, filters: [] }),
+  };
+  return { client: client as unknown as SupabaseClient, queries };
+}
+
+// An LLM client that answers structured calls with `structured` and reports itself configured
+export function fakeLlm(
+  structured: (task: string, output: StructuredOutput<unknown>) => StructuredResult<unknown> = (_, output) =>
+    ({ value: output.fallback([]), status: "fallback" }),
+  options: { configured?: boolean } = {}
+): { llm: LlmClient; calls: string[] } {
+  const calls: string[] = [];
+  const llm = {
+    isConfigured: () => options.configured ?? true,
+    routes: () => [{ provider: "openai", model: "fake-model", baseUrl: "", apiKey: "" }],
+    structured: (task: string, output: StructuredOutput<unknown>) => {
+      calls.push(task);
+      return Promise.resolve(structured(task, output));
+    },
+    chat: () => Promise.reject(new Error("chat is not faked")),
+    transcribe: () => Promise.reject(new Error("transcribe is not faked")),
+    embed: () => Promise.reject(new Error("embed is not faked")),
+  };
+  return { llm: llm as unknown as LlmClient, calls };
+}
+
+// A registry with one fingerprint provider per result, each returning its result
+export function fakeRecognition(results: AudioRecognitionResult[] = []): RecognitionRegistry {
+  const selected = results.map((result, i) => ({
+    provider: { id: result.service, kind: "fingerprint", isConfigured: () => true },
+    config: { provider: result.service, priority: i, accept_confidence: null },
+  }) as unknown as SelectedProvider);
+  const registry = {
+    select: () => Promise.resolve(selected),
+    runAll: () => Promise.resolve({ results, acceptedBy: null }),
+  };
+  return registry as unknown as RecognitionRegistry;
+}
+
+// A track resolver that answers every query with `resolve(query)` (unavailable by default)
+export function fakeTracks(
+  resolve: (query: TrackQuery) => TrackResolution = () => ({ track: null, status: "unavailable" })
+): TrackResolver {
+  const resolver = {
+    resolveAll: (queries: TrackQuery[]) => Promise.resolve(queries.map(resolve)),
+    resolve: (query: TrackQuery) => Promise.resolve(resolve(query)),
+  };
+  return resolver as unknown as TrackResolver;
+}
+
+export function fakeTrack(id: string, title: string, artist: string, overrides: Partial<CanonicalTrack> = {}): CanonicalTrack {
+  return {
+    id,
+    title,
+    artist,
+    album: null,
+    isrc: null,
+    spotify_id: null,
+    apple_music_id: null,
+    duration_ms: null,
+    artwork_url: null,
+    release_date: null,
+    spotify_url: `https://open.spotify.com/track/${id}`,
+    apple_music_url: null,
+    ...overrides,
+  };
+}
+
+export interface FakeResolveDeps extends ResolveDeps {
+  queries: RecordedQuery[];
+  events: Array<{ event: ResolveStreamEvent; data: unknown }>;
+}
+
+export function fakeResolveDeps(overrides: Partial<ResolveDeps> = {}): FakeResolveDeps {
+  const { client, queries } = fakeSupabase();
+  const events: FakeResolveDeps["events"] = [];
+  return {
+    supabase: client,
+    fetch: () => Promise.reject(new Error("fetch is not faked")),
+    env: () => undefined,
+    llm: fakeLlm().llm,
+    recognition: fakeRecognition(),
+    tracks: fakeTracks(),
+    emit: (event, data) => events.push({ event, data }),
+    ...overrides,
+    queries,
+    events,
+  };
+}
+
+export function fakeResolveContext(
+  deps: ResolveDeps = fakeResolveDeps(),
+  request: Partial<RecallResolveRequest> = {}
+): ResolveContext {
+  const ctx = createResolveContext(deps, {
+    thread_id: "thread-1",
+    message_id: "message-1",
+    input_type: "text",
+    text: "",
+    ...request,
+  }, "test-request");
+  ctx.userMessage = { id: "message-1", user_id: "user-1", thread_id: "thread-1" };
+  ctx.statusMessageId = "status-1";
+  return ctx;
+}
+
+// Undecoded audio passed through whole, as preprocessAudio returns for an unparsed upload
+export function fakeAudio(byteLength = 1000): PreprocessedAudio {
+  const data = new ArrayBuffer(byteLength);
+  return {
+    container: "unknown",
+    codec: null,
+    durationSeconds: null,
+    audibleStartSeconds: null,
+    audibleEndSeconds: null,
+    segments: [{ data, format: "m4a", mimeType: "audio/m4a", startSeconds: 0, durationSeconds: null }],
+    transcriptionFile: { data, filename: "audio.m4a", mimeType: "audio/m4a", durationSeconds: null },
+  };
+}
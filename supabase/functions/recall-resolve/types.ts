@@ -0,0 +1,147 @@
+// Shared types for the recall-resolve pipeline
+
+import type { CanonicalTrack, TrackLookupStatus } from "../_shared/tracks/types.ts";
+
+export interface RecallResolveRequest {
+  thread_id: string;
+  message_id: string;
+  input_type: "text" | "voice" | "image";
+  text?: string;
+  media_path?: string;
+  audio_path?: string;
+  video_path?: string;
+  stream?: boolean; // Opt-in Server-Sent Events response (also enabled by Accept: text/event-stream)
+}
+
+// Schema: VOICE_INTENT_OUTPUT (schemas.ts)
+export interface VoiceIntent {
+  type: "conversation" | "information" | "find_song" | "generate_song" | "humming" | "background_audio" | "unclear";
+  confidence: number;
+  reasoning: string;
+}
+
+export interface Candidate {
+  title: string;
+  artist: string;
+  confidence: number;
+  reason: string;
+  background?: string;
+  highlight_snippet?: string;
+  source_urls: string[];
+  track?: CanonicalTrack | null; // Set by the track resolution stage; null when no catalog has it
+  catalog_status?: TrackLookupStatus;
+  verification?: CandidateVerification; // Set by the verification stage
+}
+
+// Why the verification stage kept, down-ranked or dropped a candidate
+export interface CandidateVerification {
+  status: "verified" | "unverified" | "rejected"; // Rejected candidates are dropped
+  catalog: TrackLookupStatus;
+  urls_checked: number;
+  urls_resolved: number;
+  original_confidence: number;
+  reasons: string[];
+}
+
+// The LLM resolution reply. Schema: RECALL_RESPONSE_OUTPUT (schemas.ts)
+export interface OpenAIResponse {
+  response_type?: "search" | "answer" | "both";
+  overall_confidence: number;
+  candidates: Candidate[];
+  answer?: {
+    text: string;
+    sources: string[];
+    related_songs?: Array<{title: string; artist: string}>;
+  };
+  should_ask_crowd: boolean;
+  crowd_prompt?: string;
+  follow_up_question?: string;
+  conversation_state?: string;
+}
+
+// A verified result in response_cache (stages/responseCache.ts)
+export interface CachedResolve {
+  aiResult: OpenAIResponse;
+  finalCandidates: Candidate[];
+  answerText: string | null;
+  answerSources: string[];
+}
+
+export type { AudioRecognitionResult } from "../_shared/recognition/types.ts";
+export type { CanonicalTrack } from "../_shared/tracks/types.ts";
+
+// One detail about the song, with how sure the extractor is of it (0.0-1.0)
+export interface Slot<T> {
+  value: T;
+  confidence: number;
+}
+
+// What the user has said about the song they are looking for (slots.ts): one message's slots,
+// or the thread's merged facts. Schema: SLOT_EXTRACTION_OUTPUT (schemas.ts)
+export interface ExtractedInfo {
+  genre?: Slot<string>;
+  subGenre?: Slot<string>;
+  decade?: Slot<string>; // "1980s"
+  yearRange?: Slot<{from: number, to: number}>;
+  language?: Slot<string>; // Language of the lyrics
+  vocalistGender?: Slot<"male" | "female" | "mixed">;
+  artistType?: Slot<"solo" | "band">;
+  tempo?: Slot<"slow" | "medium" | "fast">;
+  mood?: Slot<string>;
+  instruments?: Slot<string[]>;
+  lyrics?: Slot<string>; // Remembered words, as the user gave them
+  whereHeard?: Slot<string>; // Radio, a film, an ad, TikTok, ...
+  artist?: Slot<string>; // A named artist or band
+  exclusions?: Slot<string[]>; // Negative constraints: "not rap", "not by Drake", "not the 2010s"
+}
+
+export type ConversationFlow = "initial" | "refining" | "found" | "general_question";
+
+export type QueryIntent = "search" | "question" | "both";
+
+// Per-thread memory persisted in recall_thread_states (conversationState.ts). Lists are oldest first.
+export interface ConversationState {
+  threadId: string;
+  userId: string;
+  facts: ExtractedInfo;
+  rejectedCandidates: Array<{title: string, artist: string}>;
+  identifiedSongs: Array<{title: string, artist: string}>;
+  questionsAsked: string[];
+  userAnswers: Array<{question: string, answer: string}>;
+  recentQueries: string[];
+  clarifications: string[];
+  pendingQuestion: string | null; // Last follow-up question, until the user answers it
+  flow: ConversationFlow;
+  messageCount: number; // User and assistant messages folded so far (status messages are skipped)
+  processedThrough: string | null; // created_at of the last folded message
+  summary: string | null; // Rolling summary of the turns before summarizedThrough
+  summarizedThrough: string | null;
+  summarizedCount: number;
+  version: number; // 0 until the state is first saved
+}
+
+// Everything the context building stage learns from the thread history
+export interface ConversationContext {
+  state: ConversationState;
+  previousMessages: any[]; // Messages after the summary, newest first
+  contextText: string;
+  rejectedCandidates: Array<{title: string, artist: string}>;
+  previousQueries: string[];
+  previousQuestions: string[];
+  userClarifications: string[];
+  userAnswers: Array<{question: string, answer: string}>;
+  extractedInfo: ExtractedInfo;
+  successfulIdentifications: Array<{title: string, artist: string}>;
+  conversationFlow: ConversationFlow;
+}
+
+export type ResolveStreamEvent =
+  | "transcription"
+  | "intent"
+  | "audio_match"
+  | "candidate"
+  | "answer_delta"
+  | "follow_up"
+  | "done";
+
+export type EmitFn = (event: ResolveStreamEvent, data: unknown) => void;
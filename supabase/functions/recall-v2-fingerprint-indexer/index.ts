@@ -0,0 +1,104 @@
+// Supabase Edge Function: recall-v2-fingerprint-indexer
+// Fingerprints catalog tracks (public albums) for local identification in recall-v2-identify
+// Deploy with: supabase functions deploy recall-v2-fingerprint-indexer
+// Can be triggered via cron; admin or service role only
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { decodePcmAudio } from "../_shared/audio.ts";
+import { requireAdmin } from "../_shared/auth.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorMessage, jsonError } from "../_shared/errors.ts";
+import { computeFingerprint, FINGERPRINT_ALGORITHM } from "../_shared/fingerprint.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+
+interface IndexRequest {
+  track_ids?: string[]; // Only these tracks (still skipped when already up to date)
+  limit?: number;
+}
+
+// Tracks per run; a three-minute track takes well under a second to fingerprint
+const DEFAULT_BATCH_SIZE = 10;
+const MAX_BATCH_SIZE = 50;
+// Shorter fingerprints cannot be matched reliably (about 2 seconds of audio)
+const MIN_FINGERPRINT_FRAMES = 16;
+
+type IndexOutcome = "indexed" | "unsupported" | "failed";
+
+serve(withCors(async (req) => {
+  if (req.method !== "POST") {
+    return jsonError("method_not_allowed", "Use POST", { headers: { "Allow": "POST, OPTIONS" } });
+  }
+
+  const supabase = serviceClient();
+  await requireAdmin(req, supabase);
+
+  const body: IndexRequest = await req.json().catch(() => ({}));
+  const limit = Math.min(Math.max(body.limit ?? DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+
+  const { data: pending, error } = await supabase.rpc("pending_track_fingerprints", {
+    p_algorithm: FINGERPRINT_ALGORITHM,
+    p_limit: limit,
+    p_track_ids: body.track_ids?.length ? body.track_ids : null,
+  });
+  if (error) throw error;
+
+  const counts: Record<IndexOutcome, number> = { indexed: 0, unsupported: 0, failed: 0 };
+  for (const track of (pending || []) as Array<{ track_id: string; audio_url: string }>) {
+    const outcome = await indexTrack(supabase, track.track_id, track.audio_url);
+    counts[outcome]++;
+  }
+
+  return jsonResponse({
+    status: "processed",
+    algorithm: FINGERPRINT_ALGORITHM,
+    tracks_processed: (pending || []).length,
+    ...counts
+  });
+}));
+
+async function indexTrack(supabase: any, trackId: string, audioUrl: string): Promise<IndexOutcome> {
+  const store = async (status: IndexOutcome, fields: { fingerprint?: number[]; duration?: number; error?: string }) => {
+    const { error } = await supabase.rpc("store_track_fingerprint", {
+      p_track_id: trackId,
+      p_algorithm: FINGERPRINT_ALGORITHM,
+      p_source_url: audioUrl,
+      p_status: status,
+      p_fingerprint: fields.fingerprint ?? null,
+      p_duration_seconds: fields.duration ?? null,
+      p_error: fields.error ?? null,
+    });
+    if (error) throw error;
+    return status;
+  };
+
+  try {
+    const response = await fetch(audioUrl, { signal: AbortSignal.timeout(30000) });
+    if (!response.ok) {
+      return await store("failed", { error: `Download failed (${response.status})` });
+    }
+
+    // Long AAC tracks are fingerprinted from their first five minutes
+    const audio = await decodePcmAudio(await response.arrayBuffer());
+    if (!audio) {
+      return await store("unsupported", { error: "Only wav, caf and AAC (m4a) audio can be fingerprinted" });
+    }
+
+    const fingerprint = computeFingerprint(audio.samples, audio.sampleRate);
+    const duration = audio.samples.length / audio.sampleRate;
+    if (fingerprint.length < MIN_FINGERPRINT_FRAMES) {
+      return await store("failed", { duration, error: "Audio too short to fingerprint" });
+    }
+
+    console.log(`Fingerprinted track ${trackId}: ${duration.toFixed(1)}s, ${fingerprint.length} frames`);
+    // Postgres INTEGER is signed; the codes are stored bit for bit
+    return await store("indexed", { fingerprint: Array.from(fingerprint, (code) => code | 0), duration });
+  } catch (error) {
+    console.error(`Failed to fingerprint track ${trackId}:`, error);
+    try {
+      return await store("failed", { error: errorMessage(error).substring(0, 500) });
+    } catch (storeError) {
+      console.error(`Failed to record fingerprint failure for track ${trackId}:`, storeError);
+      return "failed";
+    }
+  }
+}
@@ -1,21 +1,27 @@
 // Supabase Edge Function: recall-v2-identify
 // Identifies songs from audio (background, voice notes, humming)
 // Deploy with: supabase functions deploy recall-v2-identify
-// Requires: ACRCLOUD_ACCESS_KEY, ACRCLOUD_ACCESS_SECRET, SHAZAM_API_KEY, OPENAI_API_KEY
+// Requires: ACRCLOUD_ACCESS_KEY, ACRCLOUD_ACCESS_SECRET, SHAZAM_API_KEY, LLM_API_KEY or OPENAI_API_KEY (whisper provider)
+// Optional: ACRCLOUD_HUMMING_HOST, ACRCLOUD_HUMMING_ACCESS_KEY, ACRCLOUD_HUMMING_ACCESS_SECRET (humming project)
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { preprocessAudio } from "../_shared/audio.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+import { type RecallPublisher, recallPublisher } from "../_shared/realtime.ts";
+import { defaultRecognitionDeps, logRecognitionResults, RecognitionRegistry } from "../_shared/recognition/registry.ts";
+import type { AudioRecognitionResult } from "../_shared/recognition/types.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { songKey } from "../_shared/tracks/normalize.ts";
+import { UsageRecorder } from "../_shared/usage.ts";
 
 interface IdentifyRequest {
   job_id: string;
   recall_id: string;
   audio_path: string;
   input_type: "voice" | "background" | "hum";
+  query_text?: string; // What the user typed alongside the audio, if anything
+  follow_on?: Array<"knowledge" | "recommend">; // Steps the router planned after identification
   user_preferences?: {
     genre_preferences?: string[];
     artist_preferences?: string[];
@@ -23,17 +29,14 @@ interface IdentifyRequest {
   };
 }
 
-interface AudioRecognitionResult {
-  success: boolean;
-  title?: string;
-  artist?: string;
+// What one provider reported for a (possibly fused) candidate
+interface ProviderEvidence {
+  service: AudioRecognitionResult["service"];
+  title: string;
+  artist: string;
   confidence: number;
-  service: "acrcloud" | "shazam" | "whisper";
   reason?: string;
-  album?: string;
-  releaseDate?: string;
-  spotifyUrl?: string;
-  appleMusicUrl?: string;
+  segment_start_seconds?: number;
 }
 
 interface Candidate {
@@ -48,250 +51,128 @@ interface Candidate {
   release_date?: string;
   spotify_url?: string;
   apple_music_url?: string;
+  track_id?: string; // Our catalog's track, when the audio matched one
+  provider_evidence: ProviderEvidence[]; // Highest confidence first
 }
 
-// ACRCloud audio identification (best for humming)
-async function identifyAudioWithACRCloud(audioBuffer: ArrayBuffer): Promise<AudioRecognitionResult> {
-  const accessKey = Deno.env.get("ACRCLOUD_ACCESS_KEY");
-  const accessSecret = Deno.env.get("ACRCLOUD_ACCESS_SECRET");
-  const host = Deno.env.get("ACRCLOUD_HOST") || "identify-us-west-2.acrcloud.com";
+// Every provider is queried at once; any still running when this passes is abandoned as a miss
+const RECOGNITION_DEADLINE_MS = 45000;
 
-  if (!accessKey || !accessSecret) {
-    console.log("ACRCloud credentials not configured, skipping");
-    return { success: false, confidence: 0, service: "acrcloud" };
-  }
+// Candidates written to recall_candidates (ranks 1..N) and returned
+const MAX_CANDIDATES = 3;
 
-  try {
-    const formData = new FormData();
-    formData.append("sample", new Blob([audioBuffer], { type: "audio/m4a" }));
-    formData.append("sample_bytes", audioBuffer.byteLength.toString());
-    formData.append("access_key", accessKey);
-    formData.append("data_type", "audio");
-    formData.append("format", "m4a");
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-    const response = await fetch(`https://${host}/v1/identify`, {
-      method: "POST",
-      headers: {
-        "access-key": accessKey,
-        "access-secret": accessSecret,
-      },
-      body: formData,
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.error("ACRCloud API error:", response.status);
-      return { success: false, confidence: 0, service: "acrcloud" };
-    }
-
-    const data = await response.json();
-    
-    if (data.status?.code === 0 && data.metadata?.music && data.metadata.music.length > 0) {
-      const track = data.metadata.music[0];
-      const confidence = track.score ? track.score / 100 : 0.8;
-      
-      return {
-        success: true,
-        title: track.title,
-        artist: track.artists?.[0]?.name || track.artists?.[0],
-        confidence: Math.min(confidence, 1.0),
-        service: "acrcloud",
-        reason: `Identified via ACRCloud audio fingerprinting`,
-        album: track.album?.name,
-        releaseDate: track.release_date,
-        spotifyUrl: track.external_metadata?.spotify?.track?.id 
-          ? `https://open.spotify.com/track/${track.external_metadata.spotify.track.id}`
-          : undefined,
-        appleMusicUrl: track.external_metadata?.apple_music?.track?.id
-          ? `https://music.apple.com/track/${track.external_metadata.apple_music.track.id}`
-          : undefined,
-      };
-    }
+// Query-by-humming scores are melodic similarity, so the user gets more candidates to pick from
+// (the melody provider's own thresholds live in recognition_providers)
+const HUMMING_MAX_CANDIDATES = 5;
 
-    return { success: false, confidence: 0, service: "acrcloud" };
-  } catch (error) {
-    if (error.name === "AbortError") {
-      console.error("ACRCloud request timeout");
-    } else {
-      console.error("ACRCloud identification error:", error);
-    }
-    return { success: false, confidence: 0, service: "acrcloud" };
-  }
+interface FollowOnJob {
+  job_type: "knowledge" | "recommend";
+  payload: {
+    query_text: string;
+    context: Record<string, unknown>;
+  };
 }
 
-// Shazam audio identification (best for full songs)
-async function identifyAudioWithShazam(audioBuffer: ArrayBuffer): Promise<AudioRecognitionResult> {
-  const apiKey = Deno.env.get("SHAZAM_API_KEY");
-
-  if (!apiKey) {
-    console.log("Shazam API key not configured, skipping");
-    return { success: false, confidence: 0, service: "shazam" };
+// Turns the router's planned steps into follow-on jobs about the identified song.
+// Without a match there is nothing to ask about, so no follow-ons are returned.
+function buildFollowOnJobs(
+  followOn: IdentifyRequest["follow_on"],
+  topCandidate: Candidate | undefined,
+  queryText: string | undefined
+): FollowOnJob[] {
+  if (!followOn || followOn.length === 0 || !topCandidate) {
+    return [];
   }
 
-  try {
-    const audioBase64 = btoa(String.fromCharCode(...new Uint8Array(audioBuffer)));
-    
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30s timeout
-
-    const response = await fetch("https://shazam-api7.p.rapidapi.com/songs/detect", {
-      method: "POST",
-      headers: {
-        "X-RapidAPI-Key": apiKey,
-        "X-RapidAPI-Host": "shazam-api7.p.rapidapi.com",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        audio_base64: audioBase64,
-      }),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.error("Shazam API error:", response.status);
-      return { success: false, confidence: 0, service: "shazam" };
-    }
-
-    const data = await response.json();
-    
-    if (data.track) {
-      const track = data.track;
-      const confidence = data.match ? 0.9 : 0.7;
-      
-      return {
-        success: true,
-        title: track.title,
-        artist: track.subtitle || track.artists?.[0]?.name,
-        confidence,
-        service: "shazam",
-        reason: `Identified via Shazam audio fingerprinting`,
-        album: track.sections?.[0]?.metadata?.find((m: any) => m.title === "Album")?.text,
-        spotifyUrl: track.hub?.actions?.[0]?.uri,
-        appleMusicUrl: track.hub?.options?.[0]?.actions?.[0]?.uri,
-      };
+  const song = `"${topCandidate.title}" by ${topCandidate.artist}`;
+  const context = {
+    identified: {
+      title: topCandidate.title,
+      artist: topCandidate.artist,
+      album: topCandidate.album,
+      release_date: topCandidate.release_date,
+      confidence: topCandidate.confidence
     }
+  };
 
-    return { success: false, confidence: 0, service: "shazam" };
-  } catch (error) {
-    if (error.name === "AbortError") {
-      console.error("Shazam request timeout");
-    } else {
-      console.error("Shazam identification error:", error);
+  return followOn.map((jobType) => ({
+    job_type: jobType,
+    payload: {
+      query_text: jobType === "knowledge"
+        ? (queryText ? `${queryText}\n\nThe song is ${song}.` : `Tell me about ${song}`)
+        : `Songs similar to ${song}${queryText ? ` (${queryText})` : ""}`,
+      context
     }
-    return { success: false, confidence: 0, service: "shazam" };
-  }
+  }));
 }
 
-// Whisper transcription + GPT-4o search (fallback)
-async function identifyWithWhisperAndGPT(
-  audioBuffer: ArrayBuffer,
-  supabase: any,
-  recallId: string,
-  userPreferences?: any
+// Runs one recognition provider, broadcasting the attempt and, when it finds nothing, its failure
+async function attemptProvider(
+  publisher: RecallPublisher,
+  provider: string,
+  run: () => Promise<AudioRecognitionResult>
 ): Promise<AudioRecognitionResult> {
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-  
-  if (!openaiApiKey) {
-    console.log("OpenAI API key not configured, cannot use Whisper fallback");
-    return { success: false, confidence: 0, service: "whisper" };
-  }
-
-  try {
-    // Transcribe audio with Whisper
-    const audioBlob = new Blob([audioBuffer], { type: "audio/m4a" });
-    const formData = new FormData();
-    formData.append("file", audioBlob, "audio.m4a");
-    formData.append("model", "whisper-1");
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60s timeout
-
-    const transcriptResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-      },
-      body: formData,
-      signal: controller.signal
+  await publisher.publish("provider_attempt_started", { provider });
+  const result = await run();
+  if (!result.success) {
+    await publisher.publish("provider_attempt_failed", {
+      provider,
+      reason: result.error || result.reason || "No match",
+      latency_ms: result.latencyMs
     });
+  }
+  return result;
+}
 
-    clearTimeout(timeoutId);
-
-    if (!transcriptResponse.ok) {
-      console.error("Whisper API error:", transcriptResponse.status);
-      return { success: false, confidence: 0, service: "whisper" };
-    }
-
-    const transcriptData = await transcriptResponse.json();
-    const transcription = transcriptData.text;
-
-    if (!transcription || transcription.trim().length === 0) {
-      return { success: false, confidence: 0, service: "whisper" };
-    }
-
-    // Use GPT-4o to search for song based on transcription
-    const userContext = userPreferences ? 
-      `User preferences: ${JSON.stringify(userPreferences)}. ` : "";
-
-    const gptResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are a music identification expert. Based on the audio transcription, identify the song. ${userContext}Return JSON: {title: string, artist: string, confidence: 0.0-1.0, reason: string}`
-          },
-          {
-            role: "user",
-            content: `Transcribed audio: "${transcription}". Identify this song.`
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-        max_tokens: 200
-      }),
-    });
+// Merges the providers' answers into ranked candidates. Results naming the same song are one
+// candidate whose confidence combines them as independent evidence (1 - product of misses), so
+// agreement outranks any single provider; songs the providers disagree on stay separate candidates.
+function fuseRecognitionResults(results: AudioRecognitionResult[]): Candidate[] {
+  const groups = new Map<string, AudioRecognitionResult[]>();
+  for (const result of results.flatMap((r) => [r, ...(r.alternatives || [])])) {
+    if (!result.success || !result.title || !result.artist) continue;
+    const key = songKey(result.title, result.artist);
+    groups.set(key, [...(groups.get(key) || []), result]);
+  }
 
-    if (!gptResponse.ok) {
-      return { success: false, confidence: 0, service: "whisper" };
-    }
+  return [...groups.values()].map((group) => {
+    const sorted = [...group].sort((a, b) => b.confidence - a.confidence);
+    const best = sorted[0];
+    const confidence = 1 - sorted.reduce((miss, r) => miss * (1 - r.confidence), 1);
+    // Metadata comes from the most confident provider that has it
+    const album = sorted.find((r) => r.album)?.album;
+    const releaseDate = sorted.find((r) => r.releaseDate)?.releaseDate;
+    const spotifyUrl = sorted.find((r) => r.spotifyUrl)?.spotifyUrl;
+    const appleMusicUrl = sorted.find((r) => r.appleMusicUrl)?.appleMusicUrl;
+    const trackId = sorted.find((r) => r.trackId)?.trackId;
+
+    const sourceUrls: string[] = [];
+    if (spotifyUrl) sourceUrls.push(spotifyUrl);
+    if (appleMusicUrl) sourceUrls.push(appleMusicUrl);
 
-    const gptData = await gptResponse.json();
-    const content = gptData.choices[0]?.message?.content;
-    
-    if (content) {
-      const result = JSON.parse(content);
-      return {
-        success: true,
-        title: result.title,
-        artist: result.artist,
-        confidence: Math.min(result.confidence || 0.5, 1.0),
-        service: "whisper",
-        reason: result.reason || `Identified via Whisper transcription: "${transcription}"`
-      };
-    }
-
-    return { success: false, confidence: 0, service: "whisper" };
-  } catch (error) {
-    if (error.name === "AbortError") {
-      console.error("Whisper/GPT request timeout");
-    } else {
-      console.error("Whisper identification error:", error);
-    }
-    return { success: false, confidence: 0, service: "whisper" };
-  }
+    return {
+      title: best.title!,
+      artist: best.artist!,
+      confidence: Math.min(confidence, 1.0),
+      reason: sorted.length > 1
+        ? `Identified by ${sorted.length} services: ${sorted.map((r) => r.service).join(", ")}`
+        : best.reason || `Identified via ${best.service}`,
+      source_urls: sourceUrls,
+      album,
+      release_date: releaseDate,
+      spotify_url: spotifyUrl,
+      apple_music_url: appleMusicUrl,
+      track_id: trackId,
+      provider_evidence: sorted.map((r) => ({
+        service: r.service,
+        title: r.title!,
+        artist: r.artist!,
+        confidence: r.confidence,
+        reason: r.reason,
+        segment_start_seconds: r.segmentStartSeconds
+      }))
+    };
+  }).sort((a, b) => b.confidence - a.confidence);
 }
 
 // Re-rank candidates based on user preferences
@@ -334,50 +215,27 @@ function reRankCandidates(
   }).sort((a, b) => b.confidence - a.confidence);
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
   const startTime = Date.now();
+  let publisher: RecallPublisher | null = null;
+  let recallId: string | null = null;
 
   try {
     // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+    const supabase = serviceClient();
 
     // Parse request body
     const body: IdentifyRequest = await req.json();
-    const { job_id, recall_id, audio_path, input_type, user_preferences } = body;
+    const { job_id, recall_id, audio_path, input_type, query_text, follow_on, user_preferences } = body;
+    recallId = recall_id || null;
 
     if (!job_id || !recall_id || !audio_path) {
-      return new Response(
-        JSON.stringify({ error: "Missing required fields: job_id, recall_id, audio_path" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "Missing required fields: job_id, recall_id, audio_path");
     }
 
-    // Update job status to processing
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "processing",
-        started_at: new Date().toISOString()
-      })
-      .eq("id", job_id);
-
-    await supabase
-      .from("recalls")
-      .update({ status: "processing" })
-      .eq("id", recall_id);
+    // Progress for clients subscribed to the recall's Realtime channel
+    publisher = recallPublisher(recall_id, { job_id, job_type: "identify", request_id: requestId });
 
     // Log start
     await supabase
@@ -390,6 +248,8 @@ serve(async (req) => {
         metadata: { job_id, input_type }
       });
 
+    await publisher.publish("processing", { input_type });
+
     // Get signed URL for audio file
     const bucket = "recall-audio";
     const { data: signedUrlData, error: urlError } = await supabase.storage
@@ -408,64 +268,46 @@ serve(async (req) => {
     const audioBlob = await audioResponse.blob();
     const audioArrayBuffer = await audioBlob.arrayBuffer();
 
-    // Try audio recognition services in order: ACRCloud → Shazam → Whisper
-    let recognitionResult: AudioRecognitionResult | null = null;
-    
-    console.log("Attempting ACRCloud audio identification...");
-    recognitionResult = await identifyAudioWithACRCloud(audioArrayBuffer);
-    
-    if (!recognitionResult.success || recognitionResult.confidence < 0.7) {
-      console.log("ACRCloud failed or low confidence, trying Shazam...");
-      const shazamResult = await identifyAudioWithShazam(audioArrayBuffer);
-      if (shazamResult.success && shazamResult.confidence >= 0.7) {
-        recognitionResult = shazamResult;
-      } else if (!recognitionResult.success) {
-        // Only use Shazam if ACRCloud completely failed
-        recognitionResult = shazamResult;
-      }
-    }
-
-    // Fallback to Whisper if both fail or confidence is low
-    if (!recognitionResult.success || recognitionResult.confidence < 0.6) {
-      console.log("Audio recognition failed or low confidence, trying Whisper transcription...");
-      const whisperResult = await identifyWithWhisperAndGPT(
-        audioArrayBuffer,
-        supabase,
-        recall_id,
-        user_preferences
-      );
-      if (whisperResult.success) {
-        recognitionResult = whisperResult;
-      }
-    }
-
-    // Build candidates from recognition result
-    const candidates: Candidate[] = [];
-    
-    if (recognitionResult.success && recognitionResult.title && recognitionResult.artist) {
-      const sourceUrls: string[] = [];
-      if (recognitionResult.spotifyUrl) sourceUrls.push(recognitionResult.spotifyUrl);
-      if (recognitionResult.appleMusicUrl) sourceUrls.push(recognitionResult.appleMusicUrl);
-      
-      candidates.push({
-        title: recognitionResult.title,
-        artist: recognitionResult.artist,
-        confidence: recognitionResult.confidence,
-        reason: recognitionResult.reason || `Identified via ${recognitionResult.service}`,
-        source_urls: sourceUrls,
-        album: recognitionResult.album,
-        release_date: recognitionResult.releaseDate,
-        spotify_url: recognitionResult.spotifyUrl,
-        apple_music_url: recognitionResult.appleMusicUrl
-      });
-    }
+    // Trim silence and cut the loudest windows; fingerprinting providers get those segments
+    const audio = await preprocessAudio(audioArrayBuffer);
+    console.log(`Audio: ${audio.container}/${audio.codec ?? "undecoded"}, ${audio.segments.length} segment(s) to submit`);
+
+    // The registry picks the providers for this input type from recognition_providers. Hummed
+    // input goes to the melody matcher instead of the fingerprint services, which cannot match a
+    // hummed tune, unless no melody provider is available
+    const inputType = input_type || "voice";
+    const registry = new RecognitionRegistry(supabase, {
+      ...defaultRecognitionDeps(),
+      usage: new UsageRecorder(supabase, { functionName: "recall-v2-identify", requestId, recallId: recall_id }),
+    });
+    const providers = await registry.select(inputType);
+    const hummingMode = providers.some((p) => p.provider.kind === "melody");
+
+    // Our own catalog is matched first; unless it is confident, the other providers are queried in
+    // parallel. The deadline aborts whichever are still running
+    const deadline = AbortSignal.timeout(RECOGNITION_DEADLINE_MS);
+    const hints = { signal: deadline, inputType, queryText: query_text, userPreferences: user_preferences };
+    const { results: recognitionResults, acceptedBy } = await registry.runAll(providers, audio, hints, (selected, run) =>
+      attemptProvider(publisher!, selected.provider.id, run)
+    );
+    await logRecognitionResults(supabase, { requestId, recallId: recall_id, inputType }, recognitionResults);
 
-    // Re-rank based on user preferences
-    const rankedCandidates = reRankCandidates(candidates, user_preferences);
+    // Fuse into candidates, then re-rank based on user preferences
+    const candidates = fuseRecognitionResults(recognitionResults);
+    const maxCandidates = hummingMode ? HUMMING_MAX_CANDIDATES : MAX_CANDIDATES;
+    const rankedCandidates = reRankCandidates(candidates, user_preferences).slice(0, maxCandidates);
+    const servicesMatched = recognitionResults.filter((r) => r.success).map((r) => r.service);
 
     // Write candidates to database
-    for (let i = 0; i < Math.min(rankedCandidates.length, 3); i++) {
+    for (let i = 0; i < rankedCandidates.length; i++) {
       const candidate = rankedCandidates[i];
+      await publisher.publish("candidate_found", {
+        rank: i + 1,
+        title: candidate.title,
+        artist: candidate.artist,
+        confidence: candidate.confidence,
+        services: candidate.provider_evidence.map((e) => e.service)
+      });
       await supabase
         .from("recall_candidates")
         .insert({
@@ -492,20 +334,22 @@ serve(async (req) => {
       }
     }
 
-    // Update recall with top result
+    // Update recall with top result (the worker sets its status once the whole job chain is done)
     const topCandidate = rankedCandidates[0];
     if (topCandidate) {
       await supabase
         .from("recalls")
         .update({
-          status: "done",
           top_confidence: topCandidate.confidence,
           top_title: topCandidate.title,
           top_artist: topCandidate.artist,
           top_url: topCandidate.spotify_url || topCandidate.apple_music_url,
           result_json: {
             candidates: rankedCandidates,
-            service_used: recognitionResult.service
+            service_used: topCandidate.provider_evidence[0]?.service,
+            services_matched: servicesMatched,
+            accepted_by: acceptedBy,
+            recognition_mode: hummingMode ? "humming" : "fingerprint"
           }
         })
         .eq("id", recall_id);
@@ -513,20 +357,19 @@ serve(async (req) => {
       await supabase
         .from("recalls")
         .update({
-          status: "done",
           error_message: "No candidates found"
         })
         .eq("id", recall_id);
     }
 
-    // Update job status
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "done",
-        completed_at: new Date().toISOString()
-      })
-      .eq("id", job_id);
+    const followOnJobs = buildFollowOnJobs(follow_on, topCandidate, query_text);
+
+    await publisher.publish("done", {
+      candidates_found: rankedCandidates.length,
+      top_candidate: topCandidate || null,
+      // Chained steps still to come; the recall itself is done once they finish
+      follow_on: followOnJobs.map((j) => j.job_type)
+    });
 
     // Log completion
     const duration = Date.now() - startTime;
@@ -541,23 +384,41 @@ serve(async (req) => {
         metadata: {
           job_id,
           candidates_found: rankedCandidates.length,
-          service_used: recognitionResult.service,
-          top_confidence: topCandidate?.confidence
+          service_used: topCandidate?.provider_evidence[0]?.service,
+          recognition_mode: hummingMode ? "humming" : "fingerprint",
+          accepted_by: acceptedBy,
+          audio: {
+            container: audio.container,
+            codec: audio.codec,
+            duration_seconds: audio.durationSeconds,
+            audible_seconds: audio.audibleStartSeconds !== null && audio.audibleEndSeconds !== null
+              ? audio.audibleEndSeconds - audio.audibleStartSeconds
+              : null,
+            segments: audio.segments.map((segment) => ({
+              start_seconds: segment.startSeconds,
+              duration_seconds: segment.durationSeconds,
+              bytes: segment.data.byteLength
+            }))
+          },
+          top_confidence: topCandidate?.confidence,
+          providers: recognitionResults.map((r) => ({
+            service: r.service,
+            success: r.success,
+            confidence: r.confidence,
+            latency_ms: r.latencyMs,
+            error: r.error
+          })),
+          follow_on_jobs: followOnJobs.map((j) => j.job_type)
         }
       });
 
-    return new Response(
-      JSON.stringify({
-        status: "done",
-        request_id: requestId,
-        candidates: rankedCandidates,
-        top_candidate: topCandidate || null
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return jsonResponse({
+      status: "done",
+      request_id: requestId,
+      candidates: rankedCandidates,
+      top_candidate: topCandidate || null,
+      follow_on_jobs: followOnJobs
+    });
 
   } catch (error) {
     console.error("Error in recall-v2-identify:", error);
@@ -565,41 +426,17 @@ serve(async (req) => {
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error);
 
-    // Try to update job and recall status
-    try {
-      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabase = createClient(supabaseUrl, supabaseKey);
-      
-      const body: IdentifyRequest = await req.json();
-      const { job_id, recall_id } = body;
-
-      if (job_id) {
-        await supabase
-          .from("recall_jobs")
-          .update({
-            status: "failed",
-            error_message: errorMessage,
-            completed_at: new Date().toISOString()
-          })
-          .eq("id", job_id);
-      }
+    // The worker decides whether this attempt is retried and settles the job and the recall
+    await publisher?.publish("failed", { error: errorMessage, final: false });
 
-      if (recall_id) {
-        await supabase
-          .from("recalls")
-          .update({
-            status: "failed",
-            error_message: errorMessage
-          })
-          .eq("id", recall_id);
-      }
+    try {
+      const supabase = serviceClient();
 
       await supabase
         .from("recall_logs")
         .insert({
           request_id: requestId,
-          recall_id: recall_id || null,
+          recall_id: recallId,
           operation: "identify_error",
           duration_ms: duration,
           status: "error",
@@ -609,19 +446,9 @@ serve(async (req) => {
       console.error("Error logging failure:", logError);
     }
 
-    return new Response(
-      JSON.stringify({
-        error: "Internal server error",
-        details: errorMessage,
-        request_id: requestId
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return jsonError("internal_error", "Internal server error", { details: errorMessage, requestId });
   }
-});
+}));
 
 
 
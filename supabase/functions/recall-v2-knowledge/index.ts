@@ -1,188 +1,108 @@
 // Supabase Edge Function: recall-v2-knowledge
 // Answers music-related questions with web search and citations
 // Deploy with: supabase functions deploy recall-v2-knowledge
-// Requires: OPENAI_API_KEY secret
+// Requires: LLM_API_KEY or OPENAI_API_KEY secret (task "answer")
+// Optional: SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET (track metadata), TRACK_METADATA_PROVIDERS
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+import { defaultLlmDeps, LlmClient, routeName } from "../_shared/llm.ts";
+import { type RecallPublisher, recallPublisher } from "../_shared/realtime.ts";
+import { type CacheLookup, ResponseCache } from "../_shared/responseCache.ts";
+import { type Source, validateSource } from "../_shared/sources.ts";
+import {
+  arraySchema,
+  booleanSchema,
+  nullable,
+  numberSchema,
+  objectSchema,
+  stringSchema,
+  type StructuredOutput,
+} from "../_shared/structured.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { UsageRecorder } from "../_shared/usage.ts";
+import { resolveCandidates, TrackResolver } from "../_shared/tracks/resolver.ts";
+import type { CanonicalTrack } from "../_shared/tracks/types.ts";
 
 interface KnowledgeRequest {
   job_id: string;
   recall_id: string;
   query_text: string;
+  parent_job_id?: string; // Set when this job is a follow-on step of a chain
+  context?: Record<string, unknown>; // What earlier steps found (e.g. the identified song)
   user_preferences?: {
     question_styles?: string[];
   };
 }
 
-interface Source {
-  title: string;
-  url: string;
-  snippet?: string;
-  publisher?: string;
-  verified: boolean;
-}
+// Bump when the prompts or the answer shape change
+const CACHE_VERSION = "knowledge-v1";
+// Shorter than recall-resolve's: answers cite web pages, which go stale
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
 
 interface Answer {
   text: string;
   sources: Source[];
-  related_songs?: Array<{title: string; artist: string}>;
+  related_songs?: Array<{title: string; artist: string; track?: CanonicalTrack | null}>;
   confidence: number;
   uncertainty_noted: boolean;
 }
 
-// Reputable source domains whitelist
-const REPUTABLE_DOMAINS = [
-  "spotify.com",
-  "music.apple.com",
-  "youtube.com",
-  "youtu.be",
-  "wikipedia.org",
-  "genius.com",
-  "allmusic.com",
-  "billboard.com",
-  "pitchfork.com",
-  "rollingstone.com",
-  "nme.com",
-  "theguardian.com",
-  "bbc.com",
-  "npr.org",
-  "nytimes.com"
-];
-
-// Validate source URL is accessible and extract metadata
-async function validateSource(url: string): Promise<Source | null> {
-  try {
-    // Check if domain is reputable
-    const urlObj = new URL(url);
-    const domain = urlObj.hostname.replace("www.", "");
-    const isReputable = REPUTABLE_DOMAINS.some(rd => domain.includes(rd));
-
-    // Try HEAD request first (faster)
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
-
-    const headResponse = await fetch(url, {
-      method: "HEAD",
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; RecallBot/1.0)"
-      }
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!headResponse.ok && headResponse.status !== 405) {
-      // If HEAD not allowed, try GET
-      const getController = new AbortController();
-      const getTimeoutId = setTimeout(() => getController.abort(), 5000);
-      
-      const getResponse = await fetch(url, {
-        method: "GET",
-        signal: getController.signal,
-        headers: {
-          "User-Agent": "Mozilla/5.0 (compatible; RecallBot/1.0)"
-        }
-      });
-
-      clearTimeout(getTimeoutId);
-
-      if (!getResponse.ok) {
-        return null;
-      }
-    }
-
-    // Extract title from URL or use domain as fallback
-    let title = domain;
-    try {
-      // For Wikipedia, try to extract article title
-      if (domain.includes("wikipedia.org")) {
-        const pathParts = urlObj.pathname.split("/");
-        if (pathParts.length >= 3) {
-          title = decodeURIComponent(pathParts[2].replace(/_/g, " "));
-        }
-      } else {
-        // For other sites, use domain + path
-        title = domain + urlObj.pathname;
-      }
-    } catch (e) {
-      // Keep domain as title
-    }
+const WEB_SOURCES_OUTPUT: StructuredOutput<{ sources: Array<{ title: string; url: string; snippet?: string; publisher?: string }> }> = {
+  name: "web_sources",
+  schema: objectSchema({
+    sources: arraySchema(objectSchema({
+      title: stringSchema(),
+      url: stringSchema(),
+      snippet: nullable(stringSchema()),
+      publisher: nullable(stringSchema()),
+    })),
+  }),
+  fallback: () => ({ sources: [] }),
+};
 
-    return {
-      title,
-      url,
-      publisher: domain,
-      verified: isReputable && (headResponse.ok || headResponse.status === 405)
-    };
-  } catch (error) {
-    if (error.name === "AbortError") {
-      console.error(`Source validation timeout: ${url}`);
-    } else {
-      console.error(`Source validation error for ${url}:`, error);
-    }
-    return null;
-  }
-}
+// The model's part of an Answer; the sources are the validated ones it was given
+const ANSWER_OUTPUT: StructuredOutput<Omit<Answer, "sources">> = {
+  name: "answer",
+  schema: objectSchema({
+    text: stringSchema("Answer citing sources as [1], [2], ..."),
+    confidence: numberSchema("0.0-1.0"),
+    uncertainty_noted: booleanSchema(),
+    related_songs: arraySchema(objectSchema({
+      title: stringSchema(),
+      artist: stringSchema(),
+    })),
+  }),
+  fallback: () => ({
+    text: "I couldn't generate an answer from the sources.",
+    related_songs: [],
+    confidence: 0.3,
+    uncertainty_noted: true
+  }),
+};
 
 // Search web using GPT-4o's browsing capability
 async function searchWebWithGPT(
   query: string,
-  openaiApiKey: string
+  llm: LlmClient
 ): Promise<Source[]> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60s timeout
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are a music research assistant. Search the web for accurate, current information about music. 
-            Return a JSON array of sources with: title, url, snippet, publisher.
+    const { value: result } = await llm.structured("answer", WEB_SOURCES_OUTPUT, [
+      {
+        role: "system",
+        content: `You are a music research assistant. Search the web for accurate, current information about music. 
+            Return a JSON object with a sources array; each source has title, url, snippet and publisher.
             Prioritize reputable sources: official artist pages, major music publications, Wikipedia, streaming platforms.
             Return at least 3 sources. Never invent URLs - only return sources you actually found.`
-          },
-          {
-            role: "user",
-            content: `Search for: ${query}`
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-        max_tokens: 2000
-      }),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.error("GPT-4o web search error:", response.status);
-      return [];
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-    
-    if (!content) {
-      return [];
-    }
+      },
+      {
+        role: "user",
+        content: `Search for: ${query}`
+      }
+    ], { temperature: 0.3, maxTokens: 2000, label: "KNOWLEDGE" });
 
-    const result = JSON.parse(content);
-    const sources = result.sources || [];
+    const sources = result.sources;
 
     // Validate all sources
     const validatedSources: Source[] = [];
@@ -200,7 +120,7 @@ async function searchWebWithGPT(
 
     return validatedSources;
   } catch (error) {
-    if (error.name === "AbortError") {
+    if (error.name === "TimeoutError") {
       console.error("Web search timeout");
     } else {
       console.error("Web search error:", error);
@@ -213,7 +133,7 @@ async function searchWebWithGPT(
 async function synthesizeAnswer(
   query: string,
   sources: Source[],
-  openaiApiKey: string,
+  llm: LlmClient,
   userPreferences?: any
 ): Promise<Answer> {
   if (sources.length === 0) {
@@ -233,21 +153,10 @@ async function synthesizeAnswer(
     const userContext = userPreferences?.question_styles ? 
       `User prefers: ${userPreferences.question_styles.join(", ")}. ` : "";
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are a music knowledge assistant. Answer questions based ONLY on the provided sources.
+    const { value: result } = await llm.structured("answer", ANSWER_OUTPUT, [
+      {
+        role: "system",
+        content: `You are a music knowledge assistant. Answer questions based ONLY on the provided sources.
             ${userContext}
             Rules:
             1. Base your answer ONLY on the sources provided
@@ -256,42 +165,15 @@ async function synthesizeAnswer(
             4. Cite sources using [1], [2], etc.
             5. Be concise but comprehensive (2-3 paragraphs max)
             6. If relevant, suggest related songs in related_songs array
-            7. Return JSON: {text: string, confidence: 0.0-1.0, uncertainty_noted: boolean, related_songs?: []}`
-          },
-          {
-            role: "user",
-            content: `Question: ${query}\n\nSources:\n${sourcesText}\n\nAnswer the question based on these sources.`
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-        max_tokens: 1000
-      }),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`GPT API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error("Empty response from GPT");
-    }
+            7. Return JSON: {text: string, confidence: 0.0-1.0, uncertainty_noted: boolean, related_songs: [{title, artist}]}`
+      },
+      {
+        role: "user",
+        content: `Question: ${query}\n\nSources:\n${sourcesText}\n\nAnswer the question based on these sources.`
+      }
+    ], { temperature: 0.3, maxTokens: 1000, label: "KNOWLEDGE" });
 
-    const result = JSON.parse(content);
-    
-    return {
-      text: result.text || "I couldn't generate an answer from the sources.",
-      sources: sources,
-      related_songs: result.related_songs || [],
-      confidence: result.confidence || 0.5,
-      uncertainty_noted: result.uncertainty_noted || false
-    };
+    return { ...result, sources };
   } catch (error) {
     console.error("Answer synthesis error:", error);
     return {
@@ -303,55 +185,35 @@ async function synthesizeAnswer(
   }
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
   const startTime = Date.now();
+  let publisher: RecallPublisher | null = null;
+  let recallId: string | null = null;
 
   try {
     // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+    const supabase = serviceClient();
 
     // Parse request body
     const body: KnowledgeRequest = await req.json();
-    const { job_id, recall_id, query_text, user_preferences } = body;
+    const { job_id, recall_id, query_text, parent_job_id, context, user_preferences } = body;
+    recallId = recall_id || null;
 
     if (!job_id || !recall_id || !query_text) {
-      return new Response(
-        JSON.stringify({ error: "Missing required fields: job_id, recall_id, query_text" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "Missing required fields: job_id, recall_id, query_text");
     }
 
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
-      throw new Error("OPENAI_API_KEY not configured");
-    }
-
-    // Update job status to processing
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "processing",
-        started_at: new Date().toISOString()
-      })
-      .eq("id", job_id);
+    // Progress for clients subscribed to the recall's Realtime channel
+    publisher = recallPublisher(recall_id, { job_id, job_type: "knowledge", request_id: requestId });
 
-    await supabase
-      .from("recalls")
-      .update({ status: "processing" })
-      .eq("id", recall_id);
+    const llm = new LlmClient(supabase, {
+      ...defaultLlmDeps(),
+      usage: new UsageRecorder(supabase, { functionName: "recall-v2-knowledge", requestId, recallId: recall_id }),
+    });
+    if (!llm.isConfigured()) {
+      throw new Error("LLM API key not configured");
+    }
 
     // Log start
     await supabase
@@ -364,54 +226,81 @@ serve(async (req) => {
         metadata: { job_id, query: query_text.substring(0, 100) }
       });
 
-    // Search web for sources
-    console.log("Searching web for sources...");
-    const sources = await searchWebWithGPT(query_text, openaiApiKey);
+    await publisher.publish("processing");
+
+    // Standalone questions are shared through the response cache. Personalized answers and chain steps
+    // (which build on what earlier steps found) are not.
+    const cache = new ResponseCache(supabase, llm, {
+      scope: "knowledge",
+      sourceVersion: `${CACHE_VERSION}:${routeName(llm.routes("answer")[0])}`,
+      ttlSeconds: CACHE_TTL_SECONDS,
+    });
+    const cacheLog = { requestId, recallId: recall_id, metadata: { job_id } };
+    const bypassReason = user_preferences?.question_styles?.length
+      ? "personalized"
+      : parent_job_id || context ? "thread_context" : null;
+    let cacheLookup: CacheLookup<Answer> | null = null;
+    if (bypassReason) {
+      await cache.bypass(bypassReason, cacheLog);
+    } else {
+      cacheLookup = await cache.lookup<Answer>(query_text, cacheLog);
+    }
+    const cached = cacheLookup?.hit?.value ?? null;
+
+    // Search web for sources (a cached answer keeps the ones it was built from)
+    if (!cached) {
+      console.log("Searching web for sources...");
+      await publisher.publish("provider_attempt_started", { provider: "openai", step: "web_search" });
+    }
+    const sources = cached ? cached.sources : await searchWebWithGPT(query_text, llm);
 
     if (sources.length === 0) {
+      await publisher.publish("provider_attempt_failed", { provider: "openai", step: "web_search", reason: "No sources found" });
+
       // No sources found
       await supabase
         .from("recalls")
         .update({
-          status: "done",
           error_message: "No sources found"
         })
         .eq("id", recall_id);
 
-      await supabase
-        .from("recall_jobs")
-        .update({
-          status: "done",
-          completed_at: new Date().toISOString()
-        })
-        .eq("id", job_id);
+      await publisher.publish("done", { answer: null, sources_found: 0 });
 
-      return new Response(
-        JSON.stringify({
-          status: "done",
-          request_id: requestId,
-          answer: {
-            text: "I couldn't find reliable sources to answer your question. Could you rephrase it or provide more context?",
-            sources: [],
-            confidence: 0.0,
-            uncertainty_noted: true
-          }
-        }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" }
+      return jsonResponse({
+        status: "done",
+        request_id: requestId,
+        answer: {
+          text: "I couldn't find reliable sources to answer your question. Could you rephrase it or provide more context?",
+          sources: [],
+          confidence: 0.0,
+          uncertainty_noted: true
         }
-      );
+      });
     }
 
     // Synthesize answer from sources
-    console.log(`Synthesizing answer from ${sources.length} sources...`);
-    const answer = await synthesizeAnswer(query_text, sources, openaiApiKey, user_preferences);
+    let answer: Answer;
+    if (cached) {
+      answer = cached;
+    } else {
+      console.log(`Synthesizing answer from ${sources.length} sources...`);
+      await publisher.publish("provider_attempt_started", { provider: "openai", step: "answer" });
+      answer = await synthesizeAnswer(query_text, sources, llm, user_preferences);
+      if (answer.related_songs?.length) {
+        answer.related_songs = await resolveCandidates(new TrackResolver(supabase), answer.related_songs);
+      }
+
+      // An answer that notes its own uncertainty (including the fallbacks) is not worth sharing
+      if (cacheLookup && !answer.uncertainty_noted) {
+        await cache.store(cacheLookup, answer);
+      }
+    }
 
     // Write answer to recall_messages (if thread_id exists)
     const { data: recall } = await supabase
       .from("recalls")
-      .select("thread_id")
+      .select("thread_id, result_json")
       .eq("id", recall_id)
       .single();
 
@@ -455,12 +344,13 @@ serve(async (req) => {
         });
     }
 
-    // Update recall with answer
+    // Update recall with answer, keeping earlier chain results
+    // (the worker sets its status once the whole job chain is done)
     await supabase
       .from("recalls")
       .update({
-        status: "done",
         result_json: {
+          ...(parent_job_id ? recall?.result_json : {}),
           answer: answer.text,
           sources: sources,
           related_songs: answer.related_songs,
@@ -470,15 +360,6 @@ serve(async (req) => {
       })
       .eq("id", recall_id);
 
-    // Update job status
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "done",
-        completed_at: new Date().toISOString()
-      })
-      .eq("id", job_id);
-
     // Log completion
     const duration = Date.now() - startTime;
     await supabase
@@ -493,21 +374,22 @@ serve(async (req) => {
           job_id,
           sources_found: sources.length,
           confidence: answer.confidence,
-          uncertainty_noted: answer.uncertainty_noted
+          uncertainty_noted: answer.uncertainty_noted,
+          cached: !!cached
         }
       });
 
-    return new Response(
-      JSON.stringify({
-        status: "done",
-        request_id: requestId,
-        answer: answer
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    await publisher.publish("done", {
+      answer: answer.text,
+      sources_found: sources.length,
+      confidence: answer.confidence
+    });
+
+    return jsonResponse({
+      status: "done",
+      request_id: requestId,
+      answer: answer
+    });
 
   } catch (error) {
     console.error("Error in recall-v2-knowledge:", error);
@@ -515,41 +397,17 @@ serve(async (req) => {
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error);
 
-    // Try to update job and recall status
-    try {
-      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabase = createClient(supabaseUrl, supabaseKey);
-      
-      const body: KnowledgeRequest = await req.json();
-      const { job_id, recall_id } = body;
-
-      if (job_id) {
-        await supabase
-          .from("recall_jobs")
-          .update({
-            status: "failed",
-            error_message: errorMessage,
-            completed_at: new Date().toISOString()
-          })
-          .eq("id", job_id);
-      }
+    // The worker decides whether this attempt is retried and settles the job and the recall
+    await publisher?.publish("failed", { error: errorMessage, final: false });
 
-      if (recall_id) {
-        await supabase
-          .from("recalls")
-          .update({
-            status: "failed",
-            error_message: errorMessage
-          })
-          .eq("id", recall_id);
-      }
+    try {
+      const supabase = serviceClient();
 
       await supabase
         .from("recall_logs")
         .insert({
           request_id: requestId,
-          recall_id: recall_id || null,
+          recall_id: recallId,
           operation: "knowledge_error",
           duration_ms: duration,
           status: "error",
@@ -559,19 +417,9 @@ serve(async (req) => {
       console.error("Error logging failure:", logError);
     }
 
-    return new Response(
-      JSON.stringify({
-        error: "Internal server error",
-        details: errorMessage,
-        request_id: requestId
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return jsonError("internal_error", "Internal server error", { details: errorMessage, requestId });
   }
-});
+}));
 
 
 
@@ -4,22 +4,15 @@
 // Can be triggered via cron
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorMessage, jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
 
+serve(withCors(async (req) => {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const supabase = serviceClient();
 
     // Get all users with recent feedback (last 24 hours)
     const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
@@ -31,10 +24,7 @@ serve(async (req) => {
       .not("user_id", "is", null);
 
     if (!usersWithFeedback || usersWithFeedback.length === 0) {
-      return new Response(
-        JSON.stringify({ status: "no_users", processed: 0 }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ status: "no_users", processed: 0 });
     }
 
     // Get unique user IDs
@@ -63,22 +53,16 @@ serve(async (req) => {
       }
     }
 
-    return new Response(
-      JSON.stringify({
-        status: "processed",
-        users_processed: processed,
-        total_users: uniqueUserIds.length
-      }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({
+      status: "processed",
+      users_processed: processed,
+      total_users: uniqueUserIds.length
+    });
 
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonError("internal_error", errorMessage(error));
   }
-});
+}));
 
 
 
@@ -3,31 +3,19 @@
 // Deploy with: supabase functions deploy recall-v2-learning
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorMessage, jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
 
+serve(withCors(async (req) => {
   try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const supabase = serviceClient();
 
     const body = await req.json();
     const { user_id } = body;
 
     if (!user_id) {
-      return new Response(
-        JSON.stringify({ error: "user_id is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "user_id is required");
     }
 
     // Get confirmed songs from feedback
@@ -118,25 +106,19 @@ serve(async (req) => {
         });
     }
 
-    return new Response(
-      JSON.stringify({
-        status: "success",
-        preferences_updated: {
-          artists: topArtists.length,
-          rejected: rejectedArtists.size,
-          corrections: corrections?.length || 0
-        }
-      }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({
+      status: "success",
+      preferences_updated: {
+        artists: topArtists.length,
+        rejected: rejectedArtists.size,
+        corrections: corrections?.length || 0
+      }
+    });
 
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonError("internal_error", errorMessage(error));
   }
-});
+}));
 
 
 
@@ -1,20 +1,33 @@
 // Supabase Edge Function: recall-v2-recommend
 // Mood DJ: Recommends songs based on user mood and preferences
 // Deploy with: supabase functions deploy recall-v2-recommend
-// Requires: OPENAI_API_KEY secret
+// Requires: LLM_API_KEY or OPENAI_API_KEY secret (tasks "mood" and "recommend")
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+import { defaultLlmDeps, LlmClient } from "../_shared/llm.ts";
+import { type RecallPublisher, recallPublisher } from "../_shared/realtime.ts";
+import {
+  arraySchema,
+  enumSchema,
+  nullable,
+  numberSchema,
+  objectSchema,
+  stringSchema,
+  type StructuredOutput,
+} from "../_shared/structured.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { UsageRecorder } from "../_shared/usage.ts";
 
 interface RecommendRequest {
   job_id: string;
   recall_id: string;
   query_text: string;
+  parent_job_id?: string; // Set when this job is a follow-on step of a chain
+  context?: {
+    identified?: { title: string; artist: string }; // Seed song found by a parent identify job
+  };
   user_preferences?: {
     genre_preferences?: string[];
     artist_preferences?: string[];
@@ -39,72 +52,77 @@ interface MoodAnalysis {
   context?: string;
 }
 
-// Parse mood from user query
-async function parseMood(
-  queryText: string,
-  openaiApiKey: string
-): Promise<MoodAnalysis> {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: `Parse the user's mood and context from their query. Return JSON:
+const MOOD_PROMPT = `Parse the user's mood and context from their query. Return JSON:
 {
   "mood": "sad" | "happy" | "energetic" | "chill" | "focused" | "romantic" | "nostalgic" | "motivated" | "relaxed" | "party",
   "energy_level": "low" | "medium" | "high",
   "vibe_tags": ["tag1", "tag2", ...],
   "context": "optional context like 'workout', 'study', 'driving', etc."
-}`
-          },
-          {
-            role: "user",
-            content: queryText
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-        max_tokens: 200
-      }),
-      signal: controller.signal
-    });
+}`;
 
-    clearTimeout(timeoutId);
+const DEFAULT_MOOD: MoodAnalysis = {
+  mood: "chill",
+  energy_level: "medium",
+  vibe_tags: ["relaxed"]
+};
 
-    if (!response.ok) {
-      throw new Error(`GPT API error: ${response.status}`);
-    }
+const MOOD_ANALYSIS_OUTPUT: StructuredOutput<MoodAnalysis> = {
+  name: "mood_analysis",
+  schema: objectSchema({
+    mood: enumSchema(["sad", "happy", "energetic", "chill", "focused", "romantic", "nostalgic", "motivated", "relaxed", "party"]),
+    energy_level: enumSchema(["low", "medium", "high"]),
+    vibe_tags: arraySchema(stringSchema()),
+    context: nullable(stringSchema("Listening context like workout, study or driving")),
+  }),
+  fallback: () => DEFAULT_MOOD,
+};
 
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-    
-    if (content) {
-      return JSON.parse(content);
+// Shown when no recommendations could be generated
+function fallbackRecommendations(moodAnalysis: MoodAnalysis): Recommendation[] {
+  return [
+    {
+      title: "Unknown",
+      artist: "Unknown",
+      confidence: 0.3,
+      vibe_tags: [moodAnalysis.mood],
+      why_it_fits: "Error generating recommendations"
     }
+  ];
+}
 
-    // Fallback
-    return {
-      mood: "chill",
-      energy_level: "medium",
-      vibe_tags: ["relaxed"]
-    };
+function recommendationsOutput(moodAnalysis: MoodAnalysis): StructuredOutput<{ recommendations: Recommendation[] }> {
+  return {
+    name: "recommendations",
+    schema: objectSchema({
+      recommendations: arraySchema(objectSchema({
+        title: stringSchema(),
+        artist: stringSchema(),
+        confidence: numberSchema("0.0-1.0"),
+        vibe_tags: arraySchema(stringSchema()),
+        why_it_fits: stringSchema("Brief explanation (1-2 sentences)"),
+        spotify_url: nullable(stringSchema()),
+        apple_music_url: nullable(stringSchema()),
+      })),
+    }),
+    fallback: () => ({ recommendations: fallbackRecommendations(moodAnalysis) }),
+  };
+}
+
+// Parse mood from user query
+async function parseMood(
+  queryText: string,
+  llm: LlmClient
+): Promise<MoodAnalysis> {
+  try {
+    const { value: moodAnalysis } = await llm.structured("mood", MOOD_ANALYSIS_OUTPUT, [
+      { role: "system", content: MOOD_PROMPT },
+      { role: "user", content: queryText },
+    ], { temperature: 0.3, maxTokens: 200, label: "MOOD" });
+
+    return moodAnalysis;
   } catch (error) {
     console.error("Mood parsing error:", error);
-    return {
-      mood: "chill",
-      energy_level: "medium",
-      vibe_tags: ["relaxed"]
-    };
+    return DEFAULT_MOOD;
   }
 }
 
@@ -140,12 +158,13 @@ async function getUserConfirmedSongs(
   }
 }
 
-// Generate recommendations using GPT-4o
+// Generate recommendations with the LLM (task "recommend")
 async function generateRecommendations(
   moodAnalysis: MoodAnalysis,
   userPreferences: any,
   confirmedSongs: Array<{title: string; artist: string}>,
-  openaiApiKey: string
+  llm: LlmClient,
+  requestContext: RecommendRequest["context"] = undefined
 ): Promise<Recommendation[]> {
   try {
     const confirmedSongsText = confirmedSongs.length > 0
@@ -156,41 +175,37 @@ async function generateRecommendations(
       ? `User prefers: ${userPreferences.genre_preferences.join(", ")}`
       : "";
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000);
+    const contextLines: string[] = [];
+    if (requestContext?.identified) {
+      contextLines.push(`Seed song: ${requestContext.identified.title} by ${requestContext.identified.artist} (recommend similar tracks, not the seed itself)`);
+    }
+    const requestContextText = contextLines.join("\n");
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are a music recommendation expert. Generate 5-10 diverse song recommendations based on:
+    const { value: result } = await llm.structured("recommend", recommendationsOutput(moodAnalysis), [
+      {
+        role: "system",
+        content: `You are a music recommendation expert. Generate 5-10 diverse song recommendations based on:
 - User's mood: ${moodAnalysis.mood}
 - Energy level: ${moodAnalysis.energy_level}
 - Vibe tags: ${moodAnalysis.vibe_tags.join(", ")}
 - Context: ${moodAnalysis.context || "general listening"}
 ${confirmedSongsText}
 ${preferencesText}
+${requestContextText}
 
-Return JSON array of recommendations:
-[
+Return a JSON object with a recommendations array:
+{"recommendations": [
   {
     "title": "Song Title",
     "artist": "Artist Name",
     "confidence": 0.0-1.0,
     "vibe_tags": ["tag1", "tag2"],
     "why_it_fits": "Brief explanation (1-2 sentences)",
-    "spotify_url": "optional spotify link",
-    "apple_music_url": "optional apple music link"
+    "spotify_url": "spotify link or null",
+    "apple_music_url": "apple music link or null"
   },
   ...
-]
+]}
 
 Rules:
 - Diversity: Don't recommend 10 similar songs
@@ -199,34 +214,14 @@ Rules:
 - Match the mood and energy level
 - If user has confirmed songs, recommend similar vibes but different artists
 - Confidence should reflect how well it matches the mood`
-          },
-          {
-            role: "user",
-            content: `Generate recommendations for: ${moodAnalysis.mood} mood, ${moodAnalysis.energy_level} energy`
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.7, // Higher temperature for diversity
-        max_tokens: 2000
-      }),
-      signal: controller.signal
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`GPT API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error("Empty response from GPT");
-    }
+      },
+      {
+        role: "user",
+        content: `Generate recommendations for: ${moodAnalysis.mood} mood, ${moodAnalysis.energy_level} energy`
+      }
+    ], { temperature: 0.7, maxTokens: 2000, label: "RECOMMEND" }); // Higher temperature for diversity
 
-    const result = JSON.parse(content);
-    const recommendations = result.recommendations || result.songs || [];
+    const recommendations = result.recommendations;
 
     // Ensure we have at least 5 recommendations
     if (recommendations.length < 5) {
@@ -238,59 +233,44 @@ Rules:
     return recommendations.slice(0, 10); // Max 10 recommendations
   } catch (error) {
     console.error("Recommendation generation error:", error);
-    // Return fallback recommendations
-    return [
-      {
-        title: "Unknown",
-        artist: "Unknown",
-        confidence: 0.3,
-        vibe_tags: [moodAnalysis.mood],
-        why_it_fits: "Error generating recommendations"
-      }
-    ];
+    return fallbackRecommendations(moodAnalysis);
   }
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
   const startTime = Date.now();
+  let publisher: RecallPublisher | null = null;
+  let recallId: string | null = null;
 
   try {
     // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+    const supabase = serviceClient();
 
     // Parse request body
     const body: RecommendRequest = await req.json();
-    const { job_id, recall_id, query_text, user_preferences } = body;
+    const { job_id, recall_id, query_text, parent_job_id, context, user_preferences } = body;
+    recallId = recall_id || null;
 
     if (!job_id || !recall_id || !query_text) {
-      return new Response(
-        JSON.stringify({ error: "Missing required fields: job_id, recall_id, query_text" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "Missing required fields: job_id, recall_id, query_text");
     }
 
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
-      throw new Error("OPENAI_API_KEY not configured");
+    // Progress for clients subscribed to the recall's Realtime channel
+    publisher = recallPublisher(recall_id, { job_id, job_type: "recommend", request_id: requestId });
+
+    const llm = new LlmClient(supabase, {
+      ...defaultLlmDeps(),
+      usage: new UsageRecorder(supabase, { functionName: "recall-v2-recommend", requestId, recallId: recall_id }),
+    });
+    if (!llm.isConfigured()) {
+      throw new Error("LLM API key not configured");
     }
 
-    // Get user_id from recall
+    // Get user_id (and earlier chain results) from recall
     const { data: recall, error: recallError } = await supabase
       .from("recalls")
-      .select("user_id")
+      .select("user_id, result_json")
       .eq("id", recall_id)
       .single();
 
@@ -298,20 +278,6 @@ serve(async (req) => {
       throw new Error("Recall not found");
     }
 
-    // Update job status to processing
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "processing",
-        started_at: new Date().toISOString()
-      })
-      .eq("id", job_id);
-
-    await supabase
-      .from("recalls")
-      .update({ status: "processing" })
-      .eq("id", recall_id);
-
     // Log start
     await supabase
       .from("recall_logs")
@@ -323,9 +289,12 @@ serve(async (req) => {
         metadata: { job_id, query: query_text.substring(0, 100) }
       });
 
+    await publisher.publish("processing");
+
     // Parse mood from query
     console.log("Parsing mood from query...");
-    const moodAnalysis = await parseMood(query_text, openaiApiKey);
+    await publisher.publish("provider_attempt_started", { provider: "openai", step: "mood" });
+    const moodAnalysis = await parseMood(query_text, llm);
 
     // Get user's confirmed songs
     const confirmedSongs = await getUserConfirmedSongs(recall.user_id, supabase);
@@ -338,59 +307,76 @@ serve(async (req) => {
 
     // Generate recommendations
     console.log("Generating recommendations...");
+    await publisher.publish("provider_attempt_started", { provider: "openai", step: "recommendations" });
     const recommendations = await generateRecommendations(
       moodAnalysis,
       mergedPreferences,
       confirmedSongs,
-      openaiApiKey
+      llm,
+      context
     );
 
-    // Write recommendations to recall_candidates
-    for (let i = 0; i < recommendations.length; i++) {
-      const rec = recommendations[i];
-      await supabase
-        .from("recall_candidates")
-        .insert({
-          recall_id: recall_id,
-          rank: i + 1,
-          title: rec.title,
-          artist: rec.artist,
-          confidence: rec.confidence,
-          url: rec.spotify_url || rec.apple_music_url,
-          evidence: rec.why_it_fits
-        });
-
-      // Write sources if URLs provided
-      if (rec.spotify_url) {
-        await supabase
-          .from("recall_sources")
-          .insert({
-            recall_id: recall_id,
-            title: `${rec.title} by ${rec.artist}`,
-            url: rec.spotify_url,
-            publisher: "Spotify",
-            verified: true
-          });
-      }
-      if (rec.apple_music_url) {
+    // Write recommendations to recall_candidates, unless an earlier step of the chain
+    // (identify) already ranked its own candidates for this recall
+    if (!parent_job_id) {
+      for (let i = 0; i < recommendations.length; i++) {
+        const rec = recommendations[i];
         await supabase
-          .from("recall_sources")
+          .from("recall_candidates")
           .insert({
             recall_id: recall_id,
-            title: `${rec.title} by ${rec.artist}`,
-            url: rec.apple_music_url,
-            publisher: "Apple Music",
-            verified: true
+            rank: i + 1,
+            title: rec.title,
+            artist: rec.artist,
+            confidence: rec.confidence,
+            url: rec.spotify_url || rec.apple_music_url,
+            evidence: rec.why_it_fits
           });
+
+        // Write sources if URLs provided
+        if (rec.spotify_url) {
+          await supabase
+            .from("recall_sources")
+            .insert({
+              recall_id: recall_id,
+              title: `${rec.title} by ${rec.artist}`,
+              url: rec.spotify_url,
+              publisher: "Spotify",
+              verified: true
+            });
+        }
+        if (rec.apple_music_url) {
+          await supabase
+            .from("recall_sources")
+            .insert({
+              recall_id: recall_id,
+              title: `${rec.title} by ${rec.artist}`,
+              url: rec.apple_music_url,
+              publisher: "Apple Music",
+              verified: true
+            });
+        }
       }
     }
 
-    // Update recall with recommendations
+    for (let i = 0; i < recommendations.length; i++) {
+      const rec = recommendations[i];
+      await publisher.publish("candidate_found", {
+        rank: i + 1,
+        title: rec.title,
+        artist: rec.artist,
+        confidence: rec.confidence,
+        why_it_fits: rec.why_it_fits
+      });
+    }
+
+    // Update recall with recommendations, keeping earlier chain results
+    // (the worker sets its status once the whole job chain is done)
     await supabase
       .from("recalls")
       .update({
-        status: "done",
         result_json: {
+          ...(parent_job_id ? recall.result_json : {}),
           mood: moodAnalysis,
           recommendations: recommendations,
           count: recommendations.length
@@ -398,15 +384,6 @@ serve(async (req) => {
       })
       .eq("id", recall_id);
 
-    // Update job status
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "done",
-        completed_at: new Date().toISOString()
-      })
-      .eq("id", job_id);
-
     // Log completion
     const duration = Date.now() - startTime;
     await supabase
@@ -425,18 +402,17 @@ serve(async (req) => {
         }
       });
 
-    return new Response(
-      JSON.stringify({
-        status: "done",
-        request_id: requestId,
-        mood: moodAnalysis,
-        recommendations: recommendations
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    await publisher.publish("done", {
+      recommendations_count: recommendations.length,
+      mood: moodAnalysis.mood
+    });
+
+    return jsonResponse({
+      status: "done",
+      request_id: requestId,
+      mood: moodAnalysis,
+      recommendations: recommendations
+    });
 
   } catch (error) {
     console.error("Error in recall-v2-recommend:", error);
@@ -444,41 +420,17 @@ serve(async (req) => {
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error);
 
-    // Try to update job and recall status
-    try {
-      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabase = createClient(supabaseUrl, supabaseKey);
-      
-      const body: RecommendRequest = await req.json();
-      const { job_id, recall_id } = body;
-
-      if (job_id) {
-        await supabase
-          .from("recall_jobs")
-          .update({
-            status: "failed",
-            error_message: errorMessage,
-            completed_at: new Date().toISOString()
-          })
-          .eq("id", job_id);
-      }
+    // The worker decides whether this attempt is retried and settles the job and the recall
+    await publisher?.publish("failed", { error: errorMessage, final: false });
 
-      if (recall_id) {
-        await supabase
-          .from("recalls")
-          .update({
-            status: "failed",
-            error_message: errorMessage
-          })
-          .eq("id", recall_id);
-      }
+    try {
+      const supabase = serviceClient();
 
       await supabase
         .from("recall_logs")
         .insert({
           request_id: requestId,
-          recall_id: recall_id || null,
+          recall_id: recallId,
           operation: "recommend_error",
           duration_ms: duration,
           status: "error",
@@ -488,19 +440,9 @@ serve(async (req) => {
       console.error("Error logging failure:", logError);
     }
 
-    return new Response(
-      JSON.stringify({
-        error: "Internal server error",
-        details: errorMessage,
-        request_id: requestId
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return jsonError("internal_error", "Internal server error", { details: errorMessage, requestId });
   }
-});
+}));
 
 
 
@@ -1,15 +1,26 @@
 // Supabase Edge Function: recall-v2-router
 // Routes recall requests to appropriate engine (identify/knowledge/recommend)
 // Deploy with: supabase functions deploy recall-v2-router
-// Requires: OPENAI_API_KEY secret (for intent detection)
+// Requires: LLM_API_KEY or OPENAI_API_KEY secret (for intent detection, task "intent")
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { requireUser } from "../_shared/auth.ts";
+import { jsonResponse, readJsonBody, withCors } from "../_shared/cors.ts";
+import { dispatchRecallJob } from "../_shared/dispatch.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { defaultLlmDeps, LlmClient } from "../_shared/llm.ts";
+import {
+  acquireConcurrencySlot,
+  clientIp as getClientIp,
+  type ConcurrencySlot,
+  concurrencyLimitedResult,
+  consumeRateLimit,
+  rateLimitedResponse,
+  rateLimitHeaders,
+} from "../_shared/rateLimit.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { budgetExceededResponse, checkBudget, UsageRecorder } from "../_shared/usage.ts";
+import { detectIntent, planJobs, type UserPreferences } from "./intent.ts";
 
 interface RouterRequest {
   recall_id: string;
@@ -18,190 +29,10 @@ interface RouterRequest {
   image_path?: string;
   audio_path?: string;
   thread_id?: string; // Optional: for conversational context
+  backfill?: boolean; // Optional: non-interactive submissions (learning, backfill) go to the low lane
 }
 
-interface UserPreferences {
-  genre_preferences?: string[];
-  artist_preferences?: string[];
-  search_patterns?: string[];
-  question_styles?: string[];
-  rejected_artists?: string[];
-  corrections?: Array<{original: string; corrected: string}>;
-}
-
-interface IntentDetection {
-  intent: "identify" | "knowledge" | "recommend" | "conversation" | "generate";
-  confidence: number;
-  reasoning: string;
-}
-
-// Detect user intent from query
-async function detectIntent(
-  queryText: string | null,
-  inputType: string,
-  userPreferences: UserPreferences | null,
-  supabase: any
-): Promise<IntentDetection> {
-  // If audio/voice/hum input, likely identify
-  if (inputType === "voice" || inputType === "background" || inputType === "hum") {
-    return {
-      intent: "identify",
-      confidence: 0.9,
-      reasoning: "Audio input detected"
-    };
-  }
-
-  // If no query text, default to identify
-  if (!queryText || queryText.trim().length === 0) {
-    return {
-      intent: "identify",
-      confidence: 0.7,
-      reasoning: "No query text provided"
-    };
-  }
-
-  const queryLower = queryText.toLowerCase();
-
-  // Mood DJ keywords
-  const moodKeywords = [
-    "feeling", "mood", "vibe", "recommend", "suggest", "playlist",
-    "workout", "sad", "happy", "energetic", "chill", "relax", "party",
-    "study", "focus", "sleep", "motivated", "depressed", "excited"
-  ];
-  const hasMoodIntent = moodKeywords.some(kw => queryLower.includes(kw));
-
-  // Knowledge/question keywords
-  const questionKeywords = [
-    "who wrote", "when was", "what album", "tell me about", "explain",
-    "how", "why", "what is", "who is", "where", "history", "news",
-    "facts", "information", "about"
-  ];
-  const hasQuestionIntent = questionKeywords.some(kw => queryLower.includes(kw));
-
-  // Search/identify keywords
-  const searchKeywords = [
-    "find", "search", "identify", "what song", "name that song",
-    "who sings", "recognize", "remember", "lyrics", "melody", "hum"
-  ];
-  const hasSearchIntent = searchKeywords.some(kw => queryLower.includes(kw));
-
-  // Conversation keywords (casual chat)
-  const conversationKeywords = [
-    "hi", "hello", "hey", "how are you", "what's up", "thanks", "thank you",
-    "cool", "nice", "awesome", "okay", "sure", "yeah", "yep", "nope"
-  ];
-  const hasConversationIntent = conversationKeywords.some(kw => queryLower.includes(kw));
-
-  // Generation keywords
-  const generateKeywords = [
-    "create", "generate", "make", "compose", "write a song", "produce", "build",
-    "make music", "create music", "generate music", "make a beat", "create a melody"
-  ];
-  const hasGenerateIntent = generateKeywords.some(kw => queryLower.includes(kw));
-
-  // Use OpenAI for more sophisticated intent detection if available
-  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-  if (openaiApiKey && queryText.length > 10) {
-    try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini", // Use cheaper model for intent detection
-          messages: [
-            {
-              role: "system",
-              content: `Determine the user's intent for this music query. Return JSON with:
-- intent: "identify" (finding a song), "knowledge" (asking a question), "recommend" (wanting recommendations), "conversation" (casual chat), or "generate" (creating music)
-- confidence: 0.0-1.0
-- reasoning: brief explanation
-
-Examples:
-- "what song has the lyrics 'hello darkness my old friend'" → identify
-- "who wrote bohemian rhapsody" → knowledge
-- "I'm feeling sad, recommend some songs" → recommend
-- "how are you" or "thanks" → conversation
-- "create a song" or "make a beat" → generate`
-            },
-            {
-              role: "user",
-              content: queryText
-            }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.1,
-          max_tokens: 100
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const content = data.choices[0]?.message?.content;
-        if (content) {
-          const result = JSON.parse(content);
-          return {
-            intent: result.intent || "identify",
-            confidence: result.confidence || 0.7,
-            reasoning: result.reasoning || "AI detected intent"
-          };
-        }
-      }
-    } catch (error) {
-      console.error("OpenAI intent detection error:", error);
-    }
-  }
-
-  // Fallback to keyword-based detection
-  if (hasGenerateIntent) {
-    return {
-      intent: "generate",
-      confidence: 0.8,
-      reasoning: "Generation keywords detected"
-    };
-  }
-
-  if (hasConversationIntent && !hasQuestionIntent && !hasSearchIntent) {
-    return {
-      intent: "conversation",
-      confidence: 0.8,
-      reasoning: "Conversation keywords detected"
-    };
-  }
-
-  if (hasMoodIntent && !hasQuestionIntent) {
-    return {
-      intent: "recommend",
-      confidence: 0.8,
-      reasoning: "Mood/recommendation keywords detected"
-    };
-  }
-
-  if (hasQuestionIntent && !hasSearchIntent) {
-    return {
-      intent: "knowledge",
-      confidence: 0.8,
-      reasoning: "Question keywords detected"
-    };
-  }
-
-  if (hasSearchIntent) {
-    return {
-      intent: "identify",
-      confidence: 0.8,
-      reasoning: "Search/identify keywords detected"
-    };
-  }
-
-  // Default to identify
-  return {
-    intent: "identify",
-    confidence: 0.6,
-    reasoning: "Default fallback"
-  };
-}
+type JobPriority = "high" | "normal" | "low";
 
 // Fetch user preferences for personalization
 async function fetchUserPreferences(
@@ -262,118 +93,52 @@ async function fetchUserPreferences(
   }
 }
 
-// Generate request ID for idempotency
-function generateRequestId(): string {
-  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-}
-
-// Rate limiting: Check if user/IP has exceeded limits
-async function checkRateLimit(
-  userId: string,
-  clientIp: string | null,
-  supabase: any
-): Promise<{ allowed: boolean; retryAfter?: number }> {
-  const now = new Date();
-  const oneMinuteAgo = new Date(now.getTime() - 60 * 1000);
-
-  // Per-user limit: 10 recalls/minute
-  const { count: userCount } = await supabase
-    .from("recalls")
-    .select("*", { count: "exact", head: true })
-    .eq("user_id", userId)
-    .gte("created_at", oneMinuteAgo.toISOString());
-
-  if (userCount && userCount >= 10) {
-    return { allowed: false, retryAfter: 60 };
+// Queue lane for the job: someone is waiting on interactive text answers, identify jobs are
+// slower anyway, and learning/backfill work can wait behind both
+function jobPriority(jobType: string, inputType: string, backfill: boolean): JobPriority {
+  if (backfill) {
+    return "low";
   }
-
-  // Per-IP limit: 20 recalls/minute (if IP available)
-  if (clientIp) {
-    const { count: ipCount } = await supabase
-      .from("recall_logs")
-      .select("*", { count: "exact", head: true })
-      .eq("metadata->>ip", clientIp)
-      .gte("created_at", oneMinuteAgo.toISOString());
-
-    if (ipCount && ipCount >= 20) {
-      return { allowed: false, retryAfter: 60 };
-    }
+  if (jobType === "identify") {
+    return "normal";
   }
-
-  return { allowed: true };
+  return inputType === "text" ? "high" : "normal";
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+// Generate request ID for idempotency
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+}
 
+serve(withCors(async (req) => {
+  let slot: ConcurrencySlot | null = null;
   try {
-    // Get authorization header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
-
-    // Verify user
-    const { data: { user }, error: authError } = await supabase.auth.getUser(
-      authHeader.replace("Bearer ", "")
-    );
+    // Parse request body before any rate limit token or concurrency slot is spent on it
+    const body = await readJsonBody<RouterRequest>(req);
 
-    if (authError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Invalid authentication" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    // Initialize Supabase client and verify user
+    const supabase = serviceClient();
+    const user = await requireUser(req, supabase);
 
     // Get client IP for rate limiting
-    const clientIp = req.headers.get("x-forwarded-for") || 
-                     req.headers.get("x-real-ip") || 
-                     null;
+    const clientIp = getClientIp(req);
 
-    // Check rate limits
-    const rateLimit = await checkRateLimit(user.id, clientIp, supabase);
+    // Check rate limits (shared token buckets per user and per IP)
+    const rateLimit = await consumeRateLimit(supabase, { bucket: "recall-v2-router", userId: user.id, ip: clientIp });
     if (!rateLimit.allowed) {
-      return new Response(
-        JSON.stringify({
-          error: "Rate limit exceeded",
-          retry_after: rateLimit.retryAfter
-        }),
-        {
-          status: 429,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-            "Retry-After": String(rateLimit.retryAfter || 60)
-          }
-        }
-      );
+      return rateLimitedResponse(rateLimit, { extra: { retry_after: rateLimit.retryAfter } });
+    }
+    slot = await acquireConcurrencySlot(supabase, { bucket: "recall-v2-router", userId: user.id });
+    if (!slot.allowed) {
+      const limited = concurrencyLimitedResult(rateLimit);
+      return rateLimitedResponse(limited, { extra: { retry_after: limited.retryAfter } });
     }
+    const limitHeaders = rateLimitHeaders(rateLimit);
 
-    // Parse request body
-    const body: RouterRequest = await req.json();
-    const { recall_id, input_type, query_text, image_path, audio_path, thread_id } = body;
+    const { recall_id, input_type, query_text, image_path, audio_path, thread_id, backfill = false } = body;
 
     if (!recall_id) {
-      return new Response(
-        JSON.stringify({ error: "recall_id is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "recall_id is required", { headers: limitHeaders });
     }
 
     // Check if recall exists and belongs to user
@@ -385,22 +150,22 @@ serve(async (req) => {
       .single();
 
     if (recallError || !recall) {
-      return new Response(
-        JSON.stringify({ error: "Recall not found or access denied" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("not_found", "Recall not found or access denied", { headers: limitHeaders });
     }
 
     // Idempotency check: if already processing, return existing request_id
     if (recall.status === "processing" || recall.status === "queued") {
-      return new Response(
-        JSON.stringify({
-          status: "already_queued",
-          request_id: recall.request_id,
-          message: "Recall is already being processed"
-        }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({
+        status: "already_queued",
+        request_id: recall.request_id,
+        message: "Recall is already being processed"
+      }, 200, limitHeaders);
+    }
+
+    // Check the monthly usage budget before intent detection and the engines spend any of it
+    const budget = await checkBudget(supabase, user.id);
+    if (!budget.allowed) {
+      return budgetExceededResponse(budget, { headers: limitHeaders });
     }
 
     // Generate request ID
@@ -414,22 +179,48 @@ serve(async (req) => {
       query_text || recall.query_text,
       input_type,
       userPreferences,
-      supabase
+      new LlmClient(supabase, {
+        ...defaultLlmDeps(),
+        usage: new UsageRecorder(supabase, { functionName: "recall-v2-router", requestId, recallId: recall_id, userId: user.id }),
+      })
     );
 
     console.log(`Intent detected: ${intentDetection.intent} (confidence: ${intentDetection.confidence})`);
 
-    // Determine job type
-    let jobType: "identify" | "knowledge" | "recommend";
-    if (intentDetection.intent === "identify") {
-      jobType = "identify";
-    } else if (intentDetection.intent === "knowledge" || intentDetection.intent === "conversation") {
-      jobType = "knowledge";
-    } else if (intentDetection.intent === "generate") {
-      jobType = "recommend"; // Map generate to recommend for now (could add new job type later)
-    } else {
-      jobType = "recommend";
+    // Plan the job chain: the first job now, follow-on steps enqueued by its engine
+    const plan = planJobs(intentDetection, query_text || recall.query_text);
+    if (!plan) {
+      // Nothing will run for this request, so the recall is settled here instead of by the worker
+      const message = "Music generation is not supported";
+      await supabase
+        .from("recalls")
+        .update({ status: "failed", request_id: requestId, error_message: message })
+        .eq("id", recall_id);
+      await supabase
+        .from("recall_logs")
+        .insert({
+          request_id: requestId,
+          user_id: user.id,
+          recall_id: recall_id,
+          operation: "router",
+          status: "rejected",
+          error_message: message,
+          metadata: {
+            intent: intentDetection.intent,
+            confidence: intentDetection.confidence,
+            reasoning: intentDetection.reasoning,
+            ip: clientIp
+          }
+        });
+      return jsonError("bad_request", message, {
+        requestId,
+        headers: limitHeaders,
+        extra: { status: "failed", intent: intentDetection.intent }
+      });
     }
+    const jobType = plan.jobType;
+
+    const priority = jobPriority(jobType, input_type || recall.input_type, backfill);
 
     // Create job in queue
     const { data: job, error: jobError } = await supabase
@@ -438,6 +229,8 @@ serve(async (req) => {
         recall_id: recall_id,
         user_id: user.id,
         job_type: jobType,
+        priority,
+        payload: plan.payload,
         status: "queued",
         request_id: requestId,
         scheduled_at: new Date().toISOString()
@@ -447,10 +240,7 @@ serve(async (req) => {
 
     if (jobError || !job) {
       console.error("Error creating job:", jobError);
-      return new Response(
-        JSON.stringify({ error: "Failed to create job", details: jobError?.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("internal_error", "Failed to create job", { details: jobError?.message, headers: limitHeaders });
     }
 
     // Update recall status
@@ -462,6 +252,9 @@ serve(async (req) => {
       })
       .eq("id", recall_id);
 
+    // Start the job now rather than on the next cron sweep (fire-and-forget)
+    dispatchRecallJob(job.id);
+
     // Log the routing decision
     await supabase
       .from("recall_logs")
@@ -476,39 +269,30 @@ serve(async (req) => {
           confidence: intentDetection.confidence,
           reasoning: intentDetection.reasoning,
           job_type: jobType,
+          follow_on: plan.payload.follow_on || [],
+          priority,
           job_id: job.id,
           ip: clientIp
         }
       });
 
-    return new Response(
-      JSON.stringify({
-        status: "queued",
-        request_id: requestId,
-        job_id: job.id,
-        job_type: jobType,
-        intent: intentDetection.intent,
-        confidence: intentDetection.confidence,
-        reasoning: intentDetection.reasoning
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return jsonResponse({
+      status: "queued",
+      request_id: requestId,
+      job_id: job.id,
+      job_type: jobType,
+      follow_on: plan.payload.follow_on || [],
+      priority,
+      intent: intentDetection.intent,
+      confidence: intentDetection.confidence,
+      reasoning: intentDetection.reasoning
+    }, 200, limitHeaders);
 
   } catch (error) {
     console.error("Error in recall-v2-router:", error);
-    return new Response(
-      JSON.stringify({
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : String(error)
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return errorResponse(error);
+  } finally {
+    await slot?.release();
   }
-});
+}));
 
@@ -0,0 +1,241 @@
+// Intent detection and job planning for recall-v2-router: the LLM classifies the query
+// (task "intent"), with a keyword fallback when it is not configured or its reply is unusable
+
+import type { LlmClient } from "../_shared/llm.ts";
+import {
+  enumSchema,
+  nullable,
+  numberSchema,
+  objectSchema,
+  stringSchema,
+  type StructuredOutput,
+} from "../_shared/structured.ts";
+
+export interface UserPreferences {
+  genre_preferences?: string[];
+  artist_preferences?: string[];
+  search_patterns?: string[];
+  question_styles?: string[];
+  rejected_artists?: string[];
+  corrections?: Array<{original: string; corrected: string}>;
+}
+
+export interface IntentDetection {
+  intent: "identify" | "knowledge" | "recommend" | "conversation" | "generate";
+  confidence: number;
+  reasoning: string;
+  // Second step for compound identify queries ("what is this song and who wrote it?")
+  follow_up?: "knowledge" | "recommend" | null;
+}
+
+const INTENT_DETECTION_OUTPUT: StructuredOutput<IntentDetection> = {
+  name: "intent_detection",
+  schema: objectSchema({
+    intent: enumSchema(["identify", "knowledge", "recommend", "conversation", "generate"]),
+    confidence: numberSchema("0.0-1.0"),
+    reasoning: stringSchema("Brief explanation"),
+    follow_up: nullable(enumSchema(["knowledge", "recommend"])),
+  }),
+  fallback: () => ({ intent: "identify", confidence: 0.5, reasoning: "Invalid model reply" }),
+};
+
+const INTENT_DETECTION_PROMPT = `Determine the user's intent for this music query. Return JSON with:
+- intent: "identify" (finding a song), "knowledge" (asking a question), "recommend" (wanting recommendations), "conversation" (casual chat), or "generate" (creating music)
+- confidence: 0.0-1.0
+- reasoning: brief explanation
+- follow_up: for "identify" queries that also ask something about the song, "knowledge" (a question about it) or "recommend" (similar songs); otherwise null
+
+Examples:
+- "what song has the lyrics 'hello darkness my old friend'" → identify
+- "what is this song and who wrote it?" → identify, follow_up "knowledge"
+- "find this song and give me similar tracks" → identify, follow_up "recommend"
+- "who wrote bohemian rhapsody" → knowledge
+- "I'm feeling sad, recommend some songs" → recommend
+- "how are you" or "thanks" → conversation
+- "create a song" or "make a beat" → generate`;
+
+type JobType = "identify" | "knowledge" | "recommend";
+
+// Jobs for one request: the first is queued now, `payload.follow_on` lists the steps its
+// engine should enqueue as follow-on jobs once it has a result
+export interface JobPlan {
+  jobType: JobType;
+  payload: {
+    follow_on?: JobType[];
+    context?: Record<string, unknown>;
+  };
+}
+
+// Keyword check for a second step after identification
+function detectFollowUp(queryText: string | null): "knowledge" | "recommend" | null {
+  if (!queryText) return null;
+  const queryLower = queryText.toLowerCase();
+
+  const similarKeywords = ["similar", "songs like", "more like", "like this", "sounds like"];
+  if (similarKeywords.some(kw => queryLower.includes(kw))) {
+    return "recommend";
+  }
+
+  const questionKeywords = [
+    "who wrote", "who produced", "when was", "what album", "tell me about",
+    "meaning", "history", "who is the artist", "when did"
+  ];
+  if (questionKeywords.some(kw => queryLower.includes(kw))) {
+    return "knowledge";
+  }
+
+  return null;
+}
+
+// Returns null for intents no engine handles (generate: there is no music generation engine)
+export function planJobs(intentDetection: IntentDetection, queryText: string | null): JobPlan | null {
+  switch (intentDetection.intent) {
+    case "identify": {
+      const followUp = intentDetection.follow_up !== undefined
+        ? intentDetection.follow_up
+        : detectFollowUp(queryText);
+      return { jobType: "identify", payload: followUp ? { follow_on: [followUp] } : {} };
+    }
+    case "knowledge":
+    case "conversation":
+      return { jobType: "knowledge", payload: {} };
+    case "generate":
+      return null;
+    default:
+      return { jobType: "recommend", payload: {} };
+  }
+}
+
+// Detect user intent from query
+export async function detectIntent(
+  queryText: string | null,
+  inputType: string,
+  userPreferences: UserPreferences | null,
+  llm: LlmClient
+): Promise<IntentDetection> {
+  // If audio/voice/hum input, likely identify
+  if (inputType === "voice" || inputType === "background" || inputType === "hum") {
+    return {
+      intent: "identify",
+      confidence: 0.9,
+      reasoning: "Audio input detected"
+    };
+  }
+
+  // If no query text, default to identify
+  if (!queryText || queryText.trim().length === 0) {
+    return {
+      intent: "identify",
+      confidence: 0.7,
+      reasoning: "No query text provided"
+    };
+  }
+
+  const queryLower = queryText.toLowerCase();
+
+  // Mood DJ keywords
+  const moodKeywords = [
+    "feeling", "mood", "vibe", "recommend", "suggest", "playlist",
+    "workout", "sad", "happy", "energetic", "chill", "relax", "party",
+    "study", "focus", "sleep", "motivated", "depressed", "excited"
+  ];
+  const hasMoodIntent = moodKeywords.some(kw => queryLower.includes(kw));
+
+  // Knowledge/question keywords
+  const questionKeywords = [
+    "who wrote", "when was", "what album", "tell me about", "explain",
+    "how", "why", "what is", "who is", "where", "history", "news",
+    "facts", "information", "about"
+  ];
+  const hasQuestionIntent = questionKeywords.some(kw => queryLower.includes(kw));
+
+  // Search/identify keywords
+  const searchKeywords = [
+    "find", "search", "identify", "what song", "name that song",
+    "who sings", "recognize", "remember", "lyrics", "melody", "hum"
+  ];
+  const hasSearchIntent = searchKeywords.some(kw => queryLower.includes(kw));
+
+  // Conversation keywords (casual chat)
+  const conversationKeywords = [
+    "hi", "hello", "hey", "how are you", "what's up", "thanks", "thank you",
+    "cool", "nice", "awesome", "okay", "sure", "yeah", "yep", "nope"
+  ];
+  const hasConversationIntent = conversationKeywords.some(kw => queryLower.includes(kw));
+
+  // Generation phrases, matched as whole words: generate requests are rejected, so a bare
+  // "make" or "produce" ("make me a playlist", "who produced thriller") must not trigger them
+  const generatePhrases = [
+    "make a song", "make me a song", "make music", "make a beat", "make me a beat",
+    "create a song", "create music", "create a melody", "create a beat",
+    "generate a song", "generate music", "generate a beat",
+    "compose a song", "compose music", "write a song", "write me a song", "produce a beat"
+  ];
+  const hasGenerateIntent = generatePhrases.some(phrase => new RegExp(`\\b${phrase}\\b`).test(queryLower));
+
+  // Use the LLM for more sophisticated intent detection if available
+  if (llm.isConfigured() && queryText.length > 10) {
+    try {
+      const { value: result, status } = await llm.structured("intent", INTENT_DETECTION_OUTPUT, [
+        { role: "system", content: INTENT_DETECTION_PROMPT },
+        { role: "user", content: queryText },
+      ], { temperature: 0.1, maxTokens: 100, label: "ROUTER" });
+
+      // The fallback defers to the keyword detection below
+      if (status !== "fallback") {
+        // follow_up null means the model saw no second step, so keep it rather than guessing from keywords
+        return { ...result, follow_up: result.follow_up ?? null };
+      }
+    } catch (error) {
+      console.error("LLM intent detection error:", error);
+    }
+  }
+
+  // Fallback to keyword-based detection
+  if (hasGenerateIntent && !hasQuestionIntent && !hasSearchIntent) {
+    return {
+      intent: "generate",
+      confidence: 0.8,
+      reasoning: "Generation keywords detected"
+    };
+  }
+
+  if (hasConversationIntent && !hasQuestionIntent && !hasSearchIntent) {
+    return {
+      intent: "conversation",
+      confidence: 0.8,
+      reasoning: "Conversation keywords detected"
+    };
+  }
+
+  if (hasMoodIntent && !hasQuestionIntent) {
+    return {
+      intent: "recommend",
+      confidence: 0.8,
+      reasoning: "Mood/recommendation keywords detected"
+    };
+  }
+
+  if (hasQuestionIntent && !hasSearchIntent) {
+    return {
+      intent: "knowledge",
+      confidence: 0.8,
+      reasoning: "Question keywords detected"
+    };
+  }
+
+  if (hasSearchIntent) {
+    return {
+      intent: "identify",
+      confidence: 0.8,
+      reasoning: "Search/identify keywords detected"
+    };
+  }
+
+  // Default to identify
+  return {
+    intent: "identify",
+    confidence: 0.6,
+    reasoning: "Default fallback"
+  };
+}
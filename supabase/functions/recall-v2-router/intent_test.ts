@@ -0,0 +1,51 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { LlmClient } from "../_shared/llm.ts";
+import { detectIntent, type IntentDetection, planJobs } from "./intent.ts";
+
+// An LLM client that is unconfigured, or answers the intent task with `reply`
+function llm(reply?: Partial<IntentDetection>): LlmClient {
+  return {
+    isConfigured: () => reply !== undefined,
+    structured: () => Promise.resolve({ value: { confidence: 0.9, reasoning: "model", ...reply }, status: "ok" }),
+  } as unknown as LlmClient;
+}
+
+async function keywordIntent(query: string): Promise<string> {
+  return (await detectIntent(query, "text", null, llm())).intent;
+}
+
+Deno.test("keyword fallback does not treat everyday verbs as generate requests", async () => {
+  assertEquals(await keywordIntent("make me a playlist for my workout"), "recommend");
+  assertEquals(await keywordIntent("tell me about who produced thriller"), "knowledge");
+  assertEquals(await keywordIntent("find the song from the makeover montage"), "identify");
+  assertEquals(await keywordIntent("songs to build up my workout"), "recommend");
+
+  for (const query of ["make me a playlist for my workout", "tell me about who produced thriller", "songs to build up my workout"]) {
+    const plan = planJobs(await detectIntent(query, "text", null, llm()), query);
+    assertEquals(plan !== null, true, query);
+  }
+});
+
+Deno.test("keyword fallback still recognizes whole generate phrases", async () => {
+  assertEquals(await keywordIntent("make a beat for me"), "generate");
+  assertEquals(await keywordIntent("generate music like daft punk"), "generate");
+  assertEquals(await keywordIntent("can you write me a song"), "generate");
+  assertEquals(planJobs(await detectIntent("make a beat for me", "text", null, llm()), "make a beat for me"), null);
+});
+
+Deno.test("an LLM-classified generate intent is rejected, other intents are planned", async () => {
+  const generate = await detectIntent("please create a lofi track", "text", null, llm({ intent: "generate" }));
+  assertEquals(generate.intent, "generate");
+  assertEquals(planJobs(generate, "please create a lofi track"), null);
+
+  const identify = await detectIntent("what song did they make famous in 1999", "text", null, llm({ intent: "identify", follow_up: null }));
+  assertEquals(planJobs(identify, "what song did they make famous in 1999"), { jobType: "identify", payload: {} });
+});
+
+Deno.test("planJobs adds a follow-on step for compound identify queries", () => {
+  assertEquals(
+    planJobs({ intent: "identify", confidence: 0.8, reasoning: "keywords" }, "what song is this and who wrote it"),
+    { jobType: "identify", payload: { follow_on: ["knowledge"] } }
+  );
+  assertEquals(planJobs({ intent: "conversation", confidence: 0.8, reasoning: "chat" }, "thanks"), { jobType: "knowledge", payload: {} });
+});
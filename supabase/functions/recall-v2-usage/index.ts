@@ -0,0 +1,88 @@
+// Supabase Edge Function: recall-v2-usage
+// Daily upstream cost per function and per user, from usage_events (see _shared/usage.ts)
+// Deploy with: supabase functions deploy recall-v2-usage
+// Endpoints: GET /functions/v1/recall-v2-usage?from=YYYY-MM-DD&to=YYYY-MM-DD; admin or service role only
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireAdmin } from "../_shared/auth.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+
+// Default and longest reporting window, in days
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+
+interface DailyCost {
+  day: string;
+  key: string | null; // Function name or user id; null for calls with no known user
+  calls: number;
+  errors: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  audio_seconds: number;
+  cost_usd: number;
+}
+
+serve(withCors(async (req) => {
+  if (req.method !== "GET") {
+    return jsonError("method_not_allowed", "Use GET", { headers: { "Allow": "GET, OPTIONS" } });
+  }
+
+  const supabase = serviceClient();
+  await requireAdmin(req, supabase);
+
+  const params = new URL(req.url).searchParams;
+  const to = params.get("to") ?? isoDay(new Date());
+  const from = params.get("from") ?? isoDay(new Date(Date.parse(to) - (DEFAULT_DAYS - 1) * 86400000));
+  if (!isIsoDay(from) || !isIsoDay(to)) {
+    return jsonError("bad_request", "from and to must be dates (YYYY-MM-DD)");
+  }
+  const days = (Date.parse(to) - Date.parse(from)) / 86400000 + 1;
+  if (days < 1 || days > MAX_DAYS) {
+    return jsonError("bad_request", `The range must cover 1 to ${MAX_DAYS} days`);
+  }
+
+  const [byFunction, byUser] = await Promise.all([
+    dailyCosts(supabase, from, to, "function"),
+    dailyCosts(supabase, from, to, "user"),
+  ]);
+
+  return jsonResponse({
+    from,
+    to,
+    total_cost_usd: round(byFunction.reduce((sum, row) => sum + row.cost_usd, 0)),
+    by_function: byFunction.map(({ key, ...row }) => ({ function_name: key, ...row })),
+    by_user: byUser.map(({ key, ...row }) => ({ user_id: key, ...row })),
+  }, 200, { "Cache-Control": "no-store" });
+}));
+
+async function dailyCosts(supabase: SupabaseClient, from: string, to: string, group: "function" | "user"): Promise<DailyCost[]> {
+  const { data, error } = await supabase.rpc("usage_daily_costs", { p_from: from, p_to: to, p_group: group });
+  if (error) throw error;
+
+  // NUMERIC and BIGINT columns arrive as strings
+  return ((data || []) as Array<Record<string, unknown>>).map((row) => ({
+    day: String(row.day),
+    key: row.key === null ? null : String(row.key),
+    calls: Number(row.calls),
+    errors: Number(row.errors),
+    prompt_tokens: Number(row.prompt_tokens),
+    completion_tokens: Number(row.completion_tokens),
+    audio_seconds: Number(row.audio_seconds),
+    cost_usd: Number(row.cost_usd),
+  }));
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function isIsoDay(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,73 @@
+// Job chaining: engines may answer with `follow_on_jobs`, which the worker enqueues as
+// children of the job that produced them (enqueue_follow_on_jobs). The recall's status is
+// derived from the whole chain by refresh_recall_status, so it is only `done` once every
+// job for its request has finished.
+
+import { dispatchRecallJob } from "../_shared/dispatch.ts";
+
+export type ChainJobType = "identify" | "knowledge" | "recommend";
+
+// Step input stored on recall_jobs.payload
+export interface JobPayload {
+  // Overrides the recall's query_text for this step (e.g. the question plus the identified song)
+  query_text?: string;
+  // Whatever the parent step learned that this one needs (identified track, intent...)
+  context?: Record<string, unknown>;
+  // Job types the router planned after this one; the engine turns them into follow_on_jobs
+  follow_on?: ChainJobType[];
+}
+
+export interface FollowOnJobSpec {
+  job_type: ChainJobType;
+  payload?: JobPayload;
+  priority?: "high" | "normal" | "low";
+}
+
+const CHAIN_JOB_TYPES: ChainJobType[] = ["identify", "knowledge", "recommend"];
+
+// Enqueues the specs an engine returned and kicks the worker for each new child.
+// Invalid specs are dropped; returns the ids of the jobs created.
+export async function enqueueFollowOnJobs(
+  supabase: any,
+  parentJobId: string,
+  specs: unknown
+): Promise<string[]> {
+  if (!Array.isArray(specs) || specs.length === 0) {
+    return [];
+  }
+
+  const valid = specs.filter((spec): spec is FollowOnJobSpec =>
+    !!spec && typeof spec === "object" && CHAIN_JOB_TYPES.includes((spec as FollowOnJobSpec).job_type)
+  );
+  if (valid.length < specs.length) {
+    console.warn(`Dropped ${specs.length - valid.length} invalid follow-on job spec(s) from job ${parentJobId}`);
+  }
+  if (valid.length === 0) {
+    return [];
+  }
+
+  const { data: children, error } = await supabase.rpc("enqueue_follow_on_jobs", {
+    p_parent_job_id: parentJobId,
+    p_jobs: valid
+  });
+  if (error) {
+    throw error;
+  }
+
+  const ids = (children || []).map((child: { id: string }) => child.id);
+  for (const id of ids) {
+    dispatchRecallJob(id);
+  }
+  return ids;
+}
+
+// Recomputes the recall's status from its chain; logs instead of throwing since the job
+// outcome has already been written and the next refresh will correct the status
+export async function refreshRecallStatus(supabase: any, recallId: string): Promise<string | null> {
+  const { data: status, error } = await supabase.rpc("refresh_recall_status", { p_recall_id: recallId });
+  if (error) {
+    console.error(`Failed to refresh status of recall ${recallId}:`, error.message);
+    return null;
+  }
+  return status;
+}
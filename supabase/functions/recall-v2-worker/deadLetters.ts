@@ -0,0 +1,313 @@
+// Dead-letter queue for recall jobs that exhausted their retries, and the admin
+// routes on the worker to list, inspect, replay or discard them:
+//
+//   GET  /recall-v2-worker/dead-letters?job_type=&error_class=&status=&limit=&offset=
+//   GET  /recall-v2-worker/dead-letters/:id
+//   POST /recall-v2-worker/dead-letters/replay   { ids?, job_type?, error_class?, limit? }
+//   POST /recall-v2-worker/dead-letters/discard  { ids?, job_type?, error_class?, limit? }
+
+import { requireAdmin } from "../_shared/auth.ts";
+import { jsonResponse } from "../_shared/cors.ts";
+import { jsonError } from "../_shared/errors.ts";
+
+export type ErrorClass =
+  | "timeout"
+  | "circuit_open"
+  | "rate_limited"
+  | "upstream_5xx"
+  | "upstream_4xx"
+  | "invalid_input"
+  | "lease_expired"
+  | "unknown";
+
+export const ERROR_CLASSES: ErrorClass[] = [
+  "timeout",
+  "circuit_open",
+  "rate_limited",
+  "upstream_5xx",
+  "upstream_4xx",
+  "invalid_input",
+  "lease_expired",
+  "unknown"
+];
+
+// How an attempt ended. The worker writes success or error; reap_expired_recall_jobs writes
+// lease_expired for an attempt whose worker stopped renewing its lease.
+export type AttemptOutcome = "success" | "error" | "lease_expired";
+
+// One entry per processing attempt, appended to recall_jobs.attempts
+export interface JobAttempt {
+  attempt: number;
+  worker: string | null; // null when the reaper found a job without a lease owner
+  started_at: string | null;
+  finished_at: string;
+  duration_ms: number;
+  outcome: AttemptOutcome;
+  error?: string;
+  error_class?: ErrorClass;
+}
+
+export interface AttemptSummary {
+  total: number;
+  success: number;
+  error: number;
+  lease_expired: number;
+  last_outcome: AttemptOutcome | null;
+  last_error: string | null;
+}
+
+export interface DeadLetterInput {
+  job: {
+    id: string;
+    recall_id: string;
+    user_id: string;
+    job_type: string;
+    retry_count: number;
+    request_id?: string;
+  };
+  requestBody?: Record<string, unknown>;
+  lastError: string;
+  attempts: JobAttempt[];
+}
+
+const JOB_TYPES = ["identify", "knowledge", "recommend"];
+const STATUSES = ["dead", "replayed", "discarded"];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Buckets processJob's error messages so failures can be filtered and replayed by cause
+export function classifyJobError(message: string | undefined): ErrorClass {
+  const text = message || "";
+  if (/circuit breaker is open/i.test(text)) return "circuit_open";
+  if (/lease expired/i.test(text)) return "lease_expired";
+  if (/abort|timed? ?out/i.test(text)) return "timeout";
+
+  const status = text.match(/Engine function error: (\d{3})/);
+  if (status) {
+    const code = Number(status[1]);
+    if (code === 429) return "rate_limited";
+    if (code >= 500) return "upstream_5xx";
+    if (code >= 400) return "upstream_4xx";
+  }
+
+  if (/not found|missing/i.test(text)) return "invalid_input";
+  return "unknown";
+}
+
+// Counts a job's attempts by outcome, so an inspected dead letter shows how often its worker
+// failed and how often it died mid-attempt (the reaper's lease_expired entries)
+export function summarizeAttempts(attempts: JobAttempt[] | null | undefined): AttemptSummary {
+  const summary: AttemptSummary = { total: 0, success: 0, error: 0, lease_expired: 0, last_outcome: null, last_error: null };
+  for (const attempt of attempts || []) {
+    summary.total++;
+    // Entries written before outcomes were recorded count as errors
+    const outcome: AttemptOutcome = attempt.outcome === "success" || attempt.outcome === "lease_expired" ? attempt.outcome : "error";
+    summary[outcome]++;
+    summary.last_outcome = outcome;
+    summary.last_error = outcome === "success" ? null : attempt.error || null;
+  }
+  return summary;
+}
+
+// Copies a job that ran out of retries into recall_dead_letters. A job replayed earlier
+// and failed again reuses its row, which goes back to 'dead' with the new error and attempts.
+export async function deadLetterJob(supabase: any, { job, requestBody, lastError, attempts }: DeadLetterInput): Promise<void> {
+  const { error } = await supabase
+    .from("recall_dead_letters")
+    .upsert({
+      job_id: job.id,
+      recall_id: job.recall_id,
+      user_id: job.user_id,
+      job_type: job.job_type,
+      request_id: job.request_id || null,
+      request_body: requestBody || null,
+      last_error: lastError,
+      error_class: classifyJobError(lastError),
+      attempts,
+      retry_count: job.retry_count,
+      status: "dead",
+      resolved_at: null,
+      resolved_by: null
+    }, { onConflict: "job_id" });
+
+  if (error) {
+    console.error(`Failed to dead-letter job ${job.id}:`, error.message);
+  }
+}
+
+// Handles /dead-letters[/...] routes; `route` is the path after /dead-letters
+export async function handleDeadLetterRequest(req: Request, supabase: any, route: string[]): Promise<Response> {
+  const actor = await requireAdmin(req, supabase);
+  const [target, ...rest] = route;
+
+  if (rest.length > 0) {
+    return jsonError("not_found", "Unknown dead-letter route");
+  }
+
+  if (!target) {
+    if (req.method !== "GET") {
+      return jsonError("method_not_allowed", "Use GET", { headers: { "Allow": "GET, OPTIONS" } });
+    }
+    return listDeadLetters(supabase, new URL(req.url).searchParams);
+  }
+
+  if (target === "replay" || target === "discard") {
+    if (req.method !== "POST") {
+      return jsonError("method_not_allowed", "Use POST", { headers: { "Allow": "POST, OPTIONS" } });
+    }
+    const body = await req.json().catch(() => ({}));
+    return target === "replay"
+      ? replayDeadLetters(supabase, body, actor)
+      : discardDeadLetters(supabase, body, actor);
+  }
+
+  if (req.method !== "GET") {
+    return jsonError("method_not_allowed", "Use GET", { headers: { "Allow": "GET, OPTIONS" } });
+  }
+  return inspectDeadLetter(supabase, target);
+}
+
+interface Filters {
+  job_type?: string;
+  error_class?: string;
+  status?: string;
+}
+
+function filterError(filters: Filters): Response | null {
+  if (filters.job_type && !JOB_TYPES.includes(filters.job_type)) {
+    return jsonError("bad_request", `job_type must be one of: ${JOB_TYPES.join(", ")}`);
+  }
+  if (filters.error_class && !ERROR_CLASSES.includes(filters.error_class as ErrorClass)) {
+    return jsonError("bad_request", `error_class must be one of: ${ERROR_CLASSES.join(", ")}`);
+  }
+  if (filters.status && !STATUSES.includes(filters.status)) {
+    return jsonError("bad_request", `status must be one of: ${STATUSES.join(", ")}`);
+  }
+  return null;
+}
+
+function clampLimit(value: unknown): number {
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit <= 0) return DEFAULT_LIMIT;
+  return Math.min(Math.floor(limit), MAX_LIMIT);
+}
+
+async function listDeadLetters(supabase: any, params: URLSearchParams): Promise<Response> {
+  const filters: Filters = {
+    job_type: params.get("job_type") || undefined,
+    error_class: params.get("error_class") || undefined,
+    status: params.get("status") || "dead"
+  };
+  const invalid = filterError(filters);
+  if (invalid) return invalid;
+
+  const limit = clampLimit(params.get("limit"));
+  const offset = Math.max(0, Number(params.get("offset")) || 0);
+
+  let query = supabase
+    .from("recall_dead_letters")
+    .select("id, job_id, recall_id, user_id, job_type, error_class, last_error, retry_count, status, replay_count, created_at, updated_at", { count: "exact" })
+    .eq("status", filters.status)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filters.job_type) query = query.eq("job_type", filters.job_type);
+  if (filters.error_class) query = query.eq("error_class", filters.error_class);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+
+  return jsonResponse({ dead_letters: data || [], count: count ?? 0, limit, offset });
+}
+
+async function inspectDeadLetter(supabase: any, id: string): Promise<Response> {
+  const { data: deadLetter, error } = await supabase
+    .from("recall_dead_letters")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!deadLetter) {
+    return jsonError("not_found", "Dead letter not found");
+  }
+
+  const { data: job } = await supabase
+    .from("recall_jobs")
+    .select("id, status, retry_count, max_retries, scheduled_at, completed_at, error_message")
+    .eq("id", deadLetter.job_id)
+    .maybeSingle();
+
+  return jsonResponse({ dead_letter: deadLetter, job, attempt_summary: summarizeAttempts(deadLetter.attempts) });
+}
+
+// Resolves the request to dead-letter ids: explicit `ids`, or up to `limit` entries matching the filters.
+// One of the two is required so an empty body cannot replay or discard the whole queue.
+async function selectDeadLetterIds(supabase: any, body: any): Promise<string[] | Response> {
+  if (Array.isArray(body.ids) && body.ids.length > 0) {
+    if (body.ids.length > MAX_LIMIT) {
+      return jsonError("bad_request", `At most ${MAX_LIMIT} ids per request`);
+    }
+    return body.ids.map(String);
+  }
+
+  const filters: Filters = { job_type: body.job_type, error_class: body.error_class };
+  if (!filters.job_type && !filters.error_class) {
+    return jsonError("bad_request", "Pass ids or a job_type/error_class filter");
+  }
+  const invalid = filterError(filters);
+  if (invalid) return invalid;
+
+  let query = supabase
+    .from("recall_dead_letters")
+    .select("id")
+    .eq("status", "dead")
+    .order("created_at", { ascending: true })
+    .limit(clampLimit(body.limit));
+
+  if (filters.job_type) query = query.eq("job_type", filters.job_type);
+  if (filters.error_class) query = query.eq("error_class", filters.error_class);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map((row: { id: string }) => row.id);
+}
+
+async function replayDeadLetters(supabase: any, body: any, actor: string): Promise<Response> {
+  const ids = await selectDeadLetterIds(supabase, body);
+  if (ids instanceof Response) return ids;
+  if (ids.length === 0) {
+    return jsonResponse({ status: "replayed", replayed: 0, jobs: [] });
+  }
+
+  const { data: replayed, error } = await supabase.rpc("replay_recall_dead_letters", {
+    p_ids: ids,
+    p_resolved_by: actor
+  });
+  if (error) throw error;
+
+  console.log(`Replayed ${replayed?.length || 0} dead-lettered job(s) for ${actor}`);
+  return jsonResponse({ status: "replayed", replayed: replayed?.length || 0, jobs: replayed || [] });
+}
+
+async function discardDeadLetters(supabase: any, body: any, actor: string): Promise<Response> {
+  const ids = await selectDeadLetterIds(supabase, body);
+  if (ids instanceof Response) return ids;
+  if (ids.length === 0) {
+    return jsonResponse({ status: "discarded", discarded: 0, ids: [] });
+  }
+
+  const { data: discarded, error } = await supabase
+    .from("recall_dead_letters")
+    .update({ status: "discarded", resolved_at: new Date().toISOString(), resolved_by: actor })
+    .in("id", ids)
+    .eq("status", "dead")
+    .select("id");
+  if (error) throw error;
+
+  return jsonResponse({
+    status: "discarded",
+    discarded: discarded?.length || 0,
+    ids: (discarded || []).map((row: { id: string }) => row.id)
+  });
+}
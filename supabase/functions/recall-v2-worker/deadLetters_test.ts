@@ -0,0 +1,47 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { classifyJobError, type JobAttempt, summarizeAttempts } from "./deadLetters.ts";
+
+Deno.test("classifyJobError buckets processJob's error messages", () => {
+  const cases: Array<[string | undefined, string]> = [
+    ["Circuit breaker is open", "circuit_open"],
+    ["Lease expired (worker worker_1 stopped responding)", "lease_expired"],
+    ["The signal has been aborted", "timeout"],
+    ["Request timed out", "timeout"],
+    ["Engine function error: 429 - slow down", "rate_limited"],
+    ["Engine function error: 503 - unavailable", "upstream_5xx"],
+    ["Engine function error: 400 - bad body", "upstream_4xx"],
+    ["Recall not found", "invalid_input"],
+    ["Audio path missing for identify job", "invalid_input"],
+    ["Something else broke", "unknown"],
+    [undefined, "unknown"],
+  ];
+  for (const [message, expected] of cases) {
+    assertEquals(classifyJobError(message), expected, message);
+  }
+});
+
+Deno.test("classifyJobError prefers the breaker and lease over the engine status", () => {
+  assertEquals(classifyJobError("Engine function error: 500 - Circuit breaker is open"), "circuit_open");
+  assertEquals(classifyJobError("Engine function error: 504 - lease expired, timed out"), "lease_expired");
+});
+
+Deno.test("summarizeAttempts counts the reaper's lease_expired attempts", () => {
+  const attempts: JobAttempt[] = [
+    { attempt: 1, worker: "worker_a", started_at: "2026-10-18T10:00:00Z", finished_at: "2026-10-18T10:00:05Z", duration_ms: 5000, outcome: "error", error: "Engine function error: 503 - down", error_class: "upstream_5xx" },
+    { attempt: 2, worker: null, started_at: null, finished_at: "2026-10-18T10:12:00Z", duration_ms: 0, outcome: "lease_expired", error: "Lease expired", error_class: "lease_expired" },
+    { attempt: 3, worker: "worker_b", started_at: "2026-10-18T10:13:00Z", finished_at: "2026-10-18T10:13:40Z", duration_ms: 40000, outcome: "lease_expired", error: "Lease expired", error_class: "lease_expired" },
+  ];
+
+  assertEquals(summarizeAttempts(attempts), {
+    total: 3,
+    success: 0,
+    error: 1,
+    lease_expired: 2,
+    last_outcome: "lease_expired",
+    last_error: "Lease expired",
+  });
+});
+
+Deno.test("summarizeAttempts handles jobs without attempts", () => {
+  assertEquals(summarizeAttempts(null), { total: 0, success: 0, error: 0, lease_expired: 0, last_outcome: null, last_error: null });
+});
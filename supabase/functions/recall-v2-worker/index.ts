@@ -1,15 +1,20 @@
 // Supabase Edge Function: recall-v2-worker
 // Processes jobs from recall_jobs queue with retries and timeouts
 // Deploy with: supabase functions deploy recall-v2-worker
-// Can be triggered via cron or manually
+// Kicked by recall-v2-router for each new job ({ job_id, dispatch: true }); cron sweeps up retries and stragglers
+// Admin routes under /recall-v2-worker/dead-letters manage jobs that ran out of retries (see deadLetters.ts)
+// The worker is the only writer of recall_jobs.status and recalls.status; engines just answer with their result
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { CircuitBreaker } from "../_shared/circuitBreaker.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { runInBackground } from "../_shared/dispatch.ts";
+import { recallPublisher } from "../_shared/realtime.ts";
+import { enqueueFollowOnJobs, type JobPayload, refreshRecallStatus } from "./chains.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { classifyJobError, deadLetterJob, handleDeadLetterRequest, type JobAttempt } from "./deadLetters.ts";
+import { AdaptiveBatchSize, claimInBatches, initialBatchSize, PER_USER_CONCURRENCY } from "./scheduling.ts";
 
 interface Job {
   id: string;
@@ -20,65 +25,148 @@ interface Job {
   retry_count: number;
   max_retries: number;
   request_id?: string;
+  attempts?: JobAttempt[];
+  priority?: "high" | "normal" | "low";
+  created_at?: string;
+  parent_job_id?: string | null;
+  payload?: JobPayload;
 }
 
-// Circuit breaker state
-const circuitBreakers = new Map<string, { failures: number; lastFailure: number; open: boolean }>();
+interface JobResult {
+  success: boolean;
+  error?: string;
+  // Body sent to the engine, kept for the dead-letter queue
+  requestBody?: Record<string, unknown>;
+  // Follow-on job specs returned by the engine (see chains.ts)
+  followOnJobs?: unknown;
+}
 
-// Check circuit breaker
-function isCircuitOpen(service: string): boolean {
-  const breaker = circuitBreakers.get(service);
-  if (!breaker) return false;
-  
-  if (breaker.open) {
-    // Check if we should try again (5 minutes cooldown)
-    if (Date.now() - breaker.lastFailure > 5 * 60 * 1000) {
-      breaker.open = false;
-      breaker.failures = 0;
-      return false;
+// Lease held on each claimed job; identify jobs can run past it and renew it with heartbeats
+const LEASE_SECONDS = 90;
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Keeps extending the job's lease until stopped. Flags `lost` if another worker or the reaper took it over.
+function startHeartbeat(job: Job, supabase: any, workerId: string): { stop: () => void; lost: boolean } {
+  const heartbeat = {
+    lost: false,
+    stop: () => clearInterval(timer),
+  };
+  const timer = setInterval(async () => {
+    const { data: renewed, error } = await supabase.rpc("heartbeat_recall_job", {
+      p_job_id: job.id,
+      p_worker_id: workerId,
+      p_lease_seconds: LEASE_SECONDS
+    });
+    if (error) {
+      console.error(`Heartbeat failed for job ${job.id}:`, error.message);
+    } else if (!renewed) {
+      console.warn(`Lost lease on job ${job.id}`);
+      heartbeat.lost = true;
+      clearInterval(timer);
     }
-    return true;
-  }
-  
-  return false;
+  }, HEARTBEAT_INTERVAL_MS);
+  return heartbeat;
 }
 
-// Record circuit breaker failure
-function recordFailure(service: string) {
-  const breaker = circuitBreakers.get(service) || { failures: 0, lastFailure: 0, open: false };
-  breaker.failures++;
-  breaker.lastFailure = Date.now();
-  
-  // Open circuit after 5 consecutive failures
-  if (breaker.failures >= 5) {
-    breaker.open = true;
-    console.log(`Circuit breaker opened for ${service}`);
+// Writes the job's outcome only while this worker still holds the lease; returns false otherwise
+async function updateOwnedJob(job: Job, supabase: any, workerId: string, fields: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("recall_jobs")
+    .update({ ...fields, lease_owner: null, lease_expires_at: null })
+    .eq("id", job.id)
+    .eq("lease_owner", workerId)
+    .select("id");
+
+  if (error) {
+    throw error;
   }
-  
-  circuitBreakers.set(service, breaker);
+  if (!data || data.length === 0) {
+    console.warn(`Job ${job.id} is no longer leased by ${workerId}, discarding its outcome`);
+    return false;
+  }
+  return true;
 }
 
-// Record circuit breaker success
-function recordSuccess(service: string) {
-  const breaker = circuitBreakers.get(service);
-  if (breaker) {
-    breaker.failures = 0;
-    breaker.open = false;
-    circuitBreakers.set(service, breaker);
+interface JobFailure {
+  error: string;
+  requestBody?: Record<string, unknown>;
+  attempt: JobAttempt;
+  attempts: JobAttempt[];
+  duration: number;
+}
+
+// Fails the job for good: dead-letters it, settles the recall and reports the failure.
+// Does nothing if this worker no longer holds the lease.
+async function failJob(job: Job, supabase: any, workerId: string, failure: JobFailure): Promise<void> {
+  const owned = await updateOwnedJob(job, supabase, workerId, {
+    status: "failed",
+    completed_at: new Date().toISOString(),
+    error_message: failure.error,
+    attempts: failure.attempts
+  });
+  if (!owned) return;
+
+  await deadLetterJob(supabase, {
+    job,
+    requestBody: failure.requestBody,
+    lastError: failure.error,
+    attempts: failure.attempts
+  });
+
+  // A failed root fails the recall; a failed follow-on only gets noted on it
+  if (!job.parent_job_id) {
+    await supabase
+      .from("recalls")
+      .update({ error_message: failure.error })
+      .eq("id", job.recall_id);
   }
+  const recallStatus = await refreshRecallStatus(supabase, job.recall_id);
+  const publisher = recallPublisher(job.recall_id, { job_id: job.id, job_type: job.job_type, request_id: job.request_id });
+  await publisher.publish("failed", {
+    // No more retries; `final` when this also settles the recall as failed
+    final: recallStatus === "failed",
+    error: failure.error,
+    error_class: failure.attempt.error_class
+  });
+  if (recallStatus === "done") {
+    // A failed follow-on step still leaves the recall done with the earlier results
+    await publisher.publish("done", { final: true });
+  }
+
+  await supabase
+    .from("recall_logs")
+    .insert({
+      request_id: job.request_id || `req_${job.id}`,
+      user_id: job.user_id,
+      recall_id: job.recall_id,
+      operation: `worker_${job.job_type}_failed`,
+      duration_ms: failure.duration,
+      status: "error",
+      error_message: failure.error,
+      metadata: { job_id: job.id, retry_count: job.retry_count, error_class: failure.attempt.error_class }
+    });
 }
 
 // Call appropriate engine function
-async function processJob(job: Job, supabase: any): Promise<{ success: boolean; error?: string }> {
+async function processJob(job: Job, supabase: any): Promise<JobResult> {
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-  const functionUrl = `${supabaseUrl}/functions/v1/recall-v2-${job.job_type}`;
-  
-  // Check circuit breaker
-  if (isCircuitOpen(job.job_type)) {
-    console.log(`Circuit breaker is open for ${job.job_type}, skipping job ${job.id}`);
+  const engine = `recall-v2-${job.job_type}`;
+  const functionUrl = `${supabaseUrl}/functions/v1/${engine}`;
+
+  // Check circuit breaker (shared with every worker instance)
+  const breaker = new CircuitBreaker(engine, supabase);
+  const permit = await breaker.acquire();
+  if (!permit.allowed) {
+    console.log(`Circuit breaker is ${permit.state} for ${engine}, skipping job ${job.id}`);
     return { success: false, error: "Circuit breaker is open" };
   }
 
+  // Build request body based on job type
+  const requestBody: any = {
+    job_id: job.id,
+    recall_id: job.recall_id
+  };
+
   try {
     // Get recall data
     const { data: recall, error: recallError } = await supabase
@@ -91,25 +179,27 @@ async function processJob(job: Job, supabase: any): Promise<{ success: boolean;
       throw new Error("Recall not found");
     }
 
-    // Build request body based on job type
-    let requestBody: any = {
-      job_id: job.id,
-      recall_id: job.recall_id
-    };
-
     if (job.job_type === "identify") {
       if (!recall.audio_path) {
         throw new Error("Audio path missing for identify job");
       }
       requestBody.audio_path = recall.audio_path;
       requestBody.input_type = recall.input_type || "voice";
+      // Lets identify phrase the planned follow-on steps around the user's own words
+      if (recall.query_text) requestBody.query_text = recall.query_text;
     } else if (job.job_type === "knowledge" || job.job_type === "recommend") {
-      if (!recall.query_text) {
+      const queryText = job.payload?.query_text || recall.query_text;
+      if (!queryText) {
         throw new Error("Query text missing for knowledge/recommend job");
       }
-      requestBody.query_text = recall.query_text;
+      requestBody.query_text = queryText;
     }
 
+    // Chain context: where this step sits and what earlier steps found
+    if (job.parent_job_id) requestBody.parent_job_id = job.parent_job_id;
+    if (job.payload?.context) requestBody.context = job.payload.context;
+    if (job.payload?.follow_on?.length) requestBody.follow_on = job.payload.follow_on;
+
     // Fetch user preferences if available
     const { data: preferences } = await supabase
       .from("recall_user_preferences")
@@ -162,47 +252,76 @@ async function processJob(job: Job, supabase: any): Promise<{ success: boolean;
     }
 
     // Success
-    recordSuccess(job.job_type);
-    return { success: true };
+    await breaker.recordSuccess();
+    return { success: true, requestBody, followOnJobs: result.follow_on_jobs };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Error processing job ${job.id}:`, errorMessage);
     
     // Record failure for circuit breaker
-    recordFailure(job.job_type);
+    await breaker.recordFailure(error);
     
-    return { success: false, error: errorMessage };
+    return { success: false, error: errorMessage, requestBody };
   }
 }
 
-// Process a single job
-async function processSingleJob(job: Job, supabase: any): Promise<void> {
+// Process a single job already claimed (status processing, leased) by this worker.
+// Returns the attempt's timing (null if its outcome was discarded) so the batch size can adapt.
+async function processSingleJob(job: Job, supabase: any, workerId: string): Promise<JobAttempt | null> {
   const startTime = Date.now();
   
   try {
-    // Mark job as processing
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "processing",
-        started_at: new Date().toISOString()
-      })
-      .eq("id", job.id);
+    // The claim moved the job to processing; the recall follows while any of its jobs is pending
+    await refreshRecallStatus(supabase, job.recall_id);
+
+    // Process the job, renewing the lease while long identify jobs run
+    const heartbeat = job.job_type === "identify" ? startHeartbeat(job, supabase, workerId) : null;
+    let result: JobResult;
+    try {
+      result = await processJob(job, supabase);
+    } finally {
+      heartbeat?.stop();
+    }
 
-    // Process the job
-    const result = await processJob(job, supabase);
+    if (heartbeat?.lost) {
+      console.warn(`Job ${job.id} finished after its lease was lost, discarding its outcome`);
+      return null;
+    }
 
     const duration = Date.now() - startTime;
+    const attempt: JobAttempt = {
+      attempt: (job.attempts?.length || 0) + 1,
+      worker: workerId,
+      started_at: new Date(startTime).toISOString(),
+      finished_at: new Date().toISOString(),
+      duration_ms: duration,
+      outcome: result.success ? "success" : "error",
+      ...(result.success ? {} : { error: result.error, error_class: classifyJobError(result.error) })
+    };
+    const attempts = [...(job.attempts || []), attempt];
+    const publisher = recallPublisher(job.recall_id, { job_id: job.id, job_type: job.job_type, request_id: job.request_id });
 
     if (result.success) {
       // Job completed successfully
-      await supabase
-        .from("recall_jobs")
-        .update({
-          status: "done",
-          completed_at: new Date().toISOString()
-        })
-        .eq("id", job.id);
+      const owned = await updateOwnedJob(job, supabase, workerId, {
+        status: "done",
+        completed_at: new Date().toISOString(),
+        attempts
+      });
+      if (!owned) return attempt;
+
+      // Enqueue the steps the engine asked for before settling the recall's status
+      let followOnJobIds: string[] = [];
+      try {
+        followOnJobIds = await enqueueFollowOnJobs(supabase, job.id, result.followOnJobs);
+      } catch (error) {
+        console.error(`Failed to enqueue follow-on jobs for job ${job.id}:`, error);
+      }
+      const recallStatus = await refreshRecallStatus(supabase, job.recall_id);
+      if (recallStatus === "done") {
+        // Engines report each step; this marks the end of the whole chain
+        await publisher.publish("done", { final: true });
+      }
 
       await supabase
         .from("recall_logs")
@@ -213,7 +332,14 @@ async function processSingleJob(job: Job, supabase: any): Promise<void> {
           operation: `worker_${job.job_type}`,
           duration_ms: duration,
           status: "success",
-          metadata: { job_id: job.id, job_type: job.job_type }
+          metadata: {
+            job_id: job.id,
+            job_type: job.job_type,
+            parent_job_id: job.parent_job_id || null,
+            follow_on_job_ids: followOnJobIds,
+            // Time spent queued before this attempt started (dispatch latency on first attempts)
+            queue_wait_ms: job.created_at ? startTime - new Date(job.created_at).getTime() : null
+          }
         });
     } else {
       // Job failed - check if we should retry
@@ -224,15 +350,23 @@ async function processSingleJob(job: Job, supabase: any): Promise<void> {
         const backoffSeconds = Math.pow(2, newRetryCount) * 5; // Exponential backoff: 10s, 20s, 40s
         const scheduledAt = new Date(Date.now() + backoffSeconds * 1000);
 
-        await supabase
-          .from("recall_jobs")
-          .update({
-            status: "retrying",
-            retry_count: newRetryCount,
-            scheduled_at: scheduledAt.toISOString(),
-            error_message: result.error
-          })
-          .eq("id", job.id);
+        const owned = await updateOwnedJob(job, supabase, workerId, {
+          status: "retrying",
+          retry_count: newRetryCount,
+          scheduled_at: scheduledAt.toISOString(),
+          error_message: result.error,
+          attempts
+        });
+        if (!owned) return attempt;
+
+        await publisher.publish("retry_scheduled", {
+          retry_count: newRetryCount,
+          max_retries: job.max_retries,
+          retry_in_seconds: backoffSeconds,
+          retry_at: scheduledAt.toISOString(),
+          error: result.error,
+          error_class: attempt.error_class
+        });
 
         await supabase
           .from("recall_logs")
@@ -247,151 +381,144 @@ async function processSingleJob(job: Job, supabase: any): Promise<void> {
             metadata: { job_id: job.id, retry_count: newRetryCount }
           });
       } else {
-        // Max retries reached - mark as failed
-        await supabase
-          .from("recall_jobs")
-          .update({
-            status: "failed",
-            completed_at: new Date().toISOString(),
-            error_message: result.error || "Max retries reached"
-          })
-          .eq("id", job.id);
-
-        await supabase
-          .from("recalls")
-          .update({
-            status: "failed",
-            error_message: result.error || "Max retries reached"
-          })
-          .eq("id", job.recall_id);
-
-        await supabase
-          .from("recall_logs")
-          .insert({
-            request_id: job.request_id || `req_${job.id}`,
-            user_id: job.user_id,
-            recall_id: job.recall_id,
-            operation: `worker_${job.job_type}_failed`,
-            duration_ms: duration,
-            status: "error",
-            error_message: result.error || "Max retries reached",
-            metadata: { job_id: job.id, retry_count: job.retry_count }
-          });
+        // Max retries reached - mark as failed and move to the dead-letter queue
+        await failJob(job, supabase, workerId, {
+          error: result.error || "Max retries reached",
+          requestBody: result.requestBody,
+          attempt,
+          attempts,
+          duration
+        });
       }
     }
+
+    return attempt;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`Unexpected error processing job ${job.id}:`, errorMessage);
 
-    await supabase
-      .from("recall_jobs")
-      .update({
-        status: "failed",
-        error_message: errorMessage,
-        completed_at: new Date().toISOString()
-      })
-      .eq("id", job.id);
+    // The job's outcome is unknown, so it fails like one that ran out of retries
+    const attempt: JobAttempt = {
+      attempt: (job.attempts?.length || 0) + 1,
+      worker: workerId,
+      started_at: new Date(startTime).toISOString(),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startTime,
+      outcome: "error",
+      error: errorMessage,
+      error_class: classifyJobError(errorMessage)
+    };
+    try {
+      await failJob(job, supabase, workerId, {
+        error: errorMessage,
+        attempt,
+        attempts: [...(job.attempts || []), attempt],
+        duration: attempt.duration_ms
+      });
+    } catch (failError) {
+      console.error(`Failed to record failure of job ${job.id}:`, failError);
+    }
+    return null;
   }
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   try {
     // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: false,
-        persistSession: false
-      }
-    });
+    const supabase = serviceClient();
+
+    const route = new URL(req.url).pathname.replace(/\/+$/, "").split("/");
+    const deadLetterIndex = route.indexOf("dead-letters");
+    if (deadLetterIndex !== -1) {
+      return await handleDeadLetterRequest(req, supabase, route.slice(deadLetterIndex + 1));
+    }
 
     // Parse request body (optional - can be triggered via cron)
     const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
-    const { job_id, max_jobs = 10 } = body;
+    const { job_id, max_jobs = 10, dispatch = false } = body;
+
+    // Identifies this invocation as the lease owner of the jobs it claims
+    const workerId = `worker_${crypto.randomUUID()}`;
 
     if (job_id) {
-      // Process specific job
-      const { data: job, error } = await supabase
-        .from("recall_jobs")
-        .select("*")
-        .eq("id", job_id)
-        .single();
-
-      if (error || !job) {
-        return new Response(
-          JSON.stringify({ error: "Job not found" }),
-          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+      // Process specific job, if it is due and nobody else holds it
+      const { data: claimed, error: claimError } = await supabase.rpc("claim_recall_jobs", {
+        p_worker_id: workerId,
+        p_limit: 1,
+        p_lease_seconds: LEASE_SECONDS,
+        p_job_id: job_id,
+        p_per_user_limit: PER_USER_CONCURRENCY
+      });
+
+      if (claimError) {
+        throw claimError;
       }
 
-      await processSingleJob(job as Job, supabase);
+      if (!claimed || claimed.length === 0) {
+        const { data: existing } = await supabase
+          .from("recall_jobs")
+          .select("id, status")
+          .eq("id", job_id)
+          .maybeSingle();
 
-      return new Response(
-        JSON.stringify({ status: "processed", job_id: job.id }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+        if (!existing) {
+          return jsonError("not_found", "Job not found");
+        }
+        return jsonResponse({ status: "skipped", job_id, job_status: existing.status, reason: "Job is not due, is claimed by another worker, or its user is at the concurrency cap" });
+      }
 
-    // Process queued jobs (up to max_jobs)
-    const { data: jobs, error: jobsError } = await supabase
-      .from("recall_jobs")
-      .select("*")
-      .in("status", ["queued", "retrying"])
-      .lte("scheduled_at", new Date().toISOString())
-      .order("scheduled_at", { ascending: true })
-      .limit(max_jobs);
+      if (dispatch) {
+        // Kicked by the router: acknowledge as soon as the job is claimed and run it after responding
+        runInBackground(processSingleJob(claimed[0] as Job, supabase, workerId), `job ${job_id}`);
+        return jsonResponse({ status: "accepted", job_id }, 202);
+      }
+
+      await processSingleJob(claimed[0] as Job, supabase, workerId);
 
-    if (jobsError) {
-      throw jobsError;
+      return jsonResponse({ status: "processed", job_id });
     }
 
-    if (!jobs || jobs.length === 0) {
-      return new Response(
-        JSON.stringify({ status: "no_jobs", processed: 0 }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    // Recover jobs left in processing by crashed or timed-out workers
+    const { data: reaped, error: reapError } = await supabase.rpc("reap_expired_recall_jobs");
+    if (reapError) {
+      console.error("Error reaping expired jobs:", reapError.message);
+    } else if (reaped && reaped.length > 0) {
+      console.log(`Reaped ${reaped.length} job(s) with expired leases`);
+      // The reaper fails recalls outright; let chains with surviving jobs settle properly
+      const failedRecalls = new Set<string>(
+        reaped.filter((r: { new_status: string }) => r.new_status === "failed").map((r: { recall_id: string }) => r.recall_id)
       );
+      for (const recallId of failedRecalls) {
+        await refreshRecallStatus(supabase, recallId);
+      }
     }
 
-    // Process jobs in parallel (but limit concurrency)
-    const concurrency = 3; // Process 3 jobs at a time
-    const results = [];
+    // Claim and process jobs a batch at a time, by lane (high, normal, low) with a per-user cap;
+    // the batch size follows engine latency
+    const batchSize = new AdaptiveBatchSize(await initialBatchSize(supabase));
+    const claimed = await claimInBatches<Job>(supabase, batchSize, { workerId, maxJobs: max_jobs, leaseSeconds: LEASE_SECONDS }, async (job) => {
+      const attempt = await processSingleJob(job, supabase, workerId);
+      return attempt && { duration_ms: attempt.duration_ms, timedOut: attempt.error_class === "timeout" };
+    });
+    const results = claimed.map((j) => ({ id: j.id, status: "processed", priority: j.priority }));
 
-    for (let i = 0; i < jobs.length; i += concurrency) {
-      const batch = jobs.slice(i, i + concurrency);
-      const batchPromises = batch.map(job => processSingleJob(job as Job, supabase));
-      await Promise.all(batchPromises);
-      results.push(...batch.map(j => ({ id: j.id, status: "processed" })));
+    if (results.length === 0) {
+      return jsonResponse({ status: "no_jobs", processed: 0, reaped: reaped?.length || 0 });
     }
 
-    return new Response(
-      JSON.stringify({
-        status: "processed",
-        processed: results.length,
-        jobs: results
-      }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({
+      status: "processed",
+      processed: results.length,
+      reaped: reaped?.length || 0,
+      batch_size: batchSize.current,
+      jobs: results
+    });
 
   } catch (error) {
     console.error("Error in recall-v2-worker:", error);
-    return new Response(
-      JSON.stringify({
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : String(error)
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" }
-      }
-    );
+    return errorResponse(error);
   }
-});
+}));
 
 
 
@@ -0,0 +1,116 @@
+// Scheduling knobs for the worker's claim loop. Lane order and per-user fairness are
+// enforced by claim_recall_jobs; this module sizes each batch from observed engine latency.
+
+// At most this many jobs per user are processing at once across all workers (soft cap)
+export const PER_USER_CONCURRENCY = 2;
+
+const MIN_BATCH_SIZE = 1;
+const MAX_BATCH_SIZE = 8;
+const DEFAULT_BATCH_SIZE = 3;
+
+// Batches averaging under FAST_MS grow by one; over SLOW_MS (or with a timeout) they halve
+const FAST_MS = 5000;
+const SLOW_MS = 30000;
+
+// Recent worker runs used to seed the batch size of a fresh invocation
+const LATENCY_WINDOW_MINUTES = 10;
+const LATENCY_SAMPLE_SIZE = 50;
+
+export interface BatchOutcome {
+  duration_ms: number;
+  timedOut: boolean;
+}
+
+// Additive increase / multiplicative decrease on the number of jobs claimed per batch
+export class AdaptiveBatchSize {
+  private size: number;
+
+  constructor(initial = DEFAULT_BATCH_SIZE) {
+    this.size = clamp(initial);
+  }
+
+  get current(): number {
+    return this.size;
+  }
+
+  record(outcomes: BatchOutcome[]): void {
+    if (outcomes.length === 0) return;
+
+    const averageMs = outcomes.reduce((sum, o) => sum + o.duration_ms, 0) / outcomes.length;
+    if (averageMs > SLOW_MS || outcomes.some((o) => o.timedOut)) {
+      this.size = clamp(Math.floor(this.size / 2));
+    } else if (averageMs < FAST_MS) {
+      this.size = clamp(this.size + 1);
+    }
+  }
+}
+
+// Starting batch size from worker runs logged in the last few minutes, so each cron
+// invocation does not have to rediscover a slow upstream on its own
+export async function initialBatchSize(supabase: any): Promise<number> {
+  const since = new Date(Date.now() - LATENCY_WINDOW_MINUTES * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("recall_logs")
+    .select("duration_ms")
+    .like("operation", "worker_%")
+    .not("duration_ms", "is", null)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(LATENCY_SAMPLE_SIZE);
+
+  if (error || !data || data.length === 0) {
+    return DEFAULT_BATCH_SIZE;
+  }
+
+  const averageMs = data.reduce((sum: number, row: { duration_ms: number }) => sum + row.duration_ms, 0) / data.length;
+  if (averageMs > SLOW_MS) return MIN_BATCH_SIZE;
+  if (averageMs < FAST_MS) return MAX_BATCH_SIZE;
+  // Scale linearly between the two thresholds
+  const ratio = (SLOW_MS - averageMs) / (SLOW_MS - FAST_MS);
+  return clamp(Math.round(MIN_BATCH_SIZE + ratio * (MAX_BATCH_SIZE - MIN_BATCH_SIZE)));
+}
+
+export interface ClaimOptions {
+  workerId: string;
+  maxJobs: number;
+  leaseSeconds: number;
+}
+
+// Claims and runs jobs a batch at a time (up to maxJobs), so no claimed job sits waiting
+// while its lease runs out; overlapping invocations skip each other's rows. Every claim carries
+// PER_USER_CONCURRENCY, and each batch's outcomes size the next one. Returns the claimed jobs.
+export async function claimInBatches<T>(
+  supabase: any,
+  batchSize: AdaptiveBatchSize,
+  options: ClaimOptions,
+  run: (job: T) => Promise<BatchOutcome | null>
+): Promise<T[]> {
+  const claimed: T[] = [];
+
+  while (claimed.length < options.maxJobs) {
+    const { data: batch, error } = await supabase.rpc("claim_recall_jobs", {
+      p_worker_id: options.workerId,
+      p_limit: Math.min(batchSize.current, options.maxJobs - claimed.length),
+      p_lease_seconds: options.leaseSeconds,
+      p_per_user_limit: PER_USER_CONCURRENCY
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    if (!batch || batch.length === 0) {
+      break;
+    }
+
+    const outcomes = await Promise.all((batch as T[]).map(run));
+    batchSize.record(outcomes.filter((o): o is BatchOutcome => o !== null));
+    claimed.push(...batch);
+  }
+
+  return claimed;
+}
+
+function clamp(size: number): number {
+  return Math.min(MAX_BATCH_SIZE, Math.max(MIN_BATCH_SIZE, size));
+}
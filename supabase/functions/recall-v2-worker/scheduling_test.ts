@@ -0,0 +1,134 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AdaptiveBatchSize, type BatchOutcome, claimInBatches, initialBatchSize, PER_USER_CONCURRENCY } from "./scheduling.ts";
+
+interface FakeJob {
+  id: string;
+  user_id: string;
+}
+
+const fast: BatchOutcome = { duration_ms: 1000, timedOut: false };
+const steady: BatchOutcome = { duration_ms: 10000, timedOut: false };
+const slow: BatchOutcome = { duration_ms: 45000, timedOut: false };
+const timedOut: BatchOutcome = { duration_ms: 2000, timedOut: true };
+
+// A client whose recall_logs query answers with `durations` and whose claim_recall_jobs
+// hands out `queue` in order, honoring p_limit and p_per_user_limit like the SQL does for
+// jobs of users with nothing else in flight
+function fakeClient(options: { durations?: number[] | null; queue?: FakeJob[]; claimError?: Error } = {}) {
+  const claims: Array<Record<string, unknown>> = [];
+  const batches: FakeJob[][] = [];
+  const queue = [...(options.queue ?? [])];
+
+  const logs = {
+    then: (resolve: (result: unknown) => unknown) =>
+      Promise.resolve({ data: options.durations?.map((duration_ms) => ({ duration_ms })) ?? null, error: null }).then(resolve),
+  } as Record<string, unknown>;
+  for (const method of ["select", "like", "not", "gte", "order", "limit"]) {
+    logs[method] = () => logs;
+  }
+
+  const client = {
+    from: () => logs,
+    rpc: (_name: string, params: Record<string, unknown>) => {
+      claims.push(params);
+      if (options.claimError) return Promise.resolve({ data: null, error: options.claimError });
+
+      const batch: FakeJob[] = [];
+      const perUser = new Map<string, number>();
+      for (const job of [...queue]) {
+        if (batch.length >= (params.p_limit as number)) break;
+        const running = perUser.get(job.user_id) ?? 0;
+        if (running >= (params.p_per_user_limit as number)) continue;
+        perUser.set(job.user_id, running + 1);
+        batch.push(job);
+        queue.splice(queue.indexOf(job), 1);
+      }
+      batches.push(batch);
+      return Promise.resolve({ data: batch, error: null });
+    },
+  };
+  return { client, claims, batches };
+}
+
+function jobs(userId: string, count: number): FakeJob[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `${userId}-${i}`, user_id: userId }));
+}
+
+Deno.test("AdaptiveBatchSize grows by one after fast batches, up to 8", () => {
+  const size = new AdaptiveBatchSize(3);
+  size.record([fast, fast]);
+  assertEquals(size.current, 4);
+  for (let i = 0; i < 10; i++) size.record([fast]);
+  assertEquals(size.current, 8);
+});
+
+Deno.test("AdaptiveBatchSize halves after slow or timed out batches, down to 1", () => {
+  const size = new AdaptiveBatchSize(8);
+  size.record([slow]);
+  assertEquals(size.current, 4);
+  size.record([fast, fast, timedOut]);
+  assertEquals(size.current, 2);
+  size.record([slow]);
+  size.record([slow]);
+  assertEquals(size.current, 1);
+});
+
+Deno.test("AdaptiveBatchSize holds between the thresholds and ignores empty batches", () => {
+  const size = new AdaptiveBatchSize(5);
+  size.record([steady, steady]);
+  assertEquals(size.current, 5);
+  size.record([]);
+  assertEquals(size.current, 5);
+  assertEquals(new AdaptiveBatchSize(0).current, 1);
+  assertEquals(new AdaptiveBatchSize(20).current, 8);
+});
+
+Deno.test("initialBatchSize scales with recent worker latency", async () => {
+  assertEquals(await initialBatchSize(fakeClient({ durations: null }).client), 3);
+  assertEquals(await initialBatchSize(fakeClient({ durations: [1000, 2000] }).client), 8);
+  assertEquals(await initialBatchSize(fakeClient({ durations: [40000, 50000] }).client), 1);
+  // Halfway between 5s and 30s: halfway between 1 and 8
+  assertEquals(await initialBatchSize(fakeClient({ durations: [17500] }).client), 5);
+});
+
+Deno.test("claimInBatches passes the per-user cap on every claim", async () => {
+  const { client, claims, batches } = fakeClient({ queue: [...jobs("heavy", 6), ...jobs("light", 1)] });
+
+  const claimed = await claimInBatches<FakeJob>(client, new AdaptiveBatchSize(8), { workerId: "worker_1", maxJobs: 10, leaseSeconds: 90 }, () =>
+    Promise.resolve(fast)
+  );
+
+  assertEquals(PER_USER_CONCURRENCY, 2);
+  assertEquals(claims.every((c) => c.p_per_user_limit === PER_USER_CONCURRENCY && c.p_worker_id === "worker_1" && c.p_lease_seconds === 90), true);
+  // The light user is not starved behind the heavy one's backlog
+  assertEquals(batches[0].map((j) => j.user_id), ["heavy", "heavy", "light"]);
+  assertEquals(batches.map((b) => b.length), [3, 2, 2, 0]);
+  assertEquals(claimed.length, 7);
+});
+
+Deno.test("claimInBatches sizes each claim from the previous batch and stops at maxJobs", async () => {
+  const { client, claims } = fakeClient({ queue: jobs("a", 4).concat(jobs("b", 4), jobs("c", 4), jobs("d", 4)) });
+  const outcomes = [slow, slow, slow, slow, fast, fast];
+  let call = 0;
+
+  const claimed = await claimInBatches<FakeJob>(client, new AdaptiveBatchSize(4), { workerId: "w", maxJobs: 6, leaseSeconds: 90 }, () =>
+    Promise.resolve(outcomes[call++] ?? fast)
+  );
+
+  // 4 slow jobs halve the size to 2, the next 2 fast jobs would grow it but maxJobs is reached
+  assertEquals(claims.map((c) => c.p_limit), [4, 2]);
+  assertEquals(claimed.length, 6);
+});
+
+Deno.test("claimInBatches skips jobs without an attempt when sizing and rethrows claim errors", async () => {
+  const size = new AdaptiveBatchSize(3);
+  const { client } = fakeClient({ queue: jobs("a", 1).concat(jobs("b", 1)) });
+  await claimInBatches<FakeJob>(client, size, { workerId: "w", maxJobs: 10, leaseSeconds: 90 }, () => Promise.resolve(null));
+  assertEquals(size.current, 3);
+
+  await assertRejects(() =>
+    claimInBatches<FakeJob>(fakeClient({ claimError: new Error("claim failed") }).client, size, { workerId: "w", maxJobs: 10, leaseSeconds: 90 }, () =>
+      Promise.resolve(fast)
+    )
+  );
+});
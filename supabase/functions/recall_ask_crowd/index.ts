@@ -3,47 +3,27 @@
 // Deploy with: supabase functions deploy recall_ask_crowd
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { requireUser } from "../_shared/auth.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
 
 interface RecallAskCrowdRequest {
   recall_id: string;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   try {
-    // Get authorization header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // Initialize Supabase client and verify the caller
+    const supabase = serviceClient();
+    await requireUser(req, supabase);
 
     // Parse request body
     const body: RecallAskCrowdRequest = await req.json();
     const { recall_id } = body;
 
     if (!recall_id) {
-      return new Response(
-        JSON.stringify({ error: "recall_id is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "recall_id is required");
     }
 
     // Load recall event
@@ -54,10 +34,7 @@ serve(async (req) => {
       .single();
 
     if (fetchError || !recallEvent) {
-      return new Response(
-        JSON.stringify({ error: "Recall event not found" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("not_found", "Recall event not found");
     }
 
     // Check if crowd post already exists
@@ -68,17 +45,11 @@ serve(async (req) => {
       .single();
 
     if (existingPost) {
-      return new Response(
-        JSON.stringify({
-          success: true,
-          post_id: existingPost.post_id,
-          already_exists: true,
-        }),
-        {
-          status: 200,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+      return jsonResponse({
+        success: true,
+        post_id: existingPost.post_id,
+        already_exists: true,
+      });
     }
 
     // Build post text
@@ -106,13 +77,7 @@ serve(async (req) => {
 
     if (postError || !postId) {
       console.error("Error creating post:", postError);
-      return new Response(
-        JSON.stringify({ 
-          error: "Failed to create GreenRoom post", 
-          details: postError?.message 
-        }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("internal_error", "Failed to create GreenRoom post", { details: postError?.message });
     }
 
     // Link recall to post
@@ -128,22 +93,13 @@ serve(async (req) => {
       // Don't fail - post was created successfully
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        post_id: postId,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({
+      success: true,
+      post_id: postId,
+    });
   } catch (error) {
     console.error("Error in recall_ask_crowd:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error", details: error.message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(error);
   }
-});
+}));
 
@@ -3,12 +3,9 @@
 // Deploy with: supabase functions deploy recall_confirm
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { userClient } from "../_shared/supabase.ts";
 
 interface RecallConfirmRequest {
   recall_id: string;
@@ -16,36 +13,15 @@ interface RecallConfirmRequest {
   confirmed_artist: string;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   try {
-    // Get authorization header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
+    // Supabase client acting as the caller (throws unauthorized without an Authorization header)
+    const supabase = userClient(req);
 
     // Get current user
     const { data: { user }, error: userError } = await supabase.auth.getUser();
     if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("unauthorized", "Unauthorized");
     }
 
     // Parse request body
@@ -53,10 +29,7 @@ serve(async (req) => {
     const { recall_id, confirmed_title, confirmed_artist } = body;
 
     if (!recall_id || !confirmed_title || !confirmed_artist) {
-      return new Response(
-        JSON.stringify({ error: "recall_id, confirmed_title, and confirmed_artist are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "recall_id, confirmed_title, and confirmed_artist are required");
     }
 
     // Verify recall event exists and belongs to user
@@ -67,17 +40,11 @@ serve(async (req) => {
       .single();
 
     if (fetchError || !recallEvent) {
-      return new Response(
-        JSON.stringify({ error: "Recall event not found" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("not_found", "Recall event not found");
     }
 
     if (recallEvent.user_id !== user.id) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized: Recall event does not belong to user" }),
-        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("forbidden", "Unauthorized: Recall event does not belong to user");
     }
 
     // Insert confirmation
@@ -94,10 +61,7 @@ serve(async (req) => {
 
     if (insertError) {
       console.error("Error creating confirmation:", insertError);
-      return new Response(
-        JSON.stringify({ error: "Failed to create confirmation", details: insertError.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("internal_error", "Failed to create confirmation", { details: insertError.message });
     }
 
     // Update recall event status to done
@@ -106,22 +70,13 @@ serve(async (req) => {
       .update({ status: "done" })
       .eq("id", recall_id);
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        confirmation_id: confirmation.id,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({
+      success: true,
+      confirmation_id: confirmation.id,
+    });
   } catch (error) {
     console.error("Error in recall_confirm:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error", details: error.message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(error);
   }
-});
+}));
 
@@ -3,12 +3,9 @@
 // Deploy with: supabase functions deploy recall_create
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorResponse, jsonError } from "../_shared/errors.ts";
+import { userClient } from "../_shared/supabase.ts";
 
 interface RecallCreateRequest {
   input_type: "text" | "voice" | "image";
@@ -16,36 +13,15 @@ interface RecallCreateRequest {
   media_path?: string;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   try {
-    // Get authorization header
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
+    // Supabase client acting as the caller (throws unauthorized without an Authorization header)
+    const supabase = userClient(req);
 
     // Get current user
     const { data: { user }, error: userError } = await supabase.auth.getUser();
     if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("unauthorized", "Unauthorized");
     }
 
     // Parse request body
@@ -53,32 +29,20 @@ serve(async (req) => {
     const { input_type, raw_text, media_path } = body;
 
     if (!input_type || !["text", "voice", "image"].includes(input_type)) {
-      return new Response(
-        JSON.stringify({ error: "Invalid input_type. Must be 'text', 'voice', or 'image'" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "Invalid input_type. Must be 'text', 'voice', or 'image'");
     }
 
     // Validate input based on type
     if (input_type === "text" && !raw_text) {
-      return new Response(
-        JSON.stringify({ error: "raw_text is required for text input_type" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "raw_text is required for text input_type");
     }
 
     if (input_type === "voice" && !media_path) {
-      return new Response(
-        JSON.stringify({ error: "media_path is required for voice input_type" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "media_path is required for voice input_type");
     }
 
     if (input_type === "image" && !raw_text && !media_path) {
-      return new Response(
-        JSON.stringify({ error: "Either raw_text (OCR) or media_path is required for image input_type" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "Either raw_text (OCR) or media_path is required for image input_type");
     }
 
     // Insert recall event
@@ -96,32 +60,20 @@ serve(async (req) => {
 
     if (insertError || !recallEvent) {
       console.error("Error creating recall event:", insertError);
-      return new Response(
-        JSON.stringify({ error: "Failed to create recall event", details: insertError?.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("internal_error", "Failed to create recall event", { details: insertError?.message });
     }
 
     // Immediately trigger processing (client will call recall_process)
     // For MVP, we return the recall_id and let the client call recall_process
     // This allows better error handling and status updates
 
-    return new Response(
-      JSON.stringify({
-        recall_id: recallEvent.id,
-        status: "queued",
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({
+      recall_id: recallEvent.id,
+      status: "queued",
+    });
   } catch (error) {
     console.error("Error in recall_create:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error", details: error.message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(error);
   }
-});
+}));
 
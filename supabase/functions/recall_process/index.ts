@@ -1,15 +1,26 @@
 // Supabase Edge Function: recall_process
-// Processes a recall event using OpenAI with web search
+// Processes a recall event with the shared LLM client (task "resolve")
 // Deploy with: supabase functions deploy recall_process
-// Requires: OPENAI_API_KEY secret
+// Requires: LLM_API_KEY or OPENAI_API_KEY secret (see _shared/llm.ts for LLM_* overrides)
+// Optional: SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET (track metadata), TRACK_METADATA_PROVIDERS
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorMessage, errorResponse, jsonError } from "../_shared/errors.ts";
+import { defaultLlmDeps, LlmClient } from "../_shared/llm.ts";
+import {
+  arraySchema,
+  booleanSchema,
+  nullable,
+  numberSchema,
+  objectSchema,
+  stringSchema,
+  type StructuredOutput,
+} from "../_shared/structured.ts";
+import { serviceClient } from "../_shared/supabase.ts";
+import { UsageRecorder } from "../_shared/usage.ts";
+import { resolveCandidates, TrackResolver } from "../_shared/tracks/resolver.ts";
+import type { CanonicalTrack } from "../_shared/tracks/types.ts";
 
 interface RecallProcessRequest {
   recall_id: string;
@@ -22,6 +33,7 @@ interface Candidate {
   reason: string;
   highlight_snippet?: string;
   source_urls: string[];
+  track?: CanonicalTrack | null;
 }
 
 interface OpenAIResponse {
@@ -31,36 +43,42 @@ interface OpenAIResponse {
   crowd_prompt?: string;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
+const RECALL_PROCESS_OUTPUT: StructuredOutput<OpenAIResponse> = {
+  name: "recall_candidates",
+  schema: objectSchema({
+    overall_confidence: numberSchema("0.0-1.0"),
+    candidates: arraySchema(objectSchema({
+      title: stringSchema(),
+      artist: stringSchema(),
+      confidence: numberSchema("0.0-1.0"),
+      reason: stringSchema("Why this matches (brief explanation)"),
+      highlight_snippet: nullable(stringSchema("Short lyric or memorable line (max 50 chars)")),
+      source_urls: arraySchema(stringSchema()),
+    })),
+    should_ask_crowd: booleanSchema(),
+    crowd_prompt: nullable(stringSchema()),
+  }),
+  // No usable reply: hand the recall to the crowd instead of failing it
+  fallback: () => ({ overall_confidence: 0, candidates: [], should_ask_crowd: true }),
+};
 
+serve(withCors(async (req) => {
   try {
     // Get authorization header
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Missing authorization header" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("unauthorized", "Missing authorization header");
     }
 
     // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const supabase = serviceClient();
 
     // Parse request body
     const body: RecallProcessRequest = await req.json();
     const { recall_id } = body;
 
     if (!recall_id) {
-      return new Response(
-        JSON.stringify({ error: "recall_id is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "recall_id is required");
     }
 
     // Load recall event
@@ -71,12 +89,19 @@ serve(async (req) => {
       .single();
 
     if (fetchError || !recallEvent) {
-      return new Response(
-        JSON.stringify({ error: "Recall event not found", details: fetchError?.message }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("not_found", "Recall event not found", { details: fetchError?.message });
     }
 
+    // recall_events is not recalls, so the event id goes to the metadata rather than recall_id
+    const llm = new LlmClient(supabase, {
+      ...defaultLlmDeps(),
+      usage: new UsageRecorder(supabase, {
+        functionName: "recall_process",
+        userId: recallEvent.user_id,
+        metadata: { recall_event_id: recall_id },
+      }),
+    });
+
     // Update status to processing
     await supabase
       .from("recall_events")
@@ -100,33 +125,12 @@ serve(async (req) => {
         // Download audio file
         const audioResponse = await fetch(signedUrlData.signedUrl);
         const audioBlob = await audioResponse.blob();
-        const audioFile = new File([audioBlob], "audio.m4a", { type: "audio/m4a" });
-
-        // Transcribe using OpenAI Whisper API
-        const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-        if (!openaiApiKey) {
-          throw new Error("OPENAI_API_KEY not configured");
-        }
-
-        const formData = new FormData();
-        formData.append("file", audioFile);
-        formData.append("model", "whisper-1");
 
-        const transcriptionResponse = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${openaiApiKey}`,
-          },
-          body: formData,
-        });
-
-        if (!transcriptionResponse.ok) {
-          const errorText = await transcriptionResponse.text();
-          throw new Error(`OpenAI transcription failed: ${errorText}`);
+        // Transcribe with the shared LLM client (Whisper by default)
+        if (!llm.isConfigured()) {
+          throw new Error("LLM API key not configured");
         }
-
-        const transcriptionData = await transcriptionResponse.json();
-        const transcript = transcriptionData.text;
+        const transcript = await llm.transcribe({ data: audioBlob, filename: "audio.m4a", mimeType: "audio/m4a" });
 
         // Store transcript
         await supabase
@@ -156,26 +160,18 @@ serve(async (req) => {
           error_message: "No text available for search (missing raw_text or transcript)",
         })
         .eq("id", recall_id);
-      return new Response(
-        JSON.stringify({ error: "No text available for search" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("bad_request", "No text available for search");
     }
 
-    // Call OpenAI with web search enabled
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
+    if (!llm.isConfigured()) {
       await supabase
         .from("recall_events")
         .update({
           status: "failed",
-          error_message: "OPENAI_API_KEY not configured",
+          error_message: "LLM API key not configured",
         })
         .eq("id", recall_id);
-      return new Response(
-        JSON.stringify({ error: "OpenAI API key not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("internal_error", "LLM API key not configured");
     }
 
     // Build prompt for OpenAI
@@ -211,72 +207,23 @@ Rules:
 
 Search the web for accurate information and return the best matches as JSON.`;
 
-    const openaiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o", // Use latest model with web search capability
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-      }),
-    });
-
-    if (!openaiResponse.ok) {
-      const errorText = await openaiResponse.text();
-      console.error("OpenAI API error:", errorText);
-      await supabase
-        .from("recall_events")
-        .update({
-          status: "failed",
-          error_message: `OpenAI API error: ${errorText}`,
-        })
-        .eq("id", recall_id);
-      return new Response(
-        JSON.stringify({ error: "OpenAI API request failed", details: errorText }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const openaiData = await openaiResponse.json();
-    const content = openaiData.choices[0]?.message?.content;
-
-    if (!content) {
-      await supabase
-        .from("recall_events")
-        .update({
-          status: "failed",
-          error_message: "OpenAI returned empty response",
-        })
-        .eq("id", recall_id);
-      return new Response(
-        JSON.stringify({ error: "OpenAI returned empty response" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Parse OpenAI response
     let aiResult: OpenAIResponse;
     try {
-      aiResult = JSON.parse(content);
-    } catch (parseError) {
+      ({ value: aiResult } = await llm.structured("resolve", RECALL_PROCESS_OUTPUT, [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ], { temperature: 0.3, label: "recall_process" }));
+    } catch (openaiError) {
+      const message = errorMessage(openaiError);
+      console.error("LLM API error:", message);
       await supabase
         .from("recall_events")
         .update({
           status: "failed",
-          error_message: `Failed to parse OpenAI response: ${parseError.message}`,
+          error_message: message,
         })
         .eq("id", recall_id);
-      return new Response(
-        JSON.stringify({ error: "Failed to parse OpenAI response" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonError("internal_error", "LLM API request failed", { details: message });
     }
 
     // Validate and deduplicate candidates
@@ -290,7 +237,9 @@ Search the web for accurate information and return the best matches as JSON.`;
       }
     }
 
-    const finalCandidates = Array.from(uniqueCandidates.values())
+    // Resolve to catalog tracks, which also merges different spellings of the same song
+    const resolvedCandidates = await resolveCandidates(new TrackResolver(supabase), Array.from(uniqueCandidates.values()));
+    const finalCandidates = resolvedCandidates
       .sort((a, b) => b.confidence - a.confidence)
       .slice(0, 10);
 
@@ -304,6 +253,7 @@ Search the web for accurate information and return the best matches as JSON.`;
         reason: candidate.reason || null,
         source_urls: candidate.source_urls || [],
         highlight_snippet: candidate.highlight_snippet || null,
+        canonical_track_id: candidate.track?.id ?? null,
         rank: index + 1,
       }));
 
@@ -359,25 +309,16 @@ Search the web for accurate information and return the best matches as JSON.`;
       }
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        recall_id,
-        status: finalStatus,
-        confidence: overallConfidence,
-        candidates_count: finalCandidates.length,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({
+      success: true,
+      recall_id,
+      status: finalStatus,
+      confidence: overallConfidence,
+      candidates_count: finalCandidates.length,
+    });
   } catch (error) {
     console.error("Error in recall_process:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error", details: error.message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return errorResponse(error);
   }
-});
+}));
 
@@ -2,12 +2,10 @@
 // Deploy with: supabase functions deploy send_push_notification
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
+import { encodeBase64 } from "../_shared/base64.ts";
+import { jsonResponse, withCors } from "../_shared/cors.ts";
+import { errorMessage, jsonError } from "../_shared/errors.ts";
+import { serviceClient } from "../_shared/supabase.ts";
 
 interface NotificationPayload {
   user_id: string;
@@ -21,12 +19,7 @@ interface DeviceToken {
   platform: string;
 }
 
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === "OPTIONS") {
-    return new Response("ok", { headers: corsHeaders });
-  }
-
+serve(withCors(async (req) => {
   try {
     // Parse request body
     const payload: NotificationPayload = await req.json();
@@ -37,9 +30,7 @@ serve(async (req) => {
     console.log(`   Body: ${body}`);
 
     // Initialize Supabase client
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const supabase = serviceClient();
 
     // Fetch device tokens for user
     const { data: tokens, error: tokensError } = await supabase
@@ -54,13 +45,7 @@ serve(async (req) => {
 
     if (!tokens || tokens.length === 0) {
       console.log("⚠️ No device tokens found for user");
-      return new Response(
-        JSON.stringify({ message: "No device tokens found", sent: 0 }),
-        {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 200,
-        }
-      );
+      return jsonResponse({ message: "No device tokens found", sent: 0 });
     }
 
     console.log(`📱 Found ${tokens.length} device token(s)`);
@@ -77,17 +62,11 @@ serve(async (req) => {
     if (!apnsKeyId || !apnsTeamId || !apnsKey) {
       console.warn("⚠️ APNs not configured - skipping push notification");
       console.warn("   Required env vars: APNS_KEY_ID, APNS_TEAM_ID, APNS_AUTH_KEY");
-      return new Response(
-        JSON.stringify({
-          message: "APNs not configured",
-          sent: 0,
-          note: "Set APNS_KEY_ID, APNS_TEAM_ID, and APNS_AUTH_KEY environment variables",
-        }),
-        {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-          status: 200,
-        }
-      );
+      return jsonResponse({
+        message: "APNs not configured",
+        sent: 0,
+        note: "Set APNS_KEY_ID, APNS_TEAM_ID, and APNS_AUTH_KEY environment variables",
+      });
     }
 
     // Send to each device token
@@ -122,29 +101,17 @@ serve(async (req) => {
 
     console.log(`📊 Results: ${successCount} sent, ${failCount} failed`);
 
-    return new Response(
-      JSON.stringify({
-        message: "Push notifications sent",
-        sent: successCount,
-        failed: failCount,
-        total: tokens.length,
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
-      }
-    );
+    return jsonResponse({
+      message: "Push notifications sent",
+      sent: successCount,
+      failed: failCount,
+      total: tokens.length,
+    });
   } catch (error) {
     console.error("❌ Error in send_push_notification:", error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 500,
-      }
-    );
+    return jsonError("internal_error", errorMessage(error));
   }
-});
+}));
 
 // ============================================================================
 // APNs Notification Sending
@@ -287,11 +254,7 @@ function base64UrlEncode(data: string | ArrayBuffer): string {
   if (typeof data === "string") {
     base64 = btoa(data);
   } else {
-    const bytes = new Uint8Array(data);
-    const binary = Array.from(bytes)
-      .map((b) => String.fromCharCode(b))
-      .join("");
-    base64 = btoa(binary);
+    base64 = encodeBase64(data);
   }
   
   return base64
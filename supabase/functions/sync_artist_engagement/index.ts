@@ -4,12 +4,9 @@
 // Should be called periodically or on-demand when user opens artist page
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { jsonResponse, withCors } from '../_shared/cors.ts'
+import { errorMessage, jsonError } from '../_shared/errors.ts'
+import { serviceClient } from '../_shared/supabase.ts'
 
 interface SpotifyAlbum {
   id: string
@@ -30,29 +27,16 @@ interface SpotifyPlaylist {
   }
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
+serve(withCors(async (req) => {
   try {
     const { userId, accessToken } = await req.json()
 
     if (!userId || !accessToken) {
-      throw new Error('userId and accessToken are required')
+      return jsonError('bad_request', 'userId and accessToken are required', { extra: { success: false } })
     }
 
     // Create Supabase client
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      {
-        auth: {
-          autoRefreshToken: false,
-          persistSession: false
-        }
-      }
-    )
+    const supabaseClient = serviceClient()
 
     const engagementMap = new Map<string, { albumSaves: number; trackLikes: number; playlistAdds: number }>()
 
@@ -171,29 +155,14 @@ serve(async (req) => {
         .eq('artist_id', artistId)
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        processed: upserts.length
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    )
+    return jsonResponse({
+      success: true,
+      processed: upserts.length
+    })
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 500,
-      },
-    )
+    return jsonError('internal_error', errorMessage(error), { extra: { success: false } })
   }
-})
+}))
 
 
 
@@ -0,0 +1,234 @@
+-- ============================================
+-- Distributed Token-Bucket Rate Limiter
+-- ============================================
+-- Replaces the per-isolate in-memory limiter in recall-resolve and the
+-- row-counting limiter in recall-v2-router with one Postgres-backed
+-- token bucket, consumed atomically through consume_rate_limit().
+-- ============================================
+
+-- ============================================
+-- 1. Plans and Tiers
+-- ============================================
+
+-- Billing plan per user (users without a row are on 'free')
+CREATE TABLE IF NOT EXISTS public.user_plans (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan TEXT NOT NULL DEFAULT 'free',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_plans_plan ON public.user_plans(plan);
+
+-- Bucket size and refill rate per scope ('user' or 'ip') and plan.
+-- 'ip' tiers use the 'default' plan; a 'user' plan without a row falls back to 'free'.
+CREATE TABLE IF NOT EXISTS public.rate_limit_tiers (
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'ip')),
+  plan TEXT NOT NULL DEFAULT 'default',
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  refill_per_second NUMERIC NOT NULL CHECK (refill_per_second > 0),
+  description TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (scope, plan)
+);
+
+INSERT INTO public.rate_limit_tiers (scope, plan, capacity, refill_per_second, description) VALUES
+  ('user', 'free', 10, 100.0 / 3600, 'Burst of 10, 100 requests/hour sustained'),
+  ('user', 'pro', 30, 600.0 / 3600, 'Burst of 30, 600 requests/hour sustained'),
+  ('ip', 'default', 20, 300.0 / 3600, 'Burst of 20, 300 requests/hour sustained per IP')
+ON CONFLICT (scope, plan) DO NOTHING;
+
+-- ============================================
+-- 2. Buckets
+-- ============================================
+
+-- One row per limited subject, e.g. 'recall-resolve:user:<uuid>' or 'recall-v2-router:ip:1.2.3.4'
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens NUMERIC NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON public.rate_limit_buckets(updated_at);
+
+-- ============================================
+-- 3. RLS Policies
+-- ============================================
+
+ALTER TABLE public.user_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own plan" ON public.user_plans;
+CREATE POLICY "Users can view their own plan" ON public.user_plans
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage plans" ON public.user_plans;
+CREATE POLICY "Service role can manage plans" ON public.user_plans
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage rate limit tiers" ON public.rate_limit_tiers;
+CREATE POLICY "Service role can manage rate limit tiers" ON public.rate_limit_tiers
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage rate limit buckets" ON public.rate_limit_buckets;
+CREATE POLICY "Service role can manage rate limit buckets" ON public.rate_limit_buckets
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_user_plans_updated_at ON public.user_plans;
+CREATE TRIGGER update_user_plans_updated_at
+  BEFORE UPDATE ON public.user_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 4. consume_rate_limit RPC
+-- ============================================
+
+-- Refills and consumes the user bucket and (when p_ip is given) the IP bucket in one transaction.
+-- The request is allowed only if every bucket has p_cost tokens; otherwise nothing is consumed.
+-- Rows are locked in key order so concurrent calls on the same subjects cannot deadlock.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_bucket TEXT,
+  p_user_id UUID,
+  p_ip TEXT DEFAULT NULL,
+  p_cost NUMERIC DEFAULT 1
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  remaining INTEGER,
+  reset_seconds INTEGER,
+  retry_after INTEGER,
+  limited_by TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_plan TEXT;
+  v_user_tier public.rate_limit_tiers%ROWTYPE;
+  v_ip_tier public.rate_limit_tiers%ROWTYPE;
+  v_keys TEXT[];
+  v_capacity NUMERIC;
+  v_refill NUMERIC;
+  v_tokens NUMERIC;
+  v_bucket RECORD;
+  v_allowed BOOLEAN := true;
+  v_remaining NUMERIC := NULL;
+  v_reset NUMERIC := 0;
+  v_retry NUMERIC := 0;
+  v_limited_by TEXT := NULL;
+BEGIN
+  SELECT up.plan INTO v_plan FROM public.user_plans up WHERE up.user_id = p_user_id;
+  v_plan := COALESCE(v_plan, 'free');
+
+  SELECT * INTO v_user_tier FROM public.rate_limit_tiers t WHERE t.scope = 'user' AND t.plan = v_plan;
+  IF NOT FOUND THEN
+    SELECT * INTO v_user_tier FROM public.rate_limit_tiers t WHERE t.scope = 'user' AND t.plan = 'free';
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No rate limit tier configured for scope user';
+  END IF;
+
+  v_keys := ARRAY[p_bucket || ':user:' || p_user_id::TEXT];
+
+  IF p_ip IS NOT NULL AND p_ip <> '' THEN
+    SELECT * INTO v_ip_tier FROM public.rate_limit_tiers t WHERE t.scope = 'ip' AND t.plan = 'default';
+    IF FOUND THEN
+      v_keys := v_keys || (p_bucket || ':ip:' || p_ip);
+    END IF;
+  END IF;
+
+  -- Make sure every bucket exists (new buckets start full), then lock them in a stable order
+  INSERT INTO public.rate_limit_buckets (key, tokens, updated_at)
+  SELECT k,
+         CASE WHEN k LIKE '%:ip:%' THEN v_ip_tier.capacity ELSE v_user_tier.capacity END,
+         v_now
+  FROM unnest(v_keys) AS k
+  ON CONFLICT (key) DO NOTHING;
+
+  FOR v_bucket IN
+    SELECT b.key, b.tokens, b.updated_at
+    FROM public.rate_limit_buckets b
+    WHERE b.key = ANY(v_keys)
+    ORDER BY b.key
+    FOR UPDATE
+  LOOP
+    IF v_bucket.key LIKE '%:ip:%' THEN
+      v_capacity := v_ip_tier.capacity;
+      v_refill := v_ip_tier.refill_per_second;
+    ELSE
+      v_capacity := v_user_tier.capacity;
+      v_refill := v_user_tier.refill_per_second;
+    END IF;
+
+    v_tokens := LEAST(
+      v_capacity,
+      v_bucket.tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_bucket.updated_at))) * v_refill
+    );
+
+    IF v_tokens < p_cost AND CEIL((p_cost - v_tokens) / v_refill) > v_retry THEN
+      v_allowed := false;
+      v_retry := CEIL((p_cost - v_tokens) / v_refill);
+      v_limited_by := CASE WHEN v_bucket.key LIKE '%:ip:%' THEN 'ip' ELSE 'user' END;
+    END IF;
+  END LOOP;
+
+  -- Persist the refill, and the consumption only when every bucket had enough tokens
+  FOR v_bucket IN
+    UPDATE public.rate_limit_buckets b
+    SET tokens = LEAST(
+          CASE WHEN b.key LIKE '%:ip:%' THEN v_ip_tier.capacity ELSE v_user_tier.capacity END,
+          b.tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - b.updated_at)))
+            * CASE WHEN b.key LIKE '%:ip:%' THEN v_ip_tier.refill_per_second ELSE v_user_tier.refill_per_second END
+        ) - CASE WHEN v_allowed THEN p_cost ELSE 0 END,
+        updated_at = v_now
+    WHERE b.key = ANY(v_keys)
+    RETURNING
+      b.tokens,
+      CASE WHEN b.key LIKE '%:ip:%' THEN v_ip_tier.capacity ELSE v_user_tier.capacity END AS capacity,
+      CASE WHEN b.key LIKE '%:ip:%' THEN v_ip_tier.refill_per_second ELSE v_user_tier.refill_per_second END AS refill
+  LOOP
+    v_remaining := LEAST(COALESCE(v_remaining, v_bucket.tokens), v_bucket.tokens);
+    v_reset := GREATEST(v_reset, CEIL((v_bucket.capacity - v_bucket.tokens) / v_bucket.refill));
+  END LOOP;
+
+  RETURN QUERY SELECT
+    v_allowed,
+    GREATEST(0, FLOOR(COALESCE(v_remaining, 0)))::INTEGER,
+    v_reset::INTEGER,
+    CASE WHEN v_allowed THEN 0 ELSE GREATEST(1, v_retry)::INTEGER END,
+    v_limited_by;
+END;
+$$;
+
+-- Buckets idle long enough to be full again carry no state and can be dropped
+CREATE OR REPLACE FUNCTION public.prune_rate_limit_buckets(p_idle INTERVAL DEFAULT INTERVAL '1 day')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.rate_limit_buckets WHERE updated_at < NOW() - p_idle;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_rate_limit(TEXT, UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.prune_rate_limit_buckets(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.user_plans IS 'Billing plan per user; selects the user rate limit tier (default free)';
+COMMENT ON TABLE public.rate_limit_tiers IS 'Token bucket capacity and refill rate per scope (user/ip) and plan';
+COMMENT ON TABLE public.rate_limit_buckets IS 'Token bucket state per limited subject, updated only through consume_rate_limit';
+COMMENT ON FUNCTION public.consume_rate_limit IS 'Atomically refills and consumes the user and IP token buckets for one request';
+COMMENT ON FUNCTION public.prune_rate_limit_buckets IS 'Deletes idle rate limit buckets (they would be full anyway)';
@@ -0,0 +1,184 @@
+-- ============================================
+-- Shared Circuit Breakers
+-- ============================================
+-- One persisted breaker per upstream provider, shared by every edge
+-- function instance. Calls go through circuit_breaker_acquire() before
+-- hitting the provider and circuit_breaker_record() afterwards.
+--
+--   closed    -> open       after failure_threshold consecutive failures
+--   open      -> half_open  once cooldown_seconds have passed
+--   half_open -> closed     after half_open_max_calls successful trial calls
+--   half_open -> open       on any trial failure
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.circuit_breakers (
+  provider TEXT PRIMARY KEY,
+  state TEXT NOT NULL DEFAULT 'closed' CHECK (state IN ('closed', 'open', 'half_open')),
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  trial_successes INTEGER NOT NULL DEFAULT 0,
+  trials_in_flight INTEGER NOT NULL DEFAULT 0,
+  failure_threshold INTEGER NOT NULL DEFAULT 5 CHECK (failure_threshold > 0),
+  cooldown_seconds INTEGER NOT NULL DEFAULT 60 CHECK (cooldown_seconds > 0),
+  half_open_max_calls INTEGER NOT NULL DEFAULT 2 CHECK (half_open_max_calls > 0),
+  opened_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.circuit_breakers (provider, failure_threshold, cooldown_seconds, half_open_max_calls) VALUES
+  ('openai', 5, 60, 2),
+  ('whisper', 5, 60, 2),
+  ('acrcloud', 5, 60, 2),
+  ('shazam', 5, 60, 2),
+  ('recall-v2-identify', 5, 120, 1),
+  ('recall-v2-knowledge', 5, 120, 1),
+  ('recall-v2-recommend', 5, 120, 1)
+ON CONFLICT (provider) DO NOTHING;
+
+ALTER TABLE public.circuit_breakers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage circuit breakers" ON public.circuit_breakers;
+CREATE POLICY "Service role can manage circuit breakers" ON public.circuit_breakers
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Asks permission to call a provider. Unknown providers get a closed breaker with default settings.
+-- In half_open only half_open_max_calls trial calls are let through at a time; trials that never
+-- reported back (crashed isolate) are forgotten after another cooldown.
+CREATE OR REPLACE FUNCTION public.circuit_breaker_acquire(p_provider TEXT)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  state TEXT,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_breaker public.circuit_breakers%ROWTYPE;
+BEGIN
+  INSERT INTO public.circuit_breakers (provider) VALUES (p_provider)
+  ON CONFLICT (provider) DO NOTHING;
+
+  SELECT * INTO v_breaker
+  FROM public.circuit_breakers cb
+  WHERE cb.provider = p_provider
+  FOR UPDATE;
+
+  IF v_breaker.state = 'closed' THEN
+    RETURN QUERY SELECT true, 'closed'::TEXT, 0;
+    RETURN;
+  END IF;
+
+  IF v_breaker.state = 'open' THEN
+    IF v_now < v_breaker.opened_at + make_interval(secs => v_breaker.cooldown_seconds) THEN
+      RETURN QUERY SELECT
+        false,
+        'open'::TEXT,
+        GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_breaker.opened_at + make_interval(secs => v_breaker.cooldown_seconds) - v_now))))::INTEGER;
+      RETURN;
+    END IF;
+
+    -- Cooldown over: start probing
+    UPDATE public.circuit_breakers
+    SET state = 'half_open', trial_successes = 0, trials_in_flight = 1, updated_at = v_now
+    WHERE provider = p_provider;
+    RETURN QUERY SELECT true, 'half_open'::TEXT, 0;
+    RETURN;
+  END IF;
+
+  -- half_open
+  IF v_breaker.trials_in_flight > 0
+     AND v_now > v_breaker.updated_at + make_interval(secs => v_breaker.cooldown_seconds) THEN
+    v_breaker.trials_in_flight := 0;
+  END IF;
+
+  IF v_breaker.trials_in_flight + v_breaker.trial_successes < v_breaker.half_open_max_calls THEN
+    UPDATE public.circuit_breakers
+    SET trials_in_flight = v_breaker.trials_in_flight + 1, updated_at = v_now
+    WHERE provider = p_provider;
+    RETURN QUERY SELECT true, 'half_open'::TEXT, 0;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT false, 'half_open'::TEXT, 1;
+END;
+$$;
+
+-- Reports the outcome of a call allowed by circuit_breaker_acquire. Returns the breaker's new state.
+CREATE OR REPLACE FUNCTION public.circuit_breaker_record(
+  p_provider TEXT,
+  p_success BOOLEAN,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_breaker public.circuit_breakers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_breaker
+  FROM public.circuit_breakers cb
+  WHERE cb.provider = p_provider
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_success THEN
+    IF v_breaker.state = 'half_open' THEN
+      IF v_breaker.trial_successes + 1 >= v_breaker.half_open_max_calls THEN
+        UPDATE public.circuit_breakers
+        SET state = 'closed', failure_count = 0, trial_successes = 0, trials_in_flight = 0,
+            opened_at = NULL, last_success_at = v_now, updated_at = v_now
+        WHERE provider = p_provider;
+        RETURN 'closed';
+      END IF;
+
+      UPDATE public.circuit_breakers
+      SET trial_successes = v_breaker.trial_successes + 1,
+          trials_in_flight = GREATEST(0, v_breaker.trials_in_flight - 1),
+          last_success_at = v_now, updated_at = v_now
+      WHERE provider = p_provider;
+      RETURN 'half_open';
+    END IF;
+
+    -- A late success from before the breaker opened does not close it
+    IF v_breaker.state = 'closed' THEN
+      UPDATE public.circuit_breakers
+      SET failure_count = 0, last_success_at = v_now, updated_at = v_now
+      WHERE provider = p_provider;
+    END IF;
+    RETURN v_breaker.state;
+  END IF;
+
+  IF v_breaker.state = 'half_open'
+     OR (v_breaker.state = 'closed' AND v_breaker.failure_count + 1 >= v_breaker.failure_threshold) THEN
+    UPDATE public.circuit_breakers
+    SET state = 'open', failure_count = v_breaker.failure_count + 1, trial_successes = 0, trials_in_flight = 0,
+        opened_at = v_now, last_failure_at = v_now, last_error = p_error, updated_at = v_now
+    WHERE provider = p_provider;
+    RETURN 'open';
+  END IF;
+
+  UPDATE public.circuit_breakers
+  SET failure_count = v_breaker.failure_count + 1, last_failure_at = v_now, last_error = p_error, updated_at = v_now
+  WHERE provider = p_provider;
+  RETURN v_breaker.state;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.circuit_breaker_acquire(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.circuit_breaker_record(TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.circuit_breakers IS 'Persisted circuit breaker state per upstream provider, shared across edge function instances';
+COMMENT ON FUNCTION public.circuit_breaker_acquire IS 'Atomically decides whether a call to the provider may proceed (closed, or a half-open trial slot)';
+COMMENT ON FUNCTION public.circuit_breaker_record IS 'Records a call outcome and moves the breaker between closed, open and half_open';
@@ -0,0 +1,140 @@
+-- ============================================
+-- Recall Job Leases
+-- ============================================
+-- Workers claim recall_jobs atomically with FOR UPDATE SKIP LOCKED and hold
+-- a time-limited lease on each claimed job. Long jobs extend the lease with
+-- a heartbeat; jobs whose lease expired (crashed or timed-out worker) are
+-- re-queued by the reaper, or failed once their retries are used up.
+-- ============================================
+
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_recall_jobs_claimable
+ON public.recall_jobs(scheduled_at)
+WHERE status IN ('queued', 'retrying');
+
+CREATE INDEX IF NOT EXISTS idx_recall_jobs_lease_expires
+ON public.recall_jobs(lease_expires_at)
+WHERE status = 'processing';
+
+-- Claims up to p_limit due jobs (or only p_job_id) for p_worker_id.
+-- Rows locked by a concurrent claim are skipped, so overlapping workers never get the same job.
+CREATE OR REPLACE FUNCTION public.claim_recall_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 90,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.recall_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT j.id
+    FROM public.recall_jobs j
+    WHERE j.status IN ('queued', 'retrying')
+      AND j.scheduled_at <= NOW()
+      AND (p_job_id IS NULL OR j.id = p_job_id)
+    ORDER BY j.scheduled_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.recall_jobs j
+  SET status = 'processing',
+      started_at = NOW(),
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW()
+  FROM claimable
+  WHERE j.id = claimable.id
+  RETURNING j.*;
+END;
+$$;
+
+-- Extends the lease on a job still owned by p_worker_id. FALSE means the lease was lost
+-- (reaped or claimed by someone else) and the caller must not write the job's outcome.
+CREATE OR REPLACE FUNCTION public.heartbeat_recall_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 90
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.recall_jobs
+  SET lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW()
+  WHERE id = p_job_id
+    AND lease_owner = p_worker_id
+    AND status = 'processing';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Re-queues processing jobs whose lease expired, or fails them when out of retries.
+-- Jobs claimed before leases existed count as expired 10 minutes after started_at.
+CREATE OR REPLACE FUNCTION public.reap_expired_recall_jobs()
+RETURNS TABLE (
+  job_id UUID,
+  recall_id UUID,
+  new_status TEXT,
+  previous_owner TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    SELECT j.id, j.lease_owner
+    FROM public.recall_jobs j
+    WHERE j.status = 'processing'
+      AND COALESCE(j.lease_expires_at, j.started_at + INTERVAL '10 minutes', j.created_at + INTERVAL '10 minutes') < NOW()
+    FOR UPDATE SKIP LOCKED
+  ),
+  reaped AS (
+    UPDATE public.recall_jobs j
+    SET status = CASE WHEN j.retry_count < j.max_retries THEN 'retrying' ELSE 'failed' END,
+        retry_count = CASE WHEN j.retry_count < j.max_retries THEN j.retry_count + 1 ELSE j.retry_count END,
+        scheduled_at = NOW(),
+        completed_at = CASE WHEN j.retry_count < j.max_retries THEN NULL ELSE NOW() END,
+        error_message = 'Lease expired (worker ' || COALESCE(expired.lease_owner, 'unknown') || ' stopped responding)',
+        lease_owner = NULL,
+        lease_expires_at = NULL
+    FROM expired
+    WHERE j.id = expired.id
+    RETURNING j.id, j.recall_id, j.status, expired.lease_owner
+  ),
+  failed_recalls AS (
+    UPDATE public.recalls r
+    SET status = 'failed',
+        error_message = 'Processing timed out'
+    FROM reaped
+    WHERE r.id = reaped.recall_id
+      AND reaped.status = 'failed'
+    RETURNING r.id
+  )
+  SELECT reaped.id, reaped.recall_id, reaped.status, reaped.lease_owner FROM reaped;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_recall_jobs(TEXT, INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.heartbeat_recall_job(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.reap_expired_recall_jobs() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.recall_jobs.lease_owner IS 'Worker invocation currently holding the job';
+COMMENT ON COLUMN public.recall_jobs.lease_expires_at IS 'When the lease lapses and the reaper may re-queue the job';
+COMMENT ON COLUMN public.recall_jobs.heartbeat_at IS 'Last lease extension from the owning worker';
+COMMENT ON FUNCTION public.claim_recall_jobs IS 'Atomically claims due jobs with FOR UPDATE SKIP LOCKED and stamps a lease';
+COMMENT ON FUNCTION public.heartbeat_recall_job IS 'Extends the lease on a job still owned by the caller';
+COMMENT ON FUNCTION public.reap_expired_recall_jobs IS 'Re-queues (or fails) processing jobs whose lease expired';
@@ -0,0 +1,185 @@
+-- ============================================
+-- Recall Job Dead Letters
+-- ============================================
+-- Jobs that exhaust max_retries are copied to recall_dead_letters with the
+-- request body sent to the engine, the last error (and its class) and the
+-- timing of every attempt, so they can be inspected and replayed later.
+-- ============================================
+
+-- Per-attempt timing, appended by the worker (and the reaper for expired leases):
+-- [{ attempt, worker, started_at, finished_at, duration_ms, outcome, error, error_class }]
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS attempts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.recall_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL UNIQUE REFERENCES public.recall_jobs(id) ON DELETE CASCADE,
+  recall_id UUID NOT NULL REFERENCES public.recalls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_type TEXT NOT NULL,
+  request_id TEXT,
+  request_body JSONB,
+  last_error TEXT,
+  error_class TEXT NOT NULL DEFAULT 'unknown',
+  attempts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'dead' CHECK (status IN ('dead', 'replayed', 'discarded')),
+  replay_count INTEGER NOT NULL DEFAULT 0,
+  resolved_at TIMESTAMPTZ,
+  resolved_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recall_dead_letters_status ON public.recall_dead_letters(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_recall_dead_letters_job_type ON public.recall_dead_letters(job_type, error_class) WHERE status = 'dead';
+CREATE INDEX IF NOT EXISTS idx_recall_dead_letters_recall_id ON public.recall_dead_letters(recall_id);
+
+ALTER TABLE public.recall_dead_letters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage dead letters" ON public.recall_dead_letters;
+CREATE POLICY "Service role can manage dead letters" ON public.recall_dead_letters
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP TRIGGER IF EXISTS update_recall_dead_letters_updated_at ON public.recall_dead_letters;
+CREATE TRIGGER update_recall_dead_letters_updated_at
+  BEFORE UPDATE ON public.recall_dead_letters
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Expired leases now also record a 'lease_expired' attempt, and jobs that run out of
+-- retries this way are dead-lettered like any other exhausted job.
+CREATE OR REPLACE FUNCTION public.reap_expired_recall_jobs()
+RETURNS TABLE (
+  job_id UUID,
+  recall_id UUID,
+  new_status TEXT,
+  previous_owner TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    SELECT j.id, j.lease_owner, j.started_at
+    FROM public.recall_jobs j
+    WHERE j.status = 'processing'
+      AND COALESCE(j.lease_expires_at, j.started_at + INTERVAL '10 minutes', j.created_at + INTERVAL '10 minutes') < NOW()
+    FOR UPDATE SKIP LOCKED
+  ),
+  reaped AS (
+    UPDATE public.recall_jobs j
+    SET status = CASE WHEN j.retry_count < j.max_retries THEN 'retrying' ELSE 'failed' END,
+        retry_count = CASE WHEN j.retry_count < j.max_retries THEN j.retry_count + 1 ELSE j.retry_count END,
+        scheduled_at = NOW(),
+        completed_at = CASE WHEN j.retry_count < j.max_retries THEN NULL ELSE NOW() END,
+        error_message = 'Lease expired (worker ' || COALESCE(expired.lease_owner, 'unknown') || ' stopped responding)',
+        attempts = j.attempts || jsonb_build_array(jsonb_build_object(
+          'attempt', jsonb_array_length(j.attempts) + 1,
+          'worker', expired.lease_owner,
+          'started_at', expired.started_at,
+          'finished_at', NOW(),
+          'duration_ms', (EXTRACT(EPOCH FROM (NOW() - COALESCE(expired.started_at, NOW()))) * 1000)::BIGINT,
+          'outcome', 'lease_expired',
+          'error', 'Lease expired',
+          'error_class', 'lease_expired'
+        )),
+        lease_owner = NULL,
+        lease_expires_at = NULL
+    FROM expired
+    WHERE j.id = expired.id
+    RETURNING j.*, expired.lease_owner AS previous_owner
+  ),
+  failed_recalls AS (
+    UPDATE public.recalls r
+    SET status = 'failed',
+        error_message = 'Processing timed out'
+    FROM reaped
+    WHERE r.id = reaped.recall_id
+      AND reaped.status = 'failed'
+    RETURNING r.id
+  ),
+  dead_lettered AS (
+    INSERT INTO public.recall_dead_letters (
+      job_id, recall_id, user_id, job_type, request_id, last_error, error_class, attempts, retry_count
+    )
+    SELECT reaped.id, reaped.recall_id, reaped.user_id, reaped.job_type, reaped.request_id,
+           reaped.error_message, 'lease_expired', reaped.attempts, reaped.retry_count
+    FROM reaped
+    WHERE reaped.status = 'failed'
+    ON CONFLICT ON CONSTRAINT recall_dead_letters_job_id_key DO UPDATE
+    SET status = 'dead',
+        last_error = EXCLUDED.last_error,
+        error_class = EXCLUDED.error_class,
+        attempts = EXCLUDED.attempts,
+        retry_count = EXCLUDED.retry_count,
+        resolved_at = NULL,
+        resolved_by = NULL
+    RETURNING id
+  )
+  SELECT reaped.id, reaped.recall_id, reaped.status, reaped.previous_owner FROM reaped;
+END;
+$$;
+
+-- Re-queues the jobs behind the given dead letters with a fresh retry budget.
+-- Only letters still in 'dead' are touched; returns the jobs that were re-queued.
+CREATE OR REPLACE FUNCTION public.replay_recall_dead_letters(
+  p_ids UUID[],
+  p_resolved_by TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  dead_letter_id UUID,
+  job_id UUID,
+  recall_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH letters AS (
+    UPDATE public.recall_dead_letters d
+    SET status = 'replayed',
+        replay_count = d.replay_count + 1,
+        resolved_at = NOW(),
+        resolved_by = p_resolved_by
+    WHERE d.id = ANY(p_ids)
+      AND d.status = 'dead'
+    RETURNING d.id, d.job_id, d.recall_id
+  ),
+  jobs AS (
+    UPDATE public.recall_jobs j
+    SET status = 'queued',
+        retry_count = 0,
+        scheduled_at = NOW(),
+        started_at = NULL,
+        completed_at = NULL,
+        error_message = NULL,
+        lease_owner = NULL,
+        lease_expires_at = NULL
+    FROM letters
+    WHERE j.id = letters.job_id
+    RETURNING j.id
+  ),
+  recalls AS (
+    UPDATE public.recalls r
+    SET status = 'queued',
+        error_message = NULL
+    FROM letters
+    WHERE r.id = letters.recall_id
+    RETURNING r.id
+  )
+  SELECT letters.id, letters.job_id, letters.recall_id FROM letters;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reap_expired_recall_jobs() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.replay_recall_dead_letters(UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.recall_jobs.attempts IS 'Timing and outcome of every processing attempt';
+COMMENT ON TABLE public.recall_dead_letters IS 'Recall jobs that exhausted their retries, kept for inspection and replay';
+COMMENT ON COLUMN public.recall_dead_letters.error_class IS 'Coarse failure category (timeout, upstream_5xx, circuit_open, ...) used for filtering';
+COMMENT ON FUNCTION public.replay_recall_dead_letters IS 'Re-queues dead-lettered jobs with a fresh retry budget';
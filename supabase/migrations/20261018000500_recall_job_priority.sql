@@ -0,0 +1,102 @@
+-- ============================================
+-- Recall Job Priority Lanes
+-- ============================================
+-- recall-v2-router puts each job in a lane: interactive text is 'high',
+-- identify is 'normal', learning and backfill are 'low'. Workers claim the
+-- highest lane first, round-robin across users within a lane, and can cap
+-- how many jobs one user has in flight so a single user cannot starve the rest.
+-- ============================================
+
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal';
+
+ALTER TABLE public.recall_jobs DROP CONSTRAINT IF EXISTS recall_jobs_priority_check;
+ALTER TABLE public.recall_jobs ADD CONSTRAINT recall_jobs_priority_check
+  CHECK (priority IN ('high', 'normal', 'low'));
+
+CREATE OR REPLACE FUNCTION public.recall_job_priority_rank(p_priority TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_priority WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_recall_jobs_claimable_priority
+ON public.recall_jobs(public.recall_job_priority_rank(priority), scheduled_at)
+WHERE status IN ('queued', 'retrying');
+
+CREATE INDEX IF NOT EXISTS idx_recall_jobs_user_processing
+ON public.recall_jobs(user_id)
+WHERE status = 'processing';
+
+-- The claim gains a per-user cap, so the old signature is replaced rather than overloaded
+DROP FUNCTION IF EXISTS public.claim_recall_jobs(TEXT, INTEGER, INTEGER, UUID);
+
+-- Claims up to p_limit due jobs (or only p_job_id) for p_worker_id, highest lane first and
+-- round-robin across users within a lane. With p_per_user_limit, a user's jobs are only claimed
+-- while fewer than that many of theirs are processing; concurrent claims can overshoot it by a
+-- job or two, so treat it as a soft cap. Rows locked by a concurrent claim are skipped.
+CREATE OR REPLACE FUNCTION public.claim_recall_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_lease_seconds INTEGER DEFAULT 90,
+  p_job_id UUID DEFAULT NULL,
+  p_per_user_limit INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.recall_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    -- Scan a window larger than p_limit so capped users can be skipped over
+    SELECT j.id, j.user_id, public.recall_job_priority_rank(j.priority) AS lane, j.scheduled_at
+    FROM public.recall_jobs j
+    WHERE j.status IN ('queued', 'retrying')
+      AND j.scheduled_at <= NOW()
+      AND (p_job_id IS NULL OR j.id = p_job_id)
+    ORDER BY public.recall_job_priority_rank(j.priority) ASC, j.scheduled_at ASC
+    LIMIT p_limit * 10
+    FOR UPDATE SKIP LOCKED
+  ),
+  in_flight AS (
+    SELECT p.user_id, COUNT(*) AS running
+    FROM public.recall_jobs p
+    WHERE p.status = 'processing'
+      AND p.user_id IN (SELECT c.user_id FROM candidates c)
+    GROUP BY p.user_id
+  ),
+  ranked AS (
+    SELECT c.id, c.lane, c.scheduled_at,
+           COALESCE(f.running, 0) AS running,
+           ROW_NUMBER() OVER (PARTITION BY c.user_id ORDER BY c.lane, c.scheduled_at) AS user_rank,
+           ROW_NUMBER() OVER (PARTITION BY c.user_id, c.lane ORDER BY c.scheduled_at) AS lane_rank
+    FROM candidates c
+    LEFT JOIN in_flight f ON f.user_id = c.user_id
+  ),
+  claimable AS (
+    SELECT r.id
+    FROM ranked r
+    WHERE p_per_user_limit IS NULL
+       OR r.running + r.user_rank <= p_per_user_limit
+    ORDER BY r.lane ASC, r.lane_rank ASC, r.scheduled_at ASC
+    LIMIT p_limit
+  )
+  UPDATE public.recall_jobs j
+  SET status = 'processing',
+      started_at = NOW(),
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW()
+  FROM claimable
+  WHERE j.id = claimable.id
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_recall_jobs(TEXT, INTEGER, INTEGER, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.recall_jobs.priority IS 'Queue lane: high (interactive text), normal (identify), low (learning, backfill)';
+COMMENT ON FUNCTION public.claim_recall_jobs IS 'Atomically claims due jobs by lane with per-user fairness (FOR UPDATE SKIP LOCKED) and stamps a lease';
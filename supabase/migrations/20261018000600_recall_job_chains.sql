@@ -0,0 +1,156 @@
+-- ============================================
+-- Recall Job Chains
+-- ============================================
+-- An engine can answer with follow-on job specs ("identify, then answer a
+-- question about the song"). The worker enqueues them as children of the job
+-- that produced them, and the recall's status is derived from every job in
+-- the chain: it only becomes 'done' once all of them have finished.
+-- ============================================
+
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS parent_job_id UUID REFERENCES public.recall_jobs(id) ON DELETE CASCADE;
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS root_job_id UUID REFERENCES public.recall_jobs(id) ON DELETE CASCADE;
+-- Step input from the router's plan or the parent engine: query_text, context, follow_on
+ALTER TABLE public.recall_jobs ADD COLUMN IF NOT EXISTS payload JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_recall_jobs_parent_job_id ON public.recall_jobs(parent_job_id) WHERE parent_job_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recall_jobs_root_job_id ON public.recall_jobs(root_job_id) WHERE root_job_id IS NOT NULL;
+
+-- Enqueues follow-on jobs for p_parent_job_id. p_jobs is a JSON array of
+-- { job_type, payload?, priority? }; children share the parent's recall, user and
+-- request_id and inherit its priority. Re-enqueuing a job_type the parent already
+-- has a child for is a no-op, chains stop at 3 levels and a parent gets at most 3 children.
+CREATE OR REPLACE FUNCTION public.enqueue_follow_on_jobs(
+  p_parent_job_id UUID,
+  p_jobs JSONB
+)
+RETURNS SETOF public.recall_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_parent public.recall_jobs%ROWTYPE;
+  v_depth INTEGER;
+BEGIN
+  SELECT * INTO v_parent
+  FROM public.recall_jobs j
+  WHERE j.id = p_parent_job_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parent job % not found', p_parent_job_id;
+  END IF;
+
+  WITH RECURSIVE ancestors AS (
+    SELECT j.id, j.parent_job_id, 1 AS depth
+    FROM public.recall_jobs j
+    WHERE j.id = p_parent_job_id
+    UNION ALL
+    SELECT j.id, j.parent_job_id, a.depth + 1
+    FROM public.recall_jobs j
+    JOIN ancestors a ON j.id = a.parent_job_id
+  )
+  SELECT MAX(a.depth) INTO v_depth FROM ancestors a;
+
+  IF v_depth >= 3 THEN
+    RAISE EXCEPTION 'Job chain for % is too deep', p_parent_job_id;
+  END IF;
+
+  RETURN QUERY
+  WITH specs AS (
+    -- First spec wins when the same job_type is listed twice
+    SELECT DISTINCT ON (spec->>'job_type') spec
+    FROM jsonb_array_elements(COALESCE(p_jobs, '[]'::jsonb)) WITH ORDINALITY AS specs_in(spec, position)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.recall_jobs c
+      WHERE c.parent_job_id = v_parent.id
+        AND c.job_type = spec->>'job_type'
+    )
+    ORDER BY spec->>'job_type', position
+    LIMIT 3
+  ),
+  inserted AS (
+    INSERT INTO public.recall_jobs (
+      recall_id, user_id, job_type, status, priority, request_id, scheduled_at,
+      parent_job_id, root_job_id, payload
+    )
+    SELECT v_parent.recall_id, v_parent.user_id, specs.spec->>'job_type', 'queued',
+           COALESCE(specs.spec->>'priority', v_parent.priority), v_parent.request_id, NOW(),
+           v_parent.id, COALESCE(v_parent.root_job_id, v_parent.id),
+           COALESCE(specs.spec->'payload', '{}'::jsonb)
+    FROM specs
+    RETURNING *
+  )
+  SELECT * FROM inserted;
+END;
+$$;
+
+-- Derives the recall's status from the jobs of its current request (recalls.request_id):
+--   any job queued/retrying/processing -> 'processing'
+--   root job failed                    -> 'failed'
+--   otherwise                          -> 'done' (failed follow-ons are noted in error_message)
+-- Returns the new status, or NULL if the recall has no jobs for its request.
+CREATE OR REPLACE FUNCTION public.refresh_recall_status(p_recall_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id TEXT;
+  v_total INTEGER;
+  v_pending INTEGER;
+  v_root_failed BOOLEAN;
+  v_failed_steps TEXT;
+  v_status TEXT;
+BEGIN
+  SELECT r.request_id INTO v_request_id
+  FROM public.recalls r
+  WHERE r.id = p_recall_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COUNT(*),
+         COUNT(*) FILTER (WHERE j.status IN ('queued', 'retrying', 'processing')),
+         COALESCE(bool_or(j.status = 'failed' AND j.parent_job_id IS NULL), false),
+         string_agg(DISTINCT j.job_type, ', ') FILTER (WHERE j.status = 'failed' AND j.parent_job_id IS NOT NULL)
+  INTO v_total, v_pending, v_root_failed, v_failed_steps
+  FROM public.recall_jobs j
+  WHERE j.recall_id = p_recall_id
+    AND j.request_id IS NOT DISTINCT FROM v_request_id;
+
+  IF v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_pending > 0 THEN
+    v_status := 'processing';
+  ELSIF v_root_failed THEN
+    v_status := 'failed';
+  ELSE
+    v_status := 'done';
+  END IF;
+
+  UPDATE public.recalls r
+  SET status = v_status,
+      error_message = CASE
+        WHEN v_status = 'done' AND v_failed_steps IS NOT NULL THEN 'Follow-on step failed: ' || v_failed_steps
+        ELSE r.error_message
+      END
+  WHERE r.id = p_recall_id
+    AND (r.status IS DISTINCT FROM v_status OR (v_status = 'done' AND v_failed_steps IS NOT NULL));
+
+  RETURN v_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_follow_on_jobs(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.refresh_recall_status(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.recall_jobs.parent_job_id IS 'Job whose engine requested this follow-on job';
+COMMENT ON COLUMN public.recall_jobs.root_job_id IS 'First job of the chain (the one created by recall-v2-router)';
+COMMENT ON COLUMN public.recall_jobs.payload IS 'Step input: query_text, context from the parent, planned follow_on job types';
+COMMENT ON FUNCTION public.enqueue_follow_on_jobs IS 'Enqueues follow-on jobs returned by an engine as children of the job that produced them';
+COMMENT ON FUNCTION public.refresh_recall_status IS 'Sets the recall status from every job in its chain (done only when all have finished)';
@@ -0,0 +1,23 @@
+-- ============================================
+-- Recall Realtime Broadcast
+-- ============================================
+-- The v2 engines and the worker broadcast progress on the private channel
+-- `recall:<recall_id>` (_shared/realtime.ts). Only the recall's owner may
+-- subscribe; nobody but the service role may send.
+-- ============================================
+
+ALTER TABLE realtime.messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can receive broadcasts for their recalls" ON realtime.messages;
+CREATE POLICY "Users can receive broadcasts for their recalls" ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() LIKE 'recall:%'
+    AND EXISTS (
+      SELECT 1 FROM public.recalls r
+      WHERE r.id::text = substring(realtime.topic() FROM 8)
+        AND r.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,47 @@
+-- ============================================
+-- Recognition Provider Registry
+-- ============================================
+-- One row per audio recognition provider module in
+-- _shared/recognition/. recall-v2-identify and recall-resolve run the
+-- enabled providers whose input_types include the request's input type,
+-- in priority order (lowest first), each within timeout_ms. Matches under
+-- min_confidence are dropped and confidences are capped at max_confidence.
+-- settings is passed to the provider as-is. Edge functions re-read this
+-- table at most once a minute.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.recognition_providers (
+  provider TEXT PRIMARY KEY,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  priority INTEGER NOT NULL DEFAULT 100,
+  timeout_ms INTEGER NOT NULL DEFAULT 30000 CHECK (timeout_ms > 0),
+  min_confidence NUMERIC(3,2) NOT NULL DEFAULT 0 CHECK (min_confidence >= 0 AND min_confidence <= 1),
+  max_confidence NUMERIC(3,2) NOT NULL DEFAULT 1 CHECK (max_confidence > 0 AND max_confidence <= 1),
+  input_types TEXT[] NOT NULL DEFAULT ARRAY['voice', 'background']
+    CHECK (input_types <@ ARRAY['voice', 'background', 'hum']),
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (min_confidence <= max_confidence)
+);
+
+INSERT INTO public.recognition_providers (provider, priority, timeout_ms, min_confidence, max_confidence, input_types, settings) VALUES
+  ('acrcloud', 10, 40000, 0, 1, ARRAY['voice', 'background'], '{}'::jsonb),
+  ('acrcloud_humming', 10, 40000, 0.3, 0.85, ARRAY['hum'], '{"max_results": 5}'::jsonb),
+  ('shazam', 20, 40000, 0, 1, ARRAY['voice', 'background'], '{}'::jsonb),
+  ('whisper', 30, 60000, 0, 1, ARRAY['voice', 'background', 'hum'], '{"model": "gpt-4o"}'::jsonb)
+ON CONFLICT (provider) DO NOTHING;
+
+-- Every provider call goes through a breaker named after the provider
+INSERT INTO public.circuit_breakers (provider, failure_threshold, cooldown_seconds, half_open_max_calls) VALUES
+  ('acrcloud_humming', 5, 60, 2)
+ON CONFLICT (provider) DO NOTHING;
+
+ALTER TABLE public.recognition_providers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage recognition providers" ON public.recognition_providers;
+CREATE POLICY "Service role can manage recognition providers" ON public.recognition_providers
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+COMMENT ON TABLE public.recognition_providers IS 'Enabled audio recognition providers, their order, timeouts and confidence thresholds';
+COMMENT ON COLUMN public.recognition_providers.settings IS 'Provider-specific options, e.g. max_results for acrcloud_humming or model for whisper';
@@ -0,0 +1,197 @@
+-- ============================================
+-- Catalog Track Fingerprints
+-- ============================================
+-- Chromaprint-style fingerprints of our own catalog audio
+-- (_shared/fingerprint.ts), computed by recall-v2-fingerprint-indexer.
+-- recall-v2-identify matches uploads against them through the
+-- catalog_fingerprint recognition provider before any paid API.
+--
+-- track_fingerprints holds one row per track: the sub-fingerprints (32-bit
+-- codes stored as signed INTEGERs) or why the track could not be indexed.
+-- track_fingerprint_hashes maps the top 20 bits of every non-silent code
+-- to its position, so a query finds candidate tracks and their alignment
+-- by voting instead of scanning every fingerprint.
+--
+-- Only tracks on public albums are indexed and matched.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.track_fingerprints (
+  track_id UUID PRIMARY KEY REFERENCES public.tracks(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('indexed', 'unsupported', 'failed')),
+  algorithm SMALLINT NOT NULL,
+  source_url TEXT NOT NULL, -- tracks.audio_url it was computed from
+  fingerprint INTEGER[],
+  duration_seconds REAL,
+  error TEXT,
+  indexed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.track_fingerprint_hashes (
+  hash INTEGER NOT NULL,
+  track_id UUID NOT NULL REFERENCES public.tracks(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_track_fingerprint_hashes_hash ON public.track_fingerprint_hashes(hash);
+CREATE INDEX IF NOT EXISTS idx_track_fingerprint_hashes_track_id ON public.track_fingerprint_hashes(track_id);
+
+ALTER TABLE public.track_fingerprints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.track_fingerprint_hashes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage track fingerprints" ON public.track_fingerprints;
+CREATE POLICY "Service role can manage track fingerprints" ON public.track_fingerprints
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage track fingerprint hashes" ON public.track_fingerprint_hashes;
+CREATE POLICY "Service role can manage track fingerprint hashes" ON public.track_fingerprint_hashes
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Tracks on public albums that need (re)indexing: never indexed, indexed by an older algorithm,
+-- audio replaced since, or failed more than a day ago. p_track_ids restricts the batch.
+CREATE OR REPLACE FUNCTION public.pending_track_fingerprints(
+  p_algorithm SMALLINT,
+  p_limit INTEGER DEFAULT 10,
+  p_track_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  track_id UUID,
+  audio_url TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.id, t.audio_url
+  FROM public.tracks t
+  JOIN public.albums a ON a.id = t.album_id
+  LEFT JOIN public.track_fingerprints f ON f.track_id = t.id
+  WHERE a.is_public = true
+    AND t.audio_url IS NOT NULL
+    AND (p_track_ids IS NULL OR t.id = ANY(p_track_ids))
+    AND (
+      f.track_id IS NULL
+      OR f.algorithm < p_algorithm
+      OR f.source_url <> t.audio_url
+      OR (f.status = 'failed' AND f.indexed_at < NOW() - INTERVAL '1 day')
+    )
+  ORDER BY f.indexed_at NULLS FIRST, t.id
+  LIMIT p_limit;
+END;
+$$;
+
+-- Replaces a track's fingerprint and lookup hashes. Tracks that could not be indexed get a row
+-- with status and error only, so they are not retried on every run.
+CREATE OR REPLACE FUNCTION public.store_track_fingerprint(
+  p_track_id UUID,
+  p_algorithm SMALLINT,
+  p_source_url TEXT,
+  p_status TEXT,
+  p_fingerprint INTEGER[] DEFAULT NULL,
+  p_duration_seconds REAL DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.track_fingerprints (track_id, status, algorithm, source_url, fingerprint, duration_seconds, error, indexed_at)
+  VALUES (p_track_id, p_status, p_algorithm, p_source_url, p_fingerprint, p_duration_seconds, p_error, NOW())
+  ON CONFLICT (track_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    algorithm = EXCLUDED.algorithm,
+    source_url = EXCLUDED.source_url,
+    fingerprint = EXCLUDED.fingerprint,
+    duration_seconds = EXCLUDED.duration_seconds,
+    error = EXCLUDED.error,
+    indexed_at = EXCLUDED.indexed_at;
+
+  DELETE FROM public.track_fingerprint_hashes h WHERE h.track_id = p_track_id;
+
+  IF p_status = 'indexed' AND p_fingerprint IS NOT NULL THEN
+    INSERT INTO public.track_fingerprint_hashes (hash, track_id, position)
+    SELECT (code >> 12) & 1048575, p_track_id, (ord - 1)::INTEGER
+    FROM unnest(p_fingerprint) WITH ORDINALITY AS c(code, ord)
+    WHERE code <> 0;
+  END IF;
+END;
+$$;
+
+-- Candidate tracks for a query fingerprint: each shared hash votes for an alignment
+-- (reference position - query position), and every track keeps its best-voted alignment.
+-- The caller scores the returned fingerprints bit by bit around that alignment.
+CREATE OR REPLACE FUNCTION public.match_track_fingerprint(
+  p_fingerprint INTEGER[],
+  p_algorithm SMALLINT,
+  p_min_votes INTEGER DEFAULT 3,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  track_id UUID,
+  offset_frames INTEGER,
+  votes INTEGER,
+  title TEXT,
+  artist TEXT,
+  audio_url TEXT,
+  fingerprint INTEGER[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH query AS (
+    SELECT (code >> 12) & 1048575 AS hash, (ord - 1)::INTEGER AS position
+    FROM unnest(p_fingerprint) WITH ORDINALITY AS c(code, ord)
+    WHERE code <> 0
+  ),
+  alignments AS (
+    SELECT h.track_id, h.position - q.position AS offset_frames, COUNT(*)::INTEGER AS votes
+    FROM query q
+    JOIN public.track_fingerprint_hashes h ON h.hash = q.hash
+    GROUP BY h.track_id, h.position - q.position
+  ),
+  best AS (
+    SELECT DISTINCT ON (al.track_id) al.track_id, al.offset_frames, al.votes
+    FROM alignments al
+    WHERE al.votes >= p_min_votes
+    ORDER BY al.track_id, al.votes DESC
+  )
+  SELECT b.track_id, b.offset_frames, b.votes, t.title, COALESCE(a.artist_name, sa.name, '')::TEXT, t.audio_url, f.fingerprint
+  FROM best b
+  JOIN public.track_fingerprints f ON f.track_id = b.track_id AND f.status = 'indexed' AND f.algorithm = p_algorithm
+  JOIN public.tracks t ON t.id = b.track_id
+  JOIN public.albums a ON a.id = t.album_id AND a.is_public = true
+  LEFT JOIN public.studio_artists sa ON sa.id = a.artist_id
+  ORDER BY b.votes DESC
+  LIMIT p_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.pending_track_fingerprints(SMALLINT, INTEGER, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.store_track_fingerprint(UUID, SMALLINT, TEXT, TEXT, INTEGER[], REAL, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.match_track_fingerprint(INTEGER[], SMALLINT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- First-pass recognition
+-- ============================================
+-- Providers with accept_confidence run before the others; a match at or
+-- above it ends recognition without calling the remaining providers.
+
+ALTER TABLE public.recognition_providers
+  ADD COLUMN IF NOT EXISTS accept_confidence NUMERIC(3,2)
+    CHECK (accept_confidence IS NULL OR (accept_confidence > 0 AND accept_confidence <= 1));
+
+INSERT INTO public.recognition_providers (provider, priority, timeout_ms, min_confidence, max_confidence, accept_confidence, input_types, settings) VALUES
+  ('catalog_fingerprint', 0, 10000, 0.35, 0.95, 0.6, ARRAY['voice', 'background'], '{"max_results": 3}'::jsonb)
+ON CONFLICT (provider) DO NOTHING;
+
+COMMENT ON TABLE public.track_fingerprints IS 'Chromaprint-style fingerprints of catalog tracks for local audio identification';
+COMMENT ON COLUMN public.recognition_providers.accept_confidence IS 'Run this provider first; a match at or above this skips the remaining providers';
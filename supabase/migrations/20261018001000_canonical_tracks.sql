@@ -0,0 +1,148 @@
+-- ============================================
+-- Canonical Tracks
+-- ============================================
+-- Songs the recall functions suggest, resolved from the model's free-text
+-- title and artist to a catalog entry (_shared/tracks/resolver.ts): ISRC,
+-- Spotify and Apple Music ids and links, album, duration and artwork.
+--
+-- public.tracks is already the studio catalog (uploads with album_id and
+-- audio_url), so resolved songs get their own table. A studio track is a
+-- different thing from a commercial release and the two are not merged.
+--
+-- canonical_track_lookups caches the resolution per spelling-insensitive
+-- song key ("title|primary artist", see _shared/tracks/normalize.ts);
+-- a NULL track_id records that no catalog had the song. Different
+-- spellings of one song share a canonical row through its ISRC or ids.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.canonical_tracks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL,
+  album TEXT,
+  isrc TEXT UNIQUE,
+  spotify_id TEXT UNIQUE,
+  apple_music_id TEXT UNIQUE,
+  duration_ms INTEGER,
+  artwork_url TEXT,
+  release_date TEXT, -- As precise as the catalog knows it: YYYY, YYYY-MM or YYYY-MM-DD
+  spotify_url TEXT,
+  apple_music_url TEXT,
+  providers TEXT[] NOT NULL DEFAULT '{}', -- Metadata providers that contributed
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.canonical_track_lookups (
+  lookup_key TEXT PRIMARY KEY,
+  track_id UUID REFERENCES public.canonical_tracks(id) ON DELETE CASCADE,
+  resolved_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_canonical_track_lookups_track_id ON public.canonical_track_lookups(track_id);
+
+ALTER TABLE public.canonical_tracks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.canonical_track_lookups ENABLE ROW LEVEL SECURITY;
+
+-- Catalog metadata, nothing user-specific: readable by signed-in users for candidate cards
+DROP POLICY IF EXISTS "Authenticated users can view canonical tracks" ON public.canonical_tracks;
+CREATE POLICY "Authenticated users can view canonical tracks" ON public.canonical_tracks
+  FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+DROP POLICY IF EXISTS "Service role can manage canonical tracks" ON public.canonical_tracks;
+CREATE POLICY "Service role can manage canonical tracks" ON public.canonical_tracks
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage canonical track lookups" ON public.canonical_track_lookups;
+CREATE POLICY "Service role can manage canonical track lookups" ON public.canonical_track_lookups
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Stores a resolved track and points the lookup key at it. An existing row with the same ISRC,
+-- Spotify id or Apple Music id is updated instead of adding a duplicate: ids it lacks are filled
+-- in (unless another row already has them), links and artwork are refreshed, and its title and
+-- artist stay as first resolved.
+CREATE OR REPLACE FUNCTION public.upsert_canonical_track(
+  p_lookup_key TEXT,
+  p_track JSONB
+)
+RETURNS SETOF public.canonical_tracks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_isrc TEXT := NULLIF(p_track->>'isrc', '');
+  v_spotify_id TEXT := NULLIF(p_track->>'spotify_id', '');
+  v_apple_music_id TEXT := NULLIF(p_track->>'apple_music_id', '');
+  v_providers TEXT[] := COALESCE(ARRAY(SELECT jsonb_array_elements_text(p_track->'providers')), '{}');
+  v_id UUID;
+BEGIN
+  -- A concurrent insert of the same track makes the INSERT a no-op; the next pass finds its row
+  FOR attempt IN 1..3 LOOP
+    SELECT ct.id INTO v_id
+    FROM public.canonical_tracks ct
+    WHERE ct.isrc = v_isrc OR ct.spotify_id = v_spotify_id OR ct.apple_music_id = v_apple_music_id
+    ORDER BY (ct.isrc = v_isrc) IS TRUE DESC, ct.created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_id IS NOT NULL THEN
+      UPDATE public.canonical_tracks ct SET
+        isrc = COALESCE(ct.isrc, CASE WHEN NOT EXISTS (
+          SELECT 1 FROM public.canonical_tracks o WHERE o.isrc = v_isrc) THEN v_isrc END),
+        spotify_id = COALESCE(ct.spotify_id, CASE WHEN NOT EXISTS (
+          SELECT 1 FROM public.canonical_tracks o WHERE o.spotify_id = v_spotify_id) THEN v_spotify_id END),
+        apple_music_id = COALESCE(ct.apple_music_id, CASE WHEN NOT EXISTS (
+          SELECT 1 FROM public.canonical_tracks o WHERE o.apple_music_id = v_apple_music_id) THEN v_apple_music_id END),
+        album = COALESCE(ct.album, p_track->>'album'),
+        duration_ms = COALESCE((p_track->>'duration_ms')::INTEGER, ct.duration_ms),
+        artwork_url = COALESCE(p_track->>'artwork_url', ct.artwork_url),
+        release_date = COALESCE(ct.release_date, p_track->>'release_date'),
+        spotify_url = COALESCE(p_track->>'spotify_url', ct.spotify_url),
+        apple_music_url = COALESCE(p_track->>'apple_music_url', ct.apple_music_url),
+        providers = ARRAY(SELECT DISTINCT unnest(ct.providers || v_providers) ORDER BY 1),
+        updated_at = NOW()
+      WHERE ct.id = v_id;
+      EXIT;
+    END IF;
+
+    INSERT INTO public.canonical_tracks (
+      title, artist, album, isrc, spotify_id, apple_music_id, duration_ms,
+      artwork_url, release_date, spotify_url, apple_music_url, providers
+    ) VALUES (
+      p_track->>'title', p_track->>'artist', p_track->>'album', v_isrc, v_spotify_id, v_apple_music_id,
+      (p_track->>'duration_ms')::INTEGER, p_track->>'artwork_url', p_track->>'release_date',
+      p_track->>'spotify_url', p_track->>'apple_music_url', v_providers
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_id;
+
+    EXIT WHEN v_id IS NOT NULL;
+  END LOOP;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'Could not store canonical track for %', p_lookup_key;
+  END IF;
+
+  INSERT INTO public.canonical_track_lookups (lookup_key, track_id, resolved_at)
+  VALUES (p_lookup_key, v_id, NOW())
+  ON CONFLICT (lookup_key) DO UPDATE SET
+    track_id = EXCLUDED.track_id,
+    resolved_at = EXCLUDED.resolved_at;
+
+  RETURN QUERY SELECT * FROM public.canonical_tracks ct WHERE ct.id = v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.upsert_canonical_track(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Candidates point at the track they resolved to
+ALTER TABLE public.recall_candidates
+  ADD COLUMN IF NOT EXISTS canonical_track_id UUID REFERENCES public.canonical_tracks(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE public.canonical_tracks IS 'Catalog metadata (ISRC, streaming ids, artwork) for songs suggested by recall';
+COMMENT ON TABLE public.canonical_track_lookups IS 'Cache from normalized title|artist to canonical_tracks; NULL track_id means no catalog had it';
+COMMENT ON COLUMN public.recall_candidates.canonical_track_id IS 'Canonical track the candidate resolved to, if any';
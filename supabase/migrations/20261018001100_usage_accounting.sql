@@ -0,0 +1,261 @@
+-- ============================================
+-- Usage and Cost Accounting
+-- ============================================
+-- One row per upstream call (LLM chat and transcription through
+-- _shared/llm.ts, recognition providers through _shared/recognition/),
+-- written by _shared/usage.ts against the request, recall and user that
+-- caused it. The estimated cost is priced on insert from usage_prices, so
+-- a price change applies to new calls without a deploy and old rows keep
+-- the price they were billed at.
+--
+-- usage_budgets caps what a plan (user_plans, see the rate limiter
+-- migration) may spend per calendar month (UTC); user_plans.monthly_budget_usd
+-- overrides it per user. recall-v2-router and recall-resolve check
+-- usage_budget_status() before starting work.
+-- ============================================
+
+-- ============================================
+-- 1. Prices
+-- ============================================
+
+-- USD list prices per provider and model. model '*' prices every model of the provider
+-- that has no row of its own; a call with no matching row costs 0.
+CREATE TABLE IF NOT EXISTS public.usage_prices (
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL DEFAULT '*',
+  prompt_per_million NUMERIC NOT NULL DEFAULT 0 CHECK (prompt_per_million >= 0),
+  completion_per_million NUMERIC NOT NULL DEFAULT 0 CHECK (completion_per_million >= 0),
+  audio_per_minute NUMERIC NOT NULL DEFAULT 0 CHECK (audio_per_minute >= 0),
+  per_call NUMERIC NOT NULL DEFAULT 0 CHECK (per_call >= 0),
+  description TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (provider, model)
+);
+
+INSERT INTO public.usage_prices (provider, model, prompt_per_million, completion_per_million, audio_per_minute, per_call, description) VALUES
+  ('openai', 'gpt-4o', 2.50, 10.00, 0, 0, 'OpenAI list price'),
+  ('openai', 'gpt-4o-mini', 0.15, 0.60, 0, 0, 'OpenAI list price'),
+  ('openai', 'whisper-1', 0, 0, 0.006, 0, 'OpenAI list price'),
+  ('acrcloud', '*', 0, 0, 0, 0.002, 'Estimate per identification request'),
+  ('acrcloud_humming', '*', 0, 0, 0, 0.002, 'Estimate per identification request'),
+  ('shazam', '*', 0, 0, 0, 0.001, 'RapidAPI plan estimate per request')
+ON CONFLICT (provider, model) DO NOTHING;
+
+-- ============================================
+-- 2. Usage Events
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name TEXT NOT NULL, -- Edge function that made the call
+  provider TEXT NOT NULL, -- LLM provider ('openai', or the base URL host) or recognition provider id
+  model TEXT,
+  operation TEXT NOT NULL, -- LLM task ('resolve', 'transcribe', ...) or 'recognition'
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error')),
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  audio_seconds NUMERIC NOT NULL DEFAULT 0,
+  cost_usd NUMERIC, -- Priced from usage_prices on insert when not given
+  duration_ms INTEGER,
+  request_id TEXT,
+  recall_id UUID, -- Filled in by the caller, the user_id is taken from the recall when missing
+  user_id UUID,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_created_at ON public.usage_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON public.usage_events(user_id, created_at) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_usage_events_request_id ON public.usage_events(request_id) WHERE request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_usage_events_recall_id ON public.usage_events(recall_id) WHERE recall_id IS NOT NULL;
+
+-- Prices the call and attributes it to the recall's owner
+CREATE OR REPLACE FUNCTION public.price_usage_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_price public.usage_prices%ROWTYPE;
+BEGIN
+  IF NEW.user_id IS NULL AND NEW.recall_id IS NOT NULL THEN
+    SELECT r.user_id INTO NEW.user_id FROM public.recalls r WHERE r.id = NEW.recall_id;
+  END IF;
+
+  IF NEW.cost_usd IS NULL THEN
+    SELECT * INTO v_price
+    FROM public.usage_prices p
+    WHERE p.provider = NEW.provider AND p.model IN (COALESCE(NEW.model, '*'), '*')
+    ORDER BY (p.model = '*')
+    LIMIT 1;
+
+    NEW.cost_usd := CASE WHEN FOUND THEN ROUND(
+      NEW.prompt_tokens * v_price.prompt_per_million / 1000000
+        + NEW.completion_tokens * v_price.completion_per_million / 1000000
+        + NEW.audio_seconds * v_price.audio_per_minute / 60
+        + v_price.per_call,
+      8) ELSE 0 END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS price_usage_event ON public.usage_events;
+CREATE TRIGGER price_usage_event
+  BEFORE INSERT ON public.usage_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.price_usage_event();
+
+-- ============================================
+-- 3. Budgets
+-- ============================================
+
+-- Monthly spend cap per plan; NULL means unlimited. A plan without a row falls back to 'free'.
+CREATE TABLE IF NOT EXISTS public.usage_budgets (
+  plan TEXT PRIMARY KEY,
+  monthly_budget_usd NUMERIC CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0),
+  description TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.usage_budgets (plan, monthly_budget_usd, description) VALUES
+  ('free', 2.00, 'About 200 voice recalls a month'),
+  ('pro', 20.00, 'About 2000 voice recalls a month')
+ON CONFLICT (plan) DO NOTHING;
+
+-- Per-user override of the plan's budget
+ALTER TABLE public.user_plans ADD COLUMN IF NOT EXISTS monthly_budget_usd NUMERIC
+  CHECK (monthly_budget_usd IS NULL OR monthly_budget_usd >= 0);
+
+-- ============================================
+-- 4. RLS Policies
+-- ============================================
+
+ALTER TABLE public.usage_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage usage prices" ON public.usage_prices;
+CREATE POLICY "Service role can manage usage prices" ON public.usage_prices
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage usage events" ON public.usage_events;
+CREATE POLICY "Service role can manage usage events" ON public.usage_events
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage usage budgets" ON public.usage_budgets;
+CREATE POLICY "Service role can manage usage budgets" ON public.usage_budgets
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- ============================================
+-- 5. RPCs
+-- ============================================
+
+-- Month-to-date spend against the user's budget. allowed is false once the spend reaches it.
+CREATE OR REPLACE FUNCTION public.usage_budget_status(p_user_id UUID)
+RETURNS TABLE (
+  plan TEXT,
+  budget_usd NUMERIC,
+  spent_usd NUMERIC,
+  remaining_usd NUMERIC,
+  allowed BOOLEAN,
+  period_start TIMESTAMPTZ,
+  resets_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan TEXT;
+  v_override NUMERIC;
+  v_budget NUMERIC;
+  v_spent NUMERIC;
+  v_start TIMESTAMPTZ := date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+  SELECT up.plan, up.monthly_budget_usd INTO v_plan, v_override
+  FROM public.user_plans up WHERE up.user_id = p_user_id;
+  v_plan := COALESCE(v_plan, 'free');
+
+  IF v_override IS NOT NULL THEN
+    v_budget := v_override;
+  ELSE
+    SELECT b.monthly_budget_usd INTO v_budget FROM public.usage_budgets b WHERE b.plan = v_plan;
+    IF NOT FOUND THEN
+      SELECT b.monthly_budget_usd INTO v_budget FROM public.usage_budgets b WHERE b.plan = 'free';
+    END IF;
+  END IF;
+
+  SELECT COALESCE(SUM(e.cost_usd), 0) INTO v_spent
+  FROM public.usage_events e
+  WHERE e.user_id = p_user_id AND e.created_at >= v_start;
+
+  RETURN QUERY SELECT
+    v_plan,
+    v_budget,
+    ROUND(v_spent, 4),
+    CASE WHEN v_budget IS NULL THEN NULL ELSE GREATEST(0, ROUND(v_budget - v_spent, 4)) END,
+    v_budget IS NULL OR v_spent < v_budget,
+    v_start,
+    v_start + INTERVAL '1 month';
+END;
+$$;
+
+-- Daily totals (UTC days) between p_from and p_to inclusive, per function ('function')
+-- or per user ('user'); key is the function name or the user id.
+CREATE OR REPLACE FUNCTION public.usage_daily_costs(
+  p_from DATE,
+  p_to DATE,
+  p_group TEXT DEFAULT 'function'
+)
+RETURNS TABLE (
+  day DATE,
+  key TEXT,
+  calls BIGINT,
+  errors BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  audio_seconds NUMERIC,
+  cost_usd NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_group NOT IN ('function', 'user') THEN
+    RAISE EXCEPTION 'Unknown usage grouping: %', p_group;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (e.created_at AT TIME ZONE 'UTC')::DATE AS day,
+    CASE WHEN p_group = 'user' THEN e.user_id::TEXT ELSE e.function_name END AS key,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE e.status = 'error') AS errors,
+    SUM(e.prompt_tokens)::BIGINT AS prompt_tokens,
+    SUM(e.completion_tokens)::BIGINT AS completion_tokens,
+    ROUND(SUM(e.audio_seconds), 1) AS audio_seconds,
+    ROUND(SUM(COALESCE(e.cost_usd, 0)), 4) AS cost_usd
+  FROM public.usage_events e
+  WHERE e.created_at >= p_from::TIMESTAMP AT TIME ZONE 'UTC'
+    AND e.created_at < (p_to + 1)::TIMESTAMP AT TIME ZONE 'UTC'
+  GROUP BY 1, 2
+  ORDER BY 1, 8 DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.price_usage_event() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.usage_budget_status(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.usage_daily_costs(DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.usage_prices IS 'USD prices per provider and model used to estimate usage_events.cost_usd';
+COMMENT ON TABLE public.usage_events IS 'One row per upstream LLM, transcription or recognition call, with tokens, audio seconds and estimated cost';
+COMMENT ON TABLE public.usage_budgets IS 'Monthly spend cap per plan (NULL = unlimited); user_plans.monthly_budget_usd overrides it per user';
+COMMENT ON FUNCTION public.usage_budget_status IS 'Month-to-date spend, budget and whether the user may start more work';
+COMMENT ON FUNCTION public.usage_daily_costs IS 'Daily call counts, tokens, audio seconds and cost per function or per user';
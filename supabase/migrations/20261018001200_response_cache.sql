@@ -0,0 +1,179 @@
+-- ============================================
+-- Semantic Response Cache
+-- ============================================
+-- Validated results of recall-resolve (candidates or answer) and
+-- recall-v2-knowledge (answer with sources), shared across isolates so an
+-- identical or near-identical question skips the model
+-- (_shared/responseCache.ts).
+--
+-- A lookup first tries the exact normalized query text, then the nearest
+-- stored query by embedding (cosine similarity, pgvector). Entries carry
+-- the source_version of the prompts, schema and model that produced them;
+-- bumping it orphans the old entries, which then simply expire.
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.response_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('resolve', 'knowledge')),
+  source_version TEXT NOT NULL,
+  query_key TEXT NOT NULL, -- Normalized query text (normalizeCacheQuery)
+  query_text TEXT NOT NULL, -- The query as first asked
+  embedding extensions.vector(1536), -- NULL when the embedding call failed; exact matches still work
+  embedding_model TEXT,
+  response JSONB NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_hit_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (scope, source_version, query_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_response_cache_embedding ON public.response_cache
+  USING hnsw (embedding extensions.vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_response_cache_expires_at ON public.response_cache(expires_at);
+
+ALTER TABLE public.response_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage response cache" ON public.response_cache;
+CREATE POLICY "Service role can manage response cache" ON public.response_cache
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Best live entry for the query: the exact key, else the most similar embedding at or above
+-- p_min_similarity (same embedding model only). Counts the hit.
+CREATE OR REPLACE FUNCTION public.lookup_response_cache(
+  p_scope TEXT,
+  p_source_version TEXT,
+  p_query_key TEXT,
+  p_embedding extensions.vector DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL,
+  p_min_similarity DOUBLE PRECISION DEFAULT 0.95
+)
+RETURNS TABLE (
+  id UUID,
+  response JSONB,
+  match_type TEXT,
+  similarity DOUBLE PRECISION,
+  query_text TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id UUID;
+  v_match TEXT;
+  v_similarity DOUBLE PRECISION;
+BEGIN
+  SELECT c.id INTO v_id
+  FROM public.response_cache c
+  WHERE c.scope = p_scope
+    AND c.source_version = p_source_version
+    AND c.query_key = p_query_key
+    AND c.expires_at > NOW();
+
+  IF FOUND THEN
+    v_match := 'exact';
+    v_similarity := 1;
+  ELSIF p_embedding IS NOT NULL THEN
+    SELECT c.id, 1 - (c.embedding <=> p_embedding) INTO v_id, v_similarity
+    FROM public.response_cache c
+    WHERE c.scope = p_scope
+      AND c.source_version = p_source_version
+      AND c.embedding IS NOT NULL
+      AND c.embedding_model IS NOT DISTINCT FROM p_embedding_model
+      AND c.expires_at > NOW()
+    ORDER BY c.embedding <=> p_embedding
+    LIMIT 1;
+
+    IF FOUND AND v_similarity >= p_min_similarity THEN
+      v_match := 'semantic';
+    ELSE
+      v_id := NULL;
+    END IF;
+  END IF;
+
+  IF v_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.response_cache c
+  SET hit_count = c.hit_count + 1,
+      last_hit_at = NOW()
+  WHERE c.id = v_id
+  RETURNING c.id, c.response, v_match, v_similarity, c.query_text, c.created_at;
+END;
+$$;
+
+-- Stores (or refreshes) the entry for the query, live for p_ttl_seconds
+CREATE OR REPLACE FUNCTION public.store_response_cache(
+  p_scope TEXT,
+  p_source_version TEXT,
+  p_query_key TEXT,
+  p_query_text TEXT,
+  p_response JSONB,
+  p_ttl_seconds INTEGER,
+  p_embedding extensions.vector DEFAULT NULL,
+  p_embedding_model TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO public.response_cache AS c (
+    scope, source_version, query_key, query_text, embedding, embedding_model, response, expires_at
+  ) VALUES (
+    p_scope, p_source_version, p_query_key, p_query_text, p_embedding, p_embedding_model, p_response,
+    NOW() + make_interval(secs => p_ttl_seconds)
+  )
+  ON CONFLICT (scope, source_version, query_key) DO UPDATE SET
+    query_text = EXCLUDED.query_text,
+    embedding = COALESCE(EXCLUDED.embedding, c.embedding),
+    embedding_model = CASE WHEN EXCLUDED.embedding IS NULL THEN c.embedding_model ELSE EXCLUDED.embedding_model END,
+    response = EXCLUDED.response,
+    hit_count = 0,
+    created_at = NOW(),
+    last_hit_at = NULL,
+    expires_at = EXCLUDED.expires_at
+  RETURNING c.id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prune_response_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.response_cache WHERE expires_at < NOW();
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- Embeddings for the semantic lookup (text-embedding-3-small, see _shared/llm.ts task "embed")
+INSERT INTO public.usage_prices (provider, model, prompt_per_million, completion_per_million, audio_per_minute, per_call, description) VALUES
+  ('openai', 'text-embedding-3-small', 0.02, 0, 0, 0, 'OpenAI list price')
+ON CONFLICT (provider, model) DO NOTHING;
+
+REVOKE ALL ON FUNCTION public.lookup_response_cache(TEXT, TEXT, TEXT, extensions.vector, TEXT, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.store_response_cache(TEXT, TEXT, TEXT, TEXT, JSONB, INTEGER, extensions.vector, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.prune_response_cache() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.response_cache IS 'Validated recall-resolve and knowledge results by normalized query and embedding, with TTL and source version';
+COMMENT ON FUNCTION public.lookup_response_cache IS 'Exact then semantic (cosine) lookup of a live cache entry; counts the hit';
+COMMENT ON FUNCTION public.store_response_cache IS 'Stores or refreshes the cache entry for a normalized query';
+COMMENT ON FUNCTION public.prune_response_cache IS 'Deletes expired response cache entries';
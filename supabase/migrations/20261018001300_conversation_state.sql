@@ -0,0 +1,61 @@
+-- ============================================
+-- Conversation State
+-- ============================================
+-- Per-thread memory for recall-resolve (recall-resolve/conversationState.ts).
+-- Every recall_messages row is folded into the state once, in order:
+-- what the user told us (facts), songs they turned down or confirmed,
+-- follow-up questions already asked and their answers.
+-- processed_through is the created_at of the last folded message.
+--
+-- Turns older than the most recent ones are condensed into a rolling
+-- summary by the model; summarized_through marks the last message it
+-- covers, so a long thread keeps its early details without sending the
+-- whole history on every turn.
+--
+-- version guards the folded fields against two turns of one thread
+-- saving at once: a save that lost the race is dropped and the messages
+-- it folded are folded again by the next turn.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.recall_thread_states (
+  thread_id UUID PRIMARY KEY REFERENCES public.recall_threads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  facts JSONB NOT NULL DEFAULT '{}'::jsonb, -- ExtractedInfo: {genre: {value, confidence}, decade, lyrics, exclusions, ...}
+  rejected_candidates JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{title, artist}]
+  identified_songs JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{title, artist}]
+  questions_asked JSONB NOT NULL DEFAULT '[]'::jsonb, -- Follow-up questions, oldest first
+  user_answers JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{question, answer}]
+  recent_queries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  clarifications JSONB NOT NULL DEFAULT '[]'::jsonb,
+  pending_question TEXT, -- Last follow-up question, until the user answers it
+  flow TEXT NOT NULL DEFAULT 'initial' CHECK (flow IN ('initial', 'refining', 'found', 'general_question')),
+  message_count INTEGER NOT NULL DEFAULT 0, -- Messages folded so far
+  processed_through TIMESTAMPTZ,
+  summary TEXT,
+  summarized_through TIMESTAMPTZ,
+  summarized_count INTEGER NOT NULL DEFAULT 0, -- Messages the summary covers
+  version INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recall_thread_states_user_id ON public.recall_thread_states(user_id);
+
+-- Folding reads a thread's messages after a watermark
+CREATE INDEX IF NOT EXISTS idx_recall_messages_thread_created_at ON public.recall_messages(thread_id, created_at);
+
+ALTER TABLE public.recall_thread_states ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own thread states" ON public.recall_thread_states;
+CREATE POLICY "Users can view their own thread states" ON public.recall_thread_states
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Service role can manage thread states" ON public.recall_thread_states;
+CREATE POLICY "Service role can manage thread states" ON public.recall_thread_states
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+COMMENT ON TABLE public.recall_thread_states IS 'Per-thread conversation memory for recall-resolve: folded facts, rejected songs, questions asked and a rolling summary';
+COMMENT ON COLUMN public.recall_thread_states.processed_through IS 'created_at of the last recall_messages row folded into the state';
+COMMENT ON COLUMN public.recall_thread_states.summarized_through IS 'created_at of the last recall_messages row covered by summary';
@@ -0,0 +1,98 @@
+-- ============================================
+-- Concurrent Request Limit
+-- ============================================
+-- Caps how many requests one user can have in flight per function,
+-- next to the token buckets of 20261018000100_rate_limiter.sql
+-- (which limit the request rate, not overlap). The cap is per plan:
+-- rate_limit_tiers.max_concurrent on the 'user' tiers, NULL for none.
+--
+-- A request takes a slot with acquire_concurrency_slot() and gives it
+-- back with release_concurrency_slot(). Slots expire after their TTL,
+-- so an isolate that dies mid-request frees its slots on its own.
+-- ============================================
+
+ALTER TABLE public.rate_limit_tiers
+  ADD COLUMN IF NOT EXISTS max_concurrent INTEGER CHECK (max_concurrent IS NULL OR max_concurrent > 0);
+
+UPDATE public.rate_limit_tiers SET max_concurrent = 5 WHERE scope = 'user' AND plan = 'free' AND max_concurrent IS NULL;
+UPDATE public.rate_limit_tiers SET max_concurrent = 10 WHERE scope = 'user' AND plan = 'pro' AND max_concurrent IS NULL;
+
+-- One row per request holding a slot
+CREATE TABLE IF NOT EXISTS public.rate_limit_inflight (
+  request_id TEXT PRIMARY KEY,
+  key TEXT NOT NULL, -- e.g. 'recall-resolve:user:<uuid>'
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_inflight_key_expires_at ON public.rate_limit_inflight(key, expires_at);
+
+ALTER TABLE public.rate_limit_inflight ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage in-flight requests" ON public.rate_limit_inflight;
+CREATE POLICY "Service role can manage in-flight requests" ON public.rate_limit_inflight
+  FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Takes a slot for p_request_id unless the user already has max_concurrent live ones.
+-- Acquires on one key are serialized by an advisory lock, so two requests cannot both take the last slot.
+CREATE OR REPLACE FUNCTION public.acquire_concurrency_slot(
+  p_bucket TEXT,
+  p_user_id UUID,
+  p_request_id TEXT,
+  p_ttl_seconds INTEGER DEFAULT 300
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  active INTEGER,
+  max_concurrent INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key TEXT := p_bucket || ':user:' || p_user_id::TEXT;
+  v_plan TEXT;
+  v_max INTEGER;
+  v_active INTEGER;
+BEGIN
+  SELECT up.plan INTO v_plan FROM public.user_plans up WHERE up.user_id = p_user_id;
+  SELECT t.max_concurrent INTO v_max FROM public.rate_limit_tiers t WHERE t.scope = 'user' AND t.plan = COALESCE(v_plan, 'free');
+  IF NOT FOUND THEN
+    SELECT t.max_concurrent INTO v_max FROM public.rate_limit_tiers t WHERE t.scope = 'user' AND t.plan = 'free';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('rate_limit_inflight:' || v_key));
+  DELETE FROM public.rate_limit_inflight f WHERE f.key = v_key AND f.expires_at <= NOW();
+  SELECT COUNT(*)::INTEGER INTO v_active FROM public.rate_limit_inflight f WHERE f.key = v_key;
+
+  IF v_max IS NOT NULL AND v_active >= v_max THEN
+    RETURN QUERY SELECT false, v_active, v_max;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rate_limit_inflight (request_id, key, expires_at)
+  VALUES (p_request_id, v_key, NOW() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (request_id) DO UPDATE SET expires_at = EXCLUDED.expires_at;
+
+  RETURN QUERY SELECT true, v_active + 1, v_max;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_concurrency_slot(p_request_id TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.rate_limit_inflight WHERE request_id = p_request_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.acquire_concurrency_slot(TEXT, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_concurrency_slot(TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.rate_limit_tiers.max_concurrent IS 'Requests one user may have in flight per function (user tiers only); NULL for no limit';
+COMMENT ON TABLE public.rate_limit_inflight IS 'Concurrency slots held by in-flight requests, written only through acquire/release_concurrency_slot';
+COMMENT ON FUNCTION public.acquire_concurrency_slot IS 'Takes a concurrency slot for a request unless the user is at their plan''s max_concurrent';
+COMMENT ON FUNCTION public.release_concurrency_slot IS 'Gives back the concurrency slot held by a request';
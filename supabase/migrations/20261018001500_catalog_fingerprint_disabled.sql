@@ -0,0 +1,20 @@
+-- ============================================
+-- Catalog Fingerprint Provider Off By Default
+-- ============================================
+-- _shared/fingerprint.ts only fingerprints linear PCM (wav, caf): the edge
+-- runtime has no AAC decoder. Catalog tracks and app recordings are mostly
+-- AAC (m4a), so the indexer stores them as 'unsupported' and uploads in
+-- that format are never matched. Running catalog_fingerprint as a first
+-- pass (20261018000900_track_fingerprints.sql) only adds a lookup to every
+-- identify request.
+--
+-- The provider stays seeded but disabled. Enable it once the catalog has
+-- PCM audio indexed (track_fingerprints.status = 'indexed') or AAC can be
+-- decoded:
+--   UPDATE public.recognition_providers SET enabled = true WHERE provider = 'catalog_fingerprint';
+-- ============================================
+
+UPDATE public.recognition_providers
+SET enabled = false,
+    updated_at = NOW()
+WHERE provider = 'catalog_fingerprint';
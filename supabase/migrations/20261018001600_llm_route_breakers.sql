@@ -0,0 +1,103 @@
+-- ============================================
+-- Circuit Breakers Per LLM Route
+-- ============================================
+-- _shared/llm.ts keeps one breaker per route, named '<provider>:<model>'
+-- (e.g. 'openai:gpt-4o'), so the 'openai' row seeded by
+-- 20261018000200_circuit_breakers.sql is no longer what any call
+-- acquires. It now holds the settings for that provider's routes: a route
+-- breaker created by circuit_breaker_acquire() copies failure_threshold,
+-- cooldown_seconds and half_open_max_calls from the row named after its
+-- provider, so models switched through LLM_MODEL_<TASK> get them too.
+-- Names without a provider row keep the column defaults.
+--
+-- The routes of the default task models are seeded here. The 'whisper'
+-- row stays: it is the breaker of the whisper recognition provider, while
+-- its transcription calls go through 'openai:whisper-1'.
+-- ============================================
+
+INSERT INTO public.circuit_breakers (provider, failure_threshold, cooldown_seconds, half_open_max_calls)
+SELECT route.name, p.failure_threshold, p.cooldown_seconds, p.half_open_max_calls
+FROM (VALUES
+  ('openai:gpt-4o'),
+  ('openai:gpt-4o-mini'),
+  ('openai:whisper-1'),
+  ('openai:text-embedding-3-small')
+) AS route(name)
+JOIN public.circuit_breakers p ON p.provider = 'openai'
+ON CONFLICT (provider) DO NOTHING;
+
+-- Same as in 20261018000200_circuit_breakers.sql, except that a new breaker takes its
+-- settings from its provider's row
+CREATE OR REPLACE FUNCTION public.circuit_breaker_acquire(p_provider TEXT)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  state TEXT,
+  retry_after_seconds INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_breaker public.circuit_breakers%ROWTYPE;
+BEGIN
+  IF position(':' IN p_provider) > 0 THEN
+    INSERT INTO public.circuit_breakers (provider, failure_threshold, cooldown_seconds, half_open_max_calls)
+    SELECT p_provider, p.failure_threshold, p.cooldown_seconds, p.half_open_max_calls
+    FROM public.circuit_breakers p
+    WHERE p.provider = split_part(p_provider, ':', 1)
+    ON CONFLICT (provider) DO NOTHING;
+  END IF;
+
+  INSERT INTO public.circuit_breakers (provider) VALUES (p_provider)
+  ON CONFLICT (provider) DO NOTHING;
+
+  SELECT * INTO v_breaker
+  FROM public.circuit_breakers cb
+  WHERE cb.provider = p_provider
+  FOR UPDATE;
+
+  IF v_breaker.state = 'closed' THEN
+    RETURN QUERY SELECT true, 'closed'::TEXT, 0;
+    RETURN;
+  END IF;
+
+  IF v_breaker.state = 'open' THEN
+    IF v_now < v_breaker.opened_at + make_interval(secs => v_breaker.cooldown_seconds) THEN
+      RETURN QUERY SELECT
+        false,
+        'open'::TEXT,
+        GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_breaker.opened_at + make_interval(secs => v_breaker.cooldown_seconds) - v_now))))::INTEGER;
+      RETURN;
+    END IF;
+
+    -- Cooldown over: start probing
+    UPDATE public.circuit_breakers
+    SET state = 'half_open', trial_successes = 0, trials_in_flight = 1, updated_at = v_now
+    WHERE provider = p_provider;
+    RETURN QUERY SELECT true, 'half_open'::TEXT, 0;
+    RETURN;
+  END IF;
+
+  -- half_open
+  IF v_breaker.trials_in_flight > 0
+     AND v_now > v_breaker.updated_at + make_interval(secs => v_breaker.cooldown_seconds) THEN
+    v_breaker.trials_in_flight := 0;
+  END IF;
+
+  IF v_breaker.trials_in_flight + v_breaker.trial_successes < v_breaker.half_open_max_calls THEN
+    UPDATE public.circuit_breakers
+    SET trials_in_flight = v_breaker.trials_in_flight + 1, updated_at = v_now
+    WHERE provider = p_provider;
+    RETURN QUERY SELECT true, 'half_open'::TEXT, 0;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT false, 'half_open'::TEXT, 1;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.circuit_breaker_acquire(TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.circuit_breaker_acquire IS 'Atomically decides whether a call to the provider may proceed (closed, or a half-open trial slot); new provider:model breakers copy their provider row''s settings';
@@ -0,0 +1,20 @@
+-- ============================================
+-- Catalog Fingerprints For AAC
+-- ============================================
+-- _shared/audio.ts now decodes AAC (m4a, and AAC in caf) with FAAD2
+-- compiled to WASM, so the indexer can fingerprint AAC catalog tracks and
+-- app recordings can be matched against them. This reverses
+-- 20261018001500_catalog_fingerprint_disabled.sql.
+--
+-- Tracks stored as 'unsupported' were AAC the indexer could not decode.
+-- Their rows are removed so the next indexer run picks them up again
+-- (pending_track_fingerprints returns tracks without a row first).
+-- ============================================
+
+DELETE FROM public.track_fingerprints
+WHERE status = 'unsupported';
+
+UPDATE public.recognition_providers
+SET enabled = true,
+    updated_at = NOW()
+WHERE provider = 'catalog_fingerprint';